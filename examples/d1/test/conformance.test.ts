@@ -1,7 +1,22 @@
 import { runConformanceTests } from "@durable-streams/server-conformance-tests";
-import { DEFAULT_D1_MAX_CHUNK_BYTES } from "durable-cf-streams/storage/d1";
+import { StreamNotFoundError } from "durable-cf-streams";
+import {
+  createDurableObjectNotifier,
+  createPollingNotifier,
+  type StreamNotifier,
+  StreamNotifierObject,
+} from "durable-cf-streams/storage";
+import {
+  D1Store,
+  DEFAULT_D1_MAX_CHUNK_BYTES,
+} from "durable-cf-streams/storage/d1";
 import { afterAll, beforeAll, describe, expect, it } from "vitest";
-import { type Unstable_DevWorker, unstable_dev } from "wrangler";
+import {
+  getPlatformProxy,
+  type PlatformProxy,
+  type Unstable_DevWorker,
+  unstable_dev,
+} from "wrangler";
 
 let worker: Unstable_DevWorker;
 const config = { baseUrl: "" };
@@ -61,6 +76,187 @@ describe("D1Store storage layout", () => {
   });
 });
 
+describe("D1Store notifiers", () => {
+  let proxy: PlatformProxy<{ DB: D1Database }>;
+
+  beforeAll(async () => {
+    proxy = await getPlatformProxy<{ DB: D1Database }>({ persist: false });
+  });
+
+  afterAll(async () => {
+    await proxy?.dispose();
+  });
+
+  const isolates = async (
+    notifier: () => StreamNotifier
+  ): Promise<[D1Store, D1Store]> => {
+    const writer = new D1Store(proxy.env.DB, { notifier: notifier() });
+    const reader = new D1Store(proxy.env.DB, { notifier: notifier() });
+    await writer.initialize();
+    await reader.initialize();
+    return [writer, reader];
+  };
+
+  const appendAcross = async ([writer, reader]: [D1Store, D1Store]) => {
+    const path = streamPath();
+    const { nextOffset } = await writer.put(path, {
+      contentType: "text/plain",
+    });
+    const wait = reader.waitForData(path, nextOffset, 5000);
+    await writer.append(path, encode("across"));
+    return await wait;
+  };
+
+  it("wakes a reader in another isolate by polling", async () => {
+    const result = await appendAcross(
+      await isolates(() =>
+        createPollingNotifier({ initialIntervalMs: 10, maxIntervalMs: 50 })
+      )
+    );
+
+    expect(result.timedOut).toBe(false);
+    expect(result.messages.map((message) => decode(message.data))).toEqual([
+      "across",
+    ]);
+  });
+
+  it("wakes a reader in another isolate through the coordinator", async () => {
+    const namespace = notifierNamespace();
+    const result = await appendAcross(
+      await isolates(() => createDurableObjectNotifier(namespace))
+    );
+
+    expect(result.timedOut).toBe(false);
+    expect(result.messages.map((message) => decode(message.data))).toEqual([
+      "across",
+    ]);
+  });
+
+  it("stops a subscription once its coordinator fails", async () => {
+    let requests = 0;
+    const notifier = createDurableObjectNotifier(
+      notifierNamespace(() => {
+        requests++;
+        return new Response("unavailable", { status: 503 });
+      })
+    );
+    let changes = 0;
+
+    const unsubscribe = notifier.subscribe("/failing", () => {
+      changes++;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    unsubscribe();
+
+    expect(requests).toBe(1);
+    expect(changes).toBe(0);
+  });
+});
+
+describe("D1Store transactions", () => {
+  let proxy: PlatformProxy<{ DB: D1Database }>;
+  let store: D1Store;
+
+  beforeAll(async () => {
+    proxy = await getPlatformProxy<{ DB: D1Database }>({ persist: false });
+    store = new D1Store(proxy.env.DB);
+    await store.initialize();
+  });
+
+  afterAll(async () => {
+    await proxy?.dispose();
+  });
+
+  it("writes nothing when one append is rejected", async () => {
+    const [a, b] = await createStoreStreams(store, 2);
+
+    await expect(
+      store.transaction([
+        { path: a.path, data: encode("a") },
+        {
+          path: b.path,
+          data: encode("b"),
+          options: { contentType: "application/json" },
+        },
+      ])
+    ).rejects.toThrow();
+
+    expect((await store.get(a.path)).messages).toEqual([]);
+    expect((await store.get(b.path)).messages).toEqual([]);
+  });
+
+  it("rolls back every append when the commit fails", async () => {
+    const [a, b] = await createStoreStreams(store, 2);
+    await proxy.env.DB.exec(
+      `CREATE TRIGGER fail_commit BEFORE INSERT ON stream_chunks WHEN NEW.path = '${b.path}' BEGIN SELECT RAISE(ABORT, 'disk full'); END`
+    );
+
+    try {
+      await expect(
+        store.transaction([
+          { path: a.path, data: encode("a") },
+          { path: b.path, data: encode("b") },
+        ])
+      ).rejects.toThrow("disk full");
+    } finally {
+      await proxy.env.DB.exec("DROP TRIGGER fail_commit");
+    }
+
+    const reopened = new D1Store(proxy.env.DB);
+    expect((await reopened.get(a.path)).messages).toEqual([]);
+    expect((await reopened.get(a.path)).nextOffset).toBe(a.offset);
+  });
+
+  it("gives a producer's append back when the transaction fails on a later path", async () => {
+    const limited = new D1Store(proxy.env.DB, {
+      quotas: { maxProducerAppendsPerSecond: 1 },
+    });
+    const [a] = await createStoreStreams(limited, 1);
+    const producer = { id: "ingest", epoch: 0, seq: 0 };
+
+    await expect(
+      limited.transaction([
+        { path: a.path, data: encode("a"), options: { producer } },
+        { path: streamPath(), data: encode("b") },
+      ])
+    ).rejects.toThrow(StreamNotFoundError);
+
+    await expect(
+      limited.append(a.path, encode("a"), { producer })
+    ).resolves.toMatchObject({ appended: true });
+  });
+
+  it("wakes waiters on every path after the commit", async () => {
+    const tails = await createStoreStreams(store, 2);
+    const waits = tails.map(({ path, offset }) =>
+      store.waitForData(path, offset, 5000)
+    );
+
+    await store.transaction(
+      tails.map(({ path }, index) => ({ path, data: encode(String(index)) }))
+    );
+
+    const results = await Promise.all(waits);
+    expect(results.map((result) => result.timedOut)).toEqual([false, false]);
+    expect(
+      results.map((result) => result.messages.map((m) => decode(m.data)))
+    ).toEqual([["0"], ["1"]]);
+  });
+});
+
+async function createStoreStreams(
+  store: D1Store,
+  count: number
+): Promise<{ path: string; offset: string }[]> {
+  const streams: { path: string; offset: string }[] = [];
+  for (let index = 0; index < count; index++) {
+    const path = streamPath();
+    const created = await store.put(path, { contentType: "text/plain" });
+    streams.push({ path, offset: created.nextOffset });
+  }
+  return streams;
+}
+
 async function createTextStream(path: string, body = ""): Promise<void> {
   const response = await fetch(`${config.baseUrl}${path}`, {
     method: "PUT",
@@ -91,3 +287,35 @@ async function getText(path: string): Promise<string> {
 function streamPath(): string {
   return `/storage-layout-${crypto.randomUUID()}`;
 }
+
+function encode(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function decode(data: Uint8Array): string {
+  return new TextDecoder().decode(data);
+}
+
+/**
+ * a durable object namespace that runs one `StreamNotifierObject` per name in this isolate, or answers every request with `respond`.
+ */
+function notifierNamespace(
+  respond?: (request: Request) => Response
+): DurableObjectNamespace {
+  const objects = new Map<string, StreamNotifierObject>();
+  const stub = (name: string) => ({
+    fetch: async (input: string, init?: RequestInit) => {
+      const request = new Request(input, init);
+      if (respond) {
+        return respond(request);
+      }
+      const object = objects.get(name) ?? new StreamNotifierObject();
+      objects.set(name, object);
+      return await object.fetch(request);
+    },
+  });
+  return {
+    idFromName: (name: string) => name,
+    get: (name: string) => stub(name),
+  } as unknown as DurableObjectNamespace;
+}
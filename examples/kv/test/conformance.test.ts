@@ -1,9 +1,23 @@
 import { runConformanceTests } from "@durable-streams/server-conformance-tests";
-import { afterAll, beforeAll } from "vitest";
-import { type Unstable_DevWorker, unstable_dev } from "wrangler";
+import {
+  formatOffset,
+  initialOffset,
+  type Offset,
+  OffsetTrimmedError,
+  parseOffset,
+} from "durable-cf-streams";
+import { KVStore } from "durable-cf-streams/storage/kv";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  getPlatformProxy,
+  type PlatformProxy,
+  type Unstable_DevWorker,
+  unstable_dev,
+} from "wrangler";
 
 let worker: Unstable_DevWorker;
 const config = { baseUrl: "" };
+const MAX_CHUNK_BYTES = 300;
 
 beforeAll(async () => {
   worker = await unstable_dev("src/index.ts", {
@@ -19,3 +33,299 @@ afterAll(async () => {
 });
 
 runConformanceTests(config);
+
+describe("KVStore storage layout", () => {
+  let proxy: PlatformProxy<{ KV: KVNamespace }>;
+
+  beforeAll(async () => {
+    proxy = await getPlatformProxy<{ KV: KVNamespace }>({ persist: false });
+  });
+
+  afterAll(async () => {
+    await proxy?.dispose();
+  });
+
+  const kvStore = (options?: ConstructorParameters<typeof KVStore>[1]) =>
+    new KVStore(proxy.env.KV, { maxChunkBytes: MAX_CHUNK_BYTES, ...options });
+
+  const chunkKeys = async (path: string): Promise<string[]> => {
+    const { keys } = await proxy.env.KV.list({ prefix: `chunk:${path}:` });
+    return keys
+      .map((key) => key.name)
+      .sort((left, right) => chunkPos(left) - chunkPos(right));
+  };
+
+  it("packs appends into the last chunk until it is full", async () => {
+    const store = kvStore();
+    const path = streamPath();
+    const records = await appendRecords(store, path, 10);
+
+    const keys = await chunkKeys(path);
+    expect(keys.length).toBeGreaterThan(1);
+    expect(keys.length).toBeLessThan(records.length);
+    for (const key of keys) {
+      const value = await proxy.env.KV.get(key, "arrayBuffer");
+      expect(value?.byteLength).toBeLessThanOrEqual(MAX_CHUNK_BYTES);
+    }
+
+    const { messages, upToDate } = await store.get(path);
+    expect(upToDate).toBe(true);
+    expect(messages.map((message) => message.offset)).toEqual(
+      records.map((record) => record.offset)
+    );
+    expect(messages.map((message) => decode(message.data))).toEqual(
+      records.map((record) => record.text)
+    );
+  });
+
+  it("splits an append larger than a chunk across continuation chunks", async () => {
+    const store = kvStore();
+    const path = streamPath();
+    await store.put(path, { contentType: "text/plain" });
+    const large = "large:".padEnd(MAX_CHUNK_BYTES * 3, "l");
+    await store.append(path, encode("small"));
+    await store.append(path, encode(large));
+
+    expect((await chunkKeys(path)).length).toBeGreaterThan(3);
+    const { messages } = await store.get(path);
+    expect(messages.map((message) => decode(message.data))).toEqual([
+      "small",
+      large,
+    ]);
+  });
+
+  it("fetches only the chunks at or after a read's offset", async () => {
+    const reads: string[] = [];
+    const store = new KVStore(recordingKV(proxy.env.KV, reads), {
+      maxChunkBytes: MAX_CHUNK_BYTES,
+    });
+    const path = streamPath();
+    const records = await appendRecords(store, path, 10);
+    const from = records[6] as TextRecord;
+    const keys = await chunkKeys(path);
+    const firstRead = keys.filter(
+      (key) => chunkPos(key) <= offsetPos(from.offset)
+    ).length;
+
+    reads.length = 0;
+    const { messages } = await store.get(path, { offset: from.offset });
+
+    expect(reads.filter((key) => key.startsWith("chunk:"))).toEqual(
+      keys.slice(firstRead - 1)
+    );
+    expect(messages.map((message) => decode(message.data))).toEqual(
+      records.slice(6).map((record) => record.text)
+    );
+  });
+
+  it("returns a partial page once a read reaches maxReadChunks", async () => {
+    const store = kvStore({ maxReadChunks: 1 });
+    const path = streamPath();
+    const records = await appendRecords(store, path, 10);
+
+    const texts: string[] = [];
+    let offset: Offset | undefined;
+    let pages = 0;
+    let upToDate = false;
+    while (!upToDate) {
+      const page = await store.get(path, { offset });
+      texts.push(...page.messages.map((message) => decode(message.data)));
+      ({ nextOffset: offset, upToDate } = page);
+      pages++;
+    }
+
+    expect(pages).toBe((await chunkKeys(path)).length);
+    expect(texts).toEqual(records.map((record) => record.text));
+  });
+
+  it("deletes the chunks retention drops and cuts the chunk it splits", async () => {
+    const store = kvStore();
+    const path = streamPath();
+    await store.put(path, {
+      contentType: "text/plain",
+      retention: { maxMessages: 3 },
+    });
+    const records = await appendRecords(store, path, 10, false);
+    const kept = records.slice(-3);
+
+    const keys = await chunkKeys(path);
+    expect(chunkPos(keys[0] as string)).toBe(
+      offsetPos((kept[0] as TextRecord).offset)
+    );
+    const { messages } = await store.get(path);
+    expect(messages.map((message) => decode(message.data))).toEqual(
+      kept.map((record) => record.text)
+    );
+  });
+
+  it("hides aged-out appends from reads and leaves the trim to the next append", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const writes: string[] = [];
+      const store = new KVStore(recordingKV(proxy.env.KV, [], writes), {
+        maxChunkBytes: MAX_CHUNK_BYTES,
+      });
+      const path = streamPath();
+      await store.put(path, {
+        contentType: "text/plain",
+        retention: { maxAgeSeconds: 60 },
+      });
+      const records = await appendRecords(store, path, 3, false);
+      const keys = await chunkKeys(path);
+      vi.setSystemTime(Date.now() + 120_000);
+      writes.length = 0;
+
+      await expect(store.get(path)).resolves.toMatchObject({ messages: [] });
+      await expect(
+        store.get(path, { offset: (records[1] as TextRecord).offset })
+      ).rejects.toBeInstanceOf(OffsetTrimmedError);
+      expect(writes).toEqual([]);
+      await expect(chunkKeys(path)).resolves.toEqual(keys);
+
+      await store.append(path, encode("fresh"));
+      const { messages } = await store.get(path);
+      expect(messages.map((message) => decode(message.data))).toEqual([
+        "fresh",
+      ]);
+      await expect(chunkKeys(path)).resolves.toHaveLength(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("deletes every chunk with the stream", async () => {
+    const store = kvStore();
+    const path = streamPath();
+    await appendRecords(store, path, 10);
+
+    await store.delete(path);
+
+    await expect(chunkKeys(path)).resolves.toEqual([]);
+  });
+
+  it("upgrades a stream stored as one data value into chunks on first read", async () => {
+    const path = streamPath();
+    const legacy = "legacy:".padEnd(MAX_CHUNK_BYTES * 2, "l");
+    const createdAt = Date.now() - 60_000;
+    await proxy.env.KV.put(`stream:${path}:data`, encode(legacy));
+    await proxy.env.KV.put(
+      `stream:${path}:meta`,
+      JSON.stringify({
+        contentType: "text/plain",
+        createdAt,
+        lastAccessedAt: createdAt,
+        nextOffset: formatOffset(1, legacy.length),
+        appendCount: 1,
+        producers: {},
+        closed: false,
+        childCount: 0,
+        deleted: false,
+      })
+    );
+    const store = kvStore();
+
+    const { messages, nextOffset } = await store.get(path);
+    expect(nextOffset).toBe(formatOffset(1, legacy.length));
+    expect(messages.map((message) => message.offset)).toEqual([
+      initialOffset(),
+    ]);
+    expect(messages.map((message) => message.timestamp)).toEqual([createdAt]);
+    expect(messages.map((message) => decode(message.data))).toEqual([legacy]);
+    expect((await chunkKeys(path)).length).toBeGreaterThan(1);
+    await expect(proxy.env.KV.get(`stream:${path}:data`)).resolves.toBeNull();
+
+    await store.append(path, encode("next"));
+    const reread = await kvStore().get(path);
+    expect(reread.messages.map((message) => decode(message.data))).toEqual([
+      legacy,
+      "next",
+    ]);
+  });
+
+  it("copies a fork's data into its own chunks", async () => {
+    const store = kvStore();
+    const source = streamPath();
+    const records = await appendRecords(store, source, 6);
+    const fork = streamPath();
+
+    await store.put(fork, { contentType: "text/plain", forkedFrom: source });
+    await store.delete(source);
+
+    expect((await chunkKeys(fork)).length).toBeGreaterThan(0);
+    const { messages } = await store.get(fork);
+    expect(messages.map((message) => decode(message.data))).toEqual(
+      records.map((record) => record.text)
+    );
+  });
+});
+
+type TextRecord = {
+  readonly offset: Offset;
+  readonly text: string;
+};
+
+/**
+ * appends `count` small records one at a time, creating the stream first unless `create` is false.
+ */
+async function appendRecords(
+  store: KVStore,
+  path: string,
+  count: number,
+  create = true
+): Promise<TextRecord[]> {
+  let offset = create
+    ? (await store.put(path, { contentType: "text/plain" })).nextOffset
+    : (await store.head(path))?.nextOffset;
+  const records: TextRecord[] = [];
+  for (let index = 0; index < count; index++) {
+    const text = `record-${index}:`.padEnd(40, "x");
+    records.push({ offset: offset as Offset, text });
+    ({ nextOffset: offset } = await store.append(path, encode(text)));
+  }
+  return records;
+}
+
+/**
+ * a KV namespace that records the keys it reads and, when given `writes`, the keys it puts or deletes.
+ */
+function recordingKV(
+  kv: KVNamespace,
+  reads: string[],
+  writes: string[] = []
+): KVNamespace {
+  return {
+    get: (key: string, type: "arrayBuffer") => {
+      reads.push(key);
+      return kv.get(key, type);
+    },
+    put: (key: string, value: string | ArrayBuffer) => {
+      writes.push(key);
+      return kv.put(key, value);
+    },
+    delete: (key: string) => {
+      writes.push(key);
+      return kv.delete(key);
+    },
+    list: kv.list.bind(kv),
+  } as unknown as KVNamespace;
+}
+
+function chunkPos(key: string): number {
+  return Number(key.slice(key.lastIndexOf(":") + 1));
+}
+
+function offsetPos(offset: Offset): number {
+  return parseOffset(offset)?.pos ?? 0;
+}
+
+function streamPath(): string {
+  return `/storage-layout-${crypto.randomUUID()}`;
+}
+
+function encode(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function decode(data: Uint8Array): string {
+  return new TextDecoder().decode(data);
+}
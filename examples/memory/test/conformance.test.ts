@@ -1,9 +1,75 @@
 import { runConformanceTests } from "@durable-streams/server-conformance-tests";
-import { afterAll, beforeAll } from "vitest";
+import {
+  CURSOR_QUERY_PARAM,
+  FILTER_QUERY_PARAM,
+  LIMIT_QUERY_PARAM,
+  LIVE_QUERY_PARAM,
+  type ListResult,
+  MULTIPART_CONTENT_TYPE,
+  OFFSET_QUERY_PARAM,
+  type Offset,
+  PREFIX_QUERY_PARAM,
+  PRODUCER_EPOCH_HEADER,
+  PRODUCER_ID_HEADER,
+  PRODUCER_SEQ_HEADER,
+  ProducerFencedError,
+  type PutOptions,
+  RETRY_AFTER_HEADER,
+  SequenceConflictError,
+  SIGNATURE_QUERY_PARAM,
+  SIGNED_OPERATIONS_QUERY_PARAM,
+  STREAM_CURSOR_HEADER,
+  STREAM_EARLIEST_OFFSET_HEADER,
+  STREAM_FRAMING_HEADER,
+  STREAM_OFFSET_HEADER,
+  STREAM_RETENTION_MAX_MESSAGES_HEADER,
+  STREAM_SCHEMA_HEADER,
+  STREAM_SCHEMA_POINTER_HEADER,
+  STREAM_UP_TO_DATE_HEADER,
+  StreamGoneError,
+  StreamNotFoundError,
+  splitFrames,
+  TIMESTAMP_QUERY_PARAM,
+} from "durable-cf-streams";
+import {
+  IdempotentProducer,
+  type IdempotentProducerOptions,
+  type ProducerFencedEvent,
+  type StreamChunk,
+  StreamReader,
+  StreamWriter,
+} from "durable-cf-streams/client";
+import {
+  clientIpKey,
+  createApiKeyAuthorizer,
+  createJwtAuthorizer,
+  createSignedUrlAuthorizer,
+  createStreamHandler,
+  createStreamRateLimiter,
+  type JwtAlgorithm,
+  type JwtAuthorizerOptions,
+  type JwtClaims,
+  LIST_STREAMS_PATH,
+  type RateLimitStorage,
+  type SignStreamUrlOptions,
+  type StreamHandler,
+  signStreamUrl,
+} from "durable-cf-streams/http";
+import { MemoryStore } from "durable-cf-streams/storage/memory";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
 import { type Unstable_DevWorker, unstable_dev } from "wrangler";
 
 let worker: Unstable_DevWorker;
 const config = { baseUrl: "" };
+const STREAM_ORIGIN = "http://streams.test";
+const STREAM_URL = `${STREAM_ORIGIN}/producer`;
+const JWT_PATH = "/jwt";
+const JWT_SECRET = "jwt-secret";
+const SIGNED_PATH = "/signed";
+const LIMITED_PATH = "/limited";
+const SIGNING_KEY = "signing-secret";
+const PRODUCER_ID = "ingest";
+const TRAILING_PADDING = /=+$/;
 
 beforeAll(async () => {
   worker = await unstable_dev("src/index.ts", {
@@ -19,3 +85,1220 @@ afterAll(async () => {
 });
 
 runConformanceTests(config);
+
+describe("createStreamHandler", () => {
+  it("creates, appends to, reads, heads and deletes a stream", async () => {
+    const handler = createStreamHandler(new MemoryStore());
+    const request = (method: string, path = "/basic", body?: string) =>
+      handler(
+        new Request(`${STREAM_ORIGIN}${path}`, {
+          method,
+          headers: { "Content-Type": "text/plain" },
+          body,
+        })
+      );
+
+    const created = await request("PUT");
+    expect(created.status).toBe(201);
+    expect(created.headers.get("Location")).toBe(`${STREAM_ORIGIN}/basic`);
+    expect(created.headers.get("X-Content-Type-Options")).toBe("nosniff");
+    expect((await request("PUT")).status).toBe(200);
+
+    const appended = await request("POST", "/basic", "hello");
+    expect(appended.status).toBe(204);
+    const tail = appended.headers.get(STREAM_OFFSET_HEADER);
+    expect(tail).not.toBeNull();
+
+    const read = await request("GET", "/basic?offset=-1");
+    expect(read.status).toBe(200);
+    expect(read.headers.get(STREAM_UP_TO_DATE_HEADER)).toBe("true");
+    expect(read.headers.get(STREAM_OFFSET_HEADER)).toBe(tail);
+    await expect(read.text()).resolves.toBe("hello");
+
+    const head = await request("HEAD");
+    expect(head.status).toBe(200);
+    expect(head.headers.get(STREAM_OFFSET_HEADER)).toBe(tail);
+
+    expect((await request("PATCH")).status).toBe(405);
+    expect((await request("DELETE")).status).toBe(204);
+    expect((await request("GET", "/basic?offset=-1")).status).toBe(404);
+    expect((await request("POST", "/basic", "late")).status).toBe(404);
+  });
+
+  it("holds a long-poll at the tail until the next append or its timeout", async () => {
+    const store = new MemoryStore();
+    const { nextOffset: tail } = await store.put("/polled", {
+      contentType: "text/plain",
+    });
+    const handler = createStreamHandler(store, { liveWaitTimeoutMs: 50 });
+    const poll = () => {
+      const url = new URL(`${STREAM_ORIGIN}/polled`);
+      url.searchParams.set(OFFSET_QUERY_PARAM, tail);
+      url.searchParams.set(LIVE_QUERY_PARAM, "long-poll");
+      return handler(new Request(url));
+    };
+
+    const timedOut = await poll();
+    expect(timedOut.status).toBe(204);
+    expect(timedOut.headers.get(STREAM_UP_TO_DATE_HEADER)).toBe("true");
+
+    const held = poll();
+    await settle();
+    await store.append("/polled", new TextEncoder().encode("next"));
+    const woken = await held;
+    expect(woken.status).toBe(200);
+    await expect(woken.text()).resolves.toBe("next");
+  });
+
+  it("streams data and control events over SSE until the stream closes", async () => {
+    const store = await textStream("/events", ["a"]);
+    await store.append("/events", new TextEncoder().encode("b"), {
+      close: true,
+    });
+    const handler = createStreamHandler(store);
+
+    const response = await handler(
+      new Request(`${STREAM_ORIGIN}/events?offset=-1&live=sse`)
+    );
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    const body = await response.text();
+    expect(body).toContain("event: data\ndata:ab\n");
+    expect(body).toContain("event: control\n");
+    expect(body).toContain('"streamClosed":true');
+  });
+});
+
+describe("filtered reads", () => {
+  it("gives each filter its own ETag", async () => {
+    const store = new MemoryStore();
+    await store.put("/events", {
+      contentType: "application/json",
+      data: new TextEncoder().encode('[{"kind":"a"},{"kind":"b"}]'),
+    });
+    const handler = createStreamHandler(store);
+    const read = (filter: string, etag?: string) => {
+      const url = new URL(`${STREAM_ORIGIN}/events`);
+      url.searchParams.set(OFFSET_QUERY_PARAM, "-1");
+      url.searchParams.set(FILTER_QUERY_PARAM, filter);
+      return handler(
+        new Request(url, {
+          headers: etag === undefined ? {} : { "If-None-Match": etag },
+        })
+      );
+    };
+
+    const kindA = (await read('$.kind == "a"')).headers.get("ETag") ?? "";
+    const kindB = (await read('$.kind == "b"')).headers.get("ETag") ?? "";
+    expect(kindA).not.toBe(kindB);
+    expect((await read('$.kind  ==  "a"')).headers.get("ETag")).toBe(kindA);
+
+    const other = await read('$.kind == "b"', kindA);
+    expect(other.status).toBe(200);
+    await expect(other.json()).resolves.toEqual([{ kind: "b" }]);
+    expect((await read('$.kind == "a"', kindA)).status).toBe(304);
+  });
+});
+
+describe("stream listing authorization", () => {
+  it("checks a listing against the prefix it lists", async () => {
+    const store = new MemoryStore();
+    await store.put("/tenant-a/orders", { contentType: "text/plain" });
+    await store.put("/tenant-b/orders", { contentType: "text/plain" });
+    const handler = createStreamHandler(store, {
+      authorize: createApiKeyAuthorizer({
+        keys: {
+          admin: {},
+          "tenant-a": { operations: ["read"], pathPrefix: "/tenant-a/" },
+        },
+      }),
+    });
+    const list = (key: string, prefix?: string) => {
+      const url = new URL(`${STREAM_ORIGIN}${LIST_STREAMS_PATH}`);
+      if (prefix !== undefined) {
+        url.searchParams.set(PREFIX_QUERY_PARAM, prefix);
+      }
+      return handler(new Request(url, { headers: { "X-API-Key": key } }));
+    };
+
+    const own = await list("tenant-a", "/tenant-a/");
+    expect(own.status).toBe(200);
+    await expect(own.json()).resolves.toMatchObject({
+      streams: [{ path: "/tenant-a/orders" }],
+    });
+    expect((await list("tenant-a")).status).toBe(403);
+    expect((await list("tenant-a", "/tenant-")).status).toBe(403);
+    expect((await list("admin")).status).toBe(200);
+  });
+});
+
+describe("stream rate limits", () => {
+  it("answers 429 with Retry-After once a client's append bucket is empty", async () => {
+    const { handler } = await limitedStreams();
+
+    expect((await handler(limitedAppend("10.0.0.1"))).status).toBe(204);
+    const refused = await handler(limitedAppend("10.0.0.1"));
+    expect(refused.status).toBe(429);
+    expect(refused.headers.get(RETRY_AFTER_HEADER)).toBe("1");
+    expect((await handler(limitedAppend("10.0.0.2"))).status).toBe(204);
+  });
+
+  it("charges no tokens for appends the store refuses", async () => {
+    const { handler } = await limitedStreams();
+    const refusedAppend = (path: string, contentType: string) =>
+      handler(
+        new Request(`${STREAM_ORIGIN}${path}`, {
+          method: "POST",
+          headers: {
+            "Content-Type": contentType,
+            "CF-Connecting-IP": "10.0.0.1",
+          },
+          body: "{}",
+        })
+      );
+
+    expect((await refusedAppend(LIMITED_PATH, "application/json")).status).toBe(
+      409
+    );
+    expect((await refusedAppend("/missing", "text/plain")).status).toBe(404);
+    expect((await handler(limitedAppend("10.0.0.1"))).status).toBe(204);
+  });
+
+  it("keeps append buckets in storage across a restart", async () => {
+    const storage = rateLimitStorage();
+    const before = await limitedStreams(storage);
+    expect((await before.handler(limitedAppend("10.0.0.1"))).status).toBe(204);
+
+    const after = await limitedStreams(storage);
+    expect((await after.handler(limitedAppend("10.0.0.1"))).status).toBe(429);
+    expect((await after.handler(limitedAppend("10.0.0.2"))).status).toBe(204);
+  });
+
+  it("answers 429 with Retry-After past a client's concurrent long-polls", async () => {
+    const { handler, tail } = await limitedStreams();
+
+    const held = handler(limitedLongPoll("10.0.0.1", tail));
+    await settle();
+    const refused = await handler(limitedLongPoll("10.0.0.1", tail));
+    expect(refused.status).toBe(429);
+    expect(refused.headers.get(RETRY_AFTER_HEADER)).toBe("1");
+
+    await handler(limitedAppend("10.0.0.2"));
+    expect((await held).status).toBe(200);
+
+    const next = handler(limitedLongPoll("10.0.0.1", tail));
+    await settle();
+    await handler(limitedAppend("10.0.0.3"));
+    expect((await next).status).toBe(200);
+  });
+});
+
+describe("JWT authorizer", () => {
+  it("accepts an HS256 token and refuses a bad signature", async () => {
+    const handler = await jwtStreams({ algorithm: "HS256", key: JWT_SECRET });
+    const claims = { sub: "reader" };
+
+    expect(
+      (await readWithToken(handler, await hs256Token(claims))).status
+    ).toBe(200);
+    expect(
+      (await readWithToken(handler, await hs256Token(claims, "other-secret")))
+        .status
+    ).toBe(401);
+    expect(
+      (await handler(new Request(`${STREAM_ORIGIN}${JWT_PATH}`))).status
+    ).toBe(401);
+  });
+
+  it("accepts an RS256 token checked against its public key", async () => {
+    const signer = await rsaKeyPair();
+    const other = await rsaKeyPair();
+    const handler = await jwtStreams({
+      algorithm: "RS256",
+      key: await crypto.subtle.exportKey("jwk", signer.publicKey),
+    });
+
+    expect(
+      (await readWithToken(handler, await rs256Token({}, signer.privateKey)))
+        .status
+    ).toBe(200);
+    expect(
+      (await readWithToken(handler, await rs256Token({}, other.privateKey)))
+        .status
+    ).toBe(401);
+  });
+
+  it("refuses a token whose alg differs from the configured algorithm", async () => {
+    const signer = await rsaKeyPair();
+    const handler = await jwtStreams({
+      algorithm: "RS256",
+      key: await crypto.subtle.exportKey("jwk", signer.publicKey),
+    });
+
+    expect((await readWithToken(handler, await hs256Token({}))).status).toBe(
+      401
+    );
+  });
+
+  it("refuses an expired, not yet valid or malformed exp and nbf", async () => {
+    const handler = await jwtStreams({
+      algorithm: "HS256",
+      key: JWT_SECRET,
+      clockToleranceSeconds: 0,
+    });
+    const now = Math.floor(Date.now() / 1000);
+    const status = async (claims: JwtClaims) =>
+      (await readWithToken(handler, await hs256Token(claims))).status;
+
+    expect(await status({ exp: now + 60, nbf: now - 60 })).toBe(200);
+    expect(await status({ exp: now - 60 })).toBe(401);
+    expect(await status({ nbf: now + 60 })).toBe(401);
+    expect(await status({ exp: "1" })).toBe(401);
+    expect(await status({ exp: null })).toBe(401);
+    expect(await status({ nbf: "0" })).toBe(401);
+  });
+
+  it("checks the issuer and audience", async () => {
+    const handler = await jwtStreams({
+      algorithm: "HS256",
+      key: JWT_SECRET,
+      issuer: "https://issuer.test",
+      audience: "streams",
+    });
+    const status = async (claims: JwtClaims) =>
+      (await readWithToken(handler, await hs256Token(claims))).status;
+
+    expect(
+      await status({ iss: "https://issuer.test", aud: ["other", "streams"] })
+    ).toBe(200);
+    expect(await status({ iss: "https://other.test", aud: "streams" })).toBe(
+      401
+    );
+    expect(await status({ iss: "https://issuer.test", aud: "other" })).toBe(
+      401
+    );
+    expect(await status({ aud: "streams" })).toBe(401);
+  });
+
+  it("answers 403 when permits refuses a valid token", async () => {
+    const handler = await jwtStreams({
+      algorithm: "HS256",
+      key: JWT_SECRET,
+      permits: (claims, access) =>
+        access.operation === "read" || claims.role === "writer",
+    });
+    const append = async (claims: JwtClaims) =>
+      await handler(
+        new Request(`${STREAM_ORIGIN}${JWT_PATH}`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${await hs256Token(claims)}`,
+            "Content-Type": "text/plain",
+          },
+          body: "b",
+        })
+      );
+
+    expect((await readWithToken(handler, await hs256Token({}))).status).toBe(
+      200
+    );
+    expect((await append({ role: "reader" })).status).toBe(403);
+    expect((await append({ role: "writer" })).status).toBe(204);
+  });
+});
+
+describe("signed stream urls", () => {
+  it("refuses an expired url", async () => {
+    const { handler } = await signedStreams();
+    const url = await signedUrl({
+      operations: ["read"],
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    expect((await handler(new Request(url))).status).toBe(401);
+  });
+
+  it("refuses a tampered signature", async () => {
+    const { handler } = await signedStreams();
+    const url = new URL(await signedUrl({ operations: ["read"] }));
+    const signature = url.searchParams.get(SIGNATURE_QUERY_PARAM) ?? "";
+    url.searchParams.set(
+      SIGNATURE_QUERY_PARAM,
+      `${signature.startsWith("A") ? "B" : "A"}${signature.slice(1)}`
+    );
+
+    expect((await handler(new Request(url))).status).toBe(401);
+  });
+
+  it("refuses a url whose signed parameters were changed", async () => {
+    const { handler } = await signedStreams();
+    const url = new URL(await signedUrl({ operations: ["read"] }));
+    url.searchParams.set(SIGNED_OPERATIONS_QUERY_PARAM, "read,append");
+
+    const response = await handler(
+      new Request(url, { method: "POST", body: "forged" })
+    );
+    expect(response.status).toBe(401);
+  });
+
+  it("refuses a signature moved to another path", async () => {
+    const { handler } = await signedStreams();
+    const url = new URL(await signedUrl({ operations: ["read"] }));
+    url.pathname = "/other";
+
+    expect((await handler(new Request(url))).status).toBe(401);
+  });
+
+  it("only allows the operations it was signed for", async () => {
+    const { handler } = await signedStreams();
+    const url = await signedUrl({ operations: ["read"] });
+
+    expect((await handler(new Request(url))).status).toBe(200);
+    const append = await handler(
+      new Request(url, {
+        method: "POST",
+        headers: { "Content-Type": "text/plain" },
+        body: "c",
+      })
+    );
+    expect(append.status).toBe(403);
+  });
+
+  it("refuses reads below its offset floor", async () => {
+    const { handler, floor } = await signedStreams();
+    const url = await signedUrl({ operations: ["read"], offsetFloor: floor });
+    const read = (offset?: string) => {
+      const request = new URL(url);
+      if (offset !== undefined) {
+        request.searchParams.set(OFFSET_QUERY_PARAM, offset);
+      }
+      return handler(new Request(request));
+    };
+
+    expect((await read()).status).toBe(403);
+    expect((await read("-1")).status).toBe(403);
+    const fromFloor = await read(floor);
+    expect(fromFloor.status).toBe(200);
+    await expect(fromFloor.text()).resolves.toBe("b");
+    expect((await read("now")).status).toBe(200);
+  });
+
+  it("refuses an offset with a high seq and a position below its floor", async () => {
+    const { handler, floor } = await signedStreams();
+    const url = new URL(
+      await signedUrl({ operations: ["read"], offsetFloor: floor })
+    );
+    url.searchParams.set(
+      OFFSET_QUERY_PARAM,
+      "00000000000000ff_0000000000000000"
+    );
+
+    expect((await handler(new Request(url))).status).toBe(403);
+  });
+});
+
+describe("MemoryStore quotas", () => {
+  it("answers 507 past maxStreamBytes and maxStreamsPerPrefix", async () => {
+    const handler = createStreamHandler(
+      new MemoryStore({ quotas: { maxStreamBytes: 8, maxStreamsPerPrefix: 1 } })
+    );
+    const request = (method: string, path: string, body?: string) =>
+      handler(
+        new Request(`${STREAM_ORIGIN}${path}`, {
+          method,
+          headers: { "Content-Type": "text/plain" },
+          body,
+        })
+      );
+
+    expect((await request("PUT", "/tenant-a/one")).status).toBe(201);
+    expect((await request("PUT", "/tenant-a/two")).status).toBe(507);
+    expect((await request("PUT", "/tenant-b/one", "123456789")).status).toBe(
+      507
+    );
+    expect((await request("POST", "/tenant-a/one", "12345")).status).toBe(204);
+    const refused = await request("POST", "/tenant-a/one", "6789");
+    expect(refused.status).toBe(507);
+    expect(refused.headers.get(RETRY_AFTER_HEADER)).toBeNull();
+    const read = await handler(
+      new Request(`${STREAM_ORIGIN}/tenant-a/one?offset=-1`)
+    );
+    await expect(read.text()).resolves.toBe("12345");
+  });
+
+  it("answers 429 with Retry-After when a producer appends too fast", async () => {
+    const store = new MemoryStore({
+      quotas: { maxProducerAppendsPerSecond: 1 },
+    });
+    const handler = createStreamHandler(store);
+    await streamWriter(handler).create();
+    const produce = (seq: number) =>
+      handler(
+        new Request(STREAM_URL, {
+          method: "POST",
+          headers: {
+            "Content-Type": "text/plain",
+            [PRODUCER_ID_HEADER]: PRODUCER_ID,
+            [PRODUCER_EPOCH_HEADER]: "0",
+            [PRODUCER_SEQ_HEADER]: String(seq),
+          },
+          body: `record ${seq}`,
+        })
+      );
+
+    expect((await produce(0)).ok).toBe(true);
+    const refused = await produce(1);
+    expect(refused.status).toBe(429);
+    expect(refused.headers.get(RETRY_AFTER_HEADER)).toBe("1");
+    expect((await produce(0)).ok).toBe(true);
+  });
+});
+
+describe("IdempotentProducer", () => {
+  it("retries a batch the server answered with 503", async () => {
+    const handler = createStreamHandler(new MemoryStore());
+    let failures = 1;
+    const producer = await createProducer(
+      handler,
+      (request) => {
+        if (request.method === "POST" && failures > 0) {
+          failures--;
+          return Promise.resolve(new Response(null, { status: 503 }));
+        }
+        return handler(request);
+      },
+      { maxRetries: 2 }
+    );
+
+    await producer.append("once");
+
+    expect(failures).toBe(0);
+    expect(producer.seq).toBe(1);
+    await expect(readText(handler)).resolves.toBe("once");
+  });
+
+  it("resends a batch whose response was lost before its next request", async () => {
+    const handler = createStreamHandler(new MemoryStore());
+    let lost = 1;
+    const producer = await createProducer(
+      handler,
+      async (request) => {
+        const response = await handler(request);
+        if (request.method === "POST" && lost > 0) {
+          lost--;
+          throw new TypeError("network connection lost");
+        }
+        return response;
+      },
+      { maxRetries: 0 }
+    );
+
+    await expect(producer.append("first")).rejects.toThrow(
+      "network connection lost"
+    );
+    await producer.append("second");
+
+    expect(producer.seq).toBe(2);
+    await expect(readText(handler)).resolves.toBe("firstsecond");
+  });
+
+  it("fences an older epoch until it bumps past the newer one", async () => {
+    const handler = createStreamHandler(new MemoryStore());
+    const fetch = (request: Request) => handler(request);
+    const stale = await createProducer(handler, fetch, { epoch: 0 });
+    const takeover = new IdempotentProducer(streamWriter(fetch), {
+      producerId: PRODUCER_ID,
+      contentType: "text/plain",
+      epoch: 1,
+      maxBatchRecords: 1,
+    });
+    const fenced: ProducerFencedEvent[] = [];
+    stale.on("fenced", (event) => fenced.push(event));
+
+    await stale.append("a");
+    await takeover.append("b");
+    await expect(stale.append("c")).rejects.toBeInstanceOf(ProducerFencedError);
+
+    expect(stale.fenced).toBe(true);
+    expect(fenced).toMatchObject([
+      { producerId: PRODUCER_ID, epoch: 0, currentEpoch: 1 },
+    ]);
+    await expect(stale.append("d")).rejects.toBeInstanceOf(ProducerFencedError);
+
+    await expect(stale.bumpEpoch()).resolves.toBe(2);
+    await stale.append("e");
+    await expect(readText(handler)).resolves.toBe("abe");
+  });
+});
+
+describe("JSON Schema validation", () => {
+  it("rejects an append that breaks the stream schema with its pointer", async () => {
+    const handler = createStreamHandler(new MemoryStore());
+    const schema = {
+      type: "object",
+      properties: { count: { type: "integer" } },
+      required: ["count"],
+    };
+    const created = await handler(
+      new Request(`${STREAM_ORIGIN}/counts`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          [STREAM_SCHEMA_HEADER]: JSON.stringify(schema),
+        },
+      })
+    );
+    expect(created.status).toBe(201);
+    const append = (body: string) =>
+      handler(
+        new Request(`${STREAM_ORIGIN}/counts`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body,
+        })
+      );
+
+    expect((await append('[{"count":1}]')).status).toBe(204);
+    const rejected = await append('[{"count":2},{"count":"three"}]');
+    expect(rejected.status).toBe(422);
+    expect(rejected.headers.get(STREAM_SCHEMA_POINTER_HEADER)).toBe("/1/count");
+    await expect(readJson(handler, "/counts")).resolves.toEqual([{ count: 1 }]);
+  });
+
+  it("refuses a schema keyword inherited from Object.prototype", async () => {
+    const handler = createStreamHandler(new MemoryStore());
+    const created = await handler(
+      new Request(`${STREAM_ORIGIN}/counts`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          [STREAM_SCHEMA_HEADER]: '{"toString":1}',
+        },
+      })
+    );
+
+    expect(created.status).toBe(400);
+    await expect(created.text()).resolves.toContain(
+      "Unsupported JSON Schema keyword toString"
+    );
+  });
+});
+
+describe("framed streams", () => {
+  it("keeps record boundaries in framed and multipart reads", async () => {
+    const handler = createStreamHandler(new MemoryStore());
+    await handler(
+      new Request(`${STREAM_ORIGIN}/records`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "text/plain",
+          [STREAM_FRAMING_HEADER]: "length-prefixed",
+        },
+      })
+    );
+    for (const record of ["one", "three"]) {
+      await handler(
+        new Request(`${STREAM_ORIGIN}/records`, {
+          method: "POST",
+          headers: { "Content-Type": "text/plain" },
+          body: record,
+        })
+      );
+    }
+    const read = (accept?: string) =>
+      handler(
+        new Request(`${STREAM_ORIGIN}/records?offset=-1`, {
+          headers: accept === undefined ? {} : { Accept: accept },
+        })
+      );
+
+    const framed = await read();
+    expect(framed.headers.get(STREAM_FRAMING_HEADER)).toBe("length-prefixed");
+    expect(framed.headers.get("Vary")).toContain("Accept");
+    const records = splitFrames(new Uint8Array(await framed.arrayBuffer()));
+    expect(records.map((record) => new TextDecoder().decode(record))).toEqual([
+      "one",
+      "three",
+    ]);
+
+    const multipart = await read(MULTIPART_CONTENT_TYPE);
+    const [, boundary] = (multipart.headers.get("Content-Type") ?? "").split(
+      "boundary="
+    );
+    expect(boundary).toBeDefined();
+    const body = await multipart.text();
+    expect(body).toContain(
+      "Content-Type: text/plain\r\nContent-Length: 3\r\n\r\none\r\n"
+    );
+    expect(body).toContain("Content-Length: 5\r\n\r\nthree\r\n");
+    expect(body.endsWith(`--${boundary}--\r\n`)).toBe(true);
+    expect(multipart.headers.get("ETag")).not.toBe(framed.headers.get("ETag"));
+  });
+});
+
+describe("paginated reads", () => {
+  it("pages a catch-up read by bytes until it reaches the tail", async () => {
+    const store = await textStream("/paged", ["aa", "bb", "cc"]);
+    const handler = createStreamHandler(store, { maxReadBytes: 4 });
+    const read = (offset: string) =>
+      handler(new Request(`${STREAM_ORIGIN}/paged?offset=${offset}`));
+
+    const first = await read("-1");
+    expect(first.headers.get(STREAM_UP_TO_DATE_HEADER)).toBe("false");
+    await expect(first.text()).resolves.toBe("aabb");
+
+    const second = await read(first.headers.get(STREAM_OFFSET_HEADER) ?? "");
+    expect(second.headers.get(STREAM_UP_TO_DATE_HEADER)).toBe("true");
+    await expect(second.text()).resolves.toBe("cc");
+  });
+
+  it("stops a page at maxMessages", async () => {
+    const store = await textStream("/paged", ["aa", "bb", "cc"]);
+
+    const first = await store.get("/paged", { maxMessages: 2 });
+    expect(first.messages).toHaveLength(2);
+    expect(first.upToDate).toBe(false);
+    const rest = await store.get("/paged", {
+      offset: first.nextOffset,
+      maxMessages: 2,
+    });
+    expect(rest.messages.map((message) => decode(message.data))).toEqual([
+      "cc",
+    ]);
+    expect(rest.upToDate).toBe(true);
+  });
+});
+
+describe("message boundaries", () => {
+  it("returns one message per append with its offset and write time", async () => {
+    const store = new MemoryStore();
+    const { nextOffset: first } = await store.put("/appends", {
+      contentType: "text/plain",
+    });
+    const before = Date.now();
+    const { nextOffset: second } = await store.append(
+      "/appends",
+      new TextEncoder().encode("one")
+    );
+    await store.append("/appends", new TextEncoder().encode("two"));
+    const after = Date.now();
+
+    const { messages } = await store.get("/appends");
+    expect(
+      messages.map((message) => [message.offset, decode(message.data)])
+    ).toEqual([
+      [first, "one"],
+      [second, "two"],
+    ]);
+    for (const { timestamp } of messages) {
+      expect(timestamp).toBeGreaterThanOrEqual(before);
+      expect(timestamp).toBeLessThanOrEqual(after);
+    }
+    const { messages: fromSecond } = await store.get("/appends", {
+      offset: second,
+    });
+    expect(fromSecond.map((message) => decode(message.data))).toEqual(["two"]);
+  });
+});
+
+describe("timestamp seek", () => {
+  it("starts an at= read at the first append written since then", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const store = new MemoryStore();
+      await store.put("/timed", { contentType: "text/plain" });
+      for (const [time, record] of [
+        ["2026-01-01T09:00:00Z", "nine"],
+        ["2026-01-01T10:00:00Z", "ten"],
+        ["2026-01-01T11:00:00Z", "eleven"],
+      ] as const) {
+        vi.setSystemTime(new Date(time));
+        await store.append("/timed", new TextEncoder().encode(record));
+      }
+      const handler = createStreamHandler(store);
+      const readAt = (time: string) => {
+        const url = new URL(`${STREAM_ORIGIN}/timed`);
+        url.searchParams.set(TIMESTAMP_QUERY_PARAM, time);
+        return handler(new Request(url));
+      };
+
+      await expect((await readAt("2026-01-01T09:30:00Z")).text()).resolves.toBe(
+        "teneleven"
+      );
+      await expect((await readAt("2026-01-01T10:00:00Z")).text()).resolves.toBe(
+        "teneleven"
+      );
+      const later = await readAt("2026-01-01T12:00:00Z");
+      await expect(later.text()).resolves.toBe("");
+      expect(later.headers.get(STREAM_UP_TO_DATE_HEADER)).toBe("true");
+      expect((await readAt("yesterday")).status).toBe(400);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("stream retention", () => {
+  it("answers a read below the retained floor with 410", async () => {
+    const handler = createStreamHandler(new MemoryStore());
+    await handler(
+      new Request(`${STREAM_ORIGIN}/retained`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "text/plain",
+          [STREAM_RETENTION_MAX_MESSAGES_HEADER]: "2",
+        },
+      })
+    );
+    const offsets: string[] = [];
+    for (const record of ["a", "b", "c", "d"]) {
+      const appended = await handler(
+        new Request(`${STREAM_ORIGIN}/retained`, {
+          method: "POST",
+          headers: { "Content-Type": "text/plain" },
+          body: record,
+        })
+      );
+      offsets.push(appended.headers.get(STREAM_OFFSET_HEADER) ?? "");
+    }
+    const [afterA = "", afterB = ""] = offsets;
+    const read = (offset: string) =>
+      handler(new Request(`${STREAM_ORIGIN}/retained?offset=${offset}`));
+
+    const trimmed = await read(afterA);
+    expect(trimmed.status).toBe(410);
+    expect(trimmed.headers.get(STREAM_EARLIEST_OFFSET_HEADER)).toBe(afterB);
+    await expect((await read("-1")).text()).resolves.toBe("cd");
+    await expect((await read(afterB)).text()).resolves.toBe("cd");
+  });
+});
+
+describe("stream listing", () => {
+  it("pages through the streams under a prefix", async () => {
+    const store = new MemoryStore();
+    for (const path of ["/logs/a", "/logs/b", "/logs/c", "/metrics/a"]) {
+      await store.put(path, { contentType: "text/plain" });
+    }
+    const handler = createStreamHandler(store);
+    const list = async (cursor?: string) => {
+      const url = new URL(`${STREAM_ORIGIN}${LIST_STREAMS_PATH}`);
+      url.searchParams.set(PREFIX_QUERY_PARAM, "/logs/");
+      url.searchParams.set(LIMIT_QUERY_PARAM, "2");
+      if (cursor !== undefined) {
+        url.searchParams.set(CURSOR_QUERY_PARAM, cursor);
+      }
+      const response = await handler(new Request(url));
+      expect(response.status).toBe(200);
+      return (await response.json()) as ListResult;
+    };
+
+    const first = await list();
+    expect(first.streams.map((stream) => stream.path)).toEqual([
+      "/logs/a",
+      "/logs/b",
+    ]);
+    expect(first.cursor).toBeDefined();
+    const second = await list(first.cursor);
+    expect(second.streams.map((stream) => stream.path)).toEqual(["/logs/c"]);
+    expect(second.cursor).toBeUndefined();
+
+    const url = new URL(`${STREAM_ORIGIN}${LIST_STREAMS_PATH}`);
+    url.searchParams.set(LIMIT_QUERY_PARAM, "0");
+    expect((await handler(new Request(url))).status).toBe(400);
+  });
+});
+
+describe("batch appends", () => {
+  it("stores each record of a batch as its own message", async () => {
+    const store = new MemoryStore();
+    await store.put("/batched", { contentType: "text/plain" });
+    const records = ["one", "two", "three"].map((record) =>
+      new TextEncoder().encode(record)
+    );
+
+    const result = await store.appendBatch("/batched", records, { seq: "2" });
+
+    const { messages, nextOffset } = await store.get("/batched");
+    expect(messages.map((message) => message.offset)).toEqual(result.offsets);
+    expect(messages.map((message) => decode(message.data))).toEqual([
+      "one",
+      "two",
+      "three",
+    ]);
+    expect(nextOffset).toBe(result.nextOffset);
+    const fromSecond = await store.get("/batched", {
+      offset: result.offsets[1],
+    });
+    expect(fromSecond.messages).toHaveLength(2);
+  });
+
+  it("appends nothing from a batch that is refused", async () => {
+    const store = new MemoryStore();
+    await store.put("/batched", { contentType: "text/plain" });
+    const { nextOffset } = await store.appendBatch(
+      "/batched",
+      [new TextEncoder().encode("kept")],
+      { seq: "2" }
+    );
+
+    const refused = async () =>
+      await store.appendBatch(
+        "/batched",
+        [new TextEncoder().encode("a"), new TextEncoder().encode("b")],
+        { seq: "1" }
+      );
+    await expect(refused()).rejects.toBeInstanceOf(SequenceConflictError);
+
+    const after = await store.get("/batched");
+    expect(after.nextOffset).toBe(nextOffset);
+    expect(after.messages.map((message) => decode(message.data))).toEqual([
+      "kept",
+    ]);
+  });
+});
+
+describe("NDJSON streams", () => {
+  it("stores one value per line and reads the lines back", async () => {
+    const handler = createStreamHandler(new MemoryStore());
+    const request = (method: string, body?: string) =>
+      handler(
+        new Request(`${STREAM_ORIGIN}/lines`, {
+          method,
+          headers: { "Content-Type": "application/x-ndjson" },
+          body,
+        })
+      );
+
+    expect((await request("PUT", '{"n":1}\n')).status).toBe(201);
+    expect((await request("POST", '{"n":2}\n\n{ "n" : 3 }')).status).toBe(204);
+    expect((await request("POST", '{"n":4}\nnot json\n')).status).toBe(400);
+
+    const read = await handler(new Request(`${STREAM_ORIGIN}/lines?offset=-1`));
+    expect(read.headers.get("Content-Type")).toBe("application/x-ndjson");
+    await expect(read.text()).resolves.toBe('{"n":1}\n{"n":2}\n{"n":3}\n');
+  });
+});
+
+describe("compressed responses", () => {
+  it("negotiates Accept-Encoding and tags each encoding's ETag", async () => {
+    const store = await textStream("/compressed", ["hello ".repeat(50)]);
+    const handler = createStreamHandler(store, { compression: {} });
+    const read = (acceptEncoding?: string, etag?: string) =>
+      handler(
+        new Request(`${STREAM_ORIGIN}/compressed?offset=-1`, {
+          headers: {
+            ...(acceptEncoding === undefined
+              ? {}
+              : { "Accept-Encoding": acceptEncoding }),
+            ...(etag === undefined ? {} : { "If-None-Match": etag }),
+          },
+        })
+      );
+
+    const plain = await read();
+    expect(plain.headers.get("Content-Encoding")).toBeNull();
+    expect(plain.headers.get("Vary")).toBe("Accept-Encoding");
+    const plainETag = plain.headers.get("ETag") ?? "";
+
+    const gzip = await read("deflate;q=0.5, gzip");
+    expect(gzip.headers.get("Content-Encoding")).toBe("gzip");
+    const gzipETag = gzip.headers.get("ETag") ?? "";
+    expect(gzipETag).toBe(`${plainETag.slice(0, -1)}:gzip"`);
+    const body = (gzip.body ?? new Blob().stream()).pipeThrough(
+      new DecompressionStream("gzip")
+    );
+    await expect(new Response(body).text()).resolves.toBe("hello ".repeat(50));
+
+    expect((await read("deflate")).headers.get("Content-Encoding")).toBe(
+      "deflate"
+    );
+    expect((await read("gzip", gzipETag)).status).toBe(304);
+    expect((await read("deflate", gzipETag)).status).toBe(200);
+    expect((await read(undefined, plainETag)).status).toBe(304);
+  });
+});
+
+describe("StreamReader", () => {
+  it("falls back to long-poll, echoes the cursor and ends on a closed tail", async () => {
+    const store = await textStream("/reader", ["a"]);
+    const handler = createStreamHandler(store, { liveWaitTimeoutMs: 1000 });
+    const requests: URL[] = [];
+    const cursors: (string | null)[] = [];
+    const reader = new StreamReader(`${STREAM_ORIGIN}/reader`, {
+      fetch: async (input, init) => {
+        const request = new Request(input, init);
+        const url = new URL(request.url);
+        requests.push(url);
+        if (url.searchParams.get(LIVE_QUERY_PARAM) === "sse") {
+          return new Response("buffered", {
+            headers: { "Content-Type": "text/plain" },
+          });
+        }
+        const response = await handler(request);
+        cursors.push(response.headers.get(STREAM_CURSOR_HEADER));
+        return response;
+      },
+    });
+
+    const chunks: string[] = [];
+    for await (const chunk of reader) {
+      chunks.push(decode(chunk.data));
+      if (!chunk.closed) {
+        await store.append("/reader", new TextEncoder().encode("b"), {
+          close: true,
+        });
+      }
+    }
+
+    expect(chunks).toEqual(["a", "b"]);
+    expect(reader.closed).toBe(true);
+    expect(
+      requests.map((url) => url.searchParams.get(LIVE_QUERY_PARAM))
+    ).toEqual(["sse", "long-poll", "long-poll"]);
+    expect(requests[2]?.searchParams.get(CURSOR_QUERY_PARAM)).toBe(cursors[0]);
+  });
+
+  it("rejects with the typed error of a failed read", async () => {
+    const handler = createStreamHandler(new MemoryStore());
+    const missing = new StreamReader(`${STREAM_ORIGIN}/missing`, {
+      live: "off",
+      fetch: (input, init) => handler(new Request(input, init)),
+    });
+    await expect(collect(missing)).rejects.toBeInstanceOf(StreamNotFoundError);
+
+    const gone = new StreamReader(`${STREAM_ORIGIN}/gone`, {
+      live: "sse",
+      fetch: () =>
+        Promise.resolve(
+          new Response(
+            'event: error\ndata: {"error":"Stream gone","status":410}\n\n',
+            { headers: { "Content-Type": "text/event-stream" } }
+          )
+        ),
+    });
+    await expect(collect(gone)).rejects.toBeInstanceOf(StreamGoneError);
+  });
+});
+
+function streamWriter(fetch: (request: Request) => Promise<Response>) {
+  return new StreamWriter(STREAM_URL, {
+    contentType: "text/plain",
+    fetch: (input, init) => fetch(new Request(input, init)),
+  });
+}
+
+async function createProducer(
+  handler: StreamHandler,
+  fetch: (request: Request) => Promise<Response>,
+  options: Partial<IdempotentProducerOptions>
+): Promise<IdempotentProducer> {
+  await streamWriter(handler).create();
+  return new IdempotentProducer(streamWriter(fetch), {
+    producerId: PRODUCER_ID,
+    contentType: "text/plain",
+    maxBatchRecords: 1,
+    retryDelayMs: 1,
+    ...options,
+  });
+}
+
+async function readText(handler: StreamHandler): Promise<string> {
+  const response = await handler(new Request(`${STREAM_URL}?offset=-1`));
+  expect(response.status).toBe(200);
+  return await response.text();
+}
+
+async function readJson(
+  handler: StreamHandler,
+  path: string
+): Promise<unknown> {
+  const response = await handler(
+    new Request(`${STREAM_ORIGIN}${path}?offset=-1`)
+  );
+  expect(response.status).toBe(200);
+  return await response.json();
+}
+
+async function jwtStreams(
+  options: JwtAuthorizerOptions
+): Promise<StreamHandler> {
+  const store = await textStream(JWT_PATH, ["a"]);
+  return createStreamHandler(store, {
+    authorize: createJwtAuthorizer(options),
+  });
+}
+
+function readWithToken(handler: StreamHandler, token: string) {
+  return handler(
+    new Request(`${STREAM_ORIGIN}${JWT_PATH}?offset=-1`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+  );
+}
+
+function rsaKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(
+    {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    true,
+    ["sign", "verify"]
+  ) as Promise<CryptoKeyPair>;
+}
+
+async function hs256Token(
+  claims: Record<string, unknown>,
+  secret = JWT_SECRET
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return await signJwt("HS256", claims, key, "HMAC");
+}
+
+async function rs256Token(
+  claims: Record<string, unknown>,
+  key: CryptoKey
+): Promise<string> {
+  return await signJwt("RS256", claims, key, "RSASSA-PKCS1-v1_5");
+}
+
+async function signJwt(
+  alg: JwtAlgorithm,
+  claims: Record<string, unknown>,
+  key: CryptoKey,
+  name: string
+): Promise<string> {
+  const content = [{ alg, typ: "JWT" }, claims]
+    .map((part) => base64Url(new TextEncoder().encode(JSON.stringify(part))))
+    .join(".");
+  const signature = await crypto.subtle.sign(
+    name,
+    key,
+    new TextEncoder().encode(content)
+  );
+  return `${content}.${base64Url(new Uint8Array(signature))}`;
+}
+
+function base64Url(data: Uint8Array): string {
+  return btoa(String.fromCharCode(...data))
+    .replaceAll("+", "-")
+    .replaceAll("/", "_")
+    .replace(TRAILING_PADDING, "");
+}
+
+async function signedStreams(): Promise<{
+  handler: StreamHandler;
+  floor: Offset;
+}> {
+  const store = new MemoryStore();
+  await store.put(SIGNED_PATH, { contentType: "text/plain" });
+  const { nextOffset: floor } = await store.append(
+    SIGNED_PATH,
+    new TextEncoder().encode("a")
+  );
+  await store.append(SIGNED_PATH, new TextEncoder().encode("b"));
+  const handler = createStreamHandler(store, {
+    authorize: createSignedUrlAuthorizer({ key: SIGNING_KEY }),
+  });
+  return { handler, floor };
+}
+
+async function signedUrl(
+  options: Omit<SignStreamUrlOptions, "key" | "expiresAt"> &
+    Partial<Pick<SignStreamUrlOptions, "expiresAt">>
+): Promise<string> {
+  return `${STREAM_ORIGIN}${await signStreamUrl(SIGNED_PATH, {
+    key: SIGNING_KEY,
+    expiresAt: new Date(Date.now() + 60_000),
+    ...options,
+  })}`;
+}
+
+async function limitedStreams(storage?: RateLimitStorage): Promise<{
+  handler: StreamHandler;
+  tail: string;
+}> {
+  const store = new MemoryStore();
+  const { nextOffset: tail } = await store.put(LIMITED_PATH, {
+    contentType: "text/plain",
+  });
+  const handler = createStreamHandler(store, {
+    liveWaitTimeoutMs: 1000,
+    rateLimit: createStreamRateLimiter({
+      key: clientIpKey,
+      appends: { capacity: 1, refillPerSecond: 1 },
+      maxLiveReads: 1,
+      storage,
+    }),
+  });
+  return { handler, tail };
+}
+
+function rateLimitStorage(): RateLimitStorage {
+  const values = new Map<string, unknown>();
+  return {
+    get: <T>(key: string) => Promise.resolve(values.get(key) as T | undefined),
+    put: (key, value) => {
+      values.set(key, value);
+      return Promise.resolve();
+    },
+    delete: (key) => Promise.resolve(values.delete(key)),
+    list: <T>({ prefix }: { prefix: string }) =>
+      Promise.resolve(
+        new Map(
+          [...values].filter(([key]) => key.startsWith(prefix)) as [string, T][]
+        )
+      ),
+  };
+}
+
+function limitedAppend(ip: string): Request {
+  return new Request(`${STREAM_ORIGIN}${LIMITED_PATH}`, {
+    method: "POST",
+    headers: { "Content-Type": "text/plain", "CF-Connecting-IP": ip },
+    body: ip,
+  });
+}
+
+function limitedLongPoll(ip: string, offset: string): Request {
+  const url = new URL(`${STREAM_ORIGIN}${LIMITED_PATH}`);
+  url.searchParams.set(OFFSET_QUERY_PARAM, offset);
+  url.searchParams.set(LIVE_QUERY_PARAM, "long-poll");
+  return new Request(url, { headers: { "CF-Connecting-IP": ip } });
+}
+
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+async function textStream(
+  path: string,
+  records: readonly string[],
+  options: PutOptions = {}
+): Promise<MemoryStore> {
+  const store = new MemoryStore();
+  await store.put(path, { contentType: "text/plain", ...options });
+  for (const record of records) {
+    await store.append(path, new TextEncoder().encode(record));
+  }
+  return store;
+}
+
+function decode(data: Uint8Array): string {
+  return new TextDecoder().decode(data);
+}
+
+async function collect(reader: StreamReader): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of reader) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
@@ -1,9 +1,22 @@
 import { runConformanceTests } from "@durable-streams/server-conformance-tests";
-import { afterAll, beforeAll } from "vitest";
-import { type Unstable_DevWorker, unstable_dev } from "wrangler";
+import {
+  formatOffset,
+  initialOffset,
+  type Offset,
+  parseOffset,
+} from "durable-cf-streams";
+import { R2Store } from "durable-cf-streams/storage/r2";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  getPlatformProxy,
+  type PlatformProxy,
+  type Unstable_DevWorker,
+  unstable_dev,
+} from "wrangler";
 
 let worker: Unstable_DevWorker;
 const config = { baseUrl: "" };
+const MAX_SEGMENT_BYTES = 300;
 
 beforeAll(async () => {
   worker = await unstable_dev("src/index.ts", {
@@ -19,3 +32,261 @@ afterAll(async () => {
 });
 
 runConformanceTests(config);
+
+describe("R2Store storage layout", () => {
+  let proxy: PlatformProxy<{ BUCKET: R2Bucket }>;
+
+  beforeAll(async () => {
+    proxy = await getPlatformProxy<{ BUCKET: R2Bucket }>({ persist: false });
+  });
+
+  afterAll(async () => {
+    await proxy?.dispose();
+  });
+
+  const r2Store = (options?: ConstructorParameters<typeof R2Store>[1]) =>
+    new R2Store(proxy.env.BUCKET, {
+      maxSegmentBytes: MAX_SEGMENT_BYTES,
+      ...options,
+    });
+
+  const segmentKeys = async (path: string): Promise<string[]> => {
+    const { objects } = await proxy.env.BUCKET.list({
+      prefix: `segment/${path}/`,
+    });
+    return objects
+      .map((object) => object.key)
+      .sort((left, right) => segmentPos(left) - segmentPos(right));
+  };
+
+  it("packs appends into the last segment until it is full", async () => {
+    const store = r2Store({ maxReadSegments: 10 });
+    const path = streamPath();
+    const records = await appendRecords(store, path, 10);
+
+    const keys = await segmentKeys(path);
+    expect(keys.length).toBeGreaterThan(1);
+    expect(keys.length).toBeLessThan(records.length);
+    for (const key of keys) {
+      const object = await proxy.env.BUCKET.head(key);
+      expect(object?.size).toBeLessThanOrEqual(MAX_SEGMENT_BYTES);
+    }
+
+    const { messages, upToDate } = await store.get(path);
+    expect(upToDate).toBe(true);
+    expect(messages.map((message) => message.offset)).toEqual(
+      records.map((record) => record.offset)
+    );
+    expect(messages.map((message) => decode(message.data))).toEqual(
+      records.map((record) => record.text)
+    );
+  });
+
+  it("splits an append larger than a segment across continuation segments", async () => {
+    const store = r2Store();
+    const path = streamPath();
+    await store.put(path, { contentType: "text/plain" });
+    const large = "large:".padEnd(MAX_SEGMENT_BYTES * 3, "l");
+    await store.append(path, encode("small"));
+    await store.append(path, encode(large));
+
+    expect((await segmentKeys(path)).length).toBeGreaterThan(3);
+    const { messages } = await store.get(path);
+    expect(messages.map((message) => decode(message.data))).toEqual([
+      "small",
+      large,
+    ]);
+  });
+
+  it("fetches only the segments at or after a read's offset", async () => {
+    const reads: string[] = [];
+    const store = new R2Store(recordingBucket(proxy.env.BUCKET, reads), {
+      maxSegmentBytes: MAX_SEGMENT_BYTES,
+    });
+    const path = streamPath();
+    const records = await appendRecords(store, path, 10);
+    const from = records[6] as TextRecord;
+    const keys = await segmentKeys(path);
+    const firstRead = keys.filter(
+      (key) => segmentPos(key) <= offsetPos(from.offset)
+    ).length;
+
+    reads.length = 0;
+    const { messages } = await store.get(path, { offset: from.offset });
+
+    expect(reads.filter((key) => key.startsWith("segment/"))).toEqual(
+      keys.slice(firstRead - 1)
+    );
+    expect(messages.map((message) => decode(message.data))).toEqual(
+      records.slice(6).map((record) => record.text)
+    );
+  });
+
+  it("returns a partial page once a read reaches maxReadSegments", async () => {
+    const store = r2Store({ maxReadSegments: 1 });
+    const path = streamPath();
+    const records = await appendRecords(store, path, 10);
+
+    const texts: string[] = [];
+    let offset: Offset | undefined;
+    let pages = 0;
+    let upToDate = false;
+    while (!upToDate) {
+      const page = await store.get(path, { offset });
+      texts.push(...page.messages.map((message) => decode(message.data)));
+      ({ nextOffset: offset, upToDate } = page);
+      pages++;
+    }
+
+    expect(pages).toBe((await segmentKeys(path)).length);
+    expect(texts).toEqual(records.map((record) => record.text));
+  });
+
+  it("deletes the segments retention drops and cuts the segment it splits", async () => {
+    const store = r2Store();
+    const path = streamPath();
+    await store.put(path, {
+      contentType: "text/plain",
+      retention: { maxMessages: 3 },
+    });
+    const records = await appendRecords(store, path, 10, false);
+    const kept = records.slice(-3);
+
+    const keys = await segmentKeys(path);
+    expect(segmentPos(keys[0] as string)).toBe(
+      offsetPos((kept[0] as TextRecord).offset)
+    );
+    const { messages } = await store.get(path);
+    expect(messages.map((message) => decode(message.data))).toEqual(
+      kept.map((record) => record.text)
+    );
+  });
+
+  it("deletes every segment with the stream", async () => {
+    const store = r2Store();
+    const path = streamPath();
+    await appendRecords(store, path, 10);
+
+    await store.delete(path);
+
+    await expect(segmentKeys(path)).resolves.toEqual([]);
+  });
+
+  it("upgrades a stream stored as one data object into segments on first read", async () => {
+    const path = streamPath();
+    const legacy = "legacy:".padEnd(MAX_SEGMENT_BYTES * 2, "l");
+    const createdAt = Date.now() - 60_000;
+    await proxy.env.BUCKET.put(`stream/${path}/data`, encode(legacy));
+    await proxy.env.BUCKET.put(
+      `stream/${path}/meta.json`,
+      JSON.stringify({
+        contentType: "text/plain",
+        createdAt,
+        lastAccessedAt: createdAt,
+        nextOffset: formatOffset(1, legacy.length),
+        appendCount: 1,
+        producers: {},
+        closed: false,
+        childCount: 0,
+        deleted: false,
+      })
+    );
+    const store = r2Store({ maxReadSegments: 10 });
+
+    const { messages, nextOffset } = await store.get(path);
+    expect(nextOffset).toBe(formatOffset(1, legacy.length));
+    expect(messages.map((message) => message.offset)).toEqual([
+      initialOffset(),
+    ]);
+    expect(messages.map((message) => message.timestamp)).toEqual([createdAt]);
+    expect(messages.map((message) => decode(message.data))).toEqual([legacy]);
+    expect((await segmentKeys(path)).length).toBeGreaterThan(1);
+    await expect(
+      proxy.env.BUCKET.head(`stream/${path}/data`)
+    ).resolves.toBeNull();
+
+    await store.append(path, encode("next"));
+    const reread = await r2Store({ maxReadSegments: 10 }).get(path);
+    expect(reread.messages.map((message) => decode(message.data))).toEqual([
+      legacy,
+      "next",
+    ]);
+  });
+
+  it("copies a fork's data into its own segments", async () => {
+    const store = r2Store();
+    const source = streamPath();
+    const records = await appendRecords(store, source, 6);
+    const fork = streamPath();
+
+    await store.put(fork, { contentType: "text/plain", forkedFrom: source });
+    await store.delete(source);
+
+    expect((await segmentKeys(fork)).length).toBeGreaterThan(0);
+    const { messages } = await store.get(fork);
+    expect(messages.map((message) => decode(message.data))).toEqual(
+      records.map((record) => record.text)
+    );
+  });
+});
+
+type TextRecord = {
+  readonly offset: Offset;
+  readonly text: string;
+};
+
+/**
+ * appends `count` small records one at a time, creating the stream first unless `create` is false.
+ */
+async function appendRecords(
+  store: R2Store,
+  path: string,
+  count: number,
+  create = true
+): Promise<TextRecord[]> {
+  let offset = create
+    ? (await store.put(path, { contentType: "text/plain" })).nextOffset
+    : (await store.head(path))?.nextOffset;
+  const records: TextRecord[] = [];
+  for (let index = 0; index < count; index++) {
+    const text = `record-${index}:`.padEnd(40, "x");
+    records.push({ offset: offset as Offset, text });
+    ({ nextOffset: offset } = await store.append(path, encode(text)));
+  }
+  return records;
+}
+
+/**
+ * an R2 bucket that records the keys it reads.
+ */
+function recordingBucket(bucket: R2Bucket, reads: string[]): R2Bucket {
+  return {
+    get: (key: string) => {
+      reads.push(key);
+      return bucket.get(key);
+    },
+    put: bucket.put.bind(bucket),
+    delete: bucket.delete.bind(bucket),
+    list: bucket.list.bind(bucket),
+  } as unknown as R2Bucket;
+}
+
+function segmentPos(key: string): number {
+  return Number(key.slice(key.lastIndexOf("/") + 1));
+}
+
+function offsetPos(offset: Offset): number {
+  return parseOffset(offset)?.pos ?? 0;
+}
+
+function streamPath(): string {
+  return `/storage-layout-${crypto.randomUUID()}`;
+}
+
+function encode(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function decode(data: Uint8Array): string {
+  return new TextDecoder().decode(data);
+}
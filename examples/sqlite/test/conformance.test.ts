@@ -1,5 +1,23 @@
+import { DatabaseSync, type SQLInputValue } from "node:sqlite";
 import { runConformanceTests } from "@durable-streams/server-conformance-tests";
-import { DEFAULT_SQLITE_MAX_CHUNK_BYTES } from "durable-cf-streams/storage/sqlite";
+import {
+  PayloadTooLargeError,
+  PRODUCER_EPOCH_HEADER,
+  PRODUCER_ID_HEADER,
+  PRODUCER_SEQ_HEADER,
+  RETRY_AFTER_HEADER,
+  StreamNotFoundError,
+} from "durable-cf-streams";
+import { createStreamHandler } from "durable-cf-streams/http";
+import {
+  createAesKwKeyProvider,
+  ENCRYPTED_CHUNK_OVERHEAD_BYTES,
+} from "durable-cf-streams/storage";
+import {
+  DEFAULT_SQLITE_MAX_CHUNK_BYTES,
+  SqliteStore,
+  type SqliteStoreOptions,
+} from "durable-cf-streams/storage/sqlite";
 import { afterAll, beforeAll, describe, expect, it } from "vitest";
 import { type Unstable_DevWorker, unstable_dev } from "wrangler";
 
@@ -61,6 +79,354 @@ describe("SqliteStore storage layout", () => {
   });
 });
 
+describe("SqliteStore WebSocket live reads", () => {
+  it("requires a WebSocket upgrade for live=ws", async () => {
+    const path = streamPath();
+    await createTextStream(path, "hello");
+
+    const response = await fetch(`${config.baseUrl}${path}?offset=-1&live=ws`);
+    expect(response.status).toBe(426);
+  });
+
+  it("reads and appends over one hibernated socket", async () => {
+    const path = streamPath();
+    await createTextStream(path, "hello");
+
+    const socket = new WebSocket(
+      `${config.baseUrl.replace("http", "ws")}${path}?offset=-1&live=ws`
+    );
+    const frames: Record<string, unknown>[] = [];
+    socket.addEventListener("message", (event) => {
+      frames.push(JSON.parse(String(event.data)));
+    });
+    await new Promise((resolve) => socket.addEventListener("open", resolve));
+
+    socket.send(JSON.stringify({ type: "append", id: "1", data: " world" }));
+    await expect.poll(() => frames.length).toBeGreaterThanOrEqual(5);
+    socket.close();
+
+    expect(frames.filter((frame) => frame.type === "data")).toEqual([
+      { type: "data", data: "hello" },
+      { type: "data", data: " world" },
+    ]);
+    expect(frames).toContainEqual(
+      expect.objectContaining({ type: "ack", id: "1" })
+    );
+  });
+
+  it("hibernates sockets on stream paths longer than a hibernation tag", async () => {
+    const path = `${streamPath()}/${"long-segment/".repeat(25)}tail`;
+    expect(path.length).toBeGreaterThan(256);
+    await createTextStream(path, "hello");
+
+    const socket = new WebSocket(
+      `${config.baseUrl.replace("http", "ws")}${path}?offset=-1&live=ws`
+    );
+    const frames: Record<string, unknown>[] = [];
+    socket.addEventListener("message", (event) => {
+      frames.push(JSON.parse(String(event.data)));
+    });
+    await new Promise((resolve) => socket.addEventListener("open", resolve));
+
+    await appendText(path, " world");
+    await expect
+      .poll(() => frames.filter((frame) => frame.type === "data").length)
+      .toBe(2);
+    socket.close();
+
+    expect(frames.filter((frame) => frame.type === "data")).toEqual([
+      { type: "data", data: "hello" },
+      { type: "data", data: " world" },
+    ]);
+  });
+});
+
+describe("SqliteStore compression", () => {
+  it("compresses chunks at rest and keeps ones that do not shrink raw", async () => {
+    const { store, db } = sqliteStore({ compression: "gzip" });
+    const repeated = "compressible ".repeat(100);
+    await store.put("/packed", { contentType: "text/plain" });
+    await store.append("/packed", encode(repeated));
+    await store.append("/packed", encode("xyz"));
+
+    const [compressed, raw] = chunkRows(db, "/packed");
+    expect(compressed?.compression).toBe("gzip");
+    expect(compressed?.data.length).toBeLessThan(repeated.length);
+    expect(raw?.compression).toBeNull();
+    expect(decode(raw?.data ?? new Uint8Array())).toBe("xyz");
+
+    const uncompressed = new SqliteStore(storageOf(db));
+    for (const reader of [store, uncompressed]) {
+      const { messages } = await reader.get("/packed");
+      expect(messages.map((message) => decode(message.data))).toEqual([
+        repeated,
+        "xyz",
+      ]);
+    }
+  });
+});
+
+describe("SqliteStore encryption", () => {
+  const provider = createAesKwKeyProvider({ k1: wrappingKey(1) }, "k1");
+
+  it("round-trips appends without storing their plaintext", async () => {
+    const { store, db } = sqliteStore({ keyProvider: provider });
+    await store.put("/secret", {
+      contentType: "text/plain",
+      data: encode("first secret"),
+    });
+    await store.append("/secret", encode("second secret"));
+
+    const result = await store.get("/secret");
+    expect(result.messages.map((message) => decode(message.data))).toEqual([
+      "first secret",
+      "second secret",
+    ]);
+
+    const rows = chunkRows(db, "/secret");
+    expect(rows.map((row) => row.encrypted)).toEqual([1, 1]);
+    for (const row of rows) {
+      expect(decode(row.data)).not.toContain("secret");
+    }
+  });
+
+  it("refuses a tampered chunk", async () => {
+    const { store, db } = sqliteStore({ keyProvider: provider });
+    await store.put("/tampered", { contentType: "text/plain" });
+    await store.append("/tampered", encode("untouched"));
+
+    const [row] = chunkRows(db, "/tampered");
+    const data = new Uint8Array(row?.data ?? []);
+    data[data.length - 1] = ((data.at(-1) ?? 0) + 1) % 256;
+    db.prepare(
+      "UPDATE stream_chunks SET data = ? WHERE path = ? AND start_pos = ?"
+    ).run(data, "/tampered", row?.start_pos ?? 0);
+
+    await expect(store.get("/tampered")).rejects.toThrow();
+  });
+
+  it("binds each chunk to its position and path", async () => {
+    const { store, db } = sqliteStore({ keyProvider: provider });
+    await store.put("/bound", { contentType: "text/plain" });
+    await store.append("/bound", encode("aaaa"));
+    await store.append("/bound", encode("bbbb"));
+
+    const [first, second] = chunkRows(db, "/bound");
+    const swap = db.prepare(
+      "UPDATE stream_chunks SET data = ? WHERE path = ? AND start_pos = ?"
+    );
+    swap.run(second?.data ?? null, "/bound", first?.start_pos ?? 0);
+    swap.run(first?.data ?? null, "/bound", second?.start_pos ?? 0);
+    await expect(store.get("/bound")).rejects.toThrow();
+
+    swap.run(first?.data ?? null, "/bound", first?.start_pos ?? 0);
+    swap.run(second?.data ?? null, "/bound", second?.start_pos ?? 0);
+    db.exec(
+      "UPDATE streams SET path = '/moved' WHERE path = '/bound'; UPDATE stream_chunks SET path = '/moved' WHERE path = '/bound'"
+    );
+    const moved = new SqliteStore(storageOf(db), { keyProvider: provider });
+    await expect(moved.get("/moved")).rejects.toThrow();
+  });
+
+  it("rewraps the data key on rotation without rewriting chunks", async () => {
+    const { store, db } = sqliteStore({ keyProvider: provider });
+    await store.put("/rotated", { contentType: "text/plain" });
+    await store.append("/rotated", encode("before rotation"));
+    const before = chunkRows(db, "/rotated");
+
+    const rotating = new SqliteStore(storageOf(db), {
+      keyProvider: createAesKwKeyProvider(
+        { k1: wrappingKey(1), k2: wrappingKey(2) },
+        "k2"
+      ),
+    });
+    await rotating.rotateDataKey("/rotated");
+
+    const { data_key } = db
+      .prepare("SELECT data_key FROM streams WHERE path = ?")
+      .get("/rotated") as { data_key: string };
+    expect(JSON.parse(data_key)).toMatchObject({ keyId: "k2" });
+    expect(chunkRows(db, "/rotated")).toEqual(before);
+
+    const rotated = new SqliteStore(storageOf(db), {
+      keyProvider: createAesKwKeyProvider({ k2: wrappingKey(2) }, "k2"),
+    });
+    const result = await rotated.get("/rotated");
+    expect(result.messages.map((message) => decode(message.data))).toEqual([
+      "before rotation",
+    ]);
+  });
+
+  it("leaves room for the IV and tag in maxChunkBytes", async () => {
+    const maxChunkBytes = 128;
+    const { store, db } = sqliteStore({ keyProvider: provider, maxChunkBytes });
+    await store.put("/bounded", { contentType: "text/plain" });
+
+    const fits = maxChunkBytes - ENCRYPTED_CHUNK_OVERHEAD_BYTES;
+    await store.append("/bounded", encode("x".repeat(fits)));
+    expect(chunkRows(db, "/bounded")[0]?.data.byteLength).toBe(maxChunkBytes);
+
+    await expect(
+      store.append("/bounded", encode("x".repeat(fits + 1)))
+    ).rejects.toBeInstanceOf(PayloadTooLargeError);
+    expect(
+      () =>
+        sqliteStore({
+          keyProvider: provider,
+          maxChunkBytes: ENCRYPTED_CHUNK_OVERHEAD_BYTES,
+        }).store
+    ).toThrow(RangeError);
+  });
+});
+
+describe("SqliteStore transactions", () => {
+  it("writes nothing when one append is rejected", async () => {
+    const { store } = sqliteStore();
+    await store.put("/tx/a", { contentType: "text/plain" });
+    await store.put("/tx/b", { contentType: "text/plain" });
+
+    await expect(
+      store.transaction([
+        { path: "/tx/a", data: encode("a") },
+        {
+          path: "/tx/b",
+          data: encode("b"),
+          options: { contentType: "application/json" },
+        },
+      ])
+    ).rejects.toThrow();
+
+    expect((await store.get("/tx/a")).messages).toEqual([]);
+    expect((await store.get("/tx/b")).messages).toEqual([]);
+  });
+
+  it("rolls back every append when the commit fails", async () => {
+    const { store, db } = sqliteStore();
+    await store.put("/tx/a", { contentType: "text/plain" });
+    await store.put("/tx/b", { contentType: "text/plain" });
+    db.exec(
+      "CREATE TRIGGER fail_b BEFORE INSERT ON stream_chunks WHEN NEW.path = '/tx/b' BEGIN SELECT RAISE(ABORT, 'disk full'); END"
+    );
+
+    await expect(
+      store.transaction([
+        { path: "/tx/a", data: encode("a") },
+        { path: "/tx/b", data: encode("b") },
+      ])
+    ).rejects.toThrow("disk full");
+
+    expect((await store.get("/tx/a")).messages).toEqual([]);
+    expect(chunkRows(db, "/tx/a")).toEqual([]);
+  });
+
+  it("gives a producer's append back when the transaction fails on a later path", async () => {
+    const { store, db } = sqliteStore({
+      quotas: { maxProducerAppendsPerSecond: 1 },
+    });
+    await store.put("/tx/a", { contentType: "text/plain" });
+    await store.put("/tx/b", { contentType: "text/plain" });
+    const producer = { id: "ingest", epoch: 0, seq: 0 };
+
+    await expect(
+      store.transaction([
+        { path: "/tx/a", data: encode("a"), options: { producer } },
+        { path: "/tx/missing", data: encode("b") },
+      ])
+    ).rejects.toThrow(StreamNotFoundError);
+
+    db.exec(
+      "CREATE TRIGGER fail_b BEFORE INSERT ON stream_chunks WHEN NEW.path = '/tx/b' BEGIN SELECT RAISE(ABORT, 'disk full'); END"
+    );
+    await expect(
+      store.transaction([
+        { path: "/tx/a", data: encode("a"), options: { producer } },
+        { path: "/tx/b", data: encode("b") },
+      ])
+    ).rejects.toThrow("disk full");
+
+    await expect(
+      store.append("/tx/a", encode("a"), { producer })
+    ).resolves.toMatchObject({ appended: true });
+  });
+
+  it("wakes waiters on every path after the commit", async () => {
+    const { store } = sqliteStore();
+    const tails = await Promise.all(
+      ["/tx/a", "/tx/b"].map(async (path) => {
+        const created = await store.put(path, { contentType: "text/plain" });
+        return { path, offset: created.nextOffset };
+      })
+    );
+    const waits = tails.map(({ path, offset }) =>
+      store.waitForData(path, offset, 5000)
+    );
+
+    await store.transaction([
+      { path: "/tx/a", data: encode("a") },
+      { path: "/tx/b", data: encode("b") },
+    ]);
+
+    const results = await Promise.all(waits);
+    expect(results.map((result) => result.timedOut)).toEqual([false, false]);
+    expect(
+      results.map((result) => result.messages.map((m) => decode(m.data)))
+    ).toEqual([["a"], ["b"]]);
+  });
+});
+
+describe("SqliteStore quotas", () => {
+  it("answers 507 once a stream would outgrow maxStreamBytes", async () => {
+    const handler = createStreamHandler(
+      sqliteStore({ quotas: { maxStreamBytes: 8 } }).store
+    );
+    await handler(textRequest("PUT", "/quota/bytes"));
+
+    expect(
+      (await handler(textRequest("POST", "/quota/bytes", "12345"))).ok
+    ).toBe(true);
+    const refused = await handler(textRequest("POST", "/quota/bytes", "6789"));
+    expect(refused.status).toBe(507);
+    expect(refused.headers.get(RETRY_AFTER_HEADER)).toBeNull();
+  });
+
+  it("answers 507 once a prefix holds maxStreamsPerPrefix streams", async () => {
+    const handler = createStreamHandler(
+      sqliteStore({ quotas: { maxStreamsPerPrefix: 1 } }).store
+    );
+
+    expect((await handler(textRequest("PUT", "/tenant-a/one"))).status).toBe(
+      201
+    );
+    expect((await handler(textRequest("PUT", "/tenant-a/two"))).status).toBe(
+      507
+    );
+    expect((await handler(textRequest("PUT", "/tenant-b/one"))).status).toBe(
+      201
+    );
+  });
+
+  it("answers 429 with Retry-After when a producer appends too fast", async () => {
+    const handler = createStreamHandler(
+      sqliteStore({ quotas: { maxProducerAppendsPerSecond: 1 } }).store
+    );
+    await handler(textRequest("PUT", "/quota/producer"));
+    const produce = (seq: number) =>
+      handler(
+        textRequest("POST", "/quota/producer", `record ${seq}`, {
+          [PRODUCER_ID_HEADER]: "ingest",
+          [PRODUCER_EPOCH_HEADER]: "0",
+          [PRODUCER_SEQ_HEADER]: String(seq),
+        })
+      );
+
+    expect((await produce(0)).ok).toBe(true);
+    const refused = await produce(1);
+    expect(refused.status).toBe(429);
+    expect(refused.headers.get(RETRY_AFTER_HEADER)).toBe("1");
+    expect((await produce(0)).ok).toBe(true);
+  });
+});
+
 async function createTextStream(path: string, body = ""): Promise<void> {
   const response = await fetch(`${config.baseUrl}${path}`, {
     method: "PUT",
@@ -91,3 +457,98 @@ async function getText(path: string): Promise<string> {
 function streamPath(): string {
   return `/storage-layout-${crypto.randomUUID()}`;
 }
+
+type ChunkRowData = {
+  start_pos: number;
+  data: Uint8Array;
+  compression: string | null;
+  encrypted: number;
+};
+
+type DurableObjectStorageLike = ConstructorParameters<typeof SqliteStore>[0];
+
+/**
+ * a durable object storage over an in-memory node:sqlite database, for driving `SqliteStore` directly.
+ */
+function storageOf(db: DatabaseSync): DurableObjectStorageLike {
+  const exec = (query: string, ...bindings: SQLInputValue[]) => {
+    const statements = query
+      .split(";")
+      .map((statement) => statement.trim())
+      .filter(Boolean);
+    if (bindings.length === 0 && statements.length > 1) {
+      db.exec(query);
+      return { toArray: () => [] };
+    }
+    const rows = db
+      .prepare(statements[0] ?? "")
+      .all(...bindings)
+      .map((row) =>
+        Object.fromEntries(
+          Object.entries(row).map(([column, value]) => [
+            column,
+            value instanceof Uint8Array ? value.slice().buffer : value,
+          ])
+        )
+      );
+    return { toArray: () => rows };
+  };
+
+  return {
+    sql: { exec },
+    transactionSync: <T>(operation: () => T): T => {
+      db.exec("SAVEPOINT store_transaction");
+      try {
+        const result = operation();
+        db.exec("RELEASE store_transaction");
+        return result;
+      } catch (error) {
+        db.exec("ROLLBACK TO store_transaction; RELEASE store_transaction");
+        throw error;
+      }
+    },
+  } as unknown as DurableObjectStorageLike;
+}
+
+function sqliteStore(options?: SqliteStoreOptions): {
+  store: SqliteStore;
+  db: DatabaseSync;
+} {
+  const db = new DatabaseSync(":memory:");
+  const store = new SqliteStore(storageOf(db), options);
+  store.initialize();
+  return { store, db };
+}
+
+function chunkRows(db: DatabaseSync, path: string): ChunkRowData[] {
+  return db
+    .prepare(
+      "SELECT start_pos, data, compression, encrypted FROM stream_chunks WHERE path = ? ORDER BY start_pos"
+    )
+    .all(path) as ChunkRowData[];
+}
+
+function wrappingKey(fill: number): Uint8Array {
+  return new Uint8Array(32).fill(fill);
+}
+
+function textRequest(
+  method: string,
+  path: string,
+  body?: string,
+  headers?: Record<string, string>
+): Request {
+  return new Request(`http://streams.test${path}`, {
+    method,
+    headers: { "Content-Type": "text/plain", ...headers },
+    body,
+  });
+}
+
+function encode(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function decode(data: Uint8Array | ArrayBuffer): string {
+  return new TextDecoder().decode(data);
+}
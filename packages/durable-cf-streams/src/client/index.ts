@@ -0,0 +1,33 @@
+// biome-ignore lint/performance/noBarrelFile: client helpers are exported from one public entrypoint.
+export {
+  DEFAULT_PRODUCER_LINGER_MS,
+  DEFAULT_PRODUCER_MAX_BATCH_BYTES,
+  DEFAULT_PRODUCER_MAX_BATCH_RECORDS,
+  DEFAULT_PRODUCER_MAX_RETRIES,
+  DEFAULT_PRODUCER_RETRY_DELAY_MS,
+  IdempotentProducer,
+  type IdempotentProducerEvents,
+  type IdempotentProducerOptions,
+  type ProducerFencedEvent,
+} from "./producer.js";
+export {
+  defaultStreamFetch,
+  type StreamChunk,
+  type StreamFetch,
+  type StreamLiveMode,
+  StreamReader,
+  type StreamReaderOptions,
+} from "./reader.js";
+export {
+  isClosedResponse,
+  responseNextOffset,
+  streamErrorFromResponse,
+  streamErrorFromStatus,
+} from "./response.js";
+export { parseSSEStream, type SSEEvent } from "./sse.js";
+export {
+  type CreateStreamOptions,
+  type StreamData,
+  StreamWriter,
+  type StreamWriterOptions,
+} from "./writer.js";
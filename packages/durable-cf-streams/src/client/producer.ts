@@ -0,0 +1,369 @@
+import {
+  InvalidProducerError,
+  isStreamError,
+  ProducerFencedError,
+  QuotaExceededError,
+  StreamResponseError,
+} from "../errors.js";
+import { isJsonContentType, isNdjsonContentType } from "../protocol.js";
+import type { AppendResult, ProducerAppendOptions } from "../types.js";
+import type { StreamData, StreamWriter } from "./writer.js";
+
+export type IdempotentProducerOptions = {
+  /**
+   * stable id of this logical producer; restarts must reuse it for the server to drop their duplicates.
+   */
+  readonly producerId: string;
+  /**
+   * epoch to start at; a new instance that takes over an id should start above the previous one.
+   */
+  readonly epoch?: number;
+  /**
+   * content type of the records.
+   * NOTE: JSON records are batched as one array append and NDJSON records as one line each, so reads still return every record; other records are concatenated. either way a batch is stored as one message at one offset, so set `maxBatchRecords: 1` when every record needs its own.
+   */
+  readonly contentType?: string;
+  readonly maxBatchRecords?: number;
+  readonly maxBatchBytes?: number;
+  /**
+   * how long a record waits for others to join its batch.
+   */
+  readonly lingerMs?: number;
+  /**
+   * retries of a batch after a network failure, 429 or 5xx, with doubling delays from `retryDelayMs`, or longer when a 429 sets `Retry-After`.
+   * NOTE: a 507 (`QuotaExceededError` without `retryAfterSeconds`) is not retried, since the quota stays full until data is removed.
+   */
+  readonly maxRetries?: number;
+  readonly retryDelayMs?: number;
+};
+
+export type ProducerFencedEvent = {
+  readonly producerId: string;
+  readonly epoch: number;
+  readonly currentEpoch: number;
+  readonly error: ProducerFencedError;
+};
+
+export type IdempotentProducerEvents = {
+  readonly fenced: ProducerFencedEvent;
+};
+
+export const DEFAULT_PRODUCER_MAX_BATCH_RECORDS = 100;
+export const DEFAULT_PRODUCER_MAX_BATCH_BYTES = 1_000_000;
+export const DEFAULT_PRODUCER_LINGER_MS = 5;
+export const DEFAULT_PRODUCER_MAX_RETRIES = 5;
+export const DEFAULT_PRODUCER_RETRY_DELAY_MS = 100;
+
+type PendingRecord = {
+  readonly data: Uint8Array;
+  readonly resolve: (result: AppendResult) => void;
+  readonly reject: (error: unknown) => void;
+};
+
+type SequencedOperation = (
+  producer: ProducerAppendOptions
+) => Promise<AppendResult>;
+
+type InDoubtOperation = {
+  readonly producer: ProducerAppendOptions;
+  readonly operation: SequencedOperation;
+};
+
+type Listener<T> = (event: T) => void;
+
+const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof StreamResponseError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  if (error instanceof QuotaExceededError) {
+    return error.retryAfterSeconds !== undefined;
+  }
+  return !isStreamError(error);
+};
+
+/**
+ * the doubling retry delay, stretched to the server's `Retry-After` when it asks for longer.
+ */
+const retryDelay = (
+  error: unknown,
+  baseDelayMs: number,
+  attempt: number
+): number =>
+  Math.max(
+    baseDelayMs * 2 ** attempt,
+    error instanceof QuotaExceededError
+      ? (error.retryAfterSeconds ?? 0) * 1000
+      : 0
+  );
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+const encodeRecord = (record: StreamData): Uint8Array =>
+  typeof record === "string" ? new TextEncoder().encode(record) : record;
+
+const concatRecords = (records: readonly PendingRecord[]): Uint8Array => {
+  const body = new Uint8Array(
+    records.reduce((total, record) => total + record.data.length, 0)
+  );
+  let position = 0;
+  for (const record of records) {
+    body.set(record.data, position);
+    position += record.data.length;
+  }
+  return body;
+};
+
+const jsonBatchBody = (records: readonly PendingRecord[]): Uint8Array => {
+  const decoder = new TextDecoder();
+  return new TextEncoder().encode(
+    `[${records.map((record) => decoder.decode(record.data)).join(",")}]`
+  );
+};
+
+const ndjsonBatchBody = (records: readonly PendingRecord[]): Uint8Array => {
+  const decoder = new TextDecoder();
+  return new TextEncoder().encode(
+    records.map((record) => `${decoder.decode(record.data)}\n`).join("")
+  );
+};
+
+const batchBody = (
+  records: readonly PendingRecord[],
+  contentType: string | undefined
+): Uint8Array => {
+  if (contentType !== undefined && isJsonContentType(contentType)) {
+    return jsonBatchBody(records);
+  }
+  if (contentType !== undefined && isNdjsonContentType(contentType)) {
+    return ndjsonBatchBody(records);
+  }
+  return concatRecords(records);
+};
+
+/**
+ * appends records exactly once through `Producer-Id`, `Producer-Epoch` and `Producer-Seq`.
+ * NOTE: batches are sent one at a time, each with the next sequence number, so a retried batch that already landed is answered as a duplicate and resolves like a first write.
+ * NOTE: a batch whose retries run out rejects, but may still have been written; the producer re-sends it with the same sequence before its next request, so that sequence is never reused for other data.
+ * NOTE: once fenced by a higher epoch, every pending and later append rejects with `ProducerFencedError` until `bumpEpoch` is called.
+ */
+export class IdempotentProducer {
+  private readonly writer: StreamWriter;
+  private readonly producerId: string;
+  private readonly contentType: string | undefined;
+  private readonly maxBatchRecords: number;
+  private readonly maxBatchBytes: number;
+  private readonly lingerMs: number;
+  private readonly maxRetries: number;
+  private readonly retryDelayMs: number;
+  private readonly listeners = new Set<Listener<ProducerFencedEvent>>();
+  private currentEpoch: number;
+  private nextSeq = 0;
+  private pending: PendingRecord[] = [];
+  private pendingBytes = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private sending: Promise<void> = Promise.resolve();
+  private inDoubt: InDoubtOperation | undefined;
+  private fencedError: ProducerFencedError | undefined;
+
+  constructor(writer: StreamWriter, options: IdempotentProducerOptions) {
+    if (options.producerId.length === 0) {
+      throw new InvalidProducerError("Producer-Id must not be empty");
+    }
+
+    this.writer = writer;
+    this.producerId = options.producerId;
+    this.contentType = options.contentType;
+    this.currentEpoch = options.epoch ?? 0;
+    this.maxBatchRecords =
+      options.maxBatchRecords ?? DEFAULT_PRODUCER_MAX_BATCH_RECORDS;
+    this.maxBatchBytes =
+      options.maxBatchBytes ?? DEFAULT_PRODUCER_MAX_BATCH_BYTES;
+    this.lingerMs = options.lingerMs ?? DEFAULT_PRODUCER_LINGER_MS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_PRODUCER_MAX_RETRIES;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_PRODUCER_RETRY_DELAY_MS;
+  }
+
+  get epoch(): number {
+    return this.currentEpoch;
+  }
+
+  /**
+   * sequence number the next batch is sent with.
+   */
+  get seq(): number {
+    return this.nextSeq;
+  }
+
+  get fenced(): boolean {
+    return this.fencedError !== undefined;
+  }
+
+  on<K extends keyof IdempotentProducerEvents>(
+    _type: K,
+    listener: Listener<IdempotentProducerEvents[K]>
+  ): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * queues one record and resolves once the batch holding it is acknowledged.
+   */
+  append(record: StreamData): Promise<AppendResult> {
+    if (this.fencedError) {
+      return Promise.reject(this.fencedError);
+    }
+
+    return new Promise((resolve, reject) => {
+      const data = encodeRecord(record);
+      this.pending.push({ data, resolve, reject });
+      this.pendingBytes += data.length;
+
+      if (
+        this.pending.length >= this.maxBatchRecords ||
+        this.pendingBytes >= this.maxBatchBytes
+      ) {
+        this.flush();
+      } else {
+        this.timer ??= setTimeout(() => this.flush(), this.lingerMs);
+      }
+    });
+  }
+
+  /**
+   * sends queued records now and resolves once every batch sent so far has settled.
+   */
+  flush(): Promise<void> {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batch = this.pending;
+    this.pending = [];
+    this.pendingBytes = 0;
+    if (batch.length > 0) {
+      this.sending = this.sending.then(() => this.sendBatch(batch));
+    }
+    return this.sending;
+  }
+
+  /**
+   * flushes, then closes the stream with the producer's next sequence.
+   */
+  async close(): Promise<AppendResult> {
+    await this.flush();
+    const closing = this.sending.then(() =>
+      this.sendOperation((producer) => this.writer.close({ producer }))
+    );
+    this.sending = closing.then(
+      () => undefined,
+      () => undefined
+    );
+    return await closing;
+  }
+
+  /**
+   * claims the producer id with a higher epoch and restarts its sequence at 0.
+   * NOTE: after fencing this moves past the epoch that fenced us; a batch left in doubt under the old epoch is dropped.
+   */
+  async bumpEpoch(): Promise<number> {
+    await this.flush();
+    this.currentEpoch =
+      Math.max(this.currentEpoch, this.fencedError?.currentEpoch ?? 0) + 1;
+    this.nextSeq = 0;
+    this.inDoubt = undefined;
+    this.fencedError = undefined;
+    return this.currentEpoch;
+  }
+
+  private async sendBatch(batch: readonly PendingRecord[]): Promise<void> {
+    const body = batchBody(batch, this.contentType);
+
+    try {
+      const result = await this.sendOperation((producer) =>
+        this.writer.append(body, { contentType: this.contentType, producer })
+      );
+      for (const record of batch) {
+        record.resolve(result);
+      }
+    } catch (error) {
+      for (const record of batch) {
+        record.reject(error);
+      }
+    }
+  }
+
+  /**
+   * runs one sequenced request after settling any request left in doubt.
+   */
+  private async sendOperation(
+    operation: SequencedOperation
+  ): Promise<AppendResult> {
+    if (this.fencedError) {
+      throw this.fencedError;
+    }
+
+    if (this.inDoubt) {
+      await this.withRetries(this.inDoubt.producer, this.inDoubt.operation);
+      this.inDoubt = undefined;
+    }
+
+    const producer = {
+      id: this.producerId,
+      epoch: this.currentEpoch,
+      seq: this.nextSeq,
+    };
+    try {
+      return await this.withRetries(producer, operation);
+    } catch (error) {
+      if (isRetryableError(error)) {
+        this.inDoubt = { producer, operation };
+      }
+      throw error;
+    }
+  }
+
+  private async withRetries(
+    producer: ProducerAppendOptions,
+    operation: SequencedOperation
+  ): Promise<AppendResult> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await operation(producer);
+        this.nextSeq = producer.seq + 1;
+        return result;
+      } catch (error) {
+        this.handleFailure(error, attempt);
+        await sleep(retryDelay(error, this.retryDelayMs, attempt));
+      }
+    }
+  }
+
+  /**
+   * rethrows failures that a retry cannot fix.
+   */
+  private handleFailure(error: unknown, attempt: number): void {
+    if (error instanceof ProducerFencedError) {
+      this.fence(error);
+      throw error;
+    }
+    if (!isRetryableError(error) || attempt >= this.maxRetries) {
+      throw error;
+    }
+  }
+
+  private fence(error: ProducerFencedError): void {
+    this.fencedError = error;
+    const event: ProducerFencedEvent = {
+      producerId: this.producerId,
+      epoch: this.currentEpoch,
+      currentEpoch: error.currentEpoch,
+      error,
+    };
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+}
@@ -0,0 +1,356 @@
+import {
+  CURSOR_QUERY_PARAM,
+  FILTER_QUERY_PARAM,
+  LIVE_QUERY_PARAM,
+  OFFSET_QUERY_PARAM,
+  SSE_CLOSED_FIELD,
+  SSE_CURSOR_FIELD,
+  SSE_OFFSET_FIELD,
+  STREAM_CURSOR_HEADER,
+  STREAM_SSE_DATA_ENCODING_HEADER,
+  STREAM_UP_TO_DATE_HEADER,
+  TAIL_OFFSET_QUERY_VALUE,
+} from "../const.js";
+import { InvalidOffsetError, StreamResponseError } from "../errors.js";
+import { isValidOffset, normalizeOffset } from "../offsets.js";
+import { decodeBase64Data } from "../protocol.js";
+import type { Offset } from "../types.js";
+import {
+  isClosedResponse,
+  responseNextOffset,
+  streamErrorFromResponse,
+  streamErrorFromStatus,
+} from "./response.js";
+import { parseSSEStream, type SSEEvent } from "./sse.js";
+
+export type StreamFetch = (
+  input: Request | string | URL,
+  init?: RequestInit
+) => Promise<Response>;
+
+export type StreamLiveMode = "auto" | "sse" | "long-poll" | "off";
+
+export type StreamReaderOptions = {
+  /**
+   * where to start reading, e.g. an offset persisted from `reader.offset`.
+   * NOTE: `-1` (the default) reads from the start of the retained stream and `now` from its tail.
+   */
+  readonly offset?: string;
+  /**
+   * how to wait for new data once the reader has caught up.
+   * NOTE: `auto` (the default) uses SSE and falls back to long-poll for the rest of the read when the response is not an event stream; `off` ends the read at the tail.
+   */
+  readonly live?: StreamLiveMode;
+  /**
+   * a filter expression the server applies to a JSON or NDJSON stream, e.g. `$.type == "click"`.
+   * NOTE: the reader's offset still moves past the items it drops.
+   */
+  readonly filter?: string;
+  readonly headers?: HeadersInit;
+  readonly fetch?: StreamFetch;
+  readonly signal?: AbortSignal;
+};
+
+/**
+ * data read from the stream and the offset to resume after it.
+ */
+export type StreamChunk = {
+  readonly data: Uint8Array;
+  readonly offset: Offset;
+  readonly upToDate: boolean;
+  readonly closed: boolean;
+};
+
+type SSEControlEvent = {
+  readonly [SSE_OFFSET_FIELD]?: string;
+  readonly [SSE_CURSOR_FIELD]?: string;
+  readonly [SSE_CLOSED_FIELD]?: boolean;
+  readonly upToDate?: boolean;
+};
+
+type SSEErrorEvent = {
+  readonly error?: string;
+  readonly status?: number;
+};
+
+const EVENT_STREAM_CONTENT_TYPE = "text/event-stream";
+
+const concatChunks = (chunks: readonly Uint8Array[]): Uint8Array => {
+  const data = new Uint8Array(
+    chunks.reduce((total, chunk) => total + chunk.length, 0)
+  );
+  let position = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, position);
+    position += chunk.length;
+  }
+  return data;
+};
+
+export const defaultStreamFetch: StreamFetch = (input, init) =>
+  fetch(input, init);
+
+/**
+ * reads a stream over HTTP as an async iterator of `StreamChunk`s.
+ * NOTE: the reader keeps its position, so iterating again resumes where the last iteration stopped; persist `offset` to resume in another process.
+ * NOTE: every live request echoes the last `Stream-Cursor` as `cursor`, so CDN-cached long-polls keep advancing.
+ */
+export class StreamReader implements AsyncIterable<StreamChunk> {
+  private readonly url: URL;
+  private readonly live: StreamLiveMode;
+  private readonly filter: string | undefined;
+  private readonly headers: HeadersInit | undefined;
+  private readonly fetcher: StreamFetch;
+  private readonly signal: AbortSignal | undefined;
+  private currentOffset: string;
+  private currentCursor: string | undefined;
+  private streamClosed = false;
+  private sseUnavailable = false;
+
+  constructor(url: string | URL, options: StreamReaderOptions = {}) {
+    const offset = options.offset ?? "-1";
+    if (offset !== TAIL_OFFSET_QUERY_VALUE && !isValidOffset(offset)) {
+      throw new InvalidOffsetError(offset);
+    }
+
+    this.url = new URL(url);
+    this.live = options.live ?? "auto";
+    this.filter = options.filter;
+    this.headers = options.headers;
+    this.fetcher = options.fetch ?? defaultStreamFetch;
+    this.signal = options.signal;
+    this.currentOffset = offset;
+  }
+
+  /**
+   * the offset to resume from; `-1` and `now` are replaced by a real offset after the first response.
+   */
+  get offset(): string {
+    return this.currentOffset;
+  }
+
+  get cursor(): string | undefined {
+    return this.currentCursor;
+  }
+
+  /**
+   * whether the reader has reached the end of a closed stream.
+   */
+  get closed(): boolean {
+    return this.streamClosed;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<StreamChunk> {
+    if (this.live === "off") {
+      yield* this.readToTail();
+      return;
+    }
+
+    while (!this.streamClosed) {
+      if (this.live === "long-poll" || this.sseUnavailable) {
+        const chunk = await this.readOnce("long-poll");
+        if (chunk.data.length > 0) {
+          yield chunk;
+        }
+      } else {
+        yield* this.readSSE();
+      }
+    }
+  }
+
+  /**
+   * yields the stream as UTF-8 text.
+   */
+  async *text(): AsyncGenerator<string> {
+    const decoder = new TextDecoder();
+    for await (const chunk of this) {
+      yield decoder.decode(chunk.data, { stream: true });
+    }
+  }
+
+  /**
+   * yields each message of a JSON stream.
+   */
+  async *json<T = unknown>(): AsyncGenerator<T> {
+    const decoder = new TextDecoder();
+    for await (const chunk of this) {
+      const value: unknown = JSON.parse(decoder.decode(chunk.data));
+      if (Array.isArray(value)) {
+        yield* value as T[];
+      } else {
+        yield value as T;
+      }
+    }
+  }
+
+  /**
+   * yields each line of an NDJSON stream as soon as it arrives.
+   * NOTE: a line split across chunks is held until its newline arrives.
+   */
+  async *ndjson<T = unknown>(): AsyncGenerator<T> {
+    let buffer = "";
+    for await (const text of this.text()) {
+      const lines = (buffer + text).split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.trim() !== "") {
+          yield JSON.parse(line) as T;
+        }
+      }
+    }
+  }
+
+  private async *readToTail(): AsyncGenerator<StreamChunk> {
+    while (!this.streamClosed) {
+      const chunk = await this.readOnce(undefined);
+      if (chunk.data.length > 0) {
+        yield chunk;
+      }
+      if (chunk.upToDate) {
+        return;
+      }
+    }
+  }
+
+  private request(live: "sse" | "long-poll" | undefined): Promise<Response> {
+    const url = new URL(this.url);
+    url.searchParams.set(OFFSET_QUERY_PARAM, this.currentOffset);
+    if (live !== undefined) {
+      url.searchParams.set(LIVE_QUERY_PARAM, live);
+    }
+    if (this.currentCursor !== undefined) {
+      url.searchParams.set(CURSOR_QUERY_PARAM, this.currentCursor);
+    }
+    if (this.filter !== undefined) {
+      url.searchParams.set(FILTER_QUERY_PARAM, this.filter);
+    }
+
+    const headers = new Headers(this.headers);
+    if (live === "sse") {
+      headers.set("Accept", EVENT_STREAM_CONTENT_TYPE);
+    }
+    return this.fetcher(url, { headers, signal: this.signal });
+  }
+
+  private async readOnce(live: "long-poll" | undefined): Promise<StreamChunk> {
+    const response = await this.request(live);
+    if (!response.ok) {
+      throw await streamErrorFromResponse(this.url.pathname, response);
+    }
+
+    const data = new Uint8Array(await response.arrayBuffer());
+    this.currentOffset = responseNextOffset(response);
+    this.currentCursor =
+      response.headers.get(STREAM_CURSOR_HEADER) ?? this.currentCursor;
+    this.streamClosed = isClosedResponse(response.headers);
+
+    return {
+      data,
+      offset: normalizeOffset(this.currentOffset),
+      upToDate: response.headers.get(STREAM_UP_TO_DATE_HEADER) === "true",
+      closed: this.streamClosed,
+    };
+  }
+
+  /**
+   * reads one SSE connection until the stream closes or the connection ends.
+   * NOTE: data events are only yielded once the following control event gives the offset after them.
+   */
+  private async *readSSE(): AsyncGenerator<StreamChunk> {
+    const response = await this.request("sse");
+    if (!response.ok) {
+      throw await streamErrorFromResponse(this.url.pathname, response);
+    }
+
+    const body = await this.eventStreamBody(response);
+    if (body === undefined) {
+      return;
+    }
+
+    const base64 =
+      response.headers.get(STREAM_SSE_DATA_ENCODING_HEADER) === "base64";
+    const pending: Uint8Array[] = [];
+    for await (const event of parseSSEStream(body)) {
+      const chunk = this.applySSEEvent(event, pending, base64);
+      if (chunk && chunk.data.length > 0) {
+        yield chunk;
+      }
+      if (this.streamClosed) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * returns the body of an SSE response.
+   * NOTE: in `auto` mode a response that is not an event stream (for example from a buffering proxy) switches the reader to long-poll instead of failing.
+   */
+  private async eventStreamBody(
+    response: Response
+  ): Promise<ReadableStream<Uint8Array> | undefined> {
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType.startsWith(EVENT_STREAM_CONTENT_TYPE) && response.body) {
+      return response.body;
+    }
+
+    await response.body?.cancel();
+    if (this.live !== "auto") {
+      throw new StreamResponseError(
+        response.status,
+        `Expected ${EVENT_STREAM_CONTENT_TYPE}, received ${contentType}`
+      );
+    }
+    this.sseUnavailable = true;
+    return;
+  }
+
+  private applySSEEvent(
+    event: SSEEvent,
+    pending: Uint8Array[],
+    base64: boolean
+  ): StreamChunk | undefined {
+    switch (event.event) {
+      case "data":
+        pending.push(
+          base64
+            ? decodeBase64Data(event.data)
+            : new TextEncoder().encode(event.data)
+        );
+        return;
+      case "control":
+        return this.applySSEControl(
+          JSON.parse(event.data) as SSEControlEvent,
+          pending.splice(0)
+        );
+      case "error": {
+        const error = JSON.parse(event.data) as SSEErrorEvent;
+        throw streamErrorFromStatus(
+          this.url.pathname,
+          error.status ?? 500,
+          error.error ?? "Stream error"
+        );
+      }
+      default:
+        return;
+    }
+  }
+
+  private applySSEControl(
+    control: SSEControlEvent,
+    data: readonly Uint8Array[]
+  ): StreamChunk {
+    const offset = control[SSE_OFFSET_FIELD];
+    if (offset !== undefined && isValidOffset(offset)) {
+      this.currentOffset = offset;
+    }
+    this.currentCursor = control[SSE_CURSOR_FIELD] ?? this.currentCursor;
+    this.streamClosed = control[SSE_CLOSED_FIELD] === true;
+
+    return {
+      data: concatChunks(data),
+      offset: normalizeOffset(this.currentOffset),
+      upToDate: control.upToDate === true,
+      closed: this.streamClosed,
+    };
+  }
+}
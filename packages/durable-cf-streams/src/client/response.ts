@@ -0,0 +1,163 @@
+import {
+  PRODUCER_EPOCH_HEADER,
+  PRODUCER_EXPECTED_SEQ_HEADER,
+  PRODUCER_RECEIVED_SEQ_HEADER,
+  RETRY_AFTER_HEADER,
+  STREAM_CLOSED_HEADER,
+  STREAM_EARLIEST_OFFSET_HEADER,
+  STREAM_OFFSET_HEADER,
+  STREAM_SCHEMA_POINTER_HEADER,
+  WWW_AUTHENTICATE_HEADER,
+} from "../const.js";
+import {
+  ForbiddenError,
+  OffsetTrimmedError,
+  ProducerFencedError,
+  ProducerSequenceConflictError,
+  QuotaExceededError,
+  SchemaViolationError,
+  StreamClosedError,
+  StreamGoneError,
+  StreamNotFoundError,
+  StreamResponseError,
+  UnauthorizedError,
+} from "../errors.js";
+import { isValidOffset, normalizeOffset } from "../offsets.js";
+import type { Offset } from "../types.js";
+
+export const isClosedResponse = (headers: Headers): boolean =>
+  headers.get(STREAM_CLOSED_HEADER)?.toLowerCase() === "true";
+
+/**
+ * reads `Stream-Next-Offset` from a response.
+ * NOTE: every successful read and write carries it, so a missing or malformed value means the server does not speak the protocol.
+ */
+export const responseNextOffset = (response: Response): Offset => {
+  const offset = response.headers.get(STREAM_OFFSET_HEADER);
+  if (offset === null || !isValidOffset(offset)) {
+    throw new StreamResponseError(
+      response.status,
+      `Missing or invalid ${STREAM_OFFSET_HEADER} header`
+    );
+  }
+  return normalizeOffset(offset);
+};
+
+const conflictError = (
+  path: string,
+  status: number,
+  message: string,
+  headers: Headers
+): Error => {
+  const expected = headers.get(PRODUCER_EXPECTED_SEQ_HEADER);
+  const received = headers.get(PRODUCER_RECEIVED_SEQ_HEADER);
+  if (expected !== null && received !== null) {
+    return new ProducerSequenceConflictError(expected, received);
+  }
+
+  const nextOffset = headers.get(STREAM_OFFSET_HEADER);
+  if (isClosedResponse(headers) && nextOffset !== null) {
+    return new StreamClosedError(path, nextOffset);
+  }
+  return new StreamResponseError(status, message);
+};
+
+const goneError = (path: string, headers: Headers): Error => {
+  const earliestOffset = headers.get(STREAM_EARLIEST_OFFSET_HEADER);
+  return earliestOffset === null
+    ? new StreamGoneError(path)
+    : new OffsetTrimmedError(path, earliestOffset);
+};
+
+const unauthorizedError = (message: string, headers: Headers): Error => {
+  const scheme = headers.get(WWW_AUTHENTICATE_HEADER)?.split(" ")[0];
+  return scheme
+    ? new UnauthorizedError(message, scheme)
+    : new UnauthorizedError(message);
+};
+
+/**
+ * a 403 is a fenced producer when it carries the current epoch, and a refused operation otherwise.
+ */
+const forbiddenError = (
+  path: string,
+  message: string,
+  headers: Headers,
+  receivedEpoch: number | undefined
+): Error => {
+  const currentEpoch = headers.get(PRODUCER_EPOCH_HEADER);
+  return currentEpoch === null || receivedEpoch === undefined
+    ? new ForbiddenError(path, message)
+    : new ProducerFencedError(Number(currentEpoch), receivedEpoch);
+};
+
+const unprocessableError = (
+  status: number,
+  message: string,
+  headers: Headers
+): Error => {
+  const pointer = headers.get(STREAM_SCHEMA_POINTER_HEADER);
+  return pointer === null
+    ? new StreamResponseError(status, message)
+    : new SchemaViolationError(pointer, message);
+};
+
+/**
+ * a 429 is a rate quota only when it says when to retry; a bare 429 from a proxy stays a `StreamResponseError`.
+ */
+const tooManyRequestsError = (
+  status: number,
+  message: string,
+  headers: Headers
+): Error => {
+  const retryAfter = Number(headers.get(RETRY_AFTER_HEADER) ?? Number.NaN);
+  return Number.isSafeInteger(retryAfter) && retryAfter >= 0
+    ? new QuotaExceededError(message, retryAfter)
+    : new StreamResponseError(status, message);
+};
+
+/**
+ * rebuilds the typed error a server raised from its status, headers and message.
+ * NOTE: SSE `error` events carry no headers, so they can only map to errors that need none; everything else becomes a `StreamResponseError`.
+ */
+export const streamErrorFromStatus = (
+  path: string,
+  status: number,
+  message: string,
+  headers: Headers = new Headers(),
+  receivedEpoch?: number
+): Error => {
+  switch (status) {
+    case 404:
+      return new StreamNotFoundError(path);
+    case 409:
+      return conflictError(path, status, message, headers);
+    case 410:
+      return goneError(path, headers);
+    case 401:
+      return unauthorizedError(message, headers);
+    case 403:
+      return forbiddenError(path, message, headers, receivedEpoch);
+    case 422:
+      return unprocessableError(status, message, headers);
+    case 429:
+      return tooManyRequestsError(status, message, headers);
+    case 507:
+      return new QuotaExceededError(message);
+    default:
+      return new StreamResponseError(status, message);
+  }
+};
+
+export const streamErrorFromResponse = async (
+  path: string,
+  response: Response,
+  receivedEpoch?: number
+): Promise<Error> =>
+  streamErrorFromStatus(
+    path,
+    response.status,
+    (await response.text()) || response.statusText,
+    response.headers,
+    receivedEpoch
+  );
@@ -0,0 +1,89 @@
+const SSE_LINE_BREAK = /\r?\n/;
+
+export type SSEEvent = {
+  readonly event: string;
+  readonly data: string;
+};
+
+type SSEEventBuilder = {
+  event: string;
+  data: string[];
+};
+
+const emptyEvent = (): SSEEventBuilder => ({ event: "message", data: [] });
+
+/**
+ * applies one SSE line and returns the finished event on a blank line.
+ * NOTE: comment lines (the server's heartbeats) and fields other than `event` and `data` are ignored.
+ */
+const applySSELine = (
+  builder: SSEEventBuilder,
+  line: string
+): SSEEvent | undefined => {
+  if (line === "") {
+    return builder.data.length > 0
+      ? { event: builder.event, data: builder.data.join("\n") }
+      : undefined;
+  }
+
+  const separator = line.indexOf(":");
+  const field = separator === -1 ? line : line.slice(0, separator);
+  const rawValue = separator === -1 ? "" : line.slice(separator + 1);
+  const value = rawValue.startsWith(" ") ? rawValue.slice(1) : rawValue;
+
+  if (field === "event") {
+    builder.event = value;
+  } else if (field === "data") {
+    builder.data.push(value);
+  }
+  return;
+};
+
+/**
+ * splits decoded text into events, keeping partial lines and events until more text arrives.
+ */
+const createSSEParser = () => {
+  let buffer = "";
+  let builder = emptyEvent();
+
+  return (text: string): SSEEvent[] => {
+    buffer += text;
+    const lines = buffer.split(SSE_LINE_BREAK);
+    buffer = lines.pop() ?? "";
+
+    const events: SSEEvent[] = [];
+    for (const line of lines) {
+      const event = applySSELine(builder, line);
+      if (line === "") {
+        builder = emptyEvent();
+      }
+      if (event) {
+        events.push(event);
+      }
+    }
+    return events;
+  };
+};
+
+/**
+ * parses a `text/event-stream` body into events.
+ */
+export async function* parseSSEStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parse = createSSEParser();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield* parse(decoder.decode(value, { stream: true }));
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
@@ -0,0 +1,242 @@
+import {
+  DEFAULT_CONTENT_TYPE,
+  PRODUCER_EPOCH_HEADER,
+  PRODUCER_ID_HEADER,
+  PRODUCER_SEQ_HEADER,
+  STREAM_CLOSED_HEADER,
+  STREAM_EXPIRES_AT_HEADER,
+  STREAM_FORK_OFFSET_HEADER,
+  STREAM_FORK_SUB_OFFSET_HEADER,
+  STREAM_FORKED_FROM_HEADER,
+  STREAM_FRAMING_HEADER,
+  STREAM_RETENTION_MAX_AGE_HEADER,
+  STREAM_RETENTION_MAX_BYTES_HEADER,
+  STREAM_RETENTION_MAX_MESSAGES_HEADER,
+  STREAM_SCHEMA_HEADER,
+  STREAM_SEQ_HEADER,
+  STREAM_TTL_HEADER,
+} from "../const.js";
+import { validateStreamFraming } from "../protocol.js";
+import { decodeJsonSchemaJson, ETagSchema } from "../schema.js";
+import type {
+  AppendOptions,
+  AppendResult,
+  HeadResult,
+  PutOptions,
+  PutResult,
+} from "../types.js";
+import { defaultStreamFetch, type StreamFetch } from "./reader.js";
+import {
+  isClosedResponse,
+  responseNextOffset,
+  streamErrorFromResponse,
+} from "./response.js";
+
+export type StreamData = Uint8Array | string;
+
+export type StreamWriterOptions = {
+  /**
+   * content type sent with appends that do not set their own.
+   * NOTE: defaults to the type given to `create`, or `application/octet-stream`.
+   */
+  readonly contentType?: string;
+  readonly headers?: HeadersInit;
+  readonly fetch?: StreamFetch;
+};
+
+export type CreateStreamOptions = Omit<PutOptions, "data"> & {
+  readonly data?: StreamData;
+};
+
+type HeaderValue = string | number | boolean | undefined;
+
+const optionalHeaders = (
+  entries: readonly (readonly [string, HeaderValue])[]
+): Record<string, string> =>
+  Object.fromEntries(
+    entries
+      .filter(([, value]) => value !== undefined && value !== false)
+      .map(([name, value]) => [name, String(value)])
+  );
+
+const encodeStreamData = (data: StreamData | undefined): Uint8Array =>
+  typeof data === "string"
+    ? new TextEncoder().encode(data)
+    : (data ?? new Uint8Array(0));
+
+const responseJsonSchema = (
+  headers: Headers
+): Pick<HeadResult, "jsonSchema"> => {
+  const header = headers.get(STREAM_SCHEMA_HEADER);
+  return header === null ? {} : { jsonSchema: decodeJsonSchemaJson(header) };
+};
+
+/**
+ * creates, appends to, closes and deletes one stream over HTTP.
+ * NOTE: appends are sent as they are called; await each one, or use producer headers, when their order matters.
+ */
+export class StreamWriter {
+  private readonly url: URL;
+  private readonly headers: HeadersInit | undefined;
+  private readonly fetcher: StreamFetch;
+  private contentType: string | undefined;
+
+  constructor(url: string | URL, options: StreamWriterOptions = {}) {
+    this.url = new URL(url);
+    this.headers = options.headers;
+    this.fetcher = options.fetch ?? defaultStreamFetch;
+    this.contentType = options.contentType;
+  }
+
+  async create(options: CreateStreamOptions = {}): Promise<PutResult> {
+    const data = encodeStreamData(options.data);
+    const response = await this.send("PUT", data, {
+      ...optionalHeaders([
+        ["Content-Type", options.contentType ?? this.contentType],
+        [STREAM_TTL_HEADER, options.ttlSeconds],
+        [STREAM_EXPIRES_AT_HEADER, options.expiresAt],
+        [STREAM_CLOSED_HEADER, options.closed],
+        [STREAM_FORKED_FROM_HEADER, options.forkedFrom],
+        [STREAM_FORK_OFFSET_HEADER, options.forkOffset],
+        [STREAM_FORK_SUB_OFFSET_HEADER, options.forkSubOffset],
+        [STREAM_RETENTION_MAX_BYTES_HEADER, options.retention?.maxBytes],
+        [STREAM_RETENTION_MAX_MESSAGES_HEADER, options.retention?.maxMessages],
+        [STREAM_RETENTION_MAX_AGE_HEADER, options.retention?.maxAgeSeconds],
+        [STREAM_FRAMING_HEADER, options.framing],
+        [
+          STREAM_SCHEMA_HEADER,
+          options.jsonSchema === undefined
+            ? undefined
+            : JSON.stringify(options.jsonSchema),
+        ],
+      ]),
+    });
+    if (!response.ok) {
+      throw await streamErrorFromResponse(this.url.pathname, response);
+    }
+
+    const contentType =
+      response.headers.get("content-type") ?? DEFAULT_CONTENT_TYPE;
+    this.contentType ??= contentType;
+    return {
+      created: response.status === 201,
+      nextOffset: responseNextOffset(response),
+      contentType,
+      closed: isClosedResponse(response.headers),
+    };
+  }
+
+  /**
+   * appends one message.
+   * NOTE: producer appends answered with 204 were already applied, so they resolve with `duplicate: true` instead of failing.
+   */
+  async append(
+    data: StreamData,
+    options: AppendOptions = {}
+  ): Promise<AppendResult> {
+    const body = encodeStreamData(data);
+    const { producer } = options;
+    const response = await this.send("POST", body, {
+      ...optionalHeaders([
+        [
+          "Content-Type",
+          body.length > 0
+            ? (options.contentType ?? this.contentType ?? DEFAULT_CONTENT_TYPE)
+            : undefined,
+        ],
+        [STREAM_SEQ_HEADER, options.seq],
+        [STREAM_CLOSED_HEADER, options.close],
+        [PRODUCER_ID_HEADER, producer?.id],
+        [PRODUCER_EPOCH_HEADER, producer?.epoch],
+        [PRODUCER_SEQ_HEADER, producer?.seq],
+      ]),
+    });
+    if (!response.ok) {
+      throw await streamErrorFromResponse(
+        this.url.pathname,
+        response,
+        producer?.epoch
+      );
+    }
+
+    const duplicate =
+      producer !== undefined && body.length > 0 && response.status === 204;
+    return {
+      nextOffset: responseNextOffset(response),
+      closed: isClosedResponse(response.headers),
+      appended: body.length > 0 && !duplicate,
+      ...(producer === undefined
+        ? {}
+        : {
+            producer: {
+              id: producer.id,
+              epoch: Number(
+                response.headers.get(PRODUCER_EPOCH_HEADER) ?? producer.epoch
+              ),
+              seq: Number(
+                response.headers.get(PRODUCER_SEQ_HEADER) ?? producer.seq
+              ),
+              duplicate,
+            },
+          }),
+    };
+  }
+
+  /**
+   * closes the stream so readers end once they reach its tail.
+   */
+  close(
+    options: Omit<AppendOptions, "close" | "contentType"> = {}
+  ): Promise<AppendResult> {
+    return this.append(new Uint8Array(0), { ...options, close: true });
+  }
+
+  async head(): Promise<HeadResult | null> {
+    const response = await this.send("HEAD");
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw await streamErrorFromResponse(this.url.pathname, response);
+    }
+
+    const ttl = response.headers.get(STREAM_TTL_HEADER);
+    const expiresAt = response.headers.get(STREAM_EXPIRES_AT_HEADER);
+    const framing = validateStreamFraming(
+      response.headers.get(STREAM_FRAMING_HEADER) ?? ""
+    );
+    return {
+      contentType: response.headers.get("content-type") ?? DEFAULT_CONTENT_TYPE,
+      nextOffset: responseNextOffset(response),
+      etag: ETagSchema.make(response.headers.get("etag") ?? ""),
+      closed: isClosedResponse(response.headers),
+      ...(ttl === null ? {} : { ttlSeconds: Number(ttl) }),
+      ...(expiresAt === null ? {} : { expiresAt }),
+      ...(framing === null ? {} : { framing }),
+      ...responseJsonSchema(response.headers),
+    };
+  }
+
+  async delete(): Promise<void> {
+    const response = await this.send("DELETE");
+    if (!response.ok) {
+      throw await streamErrorFromResponse(this.url.pathname, response);
+    }
+  }
+
+  private send(
+    method: string,
+    body?: Uint8Array,
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const requestHeaders = new Headers(this.headers);
+    for (const [name, value] of Object.entries(headers)) {
+      requestHeaders.set(name, value);
+    }
+    return this.fetcher(this.url, {
+      method,
+      headers: requestHeaders,
+      body: body === undefined || body.length === 0 ? undefined : body,
+    });
+  }
+}
@@ -9,6 +9,14 @@ export const STREAM_CLOSED_HEADER = "Stream-Closed";
 export const STREAM_FORKED_FROM_HEADER = "Stream-Forked-From";
 export const STREAM_FORK_OFFSET_HEADER = "Stream-Fork-Offset";
 export const STREAM_FORK_SUB_OFFSET_HEADER = "Stream-Fork-Sub-Offset";
+export const STREAM_RETENTION_MAX_BYTES_HEADER = "Stream-Retention-Max-Bytes";
+export const STREAM_RETENTION_MAX_MESSAGES_HEADER =
+  "Stream-Retention-Max-Messages";
+export const STREAM_RETENTION_MAX_AGE_HEADER = "Stream-Retention-Max-Age";
+export const STREAM_EARLIEST_OFFSET_HEADER = "Stream-Earliest-Offset";
+export const STREAM_FRAMING_HEADER = "Stream-Framing";
+export const STREAM_SCHEMA_HEADER = "Stream-Schema";
+export const STREAM_SCHEMA_POINTER_HEADER = "Stream-Schema-Pointer";
 export const RESERVED_CONTROL_PATH_SEGMENT = "__ds";
 export const SSE_OFFSET_FIELD = "streamNextOffset";
 export const SSE_CURSOR_FIELD = "streamCursor";
@@ -19,6 +27,8 @@ export const PRODUCER_SEQ_HEADER = "Producer-Seq";
 export const PRODUCER_EXPECTED_SEQ_HEADER = "Producer-Expected-Seq";
 export const PRODUCER_RECEIVED_SEQ_HEADER = "Producer-Received-Seq";
 export const CACHE_CONTROL_HEADER = "Cache-Control";
+export const WWW_AUTHENTICATE_HEADER = "WWW-Authenticate";
+export const RETRY_AFTER_HEADER = "Retry-After";
 export const CONTENT_TYPE_OPTIONS_HEADER = "X-Content-Type-Options";
 export const CROSS_ORIGIN_RESOURCE_POLICY_HEADER =
   "Cross-Origin-Resource-Policy";
@@ -31,13 +41,27 @@ export const PROTOCOL_SECURITY_HEADERS = {
 export const HEAD_CACHE_CONTROL_VALUE = "no-store";
 export const SSE_CACHE_CONTROL_VALUE = "no-cache";
 export const DEFAULT_CONTENT_TYPE = "application/octet-stream";
+export const MULTIPART_CONTENT_TYPE = "multipart/mixed";
+export const NDJSON_CONTENT_TYPES: readonly string[] = [
+  "application/x-ndjson",
+  "application/jsonl",
+];
 
 export const OFFSET_QUERY_PARAM = "offset";
 export const TAIL_OFFSET_QUERY_VALUE = "now";
+export const TIMESTAMP_QUERY_PARAM = "at";
 export const LIVE_QUERY_PARAM = "live";
 export const CURSOR_QUERY_PARAM = "cursor";
+export const PREFIX_QUERY_PARAM = "prefix";
+export const LIMIT_QUERY_PARAM = "limit";
+export const FILTER_QUERY_PARAM = "filter";
+export const SIGNATURE_QUERY_PARAM = "sig";
+export const SIGNED_OPERATIONS_QUERY_PARAM = "ops";
+export const SIGNED_EXPIRES_QUERY_PARAM = "expires";
+export const OFFSET_FLOOR_QUERY_PARAM = "offset_floor";
 
 export const SSE_COMPATIBLE_CONTENT_TYPES: readonly string[] = [
   "text/",
   "application/json",
+  ...NDJSON_CONTENT_TYPES,
 ];
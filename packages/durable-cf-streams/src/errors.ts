@@ -3,8 +3,12 @@ import {
   PRODUCER_EPOCH_HEADER,
   PRODUCER_EXPECTED_SEQ_HEADER,
   PRODUCER_RECEIVED_SEQ_HEADER,
+  RETRY_AFTER_HEADER,
   STREAM_CLOSED_HEADER,
+  STREAM_EARLIEST_OFFSET_HEADER,
   STREAM_OFFSET_HEADER,
+  STREAM_SCHEMA_POINTER_HEADER,
+  WWW_AUTHENTICATE_HEADER,
 } from "./const.js";
 
 export class StreamNotFoundError extends Error {
@@ -51,6 +55,19 @@ export class StreamGoneError extends Error {
   }
 }
 
+export class OffsetTrimmedError extends Error {
+  readonly _tag = "OffsetTrimmedError" as const;
+  readonly path: string;
+  readonly earliestOffset: string;
+
+  constructor(path: string, earliestOffset: string) {
+    super(`Offset trimmed: ${path} retains data from ${earliestOffset}`);
+    this.name = "OffsetTrimmedError";
+    this.path = path;
+    this.earliestOffset = earliestOffset;
+  }
+}
+
 export class SequenceConflictError extends Error {
   readonly _tag = "SequenceConflictError" as const;
   readonly expected: string;
@@ -86,6 +103,18 @@ export class InvalidJsonError extends Error {
   }
 }
 
+/**
+ * a read filter that does not parse, or that was given for a stream without JSON items.
+ */
+export class InvalidFilterError extends Error {
+  readonly _tag = "InvalidFilterError" as const;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidFilterError";
+  }
+}
+
 export class InvalidOffsetError extends Error {
   readonly _tag = "InvalidOffsetError" as const;
 
@@ -149,19 +178,101 @@ export class PayloadTooLargeError extends Error {
   }
 }
 
+/**
+ * an appended item that does not match the stream's JSON Schema.
+ * NOTE: `pointer` is a JSON pointer into the appended body, so items of an array append and lines of an NDJSON append start with their index.
+ */
+export class SchemaViolationError extends Error {
+  readonly _tag = "SchemaViolationError" as const;
+  readonly pointer: string;
+
+  constructor(pointer: string, message: string) {
+    super(message);
+    this.name = "SchemaViolationError";
+    this.pointer = pointer;
+  }
+}
+
+/**
+ * a write refused by a configured quota.
+ * NOTE: a rate quota sets `retryAfterSeconds` and answers 429 with `Retry-After`; a size or count quota leaves it unset and answers 507, since waiting alone will not free it.
+ */
+export class QuotaExceededError extends Error {
+  readonly _tag = "QuotaExceededError" as const;
+  readonly retryAfterSeconds?: number;
+
+  constructor(message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = "QuotaExceededError";
+    if (retryAfterSeconds !== undefined) {
+      this.retryAfterSeconds = retryAfterSeconds;
+    }
+  }
+}
+
+/**
+ * a request without valid credentials.
+ * NOTE: `scheme` is sent back as `WWW-Authenticate`, so clients know which credentials to retry with.
+ */
+export class UnauthorizedError extends Error {
+  readonly _tag = "UnauthorizedError" as const;
+  readonly scheme: string;
+
+  constructor(message: string, scheme = "Bearer") {
+    super(message);
+    this.name = "UnauthorizedError";
+    this.scheme = scheme;
+  }
+}
+
+/**
+ * a request whose credentials do not allow the operation on `path`.
+ */
+export class ForbiddenError extends Error {
+  readonly _tag = "ForbiddenError" as const;
+  readonly path: string;
+
+  constructor(path: string, message = `Forbidden: ${path}`) {
+    super(message);
+    this.name = "ForbiddenError";
+    this.path = path;
+  }
+}
+
+/**
+ * a failed response that maps to no typed stream error, raised by the client.
+ * NOTE: this never comes from a store, so it is not part of `StreamError`.
+ */
+export class StreamResponseError extends Error {
+  readonly _tag = "StreamResponseError" as const;
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "StreamResponseError";
+    this.status = status;
+  }
+}
+
 export type StreamError =
   | StreamNotFoundError
   | StreamClosedError
   | StreamGoneError
+  | OffsetTrimmedError
   | StreamConflictError
   | SequenceConflictError
   | ContentTypeMismatchError
   | InvalidJsonError
+  | InvalidFilterError
   | InvalidOffsetError
   | InvalidProducerError
   | ProducerSequenceConflictError
   | ProducerFencedError
-  | PayloadTooLargeError;
+  | PayloadTooLargeError
+  | SchemaViolationError
+  | QuotaExceededError
+  | UnauthorizedError
+  | ForbiddenError;
 
 export type StreamErrorEventData = {
   readonly error: string;
@@ -174,15 +285,21 @@ const streamErrorTags = new Set<StreamError["_tag"]>([
   "StreamNotFoundError",
   "StreamClosedError",
   "StreamGoneError",
+  "OffsetTrimmedError",
   "StreamConflictError",
   "SequenceConflictError",
   "ContentTypeMismatchError",
   "InvalidJsonError",
+  "InvalidFilterError",
   "InvalidOffsetError",
   "InvalidProducerError",
   "ProducerSequenceConflictError",
   "ProducerFencedError",
   "PayloadTooLargeError",
+  "SchemaViolationError",
+  "QuotaExceededError",
+  "UnauthorizedError",
+  "ForbiddenError",
 ]);
 
 export const isStreamError = (error: unknown): error is StreamError =>
@@ -194,7 +311,7 @@ export const isStreamError = (error: unknown): error is StreamError =>
 
 export const streamErrorStatus = Match.type<StreamError>().pipe(
   Match.tag("StreamNotFoundError", () => 404),
-  Match.tag("StreamGoneError", () => 410),
+  Match.tag("StreamGoneError", "OffsetTrimmedError", () => 410),
   Match.tag(
     "StreamClosedError",
     "StreamConflictError",
@@ -205,12 +322,18 @@ export const streamErrorStatus = Match.type<StreamError>().pipe(
   ),
   Match.tag(
     "InvalidJsonError",
+    "InvalidFilterError",
     "InvalidOffsetError",
     "InvalidProducerError",
     () => 400
   ),
-  Match.tag("ProducerFencedError", () => 403),
+  Match.tag("UnauthorizedError", () => 401),
+  Match.tag("ProducerFencedError", "ForbiddenError", () => 403),
   Match.tag("PayloadTooLargeError", () => 413),
+  Match.tag("SchemaViolationError", () => 422),
+  Match.tag("QuotaExceededError", (error) =>
+    error.retryAfterSeconds === undefined ? 507 : 429
+  ),
   Match.exhaustive
 );
 
@@ -221,6 +344,9 @@ export const streamErrorHeaders: (
     [STREAM_CLOSED_HEADER]: "true",
     [STREAM_OFFSET_HEADER]: error.nextOffset,
   })),
+  Match.tag("OffsetTrimmedError", (error) => ({
+    [STREAM_EARLIEST_OFFSET_HEADER]: error.earliestOffset,
+  })),
   Match.tag("ProducerSequenceConflictError", (error) => ({
     [PRODUCER_EXPECTED_SEQ_HEADER]: error.expected,
     [PRODUCER_RECEIVED_SEQ_HEADER]: error.received,
@@ -228,6 +354,19 @@ export const streamErrorHeaders: (
   Match.tag("ProducerFencedError", (error) => ({
     [PRODUCER_EPOCH_HEADER]: String(error.currentEpoch),
   })),
+  Match.tag("SchemaViolationError", (error) => ({
+    [STREAM_SCHEMA_POINTER_HEADER]: error.pointer,
+  })),
+  Match.tag("UnauthorizedError", (error) => ({
+    [WWW_AUTHENTICATE_HEADER]: error.scheme,
+  })),
+  Match.tag(
+    "QuotaExceededError",
+    (error): Record<string, string> =>
+      error.retryAfterSeconds === undefined
+        ? {}
+        : { [RETRY_AFTER_HEADER]: String(error.retryAfterSeconds) }
+  ),
   Match.tag(
     "StreamNotFoundError",
     "StreamGoneError",
@@ -235,9 +374,11 @@ export const streamErrorHeaders: (
     "SequenceConflictError",
     "ContentTypeMismatchError",
     "InvalidJsonError",
+    "InvalidFilterError",
     "InvalidOffsetError",
     "InvalidProducerError",
     "PayloadTooLargeError",
+    "ForbiddenError",
     () => ({})
   ),
   Match.exhaustive
@@ -0,0 +1,320 @@
+import { InvalidFilterError } from "./errors.js";
+import { sameJsonValue } from "./json-schema.js";
+
+/**
+ * a parsed filter expression, true for the items a read keeps.
+ */
+export type StreamFilter = (item: unknown) => boolean;
+
+export const MAX_FILTER_LENGTH = 1024;
+
+type TokenKind = "symbol" | "string" | "number" | "name";
+
+type Token = {
+  readonly kind: TokenKind;
+  readonly text: string;
+  readonly position: number;
+};
+
+type Parser = {
+  readonly tokens: readonly Token[];
+  readonly length: number;
+  index: number;
+};
+
+type PathSegment = string | number;
+
+type Comparison = (left: unknown, right: unknown) => boolean;
+
+const TOKEN_PATTERNS: readonly (readonly [TokenKind, RegExp])[] = [
+  ["symbol", /&&|\|\||[!=]=|[<>]=?|[!()$.[\]]/y],
+  ["string", /"(?:[^"\\]|\\.)*"/y],
+  ["number", /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y],
+  ["name", /[A-Za-z_][\w-]*/y],
+];
+
+const WHITESPACE = /\s*/y;
+
+const INDEX_PATTERN = /^\d+$/;
+
+const filterError = (position: number, reason: string): InvalidFilterError =>
+  new InvalidFilterError(`Invalid filter at position ${position}: ${reason}`);
+
+const skipWhitespace = (expression: string, position: number): number => {
+  WHITESPACE.lastIndex = position;
+  WHITESPACE.exec(expression);
+  return WHITESPACE.lastIndex;
+};
+
+const readToken = (expression: string, position: number): Token => {
+  for (const [kind, pattern] of TOKEN_PATTERNS) {
+    pattern.lastIndex = position;
+    const match = pattern.exec(expression);
+    if (match) {
+      return { kind, text: match[0], position };
+    }
+  }
+  throw filterError(position, "unexpected character");
+};
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = skipWhitespace(expression, 0);
+  while (position < expression.length) {
+    const token = readToken(expression, position);
+    tokens.push(token);
+    position = skipWhitespace(expression, position + token.text.length);
+  }
+  return tokens;
+};
+
+const peek = (parser: Parser): Token | undefined => parser.tokens[parser.index];
+
+const unexpected = (parser: Parser, expected: string): InvalidFilterError => {
+  const token = peek(parser);
+  return token === undefined
+    ? filterError(parser.length, `expected ${expected}, found end of filter`)
+    : filterError(token.position, `expected ${expected}, found ${token.text}`);
+};
+
+const accept = (parser: Parser, symbol: string): boolean => {
+  const token = peek(parser);
+  if (token?.kind !== "symbol" || token.text !== symbol) {
+    return false;
+  }
+  parser.index += 1;
+  return true;
+};
+
+const expect = (parser: Parser, symbol: string): void => {
+  if (!accept(parser, symbol)) {
+    throw unexpected(parser, `"${symbol}"`);
+  }
+};
+
+const next = (parser: Parser, expected: string): Token => {
+  const token = peek(parser);
+  if (token === undefined) {
+    throw unexpected(parser, expected);
+  }
+  parser.index += 1;
+  return token;
+};
+
+const parseString = (token: Token): string => {
+  try {
+    return JSON.parse(token.text) as string;
+  } catch {
+    throw filterError(token.position, `invalid string ${token.text}`);
+  }
+};
+
+const LITERAL_NAMES: Readonly<Record<string, unknown>> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+const parseLiteral = (parser: Parser): unknown => {
+  const token = next(parser, "a value");
+  if (token.kind === "string") {
+    return parseString(token);
+  }
+  if (token.kind === "number") {
+    return Number(token.text);
+  }
+  if (token.kind === "name" && Object.hasOwn(LITERAL_NAMES, token.text)) {
+    return LITERAL_NAMES[token.text];
+  }
+  throw filterError(token.position, `expected a value, found ${token.text}`);
+};
+
+const parseIndex = (parser: Parser): PathSegment => {
+  const token = next(parser, "an index or quoted property name");
+  if (token.kind === "string") {
+    return parseString(token);
+  }
+  if (token.kind === "number" && INDEX_PATTERN.test(token.text)) {
+    return Number(token.text);
+  }
+  throw filterError(
+    token.position,
+    `expected an index or quoted property name, found ${token.text}`
+  );
+};
+
+const parseSegment = (parser: Parser): PathSegment | undefined => {
+  if (accept(parser, ".")) {
+    const token = next(parser, "a property name");
+    if (token.kind !== "name") {
+      throw filterError(
+        token.position,
+        `expected a property name, found ${token.text}`
+      );
+    }
+    return token.text;
+  }
+  if (accept(parser, "[")) {
+    const segment = parseIndex(parser);
+    expect(parser, "]");
+    return segment;
+  }
+  return;
+};
+
+const parsePath = (parser: Parser): PathSegment[] => {
+  expect(parser, "$");
+  const segments: PathSegment[] = [];
+  let segment = parseSegment(parser);
+  while (segment !== undefined) {
+    segments.push(segment);
+    segment = parseSegment(parser);
+  }
+  return segments;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const resolveSegment = (value: unknown, segment: PathSegment): unknown => {
+  if (typeof segment === "number") {
+    return Array.isArray(value) ? value[segment] : undefined;
+  }
+  return isRecord(value) && Object.hasOwn(value, segment)
+    ? value[segment]
+    : undefined;
+};
+
+const resolvePath = (
+  item: unknown,
+  segments: readonly PathSegment[]
+): unknown => segments.reduce<unknown>(resolveSegment, item);
+
+const isPresent = (value: unknown): boolean =>
+  value !== undefined && value !== null && value !== false;
+
+/**
+ * orders two numbers or two strings; anything else has no order.
+ */
+const orderOf = (left: unknown, right: unknown): number | undefined => {
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right;
+  }
+  if (typeof left !== "string" || typeof right !== "string") {
+    return;
+  }
+  if (left === right) {
+    return 0;
+  }
+  return left < right ? -1 : 1;
+};
+
+const ordered =
+  (matches: (order: number) => boolean): Comparison =>
+  (left, right) => {
+    const order = orderOf(left, right);
+    return order !== undefined && matches(order);
+  };
+
+const equals: Comparison = (left, right) =>
+  left !== undefined && sameJsonValue(left, right);
+
+const COMPARISONS: Readonly<Record<string, Comparison>> = {
+  "==": equals,
+  "!=": (left, right) => !equals(left, right),
+  "<": ordered((order) => order < 0),
+  "<=": ordered((order) => order <= 0),
+  ">": ordered((order) => order > 0),
+  ">=": ordered((order) => order >= 0),
+};
+
+const acceptComparison = (parser: Parser): Comparison | undefined => {
+  const token = peek(parser);
+  if (token?.kind !== "symbol" || !Object.hasOwn(COMPARISONS, token.text)) {
+    return;
+  }
+  parser.index += 1;
+  return COMPARISONS[token.text];
+};
+
+const parseComparison = (parser: Parser): StreamFilter => {
+  const segments = parsePath(parser);
+  const comparison = acceptComparison(parser);
+  if (comparison === undefined) {
+    return (item) => isPresent(resolvePath(item, segments));
+  }
+
+  const literal = parseLiteral(parser);
+  return (item) => comparison(resolvePath(item, segments), literal);
+};
+
+const parsePrimary = (parser: Parser): StreamFilter => {
+  if (accept(parser, "!")) {
+    const operand = parsePrimary(parser);
+    return (item) => !operand(item);
+  }
+  if (accept(parser, "(")) {
+    const inner = parseOr(parser);
+    expect(parser, ")");
+    return inner;
+  }
+  return parseComparison(parser);
+};
+
+const parseAnd = (parser: Parser): StreamFilter => {
+  let filter = parsePrimary(parser);
+  while (accept(parser, "&&")) {
+    const left = filter;
+    const right = parsePrimary(parser);
+    filter = (item) => left(item) && right(item);
+  }
+  return filter;
+};
+
+const parseOr = (parser: Parser): StreamFilter => {
+  let filter = parseAnd(parser);
+  while (accept(parser, "||")) {
+    const left = filter;
+    const right = parseAnd(parser);
+    filter = (item) => left(item) || right(item);
+  }
+  return filter;
+};
+
+/**
+ * a filter's expression with whitespace, string escapes and number spellings normalized, so equivalent spellings of one filter compare equal.
+ * NOTE: only meaningful for an expression `parseStreamFilter` accepts.
+ */
+export const canonicalStreamFilter = (expression: string): string =>
+  tokenize(expression)
+    .map((token) => {
+      if (token.kind === "string") {
+        return JSON.stringify(parseString(token));
+      }
+      return token.kind === "number" ? String(Number(token.text)) : token.text;
+    })
+    .join(" ");
+
+/**
+ * parses a read filter.
+ * NOTE: the language is a small JSONPath-style predicate: `$` is the item, `.name`, `["name"]` and `[0]` step into it, a path is compared to a string, number, `true`, `false` or `null` with `==`, `!=`, `<`, `<=`, `>` or `>=`, and terms combine with `&&`, `||`, `!` and parentheses. a bare path is true when it exists and is not `null` or `false`.
+ * NOTE: `<`, `<=`, `>` and `>=` only match two numbers or two strings, and a missing path equals nothing.
+ */
+export const parseStreamFilter = (expression: string): StreamFilter => {
+  if (expression.length > MAX_FILTER_LENGTH) {
+    throw new InvalidFilterError(
+      `Filter is longer than ${MAX_FILTER_LENGTH} characters`
+    );
+  }
+
+  const parser: Parser = {
+    tokens: tokenize(expression),
+    length: expression.length,
+    index: 0,
+  };
+  const filter = parseOr(parser);
+  if (parser.index < parser.tokens.length) {
+    throw unexpected(parser, "end of filter");
+  }
+  return filter;
+};
@@ -0,0 +1,339 @@
+import { PREFIX_QUERY_PARAM, STREAM_FORKED_FROM_HEADER } from "../const.js";
+import { UnauthorizedError } from "../errors.js";
+import { decodeBase64Data, encodeBase64Data } from "../protocol.js";
+import { isReservedControlPath, LIST_STREAMS_PATH } from "./request.js";
+
+export type StreamOperation = "create" | "append" | "read" | "delete" | "fork";
+
+/**
+ * one operation a request performs on one stream path.
+ */
+export type StreamAccess = {
+  readonly operation: StreamOperation;
+  readonly path: string;
+};
+
+/**
+ * decides whether a request may perform `access`.
+ * NOTE: return false to answer 403; throw an `UnauthorizedError` to answer 401 when the request carries no valid credentials.
+ */
+export type StreamAuthorizer = (
+  request: Request,
+  access: StreamAccess
+) => boolean | Promise<boolean>;
+
+/**
+ * what a credential may do.
+ */
+export type StreamGrant = {
+  /**
+   * operations the grant allows; every operation when omitted.
+   */
+  readonly operations?: readonly StreamOperation[];
+  /**
+   * paths the grant covers; every path when omitted.
+   * NOTE: matched as a plain prefix, so end it with `/` to cover one directory, e.g. `/v1/stream/tenant-a/`.
+   */
+  readonly pathPrefix?: string;
+};
+
+export type JwtAlgorithm = "HS256" | "RS256";
+
+export type JwtClaims = Readonly<Record<string, unknown>>;
+
+export type JwtAuthorizerOptions = {
+  readonly algorithm: JwtAlgorithm;
+  /**
+   * the key tokens are verified with.
+   * NOTE: HS256 takes the shared secret as a string, bytes or an `oct` JWK; RS256 takes the public key as a JWK. an imported `CryptoKey` works for both.
+   */
+  readonly key: string | Uint8Array | JsonWebKey | CryptoKey;
+  readonly issuer?: string;
+  readonly audience?: string;
+  /**
+   * seconds of clock skew allowed when checking `exp` and `nbf`.
+   */
+  readonly clockToleranceSeconds?: number;
+  /**
+   * decides whether a verified token allows an access.
+   * NOTE: defaults to allowing everything, so without it the authorizer only authenticates.
+   */
+  readonly permits?: (
+    claims: JwtClaims,
+    access: StreamAccess
+  ) => boolean | Promise<boolean>;
+};
+
+export type ApiKeyAuthorizerOptions = {
+  /**
+   * api keys mapped to what each one may do.
+   */
+  readonly keys: Readonly<Record<string, StreamGrant>>;
+  /**
+   * the request header carrying the key.
+   * NOTE: defaults to `X-API-Key`; `Authorization: Bearer <key>` is accepted as well.
+   */
+  readonly header?: string;
+};
+
+export const DEFAULT_API_KEY_HEADER = "X-API-Key";
+export const DEFAULT_JWT_CLOCK_TOLERANCE_SECONDS = 30;
+
+const BEARER_PATTERN = /^Bearer\s+(\S+)$/i;
+const TRAILING_PADDING = /=+$/;
+
+const JWT_ALGORITHMS: Readonly<
+  Record<JwtAlgorithm, SubtleCryptoImportKeyAlgorithm>
+> = {
+  HS256: { name: "HMAC", hash: "SHA-256" },
+  RS256: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+};
+
+/**
+ * the stream accesses a protocol request performs.
+ * NOTE: a fork is a `create` of the new path and a `fork` of the stream it copies; listing streams is a `read` of the listed `prefix`, or of `""` without one, so a grant scoped by path only lists under its own prefix.
+ */
+export const streamRequestAccess = (
+  request: Request,
+  path: string
+): StreamAccess[] => {
+  if (isReservedControlPath(path)) {
+    return path === LIST_STREAMS_PATH && request.method === "GET"
+      ? [
+          {
+            operation: "read",
+            path:
+              new URL(request.url).searchParams.get(PREFIX_QUERY_PARAM) ?? "",
+          },
+        ]
+      : [];
+  }
+
+  switch (request.method) {
+    case "PUT": {
+      const forkedFrom = request.headers.get(STREAM_FORKED_FROM_HEADER);
+      return forkedFrom
+        ? [
+            { operation: "create", path },
+            { operation: "fork", path: forkedFrom },
+          ]
+        : [{ operation: "create", path }];
+    }
+    case "POST":
+      return [{ operation: "append", path }];
+    case "GET":
+    case "HEAD":
+      return [{ operation: "read", path }];
+    case "DELETE":
+      return [{ operation: "delete", path }];
+    default:
+      return [];
+  }
+};
+
+export const grantAllows = (
+  grant: StreamGrant,
+  access: StreamAccess
+): boolean =>
+  (grant.operations === undefined ||
+    grant.operations.includes(access.operation)) &&
+  (grant.pathPrefix === undefined || access.path.startsWith(grant.pathPrefix));
+
+/**
+ * the token of an `Authorization: Bearer` header.
+ */
+export const bearerToken = (request: Request): string | undefined =>
+  request.headers.get("authorization")?.match(BEARER_PATTERN)?.[1];
+
+export const decodeBase64Url = (value: string): Uint8Array =>
+  decodeBase64Data(value.replaceAll("-", "+").replaceAll("_", "/"));
+
+export const encodeBase64Url = (data: Uint8Array): string =>
+  encodeBase64Data(data)
+    .replaceAll("+", "-")
+    .replaceAll("/", "_")
+    .replace(TRAILING_PADDING, "");
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const invalidToken = (reason: string): UnauthorizedError =>
+  new UnauthorizedError(`Invalid token: ${reason}`);
+
+const decodeJwtJson = (part: string): Record<string, unknown> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(new TextDecoder().decode(decodeBase64Url(part)));
+  } catch {
+    throw invalidToken("malformed");
+  }
+  if (!isRecord(value)) {
+    throw invalidToken("malformed");
+  }
+  return value;
+};
+
+const importJwtKey = (
+  algorithm: JwtAlgorithm,
+  key: JwtAuthorizerOptions["key"]
+): Promise<CryptoKey> => {
+  if (key instanceof CryptoKey) {
+    return Promise.resolve(key);
+  }
+  const params = JWT_ALGORITHMS[algorithm];
+  if (typeof key === "string" || key instanceof Uint8Array) {
+    if (algorithm !== "HS256") {
+      throw new RangeError(`${algorithm} needs a JWK or CryptoKey public key`);
+    }
+    const raw = typeof key === "string" ? new TextEncoder().encode(key) : key;
+    return crypto.subtle.importKey("raw", raw, params, false, ["verify"]);
+  }
+  return crypto.subtle.importKey("jwk", key, params, false, ["verify"]);
+};
+
+const hasAudience = (claims: JwtClaims, audience: string): boolean =>
+  Array.isArray(claims.aud)
+    ? claims.aud.includes(audience)
+    : claims.aud === audience;
+
+/**
+ * a numeric date claim, or undefined when the token leaves it out.
+ * NOTE: a present claim that is not a finite number is malformed, so `"exp": null` never reads as "never expires".
+ */
+const numericDateClaim = (
+  claims: JwtClaims,
+  name: "exp" | "nbf"
+): number | undefined => {
+  const value = claims[name];
+  if (value === undefined) {
+    return;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw invalidToken("malformed");
+  }
+  return value;
+};
+
+const assertClaimsCurrent = (claims: JwtClaims, tolerance: number): void => {
+  const now = Date.now() / 1000;
+  const exp = numericDateClaim(claims, "exp");
+  if (exp !== undefined && now - tolerance >= exp) {
+    throw invalidToken("expired");
+  }
+  const nbf = numericDateClaim(claims, "nbf");
+  if (nbf !== undefined && now + tolerance < nbf) {
+    throw invalidToken("not yet valid");
+  }
+};
+
+const assertClaimsIntended = (
+  claims: JwtClaims,
+  options: JwtAuthorizerOptions
+): void => {
+  if (options.issuer !== undefined && claims.iss !== options.issuer) {
+    throw invalidToken("wrong issuer");
+  }
+  if (
+    options.audience !== undefined &&
+    !hasAudience(claims, options.audience)
+  ) {
+    throw invalidToken("wrong audience");
+  }
+};
+
+/**
+ * verifies a compact JWS token and returns its claims.
+ * NOTE: the token's `alg` must equal the configured algorithm, so an HS256 token can never be checked against an RS256 public key.
+ */
+const verifyJwt = async (
+  token: string,
+  key: CryptoKey,
+  options: JwtAuthorizerOptions
+): Promise<JwtClaims> => {
+  const [header, payload, signature, ...rest] = token.split(".");
+  if (!(header && payload && signature) || rest.length > 0) {
+    throw invalidToken("malformed");
+  }
+  if (decodeJwtJson(header).alg !== options.algorithm) {
+    throw invalidToken("unexpected algorithm");
+  }
+
+  let verified = false;
+  try {
+    verified = await crypto.subtle.verify(
+      JWT_ALGORITHMS[options.algorithm],
+      key,
+      decodeBase64Url(signature),
+      new TextEncoder().encode(`${header}.${payload}`)
+    );
+  } catch {
+    throw invalidToken("malformed");
+  }
+  if (!verified) {
+    throw invalidToken("bad signature");
+  }
+
+  const claims = decodeJwtJson(payload);
+  assertClaimsCurrent(
+    claims,
+    options.clockToleranceSeconds ?? DEFAULT_JWT_CLOCK_TOLERANCE_SECONDS
+  );
+  assertClaimsIntended(claims, options);
+  return claims;
+};
+
+/**
+ * an authorizer that accepts `Authorization: Bearer <jwt>` tokens signed with HS256 or RS256.
+ * NOTE: a missing, malformed, expired or badly signed token answers 401; a valid token that `permits` refuses answers 403.
+ * NOTE: the key is imported once, up front; a key that fails to import fails every request with its error instead of rejecting unhandled.
+ */
+export const createJwtAuthorizer = (
+  options: JwtAuthorizerOptions
+): StreamAuthorizer => {
+  const key = importJwtKey(options.algorithm, options.key);
+  key.catch(() => undefined);
+  const permits = options.permits ?? (() => true);
+
+  return async (request, access) => {
+    const token = bearerToken(request);
+    if (token === undefined) {
+      throw new UnauthorizedError("Missing bearer token");
+    }
+    return await permits(await verifyJwt(token, await key, options), access);
+  };
+};
+
+const sha256Hex = async (value: string): Promise<string> =>
+  Array.from(
+    new Uint8Array(
+      await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value))
+    ),
+    (byte) => byte.toString(16).padStart(2, "0")
+  ).join("");
+
+/**
+ * an authorizer that accepts api keys, each allowed what its `StreamGrant` covers.
+ * NOTE: keys are looked up by their SHA-256 digest, so comparing a presented key takes the same time however much of it matches.
+ */
+export const createApiKeyAuthorizer = (
+  options: ApiKeyAuthorizerOptions
+): StreamAuthorizer => {
+  const header = options.header ?? DEFAULT_API_KEY_HEADER;
+  const grants = Promise.all(
+    Object.entries(options.keys).map(
+      async ([key, grant]) => [await sha256Hex(key), grant] as const
+    )
+  ).then((entries) => new Map(entries));
+
+  return async (request, access) => {
+    const key = request.headers.get(header) ?? bearerToken(request);
+    if (!key) {
+      throw new UnauthorizedError("Missing API key");
+    }
+    const grant = (await grants).get(await sha256Hex(key));
+    if (grant === undefined) {
+      throw new UnauthorizedError("Invalid API key");
+    }
+    return grantAllows(grant, access);
+  };
+};
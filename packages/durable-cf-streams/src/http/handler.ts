@@ -0,0 +1,917 @@
+import {
+  CACHE_CONTROL_HEADER,
+  CURSOR_QUERY_PARAM,
+  HEAD_CACHE_CONTROL_VALUE,
+  MULTIPART_CONTENT_TYPE,
+  SSE_CACHE_CONTROL_VALUE,
+  STREAM_CURSOR_HEADER,
+  STREAM_OFFSET_HEADER,
+  STREAM_SEQ_HEADER,
+  STREAM_SSE_DATA_ENCODING_HEADER,
+} from "../const.js";
+import { calculateCursor, generateResponseCursor } from "../cursor.js";
+import {
+  ForbiddenError,
+  isStreamError,
+  streamErrorEventJson,
+} from "../errors.js";
+import { parseProducerHeaders } from "../producer.js";
+import {
+  encodeBase64Data,
+  encodedETag,
+  multipartETag,
+  normalizeContentType,
+} from "../protocol.js";
+import type { StreamStore } from "../storage/interface.js";
+import type { ETag, GetResult, Offset } from "../types.js";
+import { type StreamAuthorizer, streamRequestAccess } from "./auth.js";
+import type { StreamRateLimiter } from "./rate-limit.js";
+import {
+  acceptsMultipart,
+  isReservedControlPath,
+  isStreamClosedRequest,
+  LIST_STREAMS_PATH,
+  negotiateEncoding,
+  parseForkOptions,
+  parseFraming,
+  parseJsonSchema,
+  parseListOptions,
+  parsePutContentType,
+  parseReadFilter,
+  parseRetention,
+  parseTtlAndExpires,
+  type ResponseEncoding,
+  resolveReadRequest,
+  type SSEDataEncoding,
+} from "./request.js";
+import {
+  appendResponse,
+  encodeResponseBody,
+  listStreamsResponse,
+  readResponseHeaders,
+  reservedControlResponse,
+  responseEncodingHeaders,
+  streamClosedHeaders,
+  streamErrorResponse,
+  streamMetadataHeaders,
+  tailOffsetCacheHeaders,
+  withProtocolHeaders,
+} from "./response.js";
+import {
+  controlEventFields,
+  createSSEWriter,
+  pumpSSEStream,
+  type SSELoopState,
+} from "./sse.js";
+import {
+  appendToStream,
+  handleWebSocket,
+  hibernatedLiveReads,
+  notifyStreamDeleted,
+  receiveHibernatedWebSocketMessage,
+  type WebSocketHibernation,
+  type WebSocketSession,
+} from "./websocket.js";
+
+export type StreamHandler = ((request: Request) => Promise<Response>) & {
+  /**
+   * handles a message on a socket accepted with `hibernation`; call it from the durable object's `webSocketMessage`.
+   */
+  readonly webSocketMessage: (
+    socket: WebSocket,
+    message: string | ArrayBuffer
+  ) => Promise<void>;
+};
+
+export type StreamHandlerOptions = {
+  /**
+   * how long a long-poll or SSE read waits for new data before answering with the current tail.
+   */
+  readonly liveWaitTimeoutMs?: number;
+  /**
+   * interval between SSE heartbeat comments.
+   * NOTE: keep this below the idle timeout of any proxy between the worker and its clients.
+   */
+  readonly sseHeartbeatIntervalMs?: number;
+  /**
+   * max data bytes per read response.
+   * NOTE: bounded responses carry `Stream-Up-To-Date: false`, so clients keep reading from `Stream-Next-Offset` until they reach the tail.
+   */
+  readonly maxReadBytes?: number;
+  /**
+   * accepts `live=ws` sockets through durable object hibernation, e.g. `hibernation: ctx`.
+   * NOTE: hibernated sockets are only pushed appends made through this handler, which holds when the durable object owns its streams.
+   */
+  readonly hibernation?: WebSocketHibernation;
+  /**
+   * compresses read responses with an encoding the client accepts in `Accept-Encoding`.
+   * NOTE: without it responses go out uncompressed and carry no `Vary: Accept-Encoding`.
+   */
+  readonly compression?: ResponseCompressionOptions;
+  /**
+   * checks every request before it touches the store, e.g. `createJwtAuthorizer(...)` or `createApiKeyAuthorizer(...)`.
+   * NOTE: a `live=ws` socket only accepts `append` frames when the upgrade request is also allowed to append, since frames carry no credentials of their own.
+   */
+  readonly authorize?: StreamAuthorizer;
+  /**
+   * limits appends and live reads per client, e.g. `createStreamRateLimiter({ key: clientIpKey, ... })`.
+   * NOTE: refused requests answer 429 with `Retry-After`; a refused `append` frame answers with an `error` frame and leaves its socket open.
+   */
+  readonly rateLimit?: StreamRateLimiter;
+};
+
+export type ResponseCompressionOptions = {
+  /**
+   * encodings to offer, in preference order.
+   * NOTE: defaults to `DEFAULT_RESPONSE_ENCODINGS`; add `br` only when the handler runs in a Worker, which encodes it from the header.
+   */
+  readonly encodings?: readonly ResponseEncoding[];
+  /**
+   * also compresses SSE responses.
+   * NOTE: off by default, since a compressor holds events until it fills a block or the response ends, so it only suits SSE reads that catch up on a lot of data.
+   */
+  readonly sse?: boolean;
+};
+
+export const DEFAULT_LIVE_WAIT_TIMEOUT_MS = 20_000;
+export const DEFAULT_SSE_HEARTBEAT_INTERVAL_MS = 15_000;
+export const DEFAULT_RESPONSE_ENCODINGS: readonly ResponseEncoding[] = [
+  "gzip",
+  "deflate",
+];
+
+type AsyncQueue = <T>(operation: () => Promise<T>) => Promise<T>;
+
+type HandlerContext = {
+  readonly store: StreamStore;
+  readonly appendQueue: AsyncQueue;
+  readonly liveWaitTimeoutMs: number;
+  readonly sseHeartbeatIntervalMs: number;
+  readonly maxReadBytes?: number;
+  readonly hibernation?: WebSocketHibernation;
+  readonly compression?: {
+    readonly encodings: readonly ResponseEncoding[];
+    readonly sse: boolean;
+  };
+  readonly authorize?: StreamAuthorizer;
+  readonly rateLimit?: StreamRateLimiter;
+};
+
+/**
+ * runs operations one at a time in submission order.
+ * NOTE: async stores read metadata before writing it, so concurrent appends to one handler must not interleave.
+ */
+const createAsyncQueue = (): AsyncQueue => {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return <T>(operation: () => Promise<T>): Promise<T> => {
+    const next = tail.then(operation, operation);
+    tail = next.catch(() => undefined);
+    return next;
+  };
+};
+
+const handlePut = async (
+  context: HandlerContext,
+  path: string,
+  request: Request
+): Promise<Response> => {
+  const ttlResult = parseTtlAndExpires(request);
+  if (!ttlResult.ok) {
+    return ttlResult.error;
+  }
+  const forkResult = parseForkOptions(request);
+  if (!forkResult.ok) {
+    return forkResult.error;
+  }
+  const retentionResult = parseRetention(request);
+  if (!retentionResult.ok) {
+    return retentionResult.error;
+  }
+  const contentType = parsePutContentType(request, forkResult.forkedFrom);
+  const framingResult = parseFraming(request, contentType);
+  if (!framingResult.ok) {
+    return framingResult.error;
+  }
+  const jsonSchemaResult = parseJsonSchema(request, contentType);
+  if (!jsonSchemaResult.ok) {
+    return jsonSchemaResult.error;
+  }
+  const data = new Uint8Array(await request.arrayBuffer());
+
+  const result = await context.store.put(path, {
+    contentType,
+    ttlSeconds: ttlResult.ttlSeconds,
+    expiresAt: ttlResult.expiresAt,
+    data: data.length > 0 ? data : undefined,
+    closed: isStreamClosedRequest(request),
+    forkedFrom: forkResult.forkedFrom,
+    forkOffset: forkResult.forkOffset,
+    forkSubOffset: forkResult.forkSubOffset,
+    retention: retentionResult.retention,
+    framing: framingResult.framing,
+    jsonSchema: jsonSchemaResult.jsonSchema,
+  });
+
+  const headers: Record<string, string> = {
+    [STREAM_OFFSET_HEADER]: result.nextOffset,
+    "Content-Type": result.contentType,
+    ...streamClosedHeaders(result.closed),
+  };
+  if (result.created) {
+    headers.Location = request.url.split("?")[0] ?? request.url;
+  }
+  return new Response(null, { status: result.created ? 201 : 200, headers });
+};
+
+/**
+ * the client a request counts against, when the handler limits rates.
+ */
+const rateLimitKey = async (
+  context: HandlerContext,
+  request: Request
+): Promise<string | undefined> => await context.rateLimit?.keyOf(request);
+
+/**
+ * holds one of the client's live read slots until the returned release is called.
+ * NOTE: a refusal asks the client to retry once a long-poll held by it would have timed out. the client's hibernated sockets take slots too.
+ */
+const acquireLiveRead = async (
+  context: HandlerContext,
+  request: Request
+): Promise<() => void> => {
+  const key = await rateLimitKey(context, request);
+  return key === undefined || context.rateLimit === undefined
+    ? () => undefined
+    : context.rateLimit.acquireLiveRead(
+        key,
+        Math.ceil(context.liveWaitTimeoutMs / 1000),
+        await hibernatedLiveReads(context, key)
+      );
+};
+
+const handlePost = async (
+  context: HandlerContext,
+  path: string,
+  request: Request
+): Promise<Response> => {
+  const contentType = request.headers.get("content-type");
+  const data = new Uint8Array(await request.arrayBuffer());
+  const close = isStreamClosedRequest(request);
+
+  if (data.length > 0 && !contentType) {
+    return new Response("Content-Type header required", { status: 400 });
+  }
+
+  if (data.length === 0 && !close) {
+    return new Response("Empty body not allowed", { status: 400 });
+  }
+
+  const seq = request.headers.get(STREAM_SEQ_HEADER) ?? undefined;
+  const producer = parseProducerHeaders(request.headers);
+
+  const result = await appendToStream(
+    context,
+    path,
+    data,
+    {
+      contentType:
+        data.length > 0 && contentType
+          ? normalizeContentType(contentType)
+          : undefined,
+      close,
+      producer,
+      seq,
+    },
+    await rateLimitKey(context, request)
+  );
+
+  return appendResponse(result);
+};
+
+type ReadBody = {
+  readonly body: Uint8Array | ReadableStream<Uint8Array>;
+  readonly contentType: string;
+};
+
+/**
+ * the `Content-Encoding` negotiated for a read, when the handler compresses responses.
+ */
+const negotiateReadEncoding = (
+  context: HandlerContext,
+  request: Request
+): ResponseEncoding | undefined =>
+  context.compression === undefined
+    ? undefined
+    : negotiateEncoding(request, context.compression.encodings);
+
+/**
+ * `Vary` and `Content-Encoding` for a read.
+ * NOTE: a framed stream can also be read as `multipart/mixed`, so its reads vary on `Accept` too.
+ */
+const readVariantHeaders = (
+  context: HandlerContext,
+  result: GetResult,
+  encoding: ResponseEncoding | undefined,
+  hasBody: boolean
+): Record<string, string> => {
+  const headers =
+    context.compression === undefined
+      ? {}
+      : responseEncodingHeaders(encoding, hasBody);
+  if (result.framing === undefined) {
+    return headers;
+  }
+  return {
+    ...headers,
+    Vary: headers.Vary === undefined ? "Accept" : `Accept, ${headers.Vary}`,
+  };
+};
+
+/**
+ * the ETag of a read as it is served, tagging a multipart body like a content encoding.
+ */
+const readETag = (
+  result: GetResult,
+  multipart: boolean,
+  encoding: ResponseEncoding | undefined
+): ETag =>
+  encodedETag(
+    multipart && result.framing !== undefined
+      ? multipartETag(result.etag)
+      : result.etag,
+    encoding
+  );
+
+const formatReadBody = (
+  context: HandlerContext,
+  path: string,
+  result: GetResult,
+  multipart: boolean
+): { readonly body: Uint8Array; readonly contentType: string } => {
+  if (!multipart || result.framing === undefined) {
+    return {
+      body: context.store.formatResponse(path, result.messages),
+      contentType: result.contentType,
+    };
+  }
+
+  const boundary = crypto.randomUUID();
+  return {
+    body: context.store.formatResponse(path, result.messages, {
+      multipartBoundary: boundary,
+    }),
+    contentType: `${MULTIPART_CONTENT_TYPE}; boundary=${boundary}`,
+  };
+};
+
+/**
+ * formats a read, as one `multipart/mixed` part per record when a framed stream is read with that `Accept`, and compresses it with the negotiated encoding.
+ */
+const readBody = (
+  context: HandlerContext,
+  path: string,
+  result: GetResult,
+  multipart: boolean,
+  encoding: ResponseEncoding | undefined
+): ReadBody => {
+  const { body, contentType } = formatReadBody(
+    context,
+    path,
+    result,
+    multipart
+  );
+  return {
+    body: encoding === undefined ? body : encodeResponseBody(body, encoding),
+    contentType,
+  };
+};
+
+const handleSimpleGet = async (
+  context: HandlerContext,
+  path: string,
+  offset: Offset | undefined,
+  filter: string | undefined,
+  ifNoneMatch: string | null,
+  isTail: boolean,
+  multipart: boolean,
+  encoding: ResponseEncoding | undefined
+): Promise<Response> => {
+  const result = await context.store.get(path, {
+    offset,
+    maxBytes: context.maxReadBytes,
+    filter,
+  });
+  const etag = readETag(result, multipart, encoding);
+
+  if (ifNoneMatch && etag === ifNoneMatch) {
+    return new Response(null, {
+      status: 304,
+      headers: {
+        ...readResponseHeaders({ ...result, etag, upToDate: true }),
+        ...tailOffsetCacheHeaders(isTail),
+        ...readVariantHeaders(context, result, encoding, false),
+      },
+    });
+  }
+
+  const { body, contentType } = readBody(
+    context,
+    path,
+    result,
+    multipart,
+    encoding
+  );
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": contentType,
+      ...readResponseHeaders({ ...result, etag }),
+      ...tailOffsetCacheHeaders(isTail),
+      ...readVariantHeaders(context, result, encoding, true),
+    },
+  });
+};
+
+const longPollResponse = (
+  context: HandlerContext,
+  path: string,
+  result: GetResult,
+  clientCursor: string | undefined,
+  multipart: boolean,
+  encoding: ResponseEncoding | undefined
+): Response => {
+  const headers = readResponseHeaders({
+    ...result,
+    etag: readETag(result, multipart, encoding),
+    cursor: generateResponseCursor(clientCursor),
+  });
+
+  if (result.messages.length === 0) {
+    return new Response(null, {
+      status: 204,
+      headers: {
+        ...headers,
+        ...readVariantHeaders(context, result, encoding, false),
+      },
+    });
+  }
+
+  const { body, contentType } = readBody(
+    context,
+    path,
+    result,
+    multipart,
+    encoding
+  );
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": contentType,
+      ...headers,
+      ...readVariantHeaders(context, result, encoding, true),
+    },
+  });
+};
+
+const handleLongPoll = async (
+  context: HandlerContext,
+  request: Request,
+  path: string,
+  offset: Offset,
+  filter: string | undefined,
+  clientCursor: string | undefined,
+  ifNoneMatch: string | null,
+  multipart: boolean,
+  encoding: ResponseEncoding | undefined
+): Promise<Response> => {
+  const readOptions = { offset, maxBytes: context.maxReadBytes, filter };
+  const respond = (result: GetResult) =>
+    longPollResponse(context, path, result, clientCursor, multipart, encoding);
+  const initial = await context.store.get(path, readOptions);
+
+  if (initial.messages.length > 0) {
+    return respond(initial);
+  }
+
+  const etag = readETag(initial, multipart, encoding);
+  if (ifNoneMatch && etag === ifNoneMatch) {
+    return new Response(null, {
+      status: 304,
+      headers: {
+        ...readResponseHeaders({
+          ...initial,
+          etag,
+          cursor: generateResponseCursor(clientCursor),
+          upToDate: true,
+        }),
+        ...readVariantHeaders(context, initial, encoding, false),
+      },
+    });
+  }
+
+  if (initial.closed) {
+    return respond(initial);
+  }
+
+  const release = await acquireLiveRead(context, request);
+  try {
+    await context.store.waitForData(path, offset, context.liveWaitTimeoutMs);
+  } finally {
+    release();
+  }
+
+  return respond(await context.store.get(path, readOptions));
+};
+
+const runSSELoop = async (
+  context: HandlerContext,
+  path: string,
+  state: SSELoopState,
+  clientCursor: string | undefined,
+  encoding: SSEDataEncoding | undefined,
+  filter: string | undefined,
+  controller: ReadableStreamDefaultController<Uint8Array>,
+  release: () => void
+): Promise<void> => {
+  const sse = createSSEWriter(controller);
+
+  const sendControl = (nextOffset: Offset, closed = false, upToDate = true) => {
+    sse.send(
+      "control",
+      JSON.stringify(
+        controlEventFields(nextOffset, clientCursor, closed, upToDate)
+      )
+    );
+  };
+
+  const sendData = (data: Uint8Array) => {
+    sse.send(
+      "data",
+      encoding === "base64"
+        ? encodeBase64Data(data)
+        : new TextDecoder().decode(data)
+    );
+  };
+
+  const heartbeat = setInterval(() => {
+    if (!state.cancelled) {
+      sse.comment("heartbeat");
+    }
+  }, context.sseHeartbeatIntervalMs);
+
+  try {
+    await pumpSSEStream(
+      context.store,
+      path,
+      state,
+      {
+        timeoutMs: context.liveWaitTimeoutMs,
+        maxReadBytes: context.maxReadBytes,
+        filter,
+      },
+      sendControl,
+      sendData
+    );
+  } catch (error) {
+    if (!state.cancelled) {
+      sse.send("error", streamErrorEventJson(error));
+    }
+  } finally {
+    clearInterval(heartbeat);
+    release();
+    sse.flush();
+    controller.close();
+  }
+};
+
+const handleSSE = (
+  context: HandlerContext,
+  path: string,
+  offset: Offset,
+  clientCursor: string | undefined,
+  encoding: SSEDataEncoding | undefined,
+  filter: string | undefined,
+  contentEncoding: ResponseEncoding | undefined,
+  release: () => void
+): Response => {
+  const state: SSELoopState = { currentOffset: offset, cancelled: false };
+  const compressed =
+    context.compression?.sse === true ? contentEncoding : undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start: (controller) => {
+      runSSELoop(
+        context,
+        path,
+        state,
+        clientCursor,
+        encoding,
+        filter,
+        controller,
+        release
+      );
+    },
+    cancel: () => {
+      state.cancelled = true;
+    },
+  });
+
+  return new Response(
+    compressed === undefined ? stream : encodeResponseBody(stream, compressed),
+    {
+      status: 200,
+      headers: {
+        "Content-Type": "text/event-stream",
+        [CACHE_CONTROL_HEADER]: SSE_CACHE_CONTROL_VALUE,
+        Connection: "keep-alive",
+        [STREAM_CURSOR_HEADER]: calculateCursor(),
+        ...(encoding === "base64"
+          ? { [STREAM_SSE_DATA_ENCODING_HEADER]: encoding }
+          : {}),
+        ...(context.compression?.sse === true
+          ? responseEncodingHeaders(compressed, true)
+          : {}),
+      },
+    }
+  );
+};
+
+/**
+ * whether a `live=ws` upgrade may also append over its socket.
+ */
+const allowsSocketAppends = async (
+  context: HandlerContext,
+  request: Request,
+  path: string
+): Promise<boolean> => {
+  if (context.authorize === undefined) {
+    return true;
+  }
+  try {
+    return await context.authorize(request, { operation: "append", path });
+  } catch (error) {
+    if (isStreamError(error)) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+/**
+ * upgrades a `live=ws` read, holding a live read slot while a socket without hibernation waits on the store; a hibernated socket is counted by its tag instead.
+ */
+const handleWebSocketGet = async (
+  context: HandlerContext,
+  request: Request,
+  session: WebSocketSession
+): Promise<Response> =>
+  await handleWebSocket(
+    context,
+    {
+      ...session,
+      readOnly: !(await allowsSocketAppends(context, request, session.path)),
+      rateLimitKey: await rateLimitKey(context, request),
+    },
+    await acquireLiveRead(context, request)
+  );
+
+const handleGet = async (
+  context: HandlerContext,
+  path: string,
+  url: URL,
+  request: Request
+): Promise<Response> => {
+  const clientCursor = url.searchParams.get(CURSOR_QUERY_PARAM) ?? undefined;
+  const ifNoneMatch = request.headers.get("if-none-match");
+  const multipart = acceptsMultipart(request);
+  const contentEncoding = negotiateReadEncoding(context, request);
+  const filterResult = parseReadFilter(url);
+  if (!filterResult.ok) {
+    return filterResult.error;
+  }
+  const { filter } = filterResult;
+
+  const readRequest = await resolveReadRequest(
+    context.store,
+    path,
+    url,
+    request
+  );
+  if (!readRequest.ok) {
+    return readRequest.error;
+  }
+  const { offset, isTail, liveMode } = readRequest;
+
+  if (liveMode.mode === "sse" && offset !== undefined) {
+    return handleSSE(
+      context,
+      path,
+      offset,
+      clientCursor,
+      liveMode.encoding,
+      filter,
+      contentEncoding,
+      await acquireLiveRead(context, request)
+    );
+  }
+
+  if (liveMode.mode === "ws" && offset !== undefined) {
+    return await handleWebSocketGet(context, request, {
+      path,
+      offset,
+      cursor: clientCursor,
+      encoding: liveMode.encoding,
+      filter,
+    });
+  }
+
+  if (liveMode.mode === "long-poll" && offset !== undefined) {
+    return await handleLongPoll(
+      context,
+      request,
+      path,
+      offset,
+      filter,
+      clientCursor,
+      ifNoneMatch,
+      multipart,
+      contentEncoding
+    );
+  }
+
+  return await handleSimpleGet(
+    context,
+    path,
+    offset,
+    filter,
+    ifNoneMatch,
+    isTail,
+    multipart,
+    contentEncoding
+  );
+};
+
+const handleHead = async (
+  context: HandlerContext,
+  path: string
+): Promise<Response> => {
+  const result = await context.store.head(path);
+
+  if (!result) {
+    return new Response(null, { status: 404 });
+  }
+
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Content-Type": result.contentType,
+      [CACHE_CONTROL_HEADER]: HEAD_CACHE_CONTROL_VALUE,
+      ETag: result.etag,
+      [STREAM_OFFSET_HEADER]: result.nextOffset,
+      ...streamMetadataHeaders(result),
+    },
+  });
+};
+
+const handleDelete = async (
+  context: HandlerContext,
+  path: string
+): Promise<Response> => {
+  const head = await context.store.head(path);
+  if (!head) {
+    return new Response(`Stream not found: ${path}`, { status: 404 });
+  }
+
+  await context.store.delete(path);
+  await notifyStreamDeleted(context, path);
+
+  return new Response(null, { status: 204 });
+};
+
+/**
+ * serves the reserved `__ds` control routes.
+ * NOTE: only `GET /v1/stream/__ds/streams` exists today; every other control path stays a 404 so it can never shadow a stream.
+ */
+const routeControlRequest = async (
+  context: HandlerContext,
+  path: string,
+  url: URL,
+  request: Request
+): Promise<Response> => {
+  if (path !== LIST_STREAMS_PATH) {
+    return reservedControlResponse();
+  }
+  if (request.method !== "GET") {
+    return new Response("Method Not Allowed", { status: 405 });
+  }
+
+  const listOptions = parseListOptions(url);
+  if (!listOptions.ok) {
+    return listOptions.error;
+  }
+  return listStreamsResponse(await context.store.list(listOptions.options));
+};
+
+/**
+ * runs the handler's `authorize` hook for every access the request performs.
+ */
+const authorizeRequest = async (
+  context: HandlerContext,
+  path: string,
+  request: Request
+): Promise<void> => {
+  if (context.authorize === undefined) {
+    return;
+  }
+  for (const access of streamRequestAccess(request, path)) {
+    if (!(await context.authorize(request, access))) {
+      throw new ForbiddenError(
+        access.path,
+        `Forbidden: ${access.operation} ${access.path}`
+      );
+    }
+  }
+};
+
+const routeRequest = (
+  context: HandlerContext,
+  path: string,
+  url: URL,
+  request: Request
+): Promise<Response> => {
+  switch (request.method) {
+    case "PUT":
+      return handlePut(context, path, request);
+    case "POST":
+      return handlePost(context, path, request);
+    case "GET":
+      return handleGet(context, path, url, request);
+    case "HEAD":
+      return handleHead(context, path);
+    case "DELETE":
+      return handleDelete(context, path);
+    default:
+      return Promise.resolve(
+        new Response("Method Not Allowed", { status: 405 })
+      );
+  }
+};
+
+/**
+ * builds a fetch-style handler that serves the durable streams protocol over any `StreamStore`.
+ * NOTE: the request pathname is the stream path; mount the handler wherever streams live and route everything below it here.
+ * NOTE: appends are serialized per handler, so create one handler per store instance (for example once per durable object).
+ * NOTE: `live=ws` upgrades to a WebSocket that receives `data`, `control` and `error` frames and may send `append` frames, each answered by an `ack` or `error` frame.
+ */
+export const createStreamHandler = (
+  store: StreamStore,
+  options: StreamHandlerOptions = {}
+): StreamHandler => {
+  const context: HandlerContext = {
+    store,
+    appendQueue: createAsyncQueue(),
+    liveWaitTimeoutMs:
+      options.liveWaitTimeoutMs ?? DEFAULT_LIVE_WAIT_TIMEOUT_MS,
+    sseHeartbeatIntervalMs:
+      options.sseHeartbeatIntervalMs ?? DEFAULT_SSE_HEARTBEAT_INTERVAL_MS,
+    maxReadBytes: options.maxReadBytes,
+    hibernation: options.hibernation,
+    compression:
+      options.compression === undefined
+        ? undefined
+        : {
+            encodings:
+              options.compression.encodings ?? DEFAULT_RESPONSE_ENCODINGS,
+            sse: options.compression.sse === true,
+          },
+    authorize: options.authorize,
+    rateLimit: options.rateLimit,
+  };
+
+  const handler = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    const path = url.pathname;
+
+    try {
+      await authorizeRequest(context, path, request);
+      if (isReservedControlPath(path)) {
+        return withProtocolHeaders(
+          await routeControlRequest(context, path, url, request)
+        );
+      }
+
+      return withProtocolHeaders(
+        await routeRequest(context, path, url, request)
+      );
+    } catch (error) {
+      return withProtocolHeaders(streamErrorResponse(error));
+    }
+  };
+
+  return Object.assign(handler, {
+    webSocketMessage: (socket: WebSocket, message: string | ArrayBuffer) =>
+      receiveHibernatedWebSocketMessage(context, socket, message),
+  });
+};
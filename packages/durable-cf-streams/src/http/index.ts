@@ -0,0 +1,120 @@
+// biome-ignore lint/performance/noBarrelFile: http helpers are exported from one public entrypoint.
+export {
+  type ApiKeyAuthorizerOptions,
+  bearerToken,
+  createApiKeyAuthorizer,
+  createJwtAuthorizer,
+  DEFAULT_API_KEY_HEADER,
+  DEFAULT_JWT_CLOCK_TOLERANCE_SECONDS,
+  grantAllows,
+  type JwtAlgorithm,
+  type JwtAuthorizerOptions,
+  type JwtClaims,
+  type StreamAccess,
+  type StreamAuthorizer,
+  type StreamGrant,
+  type StreamOperation,
+  streamRequestAccess,
+} from "./auth.js";
+export {
+  createStreamHandler,
+  DEFAULT_LIVE_WAIT_TIMEOUT_MS,
+  DEFAULT_RESPONSE_ENCODINGS,
+  DEFAULT_SSE_HEARTBEAT_INTERVAL_MS,
+  type ResponseCompressionOptions,
+  type StreamHandler,
+  type StreamHandlerOptions,
+} from "./handler.js";
+export {
+  bearerSubjectKey,
+  clientIpKey,
+  createStreamRateLimiter,
+  producerIdKey,
+  type RateLimitKey,
+  type RateLimitStorage,
+  type StreamRateLimiter,
+  type StreamRateLimiterOptions,
+  type TokenBucketOptions,
+} from "./rate-limit.js";
+export {
+  acceptsMultipart,
+  type FilterResult,
+  type ForkOptionsResult,
+  type FramingResult,
+  isReservedControlPath,
+  isStreamClosedRequest,
+  type JsonSchemaResult,
+  LIST_STREAMS_PATH,
+  type ListOptionsResult,
+  type LiveMode,
+  type LiveModeResult,
+  negotiateEncoding,
+  type OffsetParseResult,
+  parseForkOptions,
+  parseFraming,
+  parseJsonSchema,
+  parseListOptions,
+  parseLiveMode,
+  parseOffsetParam,
+  parsePutContentType,
+  parseReadFilter,
+  parseReadPosition,
+  parseRetention,
+  parseTtlAndExpires,
+  type ReadRequestResult,
+  type ResolvedLiveMode,
+  type ResponseEncoding,
+  type RetentionResult,
+  resolveReadRequest,
+  type SSEDataEncoding,
+  STREAM_ROOT_PATH,
+  type TtlExpiresResult,
+} from "./request.js";
+export {
+  appendResponse,
+  encodeResponseBody,
+  listStreamsResponse,
+  type ReadHeadersInfo,
+  readResponseHeaders,
+  reservedControlResponse,
+  responseEncodingHeaders,
+  streamClosedHeaders,
+  streamErrorResponse,
+  streamFramingHeaders,
+  streamJsonSchemaHeaders,
+  streamMetadataHeaders,
+  tailOffsetCacheHeaders,
+  withProtocolHeaders,
+} from "./response.js";
+export {
+  createSignedUrlAuthorizer,
+  type SignedStreamGrant,
+  type SignedUrlAuthorizerOptions,
+  type SignedUrlKey,
+  type SignStreamUrlOptions,
+  signedGrantAllows,
+  signStreamUrl,
+  verifyStreamUrl,
+} from "./signed-url.js";
+export {
+  controlEventFields,
+  createSSEWriter,
+  pumpSSEStream,
+  type SendSSEControl,
+  type SendSSEData,
+  type SSELoopState,
+  type SSEPumpOptions,
+  type SSEWriter,
+  sendSSECatchUp,
+} from "./sse.js";
+export {
+  appendToStream,
+  handleWebSocket,
+  hibernatedLiveReads,
+  notifyStreamDeleted,
+  receiveHibernatedWebSocketMessage,
+  receiveWebSocketMessage,
+  type WebSocketContext,
+  type WebSocketHibernation,
+  type WebSocketSession,
+} from "./websocket.js";
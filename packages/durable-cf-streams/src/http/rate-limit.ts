@@ -0,0 +1,280 @@
+import { PRODUCER_ID_HEADER } from "../const.js";
+import { QuotaExceededError } from "../errors.js";
+import { bearerToken, decodeBase64Url } from "./auth.js";
+
+/**
+ * names the client a request counts against; requests it returns `undefined` for are not limited.
+ */
+export type RateLimitKey = (
+  request: Request
+) => string | undefined | Promise<string | undefined>;
+
+export type TokenBucketOptions = {
+  /**
+   * the most appends a client may burst.
+   */
+  readonly capacity: number;
+  readonly refillPerSecond: number;
+};
+
+export type StreamRateLimiterOptions = {
+  readonly key: RateLimitKey;
+  /**
+   * a token bucket per client for appends, taken by every append the store accepts, over POST or an `append` frame on a `live=ws` socket.
+   */
+  readonly appends?: TokenBucketOptions;
+  /**
+   * max live reads one client may hold open at once: long-poll waits, SSE responses and `live=ws` sockets.
+   * NOTE: hibernated sockets are counted through a tag the handler gives them, so they count while the durable object sleeps.
+   */
+  readonly maxLiveReads?: number;
+  /**
+   * the durable object's storage, usually `ctx.storage`, which keeps the append buckets.
+   * NOTE: without it buckets live in memory and start full again whenever the durable object is evicted or hibernates.
+   */
+  readonly storage?: RateLimitStorage;
+};
+
+/**
+ * the part of `DurableObjectStorage` the limiter keeps its append buckets in.
+ */
+export type RateLimitStorage = {
+  readonly get: <T>(key: string) => Promise<T | undefined>;
+  readonly put: <T>(key: string, value: T) => Promise<void>;
+  readonly delete: (key: string) => Promise<boolean>;
+  readonly list: <T>(options: { prefix: string }) => Promise<Map<string, T>>;
+};
+
+/**
+ * limits appends and live reads per client.
+ * NOTE: create it with the handler, once per durable object, so every request to that object shares it. append buckets are kept in `storage` when given; live read slots stay in memory, since long-polls and SSE responses end with the object and hibernated sockets are counted by their tags.
+ */
+export type StreamRateLimiter = {
+  readonly keyOf: (request: Request) => Promise<string | undefined>;
+  /**
+   * takes one append token, throwing `QuotaExceededError` (429) when the bucket is empty.
+   * NOTE: the returned refund gives the token back, so an append the store refuses costs nothing.
+   */
+  readonly takeAppend: (key: string) => Promise<() => Promise<void>>;
+  /**
+   * holds a live read slot until the returned release is called, throwing `QuotaExceededError` (429) when every slot is taken.
+   * NOTE: `hibernated` is the number of hibernated sockets the client already holds, which count against the same slots.
+   */
+  readonly acquireLiveRead: (
+    key: string,
+    retryAfterSeconds: number,
+    hibernated?: number
+  ) => () => void;
+};
+
+type Bucket = {
+  readonly tokens: number;
+  readonly updatedAt: number;
+};
+
+type BucketStore = {
+  readonly get: (key: string) => Promise<Bucket | undefined>;
+  readonly put: (key: string, bucket: Bucket) => Promise<void>;
+  readonly delete: (key: string) => Promise<void>;
+  readonly entries: () => Promise<Iterable<[string, Bucket]>>;
+};
+
+const BUCKET_SWEEP_INTERVAL_MS = 60_000;
+const BUCKET_STORAGE_PREFIX = "rate-limit:append:";
+
+/**
+ * the client's address as Cloudflare saw it.
+ */
+export const clientIpKey: RateLimitKey = (request) =>
+  request.headers.get("CF-Connecting-IP") ?? undefined;
+
+export const producerIdKey: RateLimitKey = (request) =>
+  request.headers.get(PRODUCER_ID_HEADER) ?? undefined;
+
+/**
+ * the `sub` claim of the request's bearer JWT.
+ * NOTE: the token is decoded without checking its signature, so only use this behind an `authorize` hook that verifies it, e.g. `createJwtAuthorizer`.
+ */
+export const bearerSubjectKey: RateLimitKey = (request) => {
+  const payload = bearerToken(request)?.split(".")[1];
+  if (payload === undefined) {
+    return;
+  }
+  try {
+    const claims: unknown = JSON.parse(
+      new TextDecoder().decode(decodeBase64Url(payload))
+    );
+    const sub = (claims as { sub?: unknown } | null)?.sub;
+    return typeof sub === "string" ? sub : undefined;
+  } catch {
+    return;
+  }
+};
+
+const assertPositive = (name: string, value: number | undefined) => {
+  if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+    throw new RangeError(`${name} must be a positive number`);
+  }
+};
+
+const memoryBucketStore = (): BucketStore => {
+  const buckets = new Map<string, Bucket>();
+  return {
+    get: (key) => Promise.resolve(buckets.get(key)),
+    put: (key, bucket) => {
+      buckets.set(key, bucket);
+      return Promise.resolve();
+    },
+    delete: (key) => {
+      buckets.delete(key);
+      return Promise.resolve();
+    },
+    entries: () => Promise.resolve([...buckets]),
+  };
+};
+
+/**
+ * keeps buckets under `rate-limit:append:<key>` in durable object storage.
+ */
+const storageBucketStore = (storage: RateLimitStorage): BucketStore => ({
+  get: (key) => storage.get<Bucket>(`${BUCKET_STORAGE_PREFIX}${key}`),
+  put: (key, bucket) => storage.put(`${BUCKET_STORAGE_PREFIX}${key}`, bucket),
+  delete: async (key) => {
+    await storage.delete(`${BUCKET_STORAGE_PREFIX}${key}`);
+  },
+  entries: async () =>
+    Array.from(
+      await storage.list<Bucket>({ prefix: BUCKET_STORAGE_PREFIX }),
+      ([key, bucket]): [string, Bucket] => [
+        key.slice(BUCKET_STORAGE_PREFIX.length),
+        bucket,
+      ]
+    ),
+});
+
+const createTokenBuckets = (
+  options: TokenBucketOptions | undefined,
+  buckets: BucketStore
+) => {
+  let sweptAt = Date.now();
+
+  const refilled = (bucket: Bucket, now: number, capacity: number): number =>
+    Math.min(
+      capacity,
+      bucket.tokens +
+        ((now - bucket.updatedAt) / 1000) * (options?.refillPerSecond ?? 0)
+    );
+
+  const sweep = async (now: number, capacity: number) => {
+    if (now - sweptAt < BUCKET_SWEEP_INTERVAL_MS) {
+      return;
+    }
+    sweptAt = now;
+    for (const [key, bucket] of await buckets.entries()) {
+      if (refilled(bucket, now, capacity) >= capacity) {
+        await buckets.delete(key);
+      }
+    }
+  };
+
+  return async (key: string): Promise<() => Promise<void>> => {
+    if (options === undefined) {
+      return () => Promise.resolve();
+    }
+
+    const now = Date.now();
+    await sweep(now, options.capacity);
+    const bucket = await buckets.get(key);
+    const tokens =
+      bucket === undefined
+        ? options.capacity
+        : refilled(bucket, now, options.capacity);
+    if (tokens < 1) {
+      throw new QuotaExceededError(
+        `Too many appends from ${key}`,
+        Math.ceil((1 - tokens) / options.refillPerSecond)
+      );
+    }
+    await buckets.put(key, { tokens: tokens - 1, updatedAt: now });
+
+    let refunded = false;
+    return async () => {
+      if (refunded) {
+        return;
+      }
+      refunded = true;
+      const taken = await buckets.get(key);
+      if (taken !== undefined) {
+        const at = Date.now();
+        await buckets.put(key, {
+          tokens: Math.min(
+            options.capacity,
+            refilled(taken, at, options.capacity) + 1
+          ),
+          updatedAt: at,
+        });
+      }
+    };
+  };
+};
+
+const createLiveReadSlots = (maxLiveReads: number | undefined) => {
+  const held = new Map<string, number>();
+
+  return (
+    key: string,
+    retryAfterSeconds: number,
+    hibernated = 0
+  ): (() => void) => {
+    if (maxLiveReads === undefined) {
+      return () => undefined;
+    }
+
+    const count = held.get(key) ?? 0;
+    if (count + hibernated >= maxLiveReads) {
+      throw new QuotaExceededError(
+        `Too many live reads from ${key}`,
+        retryAfterSeconds
+      );
+    }
+    held.set(key, count + 1);
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      const remaining = (held.get(key) ?? 1) - 1;
+      if (remaining === 0) {
+        held.delete(key);
+      } else {
+        held.set(key, remaining);
+      }
+    };
+  };
+};
+
+export const createStreamRateLimiter = (
+  options: StreamRateLimiterOptions
+): StreamRateLimiter => {
+  assertPositive("appends.capacity", options.appends?.capacity);
+  assertPositive("appends.refillPerSecond", options.appends?.refillPerSecond);
+  if (
+    options.maxLiveReads !== undefined &&
+    !(Number.isSafeInteger(options.maxLiveReads) && options.maxLiveReads > 0)
+  ) {
+    throw new RangeError("maxLiveReads must be a positive integer");
+  }
+
+  return {
+    keyOf: async (request) => await options.key(request),
+    takeAppend: createTokenBuckets(
+      options.appends,
+      options.storage === undefined
+        ? memoryBucketStore()
+        : storageBucketStore(options.storage)
+    ),
+    acquireLiveRead: createLiveReadSlots(options.maxLiveReads),
+  };
+};
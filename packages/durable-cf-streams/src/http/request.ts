@@ -0,0 +1,640 @@
+import {
+  CURSOR_QUERY_PARAM,
+  DEFAULT_CONTENT_TYPE,
+  FILTER_QUERY_PARAM,
+  LIMIT_QUERY_PARAM,
+  LIVE_QUERY_PARAM,
+  MULTIPART_CONTENT_TYPE,
+  OFFSET_QUERY_PARAM,
+  PREFIX_QUERY_PARAM,
+  RESERVED_CONTROL_PATH_SEGMENT,
+  STREAM_CLOSED_HEADER,
+  STREAM_EXPIRES_AT_HEADER,
+  STREAM_FORK_OFFSET_HEADER,
+  STREAM_FORK_SUB_OFFSET_HEADER,
+  STREAM_FORKED_FROM_HEADER,
+  STREAM_FRAMING_HEADER,
+  STREAM_RETENTION_MAX_AGE_HEADER,
+  STREAM_RETENTION_MAX_BYTES_HEADER,
+  STREAM_RETENTION_MAX_MESSAGES_HEADER,
+  STREAM_SCHEMA_HEADER,
+  STREAM_TTL_HEADER,
+  TAIL_OFFSET_QUERY_VALUE,
+  TIMESTAMP_QUERY_PARAM,
+} from "../const.js";
+import { InvalidFilterError } from "../errors.js";
+import { parseStreamFilter } from "../filter.js";
+import { assertJsonSchemaDefinition } from "../json-schema.js";
+import { isValidOffset, normalizeOffset } from "../offsets.js";
+import {
+  isJsonRecordContentType,
+  isSSETextCompatibleContentType,
+  normalizeContentType,
+  validateExpiresAt,
+  validateForkSubOffset,
+  validateReadTimestamp,
+  validateRetentionLimit,
+  validateStreamFraming,
+  validateTTL,
+} from "../protocol.js";
+import { decodeJsonSchemaJson } from "../schema.js";
+import type { StreamStore } from "../storage/interface.js";
+import { MAX_LIST_LIMIT } from "../storage/utils.js";
+import type {
+  JsonSchema,
+  ListOptions,
+  Offset,
+  RetentionPolicy,
+  StreamFraming,
+} from "../types.js";
+
+export type SSEDataEncoding = "base64";
+
+export const STREAM_ROOT_PATH = "/v1/stream";
+const RESERVED_CONTROL_PATH = `${STREAM_ROOT_PATH}/${RESERVED_CONTROL_PATH_SEGMENT}`;
+export const LIST_STREAMS_PATH = `${RESERVED_CONTROL_PATH}/streams`;
+const LIST_LIMIT_REGEX = /^[1-9][0-9]*$/;
+
+const badRequest = (message: string): Response =>
+  new Response(message, { status: 400 });
+
+const notFound = (path: string): Response =>
+  new Response(`Stream not found: ${path}`, { status: 404 });
+
+export const isReservedControlPath = (path: string): boolean =>
+  path === RESERVED_CONTROL_PATH ||
+  path.startsWith(`${RESERVED_CONTROL_PATH}/`);
+
+export type ListOptionsResult =
+  | { ok: true; options: ListOptions }
+  | { ok: false; error: Response };
+
+/**
+ * parses `prefix`, `cursor` and `limit` for the stream listing route.
+ * NOTE: `prefix` matches stream paths as the handler stores them, i.e. full request pathnames such as `/v1/stream/orders/`.
+ */
+export const parseListOptions = (url: URL): ListOptionsResult => {
+  const limitParam = url.searchParams.get(LIMIT_QUERY_PARAM);
+  const limit =
+    limitParam !== null && LIST_LIMIT_REGEX.test(limitParam)
+      ? Number.parseInt(limitParam, 10)
+      : undefined;
+  if (limitParam !== null && (limit === undefined || limit > MAX_LIST_LIMIT)) {
+    return {
+      ok: false,
+      error: badRequest(`Limit must be between 1 and ${MAX_LIST_LIMIT}`),
+    };
+  }
+
+  return {
+    ok: true,
+    options: {
+      prefix: url.searchParams.get(PREFIX_QUERY_PARAM) ?? undefined,
+      cursor: url.searchParams.get(CURSOR_QUERY_PARAM) ?? undefined,
+      limit,
+    },
+  };
+};
+
+export const isStreamClosedRequest = (request: Request): boolean =>
+  request.headers.get(STREAM_CLOSED_HEADER)?.toLowerCase() === "true";
+
+export type TtlExpiresResult =
+  | { ok: true; ttlSeconds?: number; expiresAt?: string }
+  | { ok: false; error: Response };
+
+export const parseTtlAndExpires = (request: Request): TtlExpiresResult => {
+  const ttlHeader = request.headers.get(STREAM_TTL_HEADER);
+  const expiresAtHeader = request.headers.get(STREAM_EXPIRES_AT_HEADER);
+
+  if (ttlHeader && expiresAtHeader) {
+    return {
+      ok: false,
+      error: badRequest("Cannot specify both TTL and Expires-At"),
+    };
+  }
+
+  let ttlSeconds: number | undefined;
+  let expiresAt: string | undefined;
+
+  if (ttlHeader) {
+    const parsed = validateTTL(ttlHeader);
+    if (parsed === null) {
+      return { ok: false, error: badRequest("Invalid TTL value") };
+    }
+    ttlSeconds = parsed;
+  }
+
+  if (expiresAtHeader) {
+    const parsed = validateExpiresAt(expiresAtHeader);
+    if (parsed === null) {
+      return { ok: false, error: badRequest("Invalid expiresAt value") };
+    }
+    expiresAt = parsed.toISOString();
+  }
+
+  return { ok: true, ttlSeconds, expiresAt };
+};
+
+export type RetentionResult =
+  | { ok: true; retention?: RetentionPolicy }
+  | { ok: false; error: Response };
+
+const RETENTION_HEADERS = [
+  [STREAM_RETENTION_MAX_BYTES_HEADER, "maxBytes"],
+  [STREAM_RETENTION_MAX_MESSAGES_HEADER, "maxMessages"],
+  [STREAM_RETENTION_MAX_AGE_HEADER, "maxAgeSeconds"],
+] as const;
+
+export const parseRetention = (request: Request): RetentionResult => {
+  const retention: { -readonly [K in keyof RetentionPolicy]: number } = {};
+  let hasRetention = false;
+
+  for (const [header, field] of RETENTION_HEADERS) {
+    const value = request.headers.get(header);
+    if (value === null) {
+      continue;
+    }
+
+    const parsed = validateRetentionLimit(value);
+    if (parsed === null) {
+      return { ok: false, error: badRequest(`Invalid ${header} value`) };
+    }
+    retention[field] = parsed;
+    hasRetention = true;
+  }
+
+  return hasRetention ? { ok: true, retention } : { ok: true };
+};
+
+export type ForkOptionsResult =
+  | {
+      ok: true;
+      forkedFrom?: string;
+      forkOffset?: Offset;
+      forkSubOffset?: number;
+    }
+  | { ok: false; error: Response };
+
+type ForkSubOffsetResult =
+  | { ok: true; forkSubOffset?: number }
+  | { ok: false; error: Response };
+
+const hasForkHeaders = (
+  forkedFrom: string | null,
+  forkOffset: string | null,
+  forkSubOffset: string | null
+): boolean =>
+  forkedFrom !== null || forkOffset !== null || forkSubOffset !== null;
+
+const parseForkSubOffsetHeader = (
+  value: string | null,
+  forkOffsetHeader: string | null
+): ForkSubOffsetResult => {
+  if (value === null) {
+    return { ok: true };
+  }
+
+  const parsed = validateForkSubOffset(value);
+  if (parsed === null) {
+    return { ok: false, error: badRequest("Invalid fork sub-offset value") };
+  }
+
+  if (parsed > 0 && forkOffsetHeader === null) {
+    return {
+      ok: false,
+      error: badRequest("Fork offset required for sub-offset"),
+    };
+  }
+
+  return { ok: true, forkSubOffset: parsed === 0 ? undefined : parsed };
+};
+
+export const parseForkOptions = (request: Request): ForkOptionsResult => {
+  const forkedFrom = request.headers.get(STREAM_FORKED_FROM_HEADER);
+  const forkOffsetHeader = request.headers.get(STREAM_FORK_OFFSET_HEADER);
+  const forkSubOffsetHeader = request.headers.get(
+    STREAM_FORK_SUB_OFFSET_HEADER
+  );
+
+  if (!hasForkHeaders(forkedFrom, forkOffsetHeader, forkSubOffsetHeader)) {
+    return { ok: true };
+  }
+
+  if (!forkedFrom) {
+    return { ok: false, error: badRequest("Fork source required") };
+  }
+
+  const forkSubOffsetResult = parseForkSubOffsetHeader(
+    forkSubOffsetHeader,
+    forkOffsetHeader
+  );
+  if (!forkSubOffsetResult.ok) {
+    return forkSubOffsetResult;
+  }
+
+  if (forkOffsetHeader === null) {
+    return {
+      ok: true,
+      forkedFrom,
+      forkSubOffset: forkSubOffsetResult.forkSubOffset,
+    };
+  }
+
+  if (!isValidOffset(forkOffsetHeader)) {
+    return { ok: false, error: badRequest("Invalid fork offset format") };
+  }
+
+  return {
+    ok: true,
+    forkedFrom,
+    forkOffset: normalizeOffset(forkOffsetHeader),
+    forkSubOffset: forkSubOffsetResult.forkSubOffset,
+  };
+};
+
+export const parsePutContentType = (
+  request: Request,
+  forkedFrom: string | undefined
+): string | undefined => {
+  const contentType = request.headers.get("content-type");
+  if (contentType) {
+    return normalizeContentType(contentType);
+  }
+
+  return forkedFrom === undefined ? DEFAULT_CONTENT_TYPE : undefined;
+};
+
+export type FramingResult =
+  | { ok: true; framing?: StreamFraming }
+  | { ok: false; error: Response };
+
+/**
+ * parses `Stream-Framing` on create.
+ * NOTE: JSON and NDJSON streams already keep one message per item, so framing them is rejected; forks without a content type are checked against their source by the store.
+ */
+export const parseFraming = (
+  request: Request,
+  contentType: string | undefined
+): FramingResult => {
+  const header = request.headers.get(STREAM_FRAMING_HEADER);
+  if (header === null) {
+    return { ok: true };
+  }
+  const framing = validateStreamFraming(header);
+  if (framing === null) {
+    return {
+      ok: false,
+      error: badRequest(`Invalid ${STREAM_FRAMING_HEADER} value`),
+    };
+  }
+  if (contentType !== undefined && isJsonRecordContentType(contentType)) {
+    return {
+      ok: false,
+      error: badRequest(
+        `${STREAM_FRAMING_HEADER} requires a non-JSON content type`
+      ),
+    };
+  }
+  return { ok: true, framing };
+};
+
+export type JsonSchemaResult =
+  | { ok: true; jsonSchema?: JsonSchema }
+  | { ok: false; error: Response };
+
+/**
+ * parses the JSON Schema in `Stream-Schema` on create.
+ * NOTE: the schema is checked here so an unsupported keyword is a 400 rather than a store error; forks without a content type are checked against their source by the store.
+ */
+export const parseJsonSchema = (
+  request: Request,
+  contentType: string | undefined
+): JsonSchemaResult => {
+  const header = request.headers.get(STREAM_SCHEMA_HEADER);
+  if (header === null) {
+    return { ok: true };
+  }
+  if (contentType !== undefined && !isJsonRecordContentType(contentType)) {
+    return {
+      ok: false,
+      error: badRequest(
+        `${STREAM_SCHEMA_HEADER} requires a JSON or NDJSON content type`
+      ),
+    };
+  }
+  try {
+    const jsonSchema = decodeJsonSchemaJson(header);
+    assertJsonSchemaDefinition(jsonSchema);
+    return { ok: true, jsonSchema };
+  } catch (error) {
+    const reason = error instanceof RangeError ? `: ${error.message}` : "";
+    return {
+      ok: false,
+      error: badRequest(`Invalid ${STREAM_SCHEMA_HEADER} value${reason}`),
+    };
+  }
+};
+
+export type FilterResult =
+  | { ok: true; filter?: string }
+  | { ok: false; error: Response };
+
+/**
+ * reads the `filter` query parameter of a read.
+ * NOTE: the expression is parsed here so a malformed filter is a 400 before an SSE or WebSocket response starts; the store still checks the stream holds JSON items.
+ */
+export const parseReadFilter = (url: URL): FilterResult => {
+  const filter = url.searchParams.get(FILTER_QUERY_PARAM);
+  if (filter === null) {
+    return { ok: true };
+  }
+  try {
+    parseStreamFilter(filter);
+    return { ok: true, filter };
+  } catch (error) {
+    if (error instanceof InvalidFilterError) {
+      return { ok: false, error: badRequest(error.message) };
+    }
+    throw error;
+  }
+};
+
+/**
+ * whether a read asked for framed records as `multipart/mixed`.
+ */
+export const acceptsMultipart = (request: Request): boolean =>
+  (request.headers.get("accept") ?? "").includes(MULTIPART_CONTENT_TYPE);
+
+/**
+ * a `Content-Encoding` the handler can serve reads with.
+ */
+export type ResponseEncoding = "gzip" | "br" | "deflate";
+
+const acceptEncodingWeights = (header: string): Map<string, number> => {
+  const weights = new Map<string, number>();
+  for (const entry of header.split(",")) {
+    const [coding = "", ...params] = entry
+      .split(";")
+      .map((part) => part.trim().toLowerCase());
+    const quality = params.find((param) => param.startsWith("q="));
+    const weight = quality === undefined ? 1 : Number(quality.slice(2));
+    if (coding !== "") {
+      weights.set(coding, Number.isFinite(weight) ? weight : 0);
+    }
+  }
+  return weights;
+};
+
+/**
+ * picks the encoding for a read from its `Accept-Encoding` header.
+ * NOTE: `encodings` is the server's preference order and breaks ties between equal q-values; `*` covers encodings the header does not name, and `q=0` refuses one.
+ */
+export const negotiateEncoding = (
+  request: Request,
+  encodings: readonly ResponseEncoding[]
+): ResponseEncoding | undefined => {
+  const weights = acceptEncodingWeights(
+    request.headers.get("accept-encoding") ?? ""
+  );
+  let chosen: ResponseEncoding | undefined;
+  let best = 0;
+  for (const encoding of encodings) {
+    const weight = weights.get(encoding) ?? weights.get("*") ?? 0;
+    if (weight > best) {
+      chosen = encoding;
+      best = weight;
+    }
+  }
+  return chosen;
+};
+
+export type LiveMode = "sse" | "ws" | "long-poll" | "simple";
+
+export type LiveModeResult =
+  | { mode: LiveMode }
+  | { mode: "error"; error: Response };
+
+const requestedLiveMode = (
+  liveParam: string | null,
+  acceptHeader: string
+): LiveMode => {
+  if (liveParam === "ws") {
+    return "ws";
+  }
+  if (liveParam === "sse" || acceptHeader.includes("text/event-stream")) {
+    return "sse";
+  }
+  return liveParam === "long-poll" ? "long-poll" : "simple";
+};
+
+const isWebSocketUpgrade = (request: Request): boolean =>
+  request.headers.get("upgrade")?.toLowerCase() === "websocket";
+
+/**
+ * parses the `live` query parameter.
+ * NOTE: `live=ws` only answers WebSocket upgrade requests; a plain GET gets 426 so it is never mistaken for a catch-up read.
+ */
+export const parseLiveMode = (
+  url: URL,
+  request: Request,
+  offset: Offset | undefined
+): LiveModeResult => {
+  const mode = requestedLiveMode(
+    url.searchParams.get(LIVE_QUERY_PARAM),
+    request.headers.get("accept") ?? ""
+  );
+
+  if (mode !== "simple" && offset === undefined) {
+    return {
+      mode: "error",
+      error: badRequest("Offset parameter required for live mode"),
+    };
+  }
+
+  if (mode === "ws" && !isWebSocketUpgrade(request)) {
+    return {
+      mode: "error",
+      error: new Response("WebSocket upgrade required", {
+        status: 426,
+        headers: { Upgrade: "websocket" },
+      }),
+    };
+  }
+
+  return { mode };
+};
+
+export type OffsetParseResult =
+  | {
+      ok: true;
+      offset: Offset | undefined;
+      isTail: boolean;
+      fromTimestamp?: number;
+    }
+  | { ok: false; error: Response };
+
+export const parseOffsetParam = (
+  offsetParam: string | null
+): OffsetParseResult => {
+  if (offsetParam === null) {
+    return { ok: true, offset: undefined, isTail: false };
+  }
+  if (offsetParam === "") {
+    return { ok: false, error: badRequest("Empty offset parameter") };
+  }
+  if (offsetParam === TAIL_OFFSET_QUERY_VALUE) {
+    return { ok: true, offset: undefined, isTail: true };
+  }
+  if (!isValidOffset(offsetParam)) {
+    return { ok: false, error: badRequest("Invalid offset format") };
+  }
+  return { ok: true, offset: normalizeOffset(offsetParam), isTail: false };
+};
+
+/**
+ * parses the read position from `offset` or `at`.
+ * NOTE: `at` takes an ISO-8601 time and is resolved to the offset of the first append written at or after it.
+ */
+export const parseReadPosition = (
+  offsetParam: string | null,
+  atParam: string | null
+): OffsetParseResult => {
+  if (atParam === null) {
+    return parseOffsetParam(offsetParam);
+  }
+  if (offsetParam !== null) {
+    return {
+      ok: false,
+      error: badRequest("Cannot specify both offset and at"),
+    };
+  }
+
+  const fromTimestamp = validateReadTimestamp(atParam);
+  if (fromTimestamp === null) {
+    return { ok: false, error: badRequest("Invalid at timestamp") };
+  }
+  return { ok: true, offset: undefined, isTail: false, fromTimestamp };
+};
+
+const seekTimestampOffset = async (
+  store: StreamStore,
+  path: string,
+  fromTimestamp: number
+): Promise<Offset> => {
+  const result = await store.get(path, {
+    fromTimestamp,
+    maxBytes: 1,
+    maxMessages: 1,
+  });
+  return result.messages[0]?.offset ?? result.nextOffset;
+};
+
+const resolveReadOffset = async (
+  store: StreamStore,
+  path: string,
+  parsed: Extract<OffsetParseResult, { ok: true }>
+): Promise<OffsetParseResult> => {
+  if (parsed.fromTimestamp !== undefined) {
+    return {
+      ok: true,
+      offset: await seekTimestampOffset(store, path, parsed.fromTimestamp),
+      isTail: false,
+    };
+  }
+
+  if (!parsed.isTail) {
+    return parsed;
+  }
+
+  const head = await store.head(path);
+  if (!head) {
+    return { ok: false, error: notFound(path) };
+  }
+
+  return { ok: true, offset: head.nextOffset, isTail: true };
+};
+
+type SSEEncodingResult =
+  | { ok: true; encoding: SSEDataEncoding | undefined }
+  | { ok: false; error: Response };
+
+const resolveSSEEncoding = async (
+  store: StreamStore,
+  path: string
+): Promise<SSEEncodingResult> => {
+  const head = await store.head(path);
+  if (!head) {
+    return { ok: false, error: notFound(path) };
+  }
+
+  return {
+    ok: true,
+    encoding: isSSETextCompatibleContentType(head.contentType)
+      ? undefined
+      : "base64",
+  };
+};
+
+export type ResolvedLiveMode =
+  | { mode: "sse" | "ws"; encoding: SSEDataEncoding | undefined }
+  | { mode: "long-poll" | "simple" };
+
+export type ReadRequestResult =
+  | {
+      ok: true;
+      offset: Offset | undefined;
+      isTail: boolean;
+      liveMode: ResolvedLiveMode;
+    }
+  | { ok: false; error: Response };
+
+/**
+ * resolves the offset and live mode of a GET request.
+ * NOTE: `offset=now`, `at` and SSE or WebSocket data encoding all need the stream, so missing streams surface here as 404s before any body is produced.
+ */
+export const resolveReadRequest = async (
+  store: StreamStore,
+  path: string,
+  url: URL,
+  request: Request
+): Promise<ReadRequestResult> => {
+  const offsetResult = parseReadPosition(
+    url.searchParams.get(OFFSET_QUERY_PARAM),
+    url.searchParams.get(TIMESTAMP_QUERY_PARAM)
+  );
+  if (!offsetResult.ok) {
+    return offsetResult;
+  }
+
+  const resolvedOffset = await resolveReadOffset(store, path, offsetResult);
+  if (!resolvedOffset.ok) {
+    return resolvedOffset;
+  }
+
+  const liveMode = parseLiveMode(url, request, resolvedOffset.offset);
+  if (liveMode.mode === "error") {
+    return { ok: false, error: liveMode.error };
+  }
+
+  if (liveMode.mode === "long-poll" || liveMode.mode === "simple") {
+    return {
+      ok: true,
+      offset: resolvedOffset.offset,
+      isTail: resolvedOffset.isTail,
+      liveMode: { mode: liveMode.mode },
+    };
+  }
+
+  const encodingResult = await resolveSSEEncoding(store, path);
+  if (!encodingResult.ok) {
+    return encodingResult;
+  }
+
+  return {
+    ok: true,
+    offset: resolvedOffset.offset,
+    isTail: resolvedOffset.isTail,
+    liveMode: { mode: liveMode.mode, encoding: encodingResult.encoding },
+  };
+};
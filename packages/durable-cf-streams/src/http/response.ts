@@ -0,0 +1,210 @@
+import {
+  CACHE_CONTROL_HEADER,
+  HEAD_CACHE_CONTROL_VALUE,
+  PRODUCER_EPOCH_HEADER,
+  PRODUCER_SEQ_HEADER,
+  PROTOCOL_SECURITY_HEADERS,
+  STREAM_CLOSED_HEADER,
+  STREAM_CURSOR_HEADER,
+  STREAM_EXPIRES_AT_HEADER,
+  STREAM_FRAMING_HEADER,
+  STREAM_OFFSET_HEADER,
+  STREAM_SCHEMA_HEADER,
+  STREAM_TTL_HEADER,
+  STREAM_UP_TO_DATE_HEADER,
+} from "../const.js";
+import {
+  isStreamError,
+  streamErrorHeaders,
+  streamErrorStatus,
+} from "../errors.js";
+import type {
+  AppendResult,
+  Cursor,
+  ETag,
+  JsonSchema,
+  ListResult,
+  Offset,
+  StreamFraming,
+} from "../types.js";
+import type { ResponseEncoding } from "./request.js";
+
+/**
+ * encodings `encodeResponseBody` compresses itself.
+ */
+const SELF_ENCODED_ENCODINGS: readonly string[] = ["gzip", "deflate"];
+
+/**
+ * adds the protocol security headers.
+ * NOTE: WebSocket upgrades are returned as is, since rebuilding a 101 response would drop its socket.
+ * NOTE: bodies already compressed by `encodeResponseBody` are marked `encodeBody: "manual"` so the Workers runtime does not encode them again.
+ */
+export const withProtocolHeaders = (response: Response): Response => {
+  if (response.webSocket) {
+    return response;
+  }
+  const headers = new Headers(response.headers);
+  for (const [name, value] of Object.entries(PROTOCOL_SECURITY_HEADERS)) {
+    headers.set(name, value);
+  }
+
+  return new Response(response.body, {
+    headers,
+    status: response.status,
+    statusText: response.statusText,
+    encodeBody: SELF_ENCODED_ENCODINGS.includes(
+      headers.get("content-encoding") ?? ""
+    )
+      ? "manual"
+      : "automatic",
+  });
+};
+
+/**
+ * compresses a read body for `Content-Encoding: encoding`.
+ * NOTE: `CompressionStream` has no brotli format, so a `br` body is returned as is for the Workers runtime to encode from the header; only offer `br` where the runtime does that.
+ */
+export const encodeResponseBody = (
+  body: Uint8Array | ReadableStream<Uint8Array>,
+  encoding: ResponseEncoding
+): Uint8Array | ReadableStream<Uint8Array> => {
+  if (encoding === "br") {
+    return body;
+  }
+
+  const stream =
+    body instanceof ReadableStream ? body : new Blob([body]).stream();
+  return stream.pipeThrough(new CompressionStream(encoding));
+};
+
+/**
+ * `Vary` for a read whose encoding was negotiated, plus `Content-Encoding` when its body is encoded.
+ */
+export const responseEncodingHeaders = (
+  encoding: ResponseEncoding | undefined,
+  hasBody: boolean
+): Record<string, string> => ({
+  Vary: "Accept-Encoding",
+  ...(encoding !== undefined && hasBody
+    ? { "Content-Encoding": encoding }
+    : {}),
+});
+
+export const reservedControlResponse = (): Response =>
+  new Response("Durable Streams control route not found", { status: 404 });
+
+export const listStreamsResponse = (result: ListResult): Response =>
+  new Response(JSON.stringify(result), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json",
+      [CACHE_CONTROL_HEADER]: HEAD_CACHE_CONTROL_VALUE,
+    },
+  });
+
+export const streamClosedHeaders = (
+  closed: boolean | undefined
+): Record<string, string> =>
+  closed === true ? { [STREAM_CLOSED_HEADER]: "true" } : {};
+
+export const streamFramingHeaders = (
+  framing: StreamFraming | undefined
+): Record<string, string> =>
+  framing === undefined ? {} : { [STREAM_FRAMING_HEADER]: framing };
+
+export const streamJsonSchemaHeaders = (
+  jsonSchema: JsonSchema | undefined
+): Record<string, string> =>
+  jsonSchema === undefined
+    ? {}
+    : { [STREAM_SCHEMA_HEADER]: JSON.stringify(jsonSchema) };
+
+export const streamMetadataHeaders = (result: {
+  readonly closed?: boolean;
+  readonly ttlSeconds?: number;
+  readonly expiresAt?: string;
+  readonly framing?: StreamFraming;
+  readonly jsonSchema?: JsonSchema;
+}): Record<string, string> => ({
+  ...streamClosedHeaders(result.closed),
+  ...streamFramingHeaders(result.framing),
+  ...streamJsonSchemaHeaders(result.jsonSchema),
+  ...(result.ttlSeconds === undefined
+    ? {}
+    : { [STREAM_TTL_HEADER]: String(result.ttlSeconds) }),
+  ...(result.expiresAt === undefined
+    ? {}
+    : { [STREAM_EXPIRES_AT_HEADER]: result.expiresAt }),
+});
+
+export const tailOffsetCacheHeaders = (
+  isTail: boolean
+): Record<string, string> =>
+  isTail ? { [CACHE_CONTROL_HEADER]: HEAD_CACHE_CONTROL_VALUE } : {};
+
+export type ReadHeadersInfo = {
+  readonly etag: ETag;
+  readonly nextOffset: Offset;
+  readonly cursor: Cursor;
+  readonly upToDate: boolean;
+  readonly closed: boolean;
+  readonly framing?: StreamFraming;
+};
+
+export const readResponseHeaders = (
+  info: ReadHeadersInfo
+): Record<string, string> => ({
+  ETag: info.etag,
+  [STREAM_OFFSET_HEADER]: info.nextOffset,
+  [STREAM_CURSOR_HEADER]: info.cursor,
+  [STREAM_UP_TO_DATE_HEADER]: info.upToDate ? "true" : "false",
+  ...streamClosedHeaders(info.closed && info.upToDate),
+  ...streamFramingHeaders(info.framing),
+});
+
+export const appendResponse = (result: AppendResult): Response => {
+  const headers = new Headers({
+    [STREAM_OFFSET_HEADER]: result.nextOffset,
+  });
+
+  if (result.closed === true) {
+    headers.set(STREAM_CLOSED_HEADER, "true");
+  }
+
+  if (result.producer) {
+    headers.set(PRODUCER_EPOCH_HEADER, String(result.producer.epoch));
+    headers.set(PRODUCER_SEQ_HEADER, String(result.producer.seq));
+  }
+
+  return new Response(null, {
+    status:
+      result.producer && !result.producer.duplicate && result.appended === true
+        ? 200
+        : 204,
+    headers,
+  });
+};
+
+/**
+ * maps a thrown value to a protocol response.
+ * NOTE: platform errors that only carry a size message are still reported as 413 so oversized appends never look like server faults.
+ */
+export const streamErrorResponse = (error: unknown): Response => {
+  if (isStreamError(error)) {
+    return new Response(error.message, {
+      headers: streamErrorHeaders(error),
+      status: streamErrorStatus(error),
+    });
+  }
+
+  if (
+    error instanceof Error &&
+    (error.message.includes("too large") ||
+      error.message.includes("SQLITE_TOOBIG") ||
+      error.message.includes("row too big"))
+  ) {
+    return new Response("Payload too large", { status: 413 });
+  }
+  console.error("Unexpected error:", error);
+  return new Response("Internal Server Error", { status: 500 });
+};
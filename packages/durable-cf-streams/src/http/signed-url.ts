@@ -0,0 +1,246 @@
+import {
+  OFFSET_FLOOR_QUERY_PARAM,
+  OFFSET_QUERY_PARAM,
+  SIGNATURE_QUERY_PARAM,
+  SIGNED_EXPIRES_QUERY_PARAM,
+  SIGNED_OPERATIONS_QUERY_PARAM,
+  TAIL_OFFSET_QUERY_VALUE,
+} from "../const.js";
+import { UnauthorizedError } from "../errors.js";
+import { isSentinelOffset, offsetToBytePos } from "../offsets.js";
+import { isOffsetString } from "../schema.js";
+import type { Offset } from "../types.js";
+import {
+  decodeBase64Url,
+  encodeBase64Url,
+  type StreamAccess,
+  type StreamAuthorizer,
+  type StreamOperation,
+} from "./auth.js";
+
+export type SignedUrlKey = string | Uint8Array | CryptoKey;
+
+export type SignStreamUrlOptions = {
+  /**
+   * the HMAC-SHA256 secret, shared with the verifier.
+   */
+  readonly key: SignedUrlKey;
+  /**
+   * what the url allows on its path, e.g. `["read"]` or `["append"]`.
+   */
+  readonly operations: readonly StreamOperation[];
+  readonly expiresAt: Date;
+  /**
+   * the lowest offset a read through the url may start at.
+   * NOTE: reads from `-1`, by `at` or without an offset are refused while a floor is set; `offset=now` is always allowed.
+   */
+  readonly offsetFloor?: Offset;
+};
+
+/**
+ * what a verified signed url allows.
+ */
+export type SignedStreamGrant = {
+  readonly path: string;
+  readonly operations: readonly StreamOperation[];
+  readonly expiresAt: Date;
+  readonly offsetFloor?: Offset;
+};
+
+export type SignedUrlAuthorizerOptions = {
+  readonly key: SignedUrlKey;
+  /**
+   * authorizes requests that carry no signature, e.g. `createApiKeyAuthorizer(...)` for the backend that hands the urls out.
+   * NOTE: without it, an unsigned request answers 401.
+   */
+  readonly fallback?: StreamAuthorizer;
+};
+
+const URL_BASE = "http://stream.invalid";
+const OPERATION_SEPARATOR = ",";
+
+const HMAC_SHA256: SubtleCryptoImportKeyAlgorithm = {
+  name: "HMAC",
+  hash: "SHA-256",
+};
+
+const importSigningKey = (
+  key: SignedUrlKey,
+  usage: "sign" | "verify"
+): Promise<CryptoKey> => {
+  if (key instanceof CryptoKey) {
+    return Promise.resolve(key);
+  }
+  const raw = typeof key === "string" ? new TextEncoder().encode(key) : key;
+  return crypto.subtle.importKey("raw", raw, HMAC_SHA256, false, [usage]);
+};
+
+/**
+ * the bytes a signature covers: the path and every signed parameter.
+ * NOTE: `offset`, `live`, `cursor` and the other read parameters stay unsigned, so a reader can resume and follow the stream with the same url.
+ */
+const signedPayload = (path: string, params: URLSearchParams): Uint8Array =>
+  new TextEncoder().encode(
+    [
+      path,
+      params.get(SIGNED_OPERATIONS_QUERY_PARAM) ?? "",
+      params.get(SIGNED_EXPIRES_QUERY_PARAM) ?? "",
+      params.get(OFFSET_FLOOR_QUERY_PARAM) ?? "",
+    ].join("\n")
+  );
+
+/**
+ * signs a stream path or url so it grants `operations` on that path until `expiresAt`.
+ * NOTE: query parameters already on the url are kept, so a signed `/v1/stream/a?offset=-1&live=sse` can be handed out as is. a relative path stays relative.
+ */
+export const signStreamUrl = async (
+  path: string,
+  options: SignStreamUrlOptions
+): Promise<string> => {
+  if (
+    options.offsetFloor !== undefined &&
+    !isOffsetString(options.offsetFloor)
+  ) {
+    throw new RangeError(`Invalid offset floor ${options.offsetFloor}`);
+  }
+
+  const url = new URL(path, URL_BASE);
+  const params = url.searchParams;
+  params.set(
+    SIGNED_OPERATIONS_QUERY_PARAM,
+    options.operations.join(OPERATION_SEPARATOR)
+  );
+  params.set(
+    SIGNED_EXPIRES_QUERY_PARAM,
+    String(Math.floor(options.expiresAt.getTime() / 1000))
+  );
+  if (options.offsetFloor === undefined) {
+    params.delete(OFFSET_FLOOR_QUERY_PARAM);
+  } else {
+    params.set(OFFSET_FLOOR_QUERY_PARAM, options.offsetFloor);
+  }
+
+  const signature = await crypto.subtle.sign(
+    HMAC_SHA256,
+    await importSigningKey(options.key, "sign"),
+    signedPayload(url.pathname, params)
+  );
+  params.set(SIGNATURE_QUERY_PARAM, encodeBase64Url(new Uint8Array(signature)));
+
+  return path.startsWith("/") ? `${url.pathname}${url.search}` : url.href;
+};
+
+const verifySignature = async (
+  key: CryptoKey,
+  url: URL,
+  signature: string
+): Promise<boolean> => {
+  try {
+    return await crypto.subtle.verify(
+      HMAC_SHA256,
+      key,
+      decodeBase64Url(signature),
+      signedPayload(url.pathname, url.searchParams)
+    );
+  } catch {
+    return false;
+  }
+};
+
+const signedGrant = (url: URL): SignedStreamGrant => {
+  const params = url.searchParams;
+  const expires = Number(params.get(SIGNED_EXPIRES_QUERY_PARAM));
+  if (!Number.isSafeInteger(expires) || Date.now() / 1000 >= expires) {
+    throw new UnauthorizedError("Signed URL expired");
+  }
+
+  const offsetFloor = params.get(OFFSET_FLOOR_QUERY_PARAM);
+  return {
+    path: url.pathname,
+    operations: (params.get(SIGNED_OPERATIONS_QUERY_PARAM) ?? "").split(
+      OPERATION_SEPARATOR
+    ) as StreamOperation[],
+    expiresAt: new Date(expires * 1000),
+    ...(offsetFloor === null ? {} : { offsetFloor: offsetFloor as Offset }),
+  };
+};
+
+/**
+ * checks a url signed by `signStreamUrl` and returns what it allows.
+ * NOTE: a missing, tampered or expired signature throws `UnauthorizedError`.
+ */
+export const verifyStreamUrl = async (
+  url: URL,
+  key: SignedUrlKey
+): Promise<SignedStreamGrant> => {
+  const signature = url.searchParams.get(SIGNATURE_QUERY_PARAM);
+  if (!signature) {
+    throw new UnauthorizedError("Missing URL signature");
+  }
+  const verified = await verifySignature(
+    await importSigningKey(key, "verify"),
+    url,
+    signature
+  );
+  if (!verified) {
+    throw new UnauthorizedError("Invalid URL signature");
+  }
+  return signedGrant(url);
+};
+
+/**
+ * NOTE: stores seek by byte position alone, so the floor compares positions; comparing whole offsets would let a high `seq` carry a low position past it.
+ */
+const readsAboveFloor = (url: URL, offsetFloor: Offset): boolean => {
+  const offset = url.searchParams.get(OFFSET_QUERY_PARAM);
+  if (offset === TAIL_OFFSET_QUERY_VALUE) {
+    return true;
+  }
+  if (offset === null || isSentinelOffset(offset) || !isOffsetString(offset)) {
+    return false;
+  }
+  return offsetToBytePos(offset as Offset) >= offsetToBytePos(offsetFloor);
+};
+
+/**
+ * whether a signed url's grant covers one access of the request it came with.
+ * NOTE: the offset floor only binds GET reads; a HEAD returns no stream data.
+ */
+export const signedGrantAllows = (
+  grant: SignedStreamGrant,
+  request: Request,
+  access: StreamAccess
+): boolean =>
+  access.path === grant.path &&
+  grant.operations.includes(access.operation) &&
+  (grant.offsetFloor === undefined ||
+    access.operation !== "read" ||
+    request.method !== "GET" ||
+    readsAboveFloor(new URL(request.url), grant.offsetFloor));
+
+/**
+ * an authorizer that accepts urls signed by `signStreamUrl`.
+ * NOTE: a signed url only ever covers its own path, so a fork through one is refused, since the fork also reads its source.
+ * NOTE: a key that fails to import fails every signed request with its error instead of rejecting unhandled.
+ */
+export const createSignedUrlAuthorizer = (
+  options: SignedUrlAuthorizerOptions
+): StreamAuthorizer => {
+  const key = importSigningKey(options.key, "verify");
+  key.catch(() => undefined);
+
+  return async (request, access) => {
+    const url = new URL(request.url);
+    if (
+      options.fallback !== undefined &&
+      !url.searchParams.has(SIGNATURE_QUERY_PARAM)
+    ) {
+      return await options.fallback(request, access);
+    }
+    return signedGrantAllows(
+      await verifyStreamUrl(url, await key),
+      request,
+      access
+    );
+  };
+};
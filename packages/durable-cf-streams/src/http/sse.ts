@@ -0,0 +1,222 @@
+import {
+  SSE_CLOSED_FIELD,
+  SSE_CURSOR_FIELD,
+  SSE_OFFSET_FIELD,
+} from "../const.js";
+import { generateResponseCursor } from "../cursor.js";
+import { encodeSSEData } from "../protocol.js";
+import type { StreamStore } from "../storage/interface.js";
+import type { GetResult, Offset } from "../types.js";
+
+export type SSEWriter = {
+  readonly send: (event: string, data: string) => void;
+  readonly comment: (comment: string) => void;
+  readonly flush: () => void;
+};
+
+/**
+ * buffers SSE frames and enqueues them once per microtask.
+ * NOTE: a data event and its control event are written back to back, so batching keeps them in one chunk for clients that parse per read.
+ */
+export const createSSEWriter = (
+  controller: ReadableStreamDefaultController<Uint8Array>
+): SSEWriter => {
+  const encoder = new TextEncoder();
+  let pending = "";
+  let scheduled = false;
+
+  const flush = () => {
+    scheduled = false;
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    const chunk = pending;
+    pending = "";
+    controller.enqueue(encoder.encode(chunk));
+  };
+
+  const scheduleFlush = () => {
+    if (!scheduled) {
+      scheduled = true;
+      queueMicrotask(flush);
+    }
+  };
+
+  return {
+    send: (event, data) => {
+      pending += `event: ${event}\n${encodeSSEData(data)}\n\n`;
+      scheduleFlush();
+    },
+    comment: (comment) => {
+      pending += `: ${comment}\n\n`;
+      scheduleFlush();
+    },
+    flush,
+  };
+};
+
+export type SSELoopState = {
+  currentOffset: Offset;
+  cancelled: boolean;
+};
+
+export type SSEPumpOptions = {
+  readonly timeoutMs: number;
+  readonly maxReadBytes?: number;
+  /**
+   * a read filter; see `GetOptions.filter`.
+   */
+  readonly filter?: string;
+};
+
+export type SendSSEControl = (
+  offset: Offset,
+  closed?: boolean,
+  upToDate?: boolean
+) => void;
+export type SendSSEData = (data: Uint8Array, contentType: string) => void;
+
+/**
+ * builds the payload of a control event.
+ * NOTE: a closed stream has no further reads, so its final control event carries no cursor.
+ */
+export const controlEventFields = (
+  nextOffset: Offset,
+  clientCursor: string | undefined,
+  closed = false,
+  upToDate = true
+): Record<string, string | boolean> =>
+  closed
+    ? {
+        [SSE_OFFSET_FIELD]: nextOffset,
+        upToDate: true,
+        [SSE_CLOSED_FIELD]: true,
+      }
+    : {
+        [SSE_CURSOR_FIELD]: generateResponseCursor(clientCursor),
+        [SSE_OFFSET_FIELD]: nextOffset,
+        upToDate,
+      };
+
+/**
+ * sends one read and the control event after it.
+ * NOTE: a filtered read can drop every item short of the tail, so the offset moves past it even when no data is sent.
+ */
+const sendSSESnapshot = async (
+  store: StreamStore,
+  path: string,
+  state: SSELoopState,
+  options: SSEPumpOptions,
+  sendControl: SendSSEControl,
+  sendData: SendSSEData
+): Promise<GetResult> => {
+  const result = await store.get(path, {
+    offset: state.currentOffset,
+    maxBytes: options.maxReadBytes,
+    filter: options.filter,
+  });
+
+  if (result.messages.length > 0) {
+    const body = store.formatResponse(path, result.messages);
+    sendData(body, result.contentType);
+  }
+  state.currentOffset = result.nextOffset;
+
+  sendControl(
+    state.currentOffset,
+    result.closed && result.upToDate,
+    result.upToDate
+  );
+  return result;
+};
+
+/**
+ * sends snapshots until the reader reaches the tail.
+ * NOTE: bounded reads return `upToDate: false` mid-stream, and waiting for new data there would stall a reader that is still catching up.
+ */
+export const sendSSECatchUp = async (
+  store: StreamStore,
+  path: string,
+  state: SSELoopState,
+  options: SSEPumpOptions,
+  sendControl: SendSSEControl,
+  sendData: SendSSEData
+): Promise<boolean> => {
+  let result = await sendSSESnapshot(
+    store,
+    path,
+    state,
+    options,
+    sendControl,
+    sendData
+  );
+  while (!(result.upToDate || state.cancelled)) {
+    result = await sendSSESnapshot(
+      store,
+      path,
+      state,
+      options,
+      sendControl,
+      sendData
+    );
+  }
+  return result.closed && result.upToDate;
+};
+
+const sendSSETimeoutControl = async (
+  store: StreamStore,
+  path: string,
+  state: SSELoopState,
+  sendControl: SendSSEControl
+): Promise<boolean> => {
+  const current = await store.get(path, { offset: state.currentOffset });
+  sendControl(current.nextOffset, current.closed);
+  return current.closed;
+};
+
+export const pumpSSEStream = async (
+  store: StreamStore,
+  path: string,
+  state: SSELoopState,
+  options: SSEPumpOptions,
+  sendControl: SendSSEControl,
+  sendData: SendSSEData
+): Promise<void> => {
+  if (!store.has(path)) {
+    throw new Error("Stream not found");
+  }
+
+  if (
+    await sendSSECatchUp(store, path, state, options, sendControl, sendData)
+  ) {
+    return;
+  }
+
+  while (!state.cancelled) {
+    if (!store.has(path)) {
+      throw new Error("Stream not found");
+    }
+
+    const wait = await store.waitForData(
+      path,
+      state.currentOffset,
+      options.timeoutMs
+    );
+    const closed = wait.timedOut
+      ? await sendSSETimeoutControl(store, path, state, sendControl)
+      : await sendSSECatchUp(
+          store,
+          path,
+          state,
+          options,
+          sendControl,
+          sendData
+        );
+
+    if (closed) {
+      return;
+    }
+  }
+};
@@ -0,0 +1,486 @@
+import { SSE_CLOSED_FIELD, SSE_OFFSET_FIELD } from "../const.js";
+import {
+  ForbiddenError,
+  InvalidJsonError,
+  streamErrorEventData,
+} from "../errors.js";
+import {
+  decodeBase64Data,
+  encodeBase64Data,
+  normalizeContentType,
+} from "../protocol.js";
+import {
+  decodeWebSocketAppendFrameJson,
+  type WebSocketAppendFrame,
+} from "../schema.js";
+import type { StreamStore } from "../storage/interface.js";
+import type { AppendOptions, AppendResult, Offset } from "../types.js";
+import type { StreamRateLimiter } from "./rate-limit.js";
+import type { SSEDataEncoding } from "./request.js";
+import {
+  controlEventFields,
+  pumpSSEStream,
+  type SSELoopState,
+  sendSSECatchUp,
+} from "./sse.js";
+
+/**
+ * the hibernation API of a durable object, usually its `ctx` itself.
+ */
+export type WebSocketHibernation = {
+  readonly acceptWebSocket: (socket: WebSocket, tags: string[]) => void;
+  readonly getWebSockets: (tag: string) => WebSocket[];
+};
+
+export type WebSocketContext = {
+  readonly store: StreamStore;
+  readonly appendQueue: <T>(operation: () => Promise<T>) => Promise<T>;
+  readonly liveWaitTimeoutMs: number;
+  readonly maxReadBytes?: number;
+  readonly hibernation?: WebSocketHibernation;
+  readonly rateLimit?: StreamRateLimiter;
+};
+
+/**
+ * what a socket reads, kept as its hibernation attachment so it survives eviction.
+ */
+export type WebSocketSession = {
+  readonly path: string;
+  readonly offset: Offset;
+  readonly cursor?: string;
+  readonly encoding?: SSEDataEncoding;
+  readonly filter?: string;
+  /**
+   * refuses `append` frames, set when the upgrade request was not allowed to append.
+   */
+  readonly readOnly?: boolean;
+  /**
+   * the client the upgrade request counted against, charged for every `append` frame.
+   */
+  readonly rateLimitKey?: string;
+};
+
+const STREAM_CLOSED_CLOSE_CODE = 1000;
+const PATH_TAG_PREFIX = "path:";
+const RATE_LIMIT_TAG_PREFIX = "rate-limit:";
+
+/**
+ * a hibernation tag for `value`, hashed since the runtime limits tags to 256 characters.
+ */
+const hashedTag = async (prefix: string, value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value)
+  );
+  return `${prefix}${encodeBase64Data(new Uint8Array(digest))}`;
+};
+
+/**
+ * the tag a hibernated socket carries for the stream it reads.
+ */
+const pathTag = (path: string): Promise<string> =>
+  hashedTag(PATH_TAG_PREFIX, path);
+
+/**
+ * the tag a hibernated socket carries for the client it counts against.
+ */
+const rateLimitTag = (key: string): Promise<string> =>
+  hashedTag(RATE_LIMIT_TAG_PREFIX, key);
+
+const sendFrame = (socket: WebSocket, frame: Record<string, unknown>): void => {
+  socket.send(JSON.stringify(frame));
+};
+
+const sendDataFrame = (
+  socket: WebSocket,
+  data: Uint8Array,
+  encoding: SSEDataEncoding | undefined
+): void => {
+  sendFrame(
+    socket,
+    encoding === "base64"
+      ? { type: "data", data: encodeBase64Data(data), encoding }
+      : { type: "data", data: new TextDecoder().decode(data) }
+  );
+};
+
+const sendErrorFrame = (
+  socket: WebSocket,
+  error: unknown,
+  id?: string
+): void => {
+  sendFrame(socket, {
+    type: "error",
+    ...(id === undefined ? {} : { id }),
+    ...streamErrorEventData(error),
+  });
+};
+
+const socketSenders = (socket: WebSocket, session: WebSocketSession) => ({
+  sendControl: (nextOffset: Offset, closed = false, upToDate = true) =>
+    sendFrame(socket, {
+      type: "control",
+      ...controlEventFields(nextOffset, session.cursor, closed, upToDate),
+    }),
+  sendData: (data: Uint8Array) => sendDataFrame(socket, data, session.encoding),
+});
+
+const ackFrame = (
+  id: string | undefined,
+  result: AppendResult
+): Record<string, unknown> => ({
+  type: "ack",
+  ...(id === undefined ? {} : { id }),
+  [SSE_OFFSET_FIELD]: result.nextOffset,
+  ...(result.closed === true ? { [SSE_CLOSED_FIELD]: true } : {}),
+  ...(result.producer === undefined ? {} : { producer: result.producer }),
+});
+
+type SocketReader = {
+  readonly socket: WebSocket;
+  readonly session: WebSocketSession;
+  readonly senders: ReturnType<typeof socketSenders>;
+};
+
+/**
+ * runs `action` on every reader, returning the ones whose socket is still open.
+ */
+const eachOpenReader = (
+  readers: readonly SocketReader[],
+  action: (reader: SocketReader) => void
+): SocketReader[] =>
+  readers.filter((reader) => {
+    try {
+      action(reader);
+      return true;
+    } catch {
+      // NOTE: the socket closed while it was being written to.
+      return false;
+    }
+  });
+
+/**
+ * sends hibernated sockets that share an offset and filter everything after it, and moves their offsets to the tail.
+ * NOTE: the range is read once and written to every socket, so an append costs the same store reads however many sockets read the stream.
+ */
+const catchUpReaders = async (
+  context: WebSocketContext,
+  session: WebSocketSession,
+  readers: readonly SocketReader[]
+): Promise<void> => {
+  const state: SSELoopState = {
+    currentOffset: session.offset,
+    cancelled: false,
+  };
+  let open = [...readers];
+  const broadcast = (action: (reader: SocketReader) => void) => {
+    open = eachOpenReader(open, action);
+    state.cancelled = open.length === 0;
+  };
+
+  try {
+    const closed = await sendSSECatchUp(
+      context.store,
+      session.path,
+      state,
+      {
+        timeoutMs: context.liveWaitTimeoutMs,
+        maxReadBytes: context.maxReadBytes,
+        filter: session.filter,
+      },
+      (nextOffset, streamClosed, upToDate) =>
+        broadcast(({ senders }) =>
+          senders.sendControl(nextOffset, streamClosed, upToDate)
+        ),
+      (data) => broadcast(({ senders }) => senders.sendData(data))
+    );
+    eachOpenReader(open, (reader) => {
+      reader.socket.serializeAttachment({
+        ...reader.session,
+        offset: state.currentOffset,
+      });
+      if (closed) {
+        reader.socket.close(STREAM_CLOSED_CLOSE_CODE, "Stream closed");
+      }
+    });
+  } catch (error) {
+    eachOpenReader(open, ({ socket }) => {
+      sendErrorFrame(socket, error);
+      socket.close(STREAM_CLOSED_CLOSE_CODE, "Stream error");
+    });
+  }
+};
+
+/**
+ * catches up hibernated sockets, grouping them by where and how they read.
+ * NOTE: callers run this on the append queue, so a socket never sees the same data twice.
+ */
+const catchUpWebSockets = async (
+  context: WebSocketContext,
+  sockets: readonly WebSocket[]
+): Promise<void> => {
+  const groups = new Map<
+    string,
+    { session: WebSocketSession; readers: SocketReader[] }
+  >();
+  for (const socket of sockets) {
+    const session = socket.deserializeAttachment() as WebSocketSession | null;
+    if (session === null) {
+      continue;
+    }
+    const key = JSON.stringify([session.path, session.offset, session.filter]);
+    const group = groups.get(key) ?? { session, readers: [] };
+    group.readers.push({
+      socket,
+      session,
+      senders: socketSenders(socket, session),
+    });
+    groups.set(key, group);
+  }
+
+  for (const { session, readers } of groups.values()) {
+    await catchUpReaders(context, session, readers);
+  }
+};
+
+const notifyWebSockets = async (
+  context: WebSocketContext,
+  path: string
+): Promise<void> => {
+  if (context.hibernation === undefined) {
+    return;
+  }
+  await catchUpWebSockets(
+    context,
+    context.hibernation.getWebSockets(await pathTag(path))
+  );
+};
+
+/**
+ * appends through the append queue and then pushes the new data to hibernated sockets reading `path`.
+ * NOTE: the client's append token is taken right before the store append and refunded when the store refuses it, so malformed appends are not charged.
+ */
+export const appendToStream = (
+  context: WebSocketContext,
+  path: string,
+  data: Uint8Array,
+  options: AppendOptions,
+  rateLimitKey?: string
+): Promise<AppendResult> =>
+  context.appendQueue(async () => {
+    const refund =
+      rateLimitKey === undefined
+        ? undefined
+        : await context.rateLimit?.takeAppend(rateLimitKey);
+    let result: AppendResult;
+    try {
+      result = await context.store.append(path, data, options);
+    } catch (error) {
+      await refund?.();
+      throw error;
+    }
+    await notifyWebSockets(context, path);
+    return result;
+  });
+
+/**
+ * tells hibernated sockets reading `path` that it is gone.
+ */
+export const notifyStreamDeleted = (
+  context: WebSocketContext,
+  path: string
+): Promise<void> => context.appendQueue(() => notifyWebSockets(context, path));
+
+const parseAppendFrame = (
+  message: string | ArrayBuffer
+): WebSocketAppendFrame => {
+  if (typeof message !== "string") {
+    throw new InvalidJsonError("WebSocket frames must be JSON text");
+  }
+  try {
+    return decodeWebSocketAppendFrameJson(message);
+  } catch {
+    throw new InvalidJsonError("Invalid WebSocket append frame");
+  }
+};
+
+const appendFrameData = (frame: WebSocketAppendFrame): Uint8Array => {
+  if (frame.data === undefined) {
+    return new Uint8Array(0);
+  }
+  return frame.encoding === "base64"
+    ? decodeBase64Data(frame.data)
+    : new TextEncoder().encode(frame.data);
+};
+
+/**
+ * applies one client `append` frame and answers with an `ack` or `error` frame carrying its `id`.
+ * NOTE: a failed append leaves the socket open, since its reads are unaffected.
+ */
+export const receiveWebSocketMessage = async (
+  context: WebSocketContext,
+  session: WebSocketSession,
+  socket: WebSocket,
+  message: string | ArrayBuffer
+): Promise<void> => {
+  const { path } = session;
+  let id: string | undefined;
+  try {
+    const frame = parseAppendFrame(message);
+    id = frame.id;
+    if (session.readOnly === true) {
+      throw new ForbiddenError(path, `Forbidden: append ${path}`);
+    }
+    const data = appendFrameData(frame);
+    if (data.length === 0 && frame.close !== true) {
+      throw new InvalidJsonError("Empty append not allowed");
+    }
+
+    const result = await appendToStream(
+      context,
+      path,
+      data,
+      {
+        contentType:
+          data.length > 0 && frame.contentType !== undefined
+            ? normalizeContentType(frame.contentType)
+            : undefined,
+        close: frame.close,
+        producer: frame.producer,
+        seq: frame.seq,
+      },
+      session.rateLimitKey
+    );
+    sendFrame(socket, ackFrame(id, result));
+  } catch (error) {
+    sendErrorFrame(socket, error, id);
+  }
+};
+
+const runWebSocketSession = async (
+  context: WebSocketContext,
+  socket: WebSocket,
+  session: WebSocketSession,
+  state: SSELoopState,
+  release: () => void
+): Promise<void> => {
+  const { sendControl, sendData } = socketSenders(socket, session);
+  try {
+    await pumpSSEStream(
+      context.store,
+      session.path,
+      state,
+      {
+        timeoutMs: context.liveWaitTimeoutMs,
+        maxReadBytes: context.maxReadBytes,
+        filter: session.filter,
+      },
+      sendControl,
+      sendData
+    );
+    if (!state.cancelled) {
+      socket.close(STREAM_CLOSED_CLOSE_CODE, "Stream closed");
+    }
+  } catch (error) {
+    if (!state.cancelled) {
+      sendErrorFrame(socket, error);
+      socket.close(STREAM_CLOSED_CLOSE_CODE, "Stream error");
+    }
+  } finally {
+    release();
+  }
+};
+
+/**
+ * the hibernated sockets a client holds open, which count against its live read slots.
+ */
+export const hibernatedLiveReads = async (
+  context: WebSocketContext,
+  key: string
+): Promise<number> =>
+  context.hibernation === undefined || context.rateLimit === undefined
+    ? 0
+    : context.hibernation.getWebSockets(await rateLimitTag(key)).length;
+
+const acceptHibernatedWebSocket = async (
+  context: WebSocketContext,
+  hibernation: WebSocketHibernation,
+  socket: WebSocket,
+  session: WebSocketSession
+): Promise<void> => {
+  const tags =
+    session.rateLimitKey === undefined || context.rateLimit === undefined
+      ? [await pathTag(session.path)]
+      : [await pathTag(session.path), await rateLimitTag(session.rateLimitKey)];
+  hibernation.acceptWebSocket(socket, tags);
+  socket.serializeAttachment(session);
+  await context.appendQueue(() => catchUpWebSockets(context, [socket]));
+};
+
+const acceptWebSocket = (
+  context: WebSocketContext,
+  socket: WebSocket,
+  session: WebSocketSession,
+  release: () => void
+): void => {
+  const state: SSELoopState = {
+    currentOffset: session.offset,
+    cancelled: false,
+  };
+  const cancel = () => {
+    state.cancelled = true;
+  };
+
+  socket.accept();
+  socket.addEventListener("message", (event) => {
+    receiveWebSocketMessage(context, session, socket, event.data).catch(() => {
+      // NOTE: the socket closed before its ack or error frame was sent.
+    });
+  });
+  socket.addEventListener("close", cancel);
+  socket.addEventListener("error", cancel);
+  runWebSocketSession(context, socket, session, state, release);
+};
+
+/**
+ * upgrades a `live=ws` read.
+ * NOTE: with `hibernation` the socket holds no pending read between appends, so only appends made through the same handler reach it, and `release` is called once it is accepted, since its rate limit tag counts it from then on; without it the socket waits on the store like an SSE read, and `release` is called once that read ends.
+ * NOTE: sockets are tagged with a hash of their stream path, so paths longer than the runtime's 256-character tag limit can still hibernate.
+ */
+export const handleWebSocket = async (
+  context: WebSocketContext,
+  session: WebSocketSession,
+  release: () => void = () => undefined
+): Promise<Response> => {
+  const { 0: client, 1: server } = new WebSocketPair();
+
+  if (context.hibernation) {
+    await acceptHibernatedWebSocket(
+      context,
+      context.hibernation,
+      server,
+      session
+    );
+    release();
+  } else {
+    acceptWebSocket(context, server, session, release);
+  }
+
+  return new Response(null, { status: 101, webSocket: client });
+};
+
+/**
+ * handles a message delivered to a hibernated socket.
+ * NOTE: forward the durable object's `webSocketMessage` here; sockets this handler did not accept are ignored.
+ */
+export const receiveHibernatedWebSocketMessage = async (
+  context: WebSocketContext,
+  socket: WebSocket,
+  message: string | ArrayBuffer
+): Promise<void> => {
+  const session = socket.deserializeAttachment() as WebSocketSession | null;
+  if (session === null) {
+    return;
+  }
+  await receiveWebSocketMessage(context, session, socket, message);
+};
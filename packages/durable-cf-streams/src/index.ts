@@ -5,9 +5,15 @@ export {
   CROSS_ORIGIN_RESOURCE_POLICY_HEADER,
   CURSOR_QUERY_PARAM,
   DEFAULT_CONTENT_TYPE,
+  FILTER_QUERY_PARAM,
   HEAD_CACHE_CONTROL_VALUE,
+  LIMIT_QUERY_PARAM,
   LIVE_QUERY_PARAM,
+  MULTIPART_CONTENT_TYPE,
+  NDJSON_CONTENT_TYPES,
+  OFFSET_FLOOR_QUERY_PARAM,
   OFFSET_QUERY_PARAM,
+  PREFIX_QUERY_PARAM,
   PRODUCER_EPOCH_HEADER,
   PRODUCER_EXPECTED_SEQ_HEADER,
   PRODUCER_ID_HEADER,
@@ -15,6 +21,10 @@ export {
   PRODUCER_SEQ_HEADER,
   PROTOCOL_SECURITY_HEADERS,
   RESERVED_CONTROL_PATH_SEGMENT,
+  RETRY_AFTER_HEADER,
+  SIGNATURE_QUERY_PARAM,
+  SIGNED_EXPIRES_QUERY_PARAM,
+  SIGNED_OPERATIONS_QUERY_PARAM,
   SSE_CACHE_CONTROL_VALUE,
   SSE_CLOSED_FIELD,
   SSE_COMPATIBLE_CONTENT_TYPES,
@@ -22,16 +32,25 @@ export {
   SSE_OFFSET_FIELD,
   STREAM_CLOSED_HEADER,
   STREAM_CURSOR_HEADER,
+  STREAM_EARLIEST_OFFSET_HEADER,
   STREAM_EXPIRES_AT_HEADER,
   STREAM_FORK_OFFSET_HEADER,
   STREAM_FORK_SUB_OFFSET_HEADER,
   STREAM_FORKED_FROM_HEADER,
+  STREAM_FRAMING_HEADER,
   STREAM_OFFSET_HEADER,
+  STREAM_RETENTION_MAX_AGE_HEADER,
+  STREAM_RETENTION_MAX_BYTES_HEADER,
+  STREAM_RETENTION_MAX_MESSAGES_HEADER,
+  STREAM_SCHEMA_HEADER,
+  STREAM_SCHEMA_POINTER_HEADER,
   STREAM_SEQ_HEADER,
   STREAM_SSE_DATA_ENCODING_HEADER,
   STREAM_TTL_HEADER,
   STREAM_UP_TO_DATE_HEADER,
   TAIL_OFFSET_QUERY_VALUE,
+  TIMESTAMP_QUERY_PARAM,
+  WWW_AUTHENTICATE_HEADER,
 } from "./const.js";
 export {
   type CursorOptions,
@@ -42,13 +61,18 @@ export {
 } from "./cursor.js";
 export {
   ContentTypeMismatchError,
+  ForbiddenError,
+  InvalidFilterError,
   InvalidJsonError,
   InvalidOffsetError,
   InvalidProducerError,
   isStreamError,
+  OffsetTrimmedError,
   PayloadTooLargeError,
   ProducerFencedError,
   ProducerSequenceConflictError,
+  QuotaExceededError,
+  SchemaViolationError,
   SequenceConflictError,
   StreamClosedError,
   StreamConflictError,
@@ -56,11 +80,26 @@ export {
   type StreamErrorEventData,
   StreamGoneError,
   StreamNotFoundError,
+  StreamResponseError,
   streamErrorEventData,
   streamErrorEventJson,
   streamErrorHeaders,
   streamErrorStatus,
+  UnauthorizedError,
 } from "./errors.js";
+export {
+  canonicalStreamFilter,
+  MAX_FILTER_LENGTH,
+  parseStreamFilter,
+  type StreamFilter,
+} from "./filter.js";
+export {
+  assertJsonSchemaDefinition,
+  canonicalJson,
+  findJsonSchemaViolation,
+  type JsonSchemaViolation,
+  sameJsonValue,
+} from "./json-schema.js";
 export {
   advanceOffset,
   compareOffsets,
@@ -81,39 +120,68 @@ export {
   parseProducerHeaders,
 } from "./producer.js";
 export {
+  decodeBase64Data,
   type ExpirationInfo,
   encodeBase64Data,
+  encodedETag,
   encodeSSEData,
+  FRAME_LENGTH_BYTES,
   formatJsonResponse,
+  formatMultipartResponse,
+  framedByteLength,
+  frameRecord,
   generateETag,
   isExpired,
   isJsonContentType,
+  isJsonRecordContentType,
   isMetadataExpired,
+  isNdjsonContentType,
   isSSETextCompatibleContentType,
+  multipartETag,
+  ndjsonByteLength,
   normalizeContentType,
   parseETag,
   processJsonAppend,
+  processNdjsonData,
+  splitFrames,
   validateExpiresAt,
   validateForkSubOffset,
   validateJsonCreate,
+  validateReadTimestamp,
+  validateRetentionLimit,
+  validateStreamFraming,
   validateTTL,
 } from "./protocol.js";
 export {
   CursorSchema,
   ETagSchema,
+  JsonSchemaSchema,
   OffsetSchema,
   ProducerStateMapSchema,
   ProducerStateSchema,
+  RetentionPolicySchema,
+  StorageCompressionSchema,
+  StreamFramingSchema,
+  type WebSocketAppendFrame,
+  WebSocketAppendFrameSchema,
+  WrappedDataKeySchema,
 } from "./schema.js";
+export type { StreamKeyProvider } from "./storage/encryption.js";
 export type { StreamStore } from "./storage/interface.js";
+export type { StreamQuotas } from "./storage/quotas.js";
 export type {
+  AppendBatchResult,
   AppendOptions,
   AppendResult,
   Cursor,
   ETag,
+  FormatOptions,
   GetOptions,
   GetResult,
   HeadResult,
+  JsonSchema,
+  ListOptions,
+  ListResult,
   Offset,
   ProducerAppendOptions,
   ProducerAppendResult,
@@ -121,7 +189,12 @@ export type {
   ProducerStateMap,
   PutOptions,
   PutResult,
+  RetentionPolicy,
+  StorageCompression,
+  StreamFraming,
   StreamMessage,
   StreamMetadata,
+  TransactionAppend,
   WaitResult,
+  WrappedDataKey,
 } from "./types.js";
@@ -0,0 +1,440 @@
+import type { JsonSchema } from "./schema.js";
+
+/**
+ * the first place a value fails its schema.
+ */
+export type JsonSchemaViolation = {
+  /**
+   * JSON pointer to the failing value, `""` for the value itself.
+   */
+  readonly pointer: string;
+  readonly keyword: string;
+  readonly message: string;
+};
+
+type JsonObject = { readonly [key: string]: unknown };
+
+type KeywordCheck = (
+  value: unknown,
+  schema: JsonObject,
+  pointer: string
+) => JsonSchemaViolation | undefined;
+
+type KeywordDefinition = {
+  /**
+   * whether the keyword's own value is well formed.
+   */
+  readonly valid: (keywordValue: unknown) => boolean;
+  readonly subschemas?: (keywordValue: unknown) => readonly unknown[];
+  readonly check?: KeywordCheck;
+};
+
+const JSON_TYPES = [
+  "null",
+  "boolean",
+  "object",
+  "array",
+  "number",
+  "integer",
+  "string",
+];
+
+const isJsonObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonNegativeInteger = (value: unknown): boolean =>
+  Number.isSafeInteger(value) && (value as number) >= 0;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isStringArray = (value: unknown): value is readonly string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isSchema = (value: unknown): value is JsonSchema =>
+  typeof value === "boolean" || isJsonObject(value);
+
+const isSchemaList = (value: unknown): value is readonly JsonSchema[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isSchema);
+
+const isPattern = (value: unknown): boolean => {
+  if (typeof value !== "string") {
+    return false;
+  }
+  try {
+    new RegExp(value, "u");
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isTypeKeyword = (value: unknown): boolean =>
+  typeof value === "string"
+    ? JSON_TYPES.includes(value)
+    : isStringArray(value) && value.every((type) => JSON_TYPES.includes(type));
+
+const escapePointerToken = (token: string | number): string =>
+  String(token).replaceAll("~", "~0").replaceAll("/", "~1");
+
+const childPointer = (pointer: string, token: string | number): string =>
+  `${pointer}/${escapePointerToken(token)}`;
+
+/**
+ * serializes JSON with sorted object keys, so equal values serialize equally.
+ */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (isJsonObject(value)) {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const sameJsonValue = (left: unknown, right: unknown): boolean =>
+  canonicalJson(left) === canonicalJson(right);
+
+const jsonTypeOf = (value: unknown): string => {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  if (type === "integer") {
+    return Number.isInteger(value);
+  }
+  return jsonTypeOf(value) === type;
+};
+
+const violation = (
+  pointer: string,
+  keyword: string,
+  message: string
+): JsonSchemaViolation => ({ pointer, keyword, message });
+
+const checkType: KeywordCheck = (value, schema, pointer) => {
+  const types = isStringArray(schema.type) ? schema.type : [schema.type];
+  return types.some((type) => matchesType(value, String(type)))
+    ? undefined
+    : violation(pointer, "type", `must be ${types.join(" or ")}`);
+};
+
+const checkEnum: KeywordCheck = (value, schema, pointer) =>
+  (schema.enum as readonly unknown[]).some((item) => sameJsonValue(item, value))
+    ? undefined
+    : violation(pointer, "enum", "must be one of the enum values");
+
+const checkConst: KeywordCheck = (value, schema, pointer) =>
+  sameJsonValue(schema.const, value)
+    ? undefined
+    : violation(pointer, "const", "must equal the const value");
+
+/**
+ * builds a check for a numeric limit on strings, numbers or arrays.
+ */
+const limitCheck =
+  (
+    keyword: string,
+    measure: (value: unknown) => number | undefined,
+    passes: (measured: number, limit: number) => boolean,
+    message: (limit: number) => string
+  ): KeywordCheck =>
+  (value, schema, pointer) => {
+    const measured = measure(value);
+    const limit = schema[keyword] as number;
+    return measured === undefined || passes(measured, limit)
+      ? undefined
+      : violation(pointer, keyword, message(limit));
+  };
+
+const stringLength = (value: unknown): number | undefined =>
+  typeof value === "string" ? [...value].length : undefined;
+
+const numberValue = (value: unknown): number | undefined =>
+  typeof value === "number" ? value : undefined;
+
+const arrayLength = (value: unknown): number | undefined =>
+  Array.isArray(value) ? value.length : undefined;
+
+const checkPattern: KeywordCheck = (value, schema, pointer) =>
+  typeof value !== "string" ||
+  new RegExp(schema.pattern as string, "u").test(value)
+    ? undefined
+    : violation(pointer, "pattern", `must match ${String(schema.pattern)}`);
+
+const checkRequired: KeywordCheck = (value, schema, pointer) => {
+  if (!isJsonObject(value)) {
+    return;
+  }
+  const missing = (schema.required as readonly string[]).find(
+    (key) => !Object.hasOwn(value, key)
+  );
+  return missing === undefined
+    ? undefined
+    : violation(childPointer(pointer, missing), "required", "is required");
+};
+
+const checkProperties: KeywordCheck = (value, schema, pointer) => {
+  if (!isJsonObject(value)) {
+    return;
+  }
+  for (const [key, subschema] of Object.entries(
+    schema.properties as JsonObject
+  )) {
+    if (Object.hasOwn(value, key)) {
+      const found = findJsonSchemaViolation(
+        value[key],
+        subschema as JsonSchema,
+        childPointer(pointer, key)
+      );
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return;
+};
+
+const checkAdditionalProperties: KeywordCheck = (value, schema, pointer) => {
+  if (!isJsonObject(value)) {
+    return;
+  }
+  const declared = isJsonObject(schema.properties) ? schema.properties : {};
+  for (const key of Object.keys(value)) {
+    if (!Object.hasOwn(declared, key)) {
+      const found = findJsonSchemaViolation(
+        value[key],
+        schema.additionalProperties as JsonSchema,
+        childPointer(pointer, key)
+      );
+      if (found) {
+        return { ...found, keyword: "additionalProperties" };
+      }
+    }
+  }
+  return;
+};
+
+const checkItems: KeywordCheck = (value, schema, pointer) => {
+  if (!Array.isArray(value)) {
+    return;
+  }
+  for (const [index, item] of value.entries()) {
+    const found = findJsonSchemaViolation(
+      item,
+      schema.items as JsonSchema,
+      childPointer(pointer, index)
+    );
+    if (found) {
+      return found;
+    }
+  }
+  return;
+};
+
+const matchCount = (value: unknown, schemas: readonly JsonSchema[]): number =>
+  schemas.filter(
+    (subschema) => findJsonSchemaViolation(value, subschema) === undefined
+  ).length;
+
+const checkAllOf: KeywordCheck = (value, schema, pointer) => {
+  for (const subschema of schema.allOf as readonly JsonSchema[]) {
+    const found = findJsonSchemaViolation(value, subschema, pointer);
+    if (found) {
+      return found;
+    }
+  }
+  return;
+};
+
+const checkAnyOf: KeywordCheck = (value, schema, pointer) =>
+  matchCount(value, schema.anyOf as readonly JsonSchema[]) > 0
+    ? undefined
+    : violation(pointer, "anyOf", "must match a schema in anyOf");
+
+const checkOneOf: KeywordCheck = (value, schema, pointer) =>
+  matchCount(value, schema.oneOf as readonly JsonSchema[]) === 1
+    ? undefined
+    : violation(pointer, "oneOf", "must match exactly one schema in oneOf");
+
+const checkNot: KeywordCheck = (value, schema, pointer) =>
+  findJsonSchemaViolation(value, schema.not as JsonSchema) === undefined
+    ? violation(pointer, "not", "must not match the not schema")
+    : undefined;
+
+const annotation: KeywordDefinition = { valid: () => true };
+
+const single = (keywordValue: unknown): readonly unknown[] => [keywordValue];
+
+const listed = (keywordValue: unknown): readonly unknown[] =>
+  keywordValue as readonly unknown[];
+
+const KEYWORDS: Readonly<Record<string, KeywordDefinition>> = {
+  $schema: annotation,
+  $id: annotation,
+  $comment: annotation,
+  title: annotation,
+  description: annotation,
+  default: annotation,
+  examples: annotation,
+  format: annotation,
+  type: { valid: isTypeKeyword, check: checkType },
+  enum: { valid: Array.isArray, check: checkEnum },
+  const: { valid: () => true, check: checkConst },
+  minLength: {
+    valid: isNonNegativeInteger,
+    check: limitCheck(
+      "minLength",
+      stringLength,
+      (length, limit) => length >= limit,
+      (limit) => `must be at least ${limit} characters`
+    ),
+  },
+  maxLength: {
+    valid: isNonNegativeInteger,
+    check: limitCheck(
+      "maxLength",
+      stringLength,
+      (length, limit) => length <= limit,
+      (limit) => `must be at most ${limit} characters`
+    ),
+  },
+  pattern: { valid: isPattern, check: checkPattern },
+  minimum: {
+    valid: isFiniteNumber,
+    check: limitCheck(
+      "minimum",
+      numberValue,
+      (number, limit) => number >= limit,
+      (limit) => `must be >= ${limit}`
+    ),
+  },
+  maximum: {
+    valid: isFiniteNumber,
+    check: limitCheck(
+      "maximum",
+      numberValue,
+      (number, limit) => number <= limit,
+      (limit) => `must be <= ${limit}`
+    ),
+  },
+  exclusiveMinimum: {
+    valid: isFiniteNumber,
+    check: limitCheck(
+      "exclusiveMinimum",
+      numberValue,
+      (number, limit) => number > limit,
+      (limit) => `must be > ${limit}`
+    ),
+  },
+  exclusiveMaximum: {
+    valid: isFiniteNumber,
+    check: limitCheck(
+      "exclusiveMaximum",
+      numberValue,
+      (number, limit) => number < limit,
+      (limit) => `must be < ${limit}`
+    ),
+  },
+  minItems: {
+    valid: isNonNegativeInteger,
+    check: limitCheck(
+      "minItems",
+      arrayLength,
+      (length, limit) => length >= limit,
+      (limit) => `must have at least ${limit} items`
+    ),
+  },
+  maxItems: {
+    valid: isNonNegativeInteger,
+    check: limitCheck(
+      "maxItems",
+      arrayLength,
+      (length, limit) => length <= limit,
+      (limit) => `must have at most ${limit} items`
+    ),
+  },
+  required: { valid: isStringArray, check: checkRequired },
+  properties: {
+    valid: (keywordValue) =>
+      isJsonObject(keywordValue) && Object.values(keywordValue).every(isSchema),
+    subschemas: (keywordValue) => Object.values(keywordValue as JsonObject),
+    check: checkProperties,
+  },
+  additionalProperties: {
+    valid: isSchema,
+    subschemas: single,
+    check: checkAdditionalProperties,
+  },
+  items: { valid: isSchema, subschemas: single, check: checkItems },
+  allOf: { valid: isSchemaList, subschemas: listed, check: checkAllOf },
+  anyOf: { valid: isSchemaList, subschemas: listed, check: checkAnyOf },
+  oneOf: { valid: isSchemaList, subschemas: listed, check: checkOneOf },
+  not: { valid: isSchema, subschemas: single, check: checkNot },
+};
+
+/**
+ * looks up a keyword the way `KEYWORDS` lists it.
+ * NOTE: `Object.prototype` names such as `toString` are not keywords, so they are rejected like any other unknown one.
+ */
+const keywordDefinition = (keyword: string): KeywordDefinition | undefined =>
+  Object.hasOwn(KEYWORDS, keyword) ? KEYWORDS[keyword] : undefined;
+
+/**
+ * checks that a schema only uses the keywords this validator implements.
+ * NOTE: unknown keywords (`$ref`, `patternProperties`, ...) are rejected rather than ignored, so a schema is never silently weaker than its author meant.
+ */
+export function assertJsonSchemaDefinition(
+  schema: unknown,
+  location = "#"
+): asserts schema is JsonSchema {
+  if (typeof schema === "boolean") {
+    return;
+  }
+  if (!isJsonObject(schema)) {
+    throw new RangeError(`JSON Schema at ${location} must be an object`);
+  }
+
+  for (const [keyword, keywordValue] of Object.entries(schema)) {
+    const definition = keywordDefinition(keyword);
+    if (!definition) {
+      throw new RangeError(
+        `Unsupported JSON Schema keyword ${keyword} at ${location}`
+      );
+    }
+    if (!definition.valid(keywordValue)) {
+      throw new RangeError(`Invalid JSON Schema ${keyword} at ${location}`);
+    }
+    for (const subschema of definition.subschemas?.(keywordValue) ?? []) {
+      assertJsonSchemaDefinition(subschema, `${location}/${keyword}`);
+    }
+  }
+}
+
+/**
+ * returns the first place `value` fails `schema`, checking keywords in the order the schema lists them.
+ */
+export const findJsonSchemaViolation = (
+  value: unknown,
+  schema: JsonSchema,
+  pointer = ""
+): JsonSchemaViolation | undefined => {
+  if (typeof schema === "boolean") {
+    return schema ? undefined : violation(pointer, "false", "is not allowed");
+  }
+
+  for (const keyword of Object.keys(schema)) {
+    const found = keywordDefinition(keyword)?.check?.(value, schema, pointer);
+    if (found) {
+      return found;
+    }
+  }
+  return;
+};
@@ -1,6 +1,9 @@
+import { Schema } from "effect";
+import { NDJSON_CONTENT_TYPES } from "./const.js";
 import { InvalidJsonError } from "./errors.js";
-import { ETagSchema, OffsetSchema } from "./schema.js";
-import type { ETag, Offset, StreamMetadata } from "./types.js";
+import { canonicalStreamFilter } from "./filter.js";
+import { ETagSchema, OffsetSchema, StreamFramingSchema } from "./schema.js";
+import type { ETag, Offset, StreamFraming, StreamMetadata } from "./types.js";
 
 export type ExpirationInfo = {
   readonly ttlSeconds?: number;
@@ -37,7 +40,7 @@ const TTL_REGEX = /^[1-9][0-9]*$/;
 const FORK_SUB_OFFSET_REGEX = /^(0|[1-9][0-9]*)$/;
 const EXPIRES_AT_REGEX =
   /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
-const ETAG_REGEX = /^"([^:]+):([^:]+):([^"]+)"$/;
+const ETAG_REGEX = /^"([^:]+):([^:]+):([^:"]+)(?::[^:"]+)*"$/;
 const SSE_LINE_ENDING = /\r\n|\r|\n/;
 
 export const normalizeContentType = (contentType: string): string => {
@@ -53,11 +56,20 @@ export const isJsonContentType = (contentType: string): boolean => {
   return normalized === "application/json" || normalized.endsWith("+json");
 };
 
+export const isNdjsonContentType = (contentType: string): boolean =>
+  NDJSON_CONTENT_TYPES.includes(normalizeContentType(contentType));
+
+/**
+ * whether a stream already keeps one message per item, as JSON and NDJSON streams do.
+ */
+export const isJsonRecordContentType = (contentType: string): boolean =>
+  isJsonContentType(contentType) || isNdjsonContentType(contentType);
+
 export const isSSETextCompatibleContentType = (
   contentType: string
 ): boolean => {
   const normalized = normalizeContentType(contentType);
-  return normalized.startsWith("text/") || isJsonContentType(normalized);
+  return normalized.startsWith("text/") || isJsonRecordContentType(normalized);
 };
 
 export const encodeSSEData = (data: string): string =>
@@ -74,6 +86,9 @@ export const encodeBase64Data = (data: Uint8Array): string => {
   return btoa(binary);
 };
 
+export const decodeBase64Data = (data: string): Uint8Array =>
+  Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+
 export const validateTTL = (ttl: string): number | null => {
   if (!TTL_REGEX.test(ttl)) {
     return null;
@@ -82,6 +97,14 @@ export const validateTTL = (ttl: string): number | null => {
   return Number.isNaN(parsed) || parsed <= 0 ? null : parsed;
 };
 
+export const validateRetentionLimit = (value: string): number | null => {
+  if (!TTL_REGEX.test(value)) {
+    return null;
+  }
+  const parsed = Number.parseInt(value, 10);
+  return Number.isSafeInteger(parsed) ? parsed : null;
+};
+
 export const validateForkSubOffset = (value: string): number | null => {
   if (!FORK_SUB_OFFSET_REGEX.test(value)) {
     return null;
@@ -98,15 +121,48 @@ export const validateExpiresAt = (value: string): Date | null => {
   return Number.isNaN(date.getTime()) ? null : date;
 };
 
+export const validateReadTimestamp = (value: string): number | null =>
+  validateExpiresAt(value)?.getTime() ?? null;
+
+export const validateStreamFraming = (value: string): StreamFraming | null =>
+  Schema.is(StreamFramingSchema)(value) ? value : null;
+
+/**
+ * the ETag of a read of `path` from `startOffset` to `endOffset`.
+ * NOTE: a filtered read returns different bytes for the same range, so the canonical filter is suffixed base64-encoded; equivalent spellings of one filter keep the same tag.
+ */
 export const generateETag = (
   path: string,
   startOffset: Offset,
-  endOffset: Offset
+  endOffset: Offset,
+  filter?: string
 ): ETag => {
   const pathBase64 = btoa(path);
-  return ETagSchema.make(`"${pathBase64}:${startOffset}:${endOffset}"`);
+  const filterSuffix =
+    filter === undefined
+      ? ""
+      : `:${encodeBase64Data(new TextEncoder().encode(canonicalStreamFilter(filter)))}`;
+  return ETagSchema.make(
+    `"${pathBase64}:${startOffset}:${endOffset}${filterSuffix}"`
+  );
 };
 
+/**
+ * the ETag of a read served with `Content-Encoding: encoding`.
+ * NOTE: the encoded bytes differ per encoding, so each gets its own tag by suffixing the encoding; the same read with the same encoding keeps the same tag.
+ */
+export const encodedETag = (etag: ETag, encoding: string | undefined): ETag =>
+  encoding === undefined
+    ? etag
+    : ETagSchema.make(`${etag.slice(0, -1)}:${encoding}"`);
+
+/**
+ * the ETag of a framed stream read as `multipart/mixed`.
+ * NOTE: the multipart body differs from the plain one, so it gets its own tag the same way `encodedETag` tags an encoding.
+ */
+export const multipartETag = (etag: ETag): ETag =>
+  ETagSchema.make(`${etag.slice(0, -1)}:multipart"`);
+
 export const parseETag = (
   etag: string
 ): { path: string; startOffset: Offset; endOffset: Offset } | null => {
@@ -175,6 +231,138 @@ export const formatJsonResponse = (data: Uint8Array): Uint8Array => {
   return new TextEncoder().encode(`[${str}]`);
 };
 
+const NDJSON_LINE_BREAK = /\r?\n/;
+
+const serializeNdjsonLine = (line: string, lineNumber: number): string => {
+  try {
+    return `${JSON.stringify(JSON.parse(line))}\n`;
+  } catch (e) {
+    throw new InvalidJsonError(
+      `Invalid JSON on line ${lineNumber}: ${e instanceof Error ? e.message : "Invalid JSON"}`
+    );
+  }
+};
+
+/**
+ * validates newline-delimited JSON and re-serializes it one value per `\n`-terminated line.
+ * NOTE: blank lines are dropped; a POST must still carry at least one value.
+ */
+export const processNdjsonData = (
+  data: Uint8Array,
+  isPut: boolean
+): Uint8Array => {
+  const lines = new TextDecoder().decode(data).split(NDJSON_LINE_BREAK);
+  const serialized: string[] = [];
+  for (const [index, line] of lines.entries()) {
+    if (line.trim() !== "") {
+      serialized.push(serializeNdjsonLine(line, index + 1));
+    }
+  }
+
+  if (serialized.length === 0 && !isPut) {
+    throw new InvalidJsonError("Empty NDJSON not allowed on POST");
+  }
+
+  return new TextEncoder().encode(serialized.join(""));
+};
+
+/**
+ * byte length of the first `count` lines of NDJSON data, or null when there are fewer.
+ */
+export const ndjsonByteLength = (
+  data: Uint8Array,
+  count: number
+): number | null => {
+  let position = 0;
+  for (let line = 0; line < count; line++) {
+    const end = data.indexOf(0x0a, position);
+    if (end === -1) {
+      return null;
+    }
+    position = end + 1;
+  }
+  return position;
+};
+
+export const FRAME_LENGTH_BYTES = 4;
+
+/**
+ * prefixes a record with its byte length as a 4-byte big-endian integer.
+ */
+export const frameRecord = (data: Uint8Array): Uint8Array => {
+  const framed = new Uint8Array(FRAME_LENGTH_BYTES + data.length);
+  new DataView(framed.buffer).setUint32(0, data.length);
+  framed.set(data, FRAME_LENGTH_BYTES);
+  return framed;
+};
+
+/**
+ * byte length of the first `count` frames of length-prefixed data, or null when there are fewer.
+ */
+export const framedByteLength = (
+  data: Uint8Array,
+  count: number
+): number | null => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let position = 0;
+  for (let index = 0; index < count; index++) {
+    if (position + FRAME_LENGTH_BYTES > data.length) {
+      return null;
+    }
+    position += FRAME_LENGTH_BYTES + view.getUint32(position);
+  }
+  return position <= data.length ? position : null;
+};
+
+/**
+ * splits length-prefixed data into its records.
+ * NOTE: a truncated trailing frame is dropped; reads that start at record offsets never produce one.
+ */
+export const splitFrames = (data: Uint8Array): Uint8Array[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const records: Uint8Array[] = [];
+  let position = 0;
+  while (position + FRAME_LENGTH_BYTES <= data.length) {
+    const start = position + FRAME_LENGTH_BYTES;
+    const end = start + view.getUint32(position);
+    if (end > data.length) {
+      break;
+    }
+    records.push(data.slice(start, end));
+    position = end;
+  }
+  return records;
+};
+
+/**
+ * formats records as a `multipart/mixed` body with one part per record.
+ */
+export const formatMultipartResponse = (
+  records: readonly Uint8Array[],
+  contentType: string,
+  boundary: string
+): Uint8Array => {
+  const encoder = new TextEncoder();
+  const parts = records.flatMap((record) => [
+    encoder.encode(
+      `--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Length: ${record.length}\r\n\r\n`
+    ),
+    record,
+    encoder.encode("\r\n"),
+  ]);
+  parts.push(encoder.encode(`--${boundary}--\r\n`));
+
+  const body = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let position = 0;
+  for (const part of parts) {
+    body.set(part, position);
+    position += part.length;
+  }
+  return body;
+};
+
 export const validateJsonCreate = (
   data: Uint8Array,
   isPut: boolean
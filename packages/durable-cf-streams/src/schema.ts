@@ -58,6 +58,86 @@ export type ProducerStateMap = Schema.Schema.Type<
   typeof ProducerStateMapSchema
 >;
 
+export const MessageBoundarySchema = Schema.Struct({
+  offset: OffsetSchema,
+  timestamp: nonNegativeSafeInteger("message timestamp"),
+});
+export type MessageBoundary = Schema.Schema.Type<typeof MessageBoundarySchema>;
+
+/**
+ * how a store compresses the stream bytes it keeps.
+ * NOTE: offsets, positions and size limits on appends are unaffected; each stored chunk records its own encoding.
+ */
+export const StorageCompressionSchema = Schema.Literal("gzip", "deflate");
+export type StorageCompression = Schema.Schema.Type<
+  typeof StorageCompressionSchema
+>;
+
+/**
+ * one stored chunk of a stream in a key-value layout, holding `messages` whole appends from `startOffset` to `endOffset`.
+ * NOTE: an append larger than one chunk is stored as continuation chunks sharing its offsets and timestamp, like the SQL `stream_chunks` rows; only the first of them counts the message.
+ * NOTE: `timestamp` is the first append's, and `endPos` bounds the bytes the entry covers, so a tail chunk rewritten by a later append still reads back as it was indexed.
+ */
+export const ChunkIndexEntrySchema = Schema.Struct({
+  startPos: nonNegativeSafeInteger("chunk startPos"),
+  endPos: nonNegativeSafeInteger("chunk endPos"),
+  startOffset: OffsetSchema,
+  endOffset: OffsetSchema,
+  timestamp: nonNegativeSafeInteger("chunk timestamp"),
+  messages: nonNegativeSafeInteger("chunk messages"),
+  compression: Schema.optional(StorageCompressionSchema),
+  encrypted: Schema.optional(Schema.Boolean),
+});
+export type ChunkIndexEntry = Schema.Schema.Type<typeof ChunkIndexEntrySchema>;
+
+/**
+ * the header stored ahead of a key-value chunk's bytes: where each append packed into it starts.
+ */
+export const ChunkHeaderSchema = Schema.Struct({
+  boundaries: Schema.Array(MessageBoundarySchema),
+});
+export type ChunkHeader = Schema.Schema.Type<typeof ChunkHeaderSchema>;
+
+export const RetentionPolicySchema = Schema.Struct({
+  maxBytes: Schema.optional(positiveSafeInteger("retention maxBytes")),
+  maxMessages: Schema.optional(positiveSafeInteger("retention maxMessages")),
+  maxAgeSeconds: Schema.optional(
+    positiveSafeInteger("retention maxAgeSeconds")
+  ),
+});
+export type RetentionPolicy = Schema.Schema.Type<typeof RetentionPolicySchema>;
+
+/**
+ * how appends to a stream are delimited in its stored bytes.
+ * NOTE: `length-prefixed` stores each append after a 4-byte big-endian length, so binary readers can split records.
+ */
+export const StreamFramingSchema = Schema.Literal("length-prefixed");
+export type StreamFraming = Schema.Schema.Type<typeof StreamFramingSchema>;
+
+/**
+ * JSON Schema that every item appended to a JSON or NDJSON stream must match.
+ * NOTE: only the keywords `json-schema.ts` implements are accepted; see `assertJsonSchemaDefinition`.
+ */
+export const JsonSchemaSchema = Schema.Union(
+  Schema.Boolean,
+  Schema.Record({ key: Schema.String, value: Schema.Unknown })
+);
+export type JsonSchema = Schema.Schema.Type<typeof JsonSchemaSchema>;
+
+/**
+ * a stream's AES-GCM data key, wrapped by the `StreamKeyProvider` key `keyId`.
+ * NOTE: `wrappedKey` is base64; the plaintext data key is never persisted.
+ */
+export const WrappedDataKeySchema = Schema.Struct({
+  keyId: nonEmptyString("data key id"),
+  wrappedKey: nonEmptyString("wrapped data key"),
+});
+export type WrappedDataKey = Schema.Schema.Type<typeof WrappedDataKeySchema>;
+
+/**
+ * the metadata record KVStore and R2Store keep per stream.
+ * NOTE: `chunks` is absent from records written before the stores indexed stream chunks; the stores upgrade those records when they first read them.
+ */
 export const PersistedStreamMetadataSchema = Schema.Struct({
   contentType: nonEmptyString("content type"),
   ttlSeconds: Schema.optional(positiveSafeInteger("ttlSeconds")),
@@ -74,12 +154,41 @@ export const PersistedStreamMetadataSchema = Schema.Struct({
   forkSubOffset: Schema.optional(nonNegativeSafeInteger("forkSubOffset")),
   childCount: Schema.optional(nonNegativeSafeInteger("childCount")),
   deleted: Schema.optional(Schema.Boolean),
+  retention: Schema.optional(RetentionPolicySchema),
+  trimmedOffset: Schema.optional(OffsetSchema),
+  framing: Schema.optional(StreamFramingSchema),
+  jsonSchema: Schema.optional(JsonSchemaSchema),
+  dataKey: Schema.optional(WrappedDataKeySchema),
+  chunks: Schema.optional(Schema.Array(ChunkIndexEntrySchema)),
 });
 
 export type PersistedStreamMetadata = Schema.Schema.Type<
   typeof PersistedStreamMetadataSchema
 >;
 
+/**
+ * client frame that appends to the stream a WebSocket reads.
+ * NOTE: `data` is UTF-8 text unless `encoding` is `base64`; `contentType` may be omitted to append with the stream's own type.
+ */
+export const WebSocketAppendFrameSchema = Schema.Struct({
+  type: Schema.Literal("append"),
+  id: Schema.optional(Schema.String),
+  data: Schema.optional(Schema.String),
+  encoding: Schema.optional(Schema.Literal("base64")),
+  contentType: Schema.optional(nonEmptyString("contentType")),
+  seq: Schema.optional(Schema.String),
+  close: Schema.optional(Schema.Boolean),
+  producer: Schema.optional(
+    Schema.Struct({
+      id: nonEmptyString("producer id"),
+      ...ProducerStateSchema.fields,
+    })
+  ),
+});
+export type WebSocketAppendFrame = Schema.Schema.Type<
+  typeof WebSocketAppendFrameSchema
+>;
+
 export const decodePersistedStreamMetadata = Schema.decodeUnknownSync(
   PersistedStreamMetadataSchema
 );
@@ -88,6 +197,22 @@ export const decodePersistedStreamMetadataJson = Schema.decodeUnknownSync(
   Schema.parseJson(PersistedStreamMetadataSchema)
 );
 
+export const decodeJsonSchemaJson = Schema.decodeUnknownSync(
+  Schema.parseJson(JsonSchemaSchema)
+);
+
+export const decodeWrappedDataKeyJson = Schema.decodeUnknownSync(
+  Schema.parseJson(WrappedDataKeySchema)
+);
+
+export const decodeChunkHeaderJson = Schema.decodeUnknownSync(
+  Schema.parseJson(ChunkHeaderSchema)
+);
+
 export const decodeProducerStateMapJson = Schema.decodeUnknownSync(
   Schema.parseJson(ProducerStateMapSchema)
 );
+
+export const decodeWebSocketAppendFrameJson = Schema.decodeUnknownSync(
+  Schema.parseJson(WebSocketAppendFrameSchema)
+);
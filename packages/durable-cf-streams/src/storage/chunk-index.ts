@@ -0,0 +1,699 @@
+import { initialOffset, offsetToBytePos } from "../offsets.js";
+import {
+  type ChunkIndexEntry,
+  decodeChunkHeaderJson,
+  type MessageBoundary,
+  type RetentionPolicy,
+} from "../schema.js";
+import type { GetOptions, Offset } from "../types.js";
+import type { StoredChunk } from "./compression.js";
+import {
+  type ChunkRow,
+  chunkReadBounds,
+  concatenateParts,
+  furthestOffset,
+  hasRetentionLimits,
+  logStartPos,
+  type MessageLog,
+  type PendingChunk,
+} from "./utils.js";
+
+/**
+ * a chunk of a key-value layout: consecutive appends packed up to the chunk size, with where each of them starts.
+ * NOTE: an append larger than one chunk is split into continuation chunks, and only the first of them lists its boundary.
+ */
+export type PackedChunk = PendingChunk & {
+  readonly boundaries: readonly MessageBoundary[];
+};
+
+/**
+ * a stored chunk read back: its index entry, the boundaries it lists and its stream bytes.
+ */
+export type UnpackedChunk = {
+  readonly entry: ChunkIndexEntry;
+  readonly boundaries: readonly MessageBoundary[];
+  readonly data: Uint8Array;
+};
+
+export type ChunkLoader = (entry: ChunkIndexEntry) => Promise<UnpackedChunk>;
+
+const HEADER_LENGTH_BYTES = 4;
+
+const encodeHeader = (boundaries: readonly MessageBoundary[]): Uint8Array =>
+  new TextEncoder().encode(JSON.stringify({ boundaries }));
+
+const EMPTY_HEADER_BYTES = encodeHeader([]).length;
+
+/**
+ * the bytes a packed chunk is stored as before compression and encryption: a 4-byte big-endian header length, the JSON header listing its boundaries, then its stream bytes.
+ */
+export const chunkPayload = (chunk: PackedChunk): PendingChunk => {
+  const header = encodeHeader(chunk.boundaries);
+  const data = new Uint8Array(
+    HEADER_LENGTH_BYTES + header.length + chunk.data.length
+  );
+  new DataView(data.buffer).setUint32(0, header.length);
+  data.set(header, HEADER_LENGTH_BYTES);
+  data.set(chunk.data, HEADER_LENGTH_BYTES + header.length);
+  return {
+    startPos: chunk.startPos,
+    data,
+    startOffset: chunk.startOffset,
+    endOffset: chunk.endOffset,
+    timestamp: chunk.timestamp,
+  };
+};
+
+/**
+ * splits a decoded chunk payload back into its boundaries and stream bytes.
+ * NOTE: the tail chunk is rewritten in place while appends fill it, so bytes past the entry's `endPos` and boundaries past its `messages` belong to a newer index and are dropped.
+ */
+export const unpackChunk = (
+  entry: ChunkIndexEntry,
+  payload: ArrayBuffer
+): UnpackedChunk => {
+  const bytes = new Uint8Array(payload);
+  const dataStart =
+    bytes.length < HEADER_LENGTH_BYTES
+      ? Number.POSITIVE_INFINITY
+      : HEADER_LENGTH_BYTES + new DataView(payload).getUint32(0);
+  const dataLength = entry.endPos - entry.startPos;
+  if (bytes.length < dataStart + dataLength) {
+    throw new Error(
+      `Stream chunk at ${entry.startPos} is shorter than its index entry`
+    );
+  }
+
+  const header = decodeChunkHeaderJson(
+    new TextDecoder().decode(bytes.subarray(HEADER_LENGTH_BYTES, dataStart))
+  );
+  return {
+    entry,
+    boundaries: header.boundaries.slice(0, entry.messages),
+    data: bytes.slice(dataStart, dataStart + dataLength),
+  };
+};
+
+export const chunkIndexEntry = (
+  chunk: PackedChunk,
+  stored?: StoredChunk
+): ChunkIndexEntry => ({
+  startPos: chunk.startPos,
+  endPos: chunk.startPos + chunk.data.length,
+  startOffset: chunk.startOffset,
+  endOffset: chunk.endOffset,
+  timestamp: chunk.timestamp,
+  messages: chunk.boundaries.length,
+  ...(stored?.compression === undefined
+    ? {}
+    : { compression: stored.compression }),
+  ...(stored?.encrypted === true ? { encrypted: true } : {}),
+});
+
+/**
+ * an index entry's chunk, unpacked from chunks that are about to be written.
+ */
+export const pendingChunk = (
+  entry: ChunkIndexEntry,
+  chunks: readonly PackedChunk[]
+): UnpackedChunk | undefined => {
+  const chunk = chunks.find((pending) => pending.startPos === entry.startPos);
+  return chunk && { entry, boundaries: chunk.boundaries, data: chunk.data };
+};
+
+/**
+ * the last chunk of an index when an append can still be packed into it.
+ * NOTE: continuation chunks are never reopened, and a chunk too full to take even an empty append is skipped without reading it.
+ */
+export const packableTail = (
+  chunks: readonly ChunkIndexEntry[],
+  maxChunkBytes: number
+): ChunkIndexEntry | undefined => {
+  const tail = chunks.at(-1);
+  if (tail === undefined || tail.messages === 0) {
+    return;
+  }
+
+  const minBoundaryBytes = JSON.stringify({
+    offset: tail.endOffset,
+    timestamp: 0,
+  } satisfies MessageBoundary).length;
+  const minPayloadBytes =
+    HEADER_LENGTH_BYTES +
+    EMPTY_HEADER_BYTES +
+    minBoundaryBytes * (tail.messages + 1) +
+    tail.messages +
+    tail.endPos -
+    tail.startPos;
+  return minPayloadBytes <= maxChunkBytes ? tail : undefined;
+};
+
+type LogMessage = {
+  readonly boundary: MessageBoundary;
+  readonly data: Uint8Array;
+  readonly endOffset: Offset;
+};
+
+const logMessages = (log: MessageLog, finalOffset: Offset): LogMessage[] => {
+  const dataPos = logStartPos(log);
+  return log.boundaries.map((boundary, index) => {
+    const next = log.boundaries[index + 1];
+    const endPos = next
+      ? offsetToBytePos(next.offset)
+      : dataPos + log.data.length;
+    return {
+      boundary,
+      data: log.data.subarray(
+        offsetToBytePos(boundary.offset) - dataPos,
+        endPos - dataPos
+      ),
+      endOffset: next ? next.offset : finalOffset,
+    };
+  });
+};
+
+type OpenChunk = {
+  readonly startPos: number;
+  readonly boundaries: MessageBoundary[];
+  readonly parts: Uint8Array[];
+  payloadBytes: number;
+  endOffset: Offset;
+  changed: boolean;
+};
+
+const emptyChunk = (message: LogMessage): OpenChunk => ({
+  startPos: offsetToBytePos(message.boundary.offset),
+  boundaries: [],
+  parts: [],
+  payloadBytes: HEADER_LENGTH_BYTES + EMPTY_HEADER_BYTES,
+  endOffset: message.endOffset,
+  changed: true,
+});
+
+const reopenChunk = (tail: UnpackedChunk): OpenChunk => ({
+  startPos: tail.entry.startPos,
+  boundaries: [...tail.boundaries],
+  parts: [tail.data],
+  payloadBytes:
+    HEADER_LENGTH_BYTES +
+    encodeHeader(tail.boundaries).length +
+    tail.data.length,
+  endOffset: tail.entry.endOffset,
+  changed: false,
+});
+
+const addedBytes = (chunk: OpenChunk, message: LogMessage): number =>
+  JSON.stringify(message.boundary).length +
+  (chunk.boundaries.length > 0 ? 1 : 0) +
+  message.data.length;
+
+const fits = (
+  chunk: OpenChunk,
+  message: LogMessage,
+  maxChunkBytes: number
+): boolean => chunk.payloadBytes + addedBytes(chunk, message) <= maxChunkBytes;
+
+const addMessage = (chunk: OpenChunk, message: LogMessage): void => {
+  chunk.payloadBytes += addedBytes(chunk, message);
+  chunk.boundaries.push(message.boundary);
+  chunk.parts.push(message.data);
+  chunk.endOffset = message.endOffset;
+  chunk.changed = true;
+};
+
+const closeChunk = (chunk: OpenChunk): PackedChunk => {
+  const first = chunk.boundaries[0] as MessageBoundary;
+  return {
+    startPos: chunk.startPos,
+    data: concatenateParts(chunk.parts),
+    startOffset: first.offset,
+    endOffset: chunk.endOffset,
+    timestamp: first.timestamp,
+    boundaries: chunk.boundaries,
+  };
+};
+
+const flushChunk = (
+  packed: PackedChunk[],
+  chunk: OpenChunk | undefined
+): void => {
+  if (chunk?.changed) {
+    packed.push(closeChunk(chunk));
+  }
+};
+
+const splitMessage = (
+  message: LogMessage,
+  maxChunkBytes: number
+): PackedChunk[] => {
+  const firstRoom =
+    maxChunkBytes -
+    HEADER_LENGTH_BYTES -
+    encodeHeader([message.boundary]).length;
+  const continuationRoom =
+    maxChunkBytes - HEADER_LENGTH_BYTES - EMPTY_HEADER_BYTES;
+  if (firstRoom <= 0) {
+    throw new RangeError(
+      `chunks of ${maxChunkBytes} bytes are too small to hold a chunk header`
+    );
+  }
+
+  const messagePos = offsetToBytePos(message.boundary.offset);
+  const pieces: PackedChunk[] = [];
+  let position = 0;
+  while (position < message.data.length) {
+    const data = message.data.slice(
+      position,
+      position + (position === 0 ? firstRoom : continuationRoom)
+    );
+    pieces.push({
+      startPos: messagePos + position,
+      data,
+      startOffset: message.boundary.offset,
+      endOffset: message.endOffset,
+      timestamp: message.boundary.timestamp,
+      boundaries: position === 0 ? [message.boundary] : [],
+    });
+    position += data.length;
+  }
+  return pieces;
+};
+
+/**
+ * packs the appends of a log into chunks whose payload stays within `maxChunkBytes`, continuing `tail` while it has room.
+ * NOTE: only chunks that change are returned, so an untouched `tail` is not rewritten; a returned chunk starting at the tail's position replaces it.
+ */
+export const packChunks = (
+  tail: UnpackedChunk | undefined,
+  log: MessageLog,
+  finalOffset: Offset,
+  maxChunkBytes: number
+): PackedChunk[] => {
+  const packed: PackedChunk[] = [];
+  let open = tail && reopenChunk(tail);
+
+  for (const message of logMessages(log, finalOffset)) {
+    if (open && !fits(open, message, maxChunkBytes)) {
+      flushChunk(packed, open);
+      open = undefined;
+    }
+
+    const chunk = open ?? emptyChunk(message);
+    if (fits(chunk, message, maxChunkBytes)) {
+      addMessage(chunk, message);
+      open = chunk;
+    } else {
+      packed.push(...splitMessage(message, maxChunkBytes));
+    }
+  }
+
+  flushChunk(packed, open);
+  return packed;
+};
+
+/**
+ * packs the bytes of a stream written before it had a chunk index, ending at `nextOffset`.
+ * NOTE: those bytes carry no append boundaries, so they read back as one append stamped with the stream's creation time.
+ */
+export const packLegacyData = (
+  data: Uint8Array,
+  nextOffset: Offset,
+  createdAt: number,
+  maxChunkBytes: number
+): PackedChunk[] =>
+  packChunks(
+    undefined,
+    {
+      data,
+      boundaries:
+        data.length > 0
+          ? [{ offset: initialOffset(), timestamp: createdAt }]
+          : [],
+    },
+    nextOffset,
+    maxChunkBytes
+  );
+
+/**
+ * one chunk row per append in unpacked chunks, skipping empty appends and those ending at or before `startPos`, like the SQL chunk rows a read selects.
+ * NOTE: continuation chunks stay whole rows sharing their append's offsets, so `messagesFromChunks` folds them as it does SQL rows.
+ */
+export const unpackedChunkRows = (
+  chunks: readonly UnpackedChunk[],
+  startPos: number
+): ChunkRow[] =>
+  chunks
+    .flatMap(({ entry, boundaries, data }): ChunkRow[] => {
+      if (boundaries.length === 0) {
+        return [
+          {
+            start_pos: entry.startPos,
+            end_pos: entry.endPos,
+            start_offset: entry.startOffset,
+            end_offset: entry.endOffset,
+            created_at: entry.timestamp,
+            data: data.slice().buffer,
+          },
+        ];
+      }
+
+      return boundaries.map((boundary, index) => {
+        const next = boundaries[index + 1];
+        const rowStart = offsetToBytePos(boundary.offset);
+        const rowEnd = next ? offsetToBytePos(next.offset) : entry.endPos;
+        return {
+          start_pos: rowStart,
+          end_pos: rowEnd,
+          start_offset: boundary.offset,
+          end_offset: next ? next.offset : entry.endOffset,
+          created_at: boundary.timestamp,
+          data: data.slice(rowStart - entry.startPos, rowEnd - entry.startPos)
+            .buffer,
+        };
+      });
+    })
+    .filter((row) => row.end_pos > Math.max(startPos, row.start_pos));
+
+/**
+ * picks the chunk index entries a read from `startPos` can touch, at most `maxChunks` of them.
+ * NOTE: mirrors the SQL chunk row query, then adds the continuation chunks of the last picked append so it folds into one whole message; a read cut short by `maxChunks` comes back as a partial page.
+ */
+export const selectIndexedChunks = (
+  chunks: readonly ChunkIndexEntry[],
+  startPos: number,
+  options: GetOptions | undefined,
+  maxChunks: number
+): ChunkIndexEntry[] => {
+  const first = chunks.findIndex((chunk) => chunk.endPos > startPos);
+  if (first === -1) {
+    return [];
+  }
+
+  const bounds = chunkReadBounds(startPos, options);
+  const maxStartPos = Math.max(
+    bounds.maxStartPos,
+    (chunks[first] as ChunkIndexEntry).endPos
+  );
+  const limit =
+    bounds.limit === -1 ? maxChunks : Math.min(bounds.limit, maxChunks);
+  const maxEnd = Math.min(chunks.length, first + limit);
+  let end = first + 1;
+  while (
+    end < maxEnd &&
+    (chunks[end] as ChunkIndexEntry).startPos <= maxStartPos
+  ) {
+    end++;
+  }
+
+  const messageEndPos = offsetToBytePos(
+    (chunks[end - 1] as ChunkIndexEntry).endOffset
+  );
+  while (
+    end < chunks.length &&
+    (chunks[end] as ChunkIndexEntry).startPos < messageEndPos
+  ) {
+    end++;
+  }
+  return chunks.slice(first, end);
+};
+
+type BoundaryMatch = (boundary: MessageBoundary, index: number) => boolean;
+
+const firstBoundary = (entry: ChunkIndexEntry): MessageBoundary => ({
+  offset: entry.startOffset,
+  timestamp: entry.timestamp,
+});
+
+const interiorBoundary = async (
+  entry: ChunkIndexEntry,
+  index: number,
+  matches: BoundaryMatch,
+  load: ChunkLoader
+): Promise<MessageBoundary | undefined> => {
+  if (entry.messages < 2) {
+    return;
+  }
+  const { boundaries } = await load(entry);
+  return boundaries.find(
+    (boundary, position) => position > 0 && matches(boundary, index + position)
+  );
+};
+
+/**
+ * finds the first append of a chunk index matching `matches`, or `undefined` when none does.
+ * NOTE: `matches` must stay true once it is true (timestamps, positions and append indexes only grow), so the index alone narrows the search to one chunk and at most that chunk is loaded.
+ */
+export const findChunkBoundary = async (
+  chunks: readonly ChunkIndexEntry[],
+  matches: BoundaryMatch,
+  load: ChunkLoader
+): Promise<MessageBoundary | undefined> => {
+  let index = 0;
+  let previous: ChunkIndexEntry | undefined;
+  let previousIndex = 0;
+
+  for (const entry of chunks) {
+    if (entry.messages === 0) {
+      continue;
+    }
+    if (matches(firstBoundary(entry), index)) {
+      return (
+        (previous &&
+          (await interiorBoundary(previous, previousIndex, matches, load))) ??
+        firstBoundary(entry)
+      );
+    }
+    previous = entry;
+    previousIndex = index;
+    index += entry.messages;
+  }
+
+  return (
+    previous && (await interiorBoundary(previous, previousIndex, matches, load))
+  );
+};
+
+/**
+ * resolves where a read over a chunk index starts.
+ * NOTE: `fromTimestamp` maps to the first append stamped at or after it, as `logReadOffset` does for in-memory logs.
+ */
+export const chunkReadOffset = async (
+  chunks: readonly ChunkIndexEntry[],
+  tailOffset: Offset,
+  options: GetOptions | undefined,
+  load: ChunkLoader
+): Promise<Offset> => {
+  const fromTimestamp = options?.fromTimestamp;
+  if (fromTimestamp === undefined) {
+    return options?.offset ?? initialOffset();
+  }
+
+  const boundary = await findChunkBoundary(
+    chunks,
+    (candidate) => candidate.timestamp >= fromTimestamp,
+    load
+  );
+  return boundary?.offset ?? tailOffset;
+};
+
+const memoizeLoader = (load: ChunkLoader): ChunkLoader => {
+  const loaded = new Map<number, Promise<UnpackedChunk>>();
+  return (entry) => {
+    const cached = loaded.get(entry.startPos);
+    if (cached) {
+      return cached;
+    }
+    const chunk = load(entry);
+    loaded.set(entry.startPos, chunk);
+    return chunk;
+  };
+};
+
+const retentionMatches = (
+  retention: RetentionPolicy,
+  total: number,
+  tailPos: number,
+  now: number
+): BoundaryMatch[] => {
+  const { maxMessages, maxBytes, maxAgeSeconds } = retention;
+  const matches: BoundaryMatch[] = [];
+  if (maxMessages !== undefined) {
+    matches.push((_boundary, index) => index >= total - maxMessages);
+  }
+  if (maxBytes !== undefined) {
+    matches.push(
+      (boundary) => tailPos - offsetToBytePos(boundary.offset) <= maxBytes
+    );
+  }
+  if (maxAgeSeconds !== undefined) {
+    matches.push(
+      (boundary) => boundary.timestamp >= now - maxAgeSeconds * 1000
+    );
+  }
+  return matches;
+};
+
+/**
+ * finds the earliest offset a retention policy keeps in a chunk index, or `undefined` when nothing falls outside it.
+ * NOTE: like `applyRetention`, only whole appends are dropped, so the floor is a real message offset or the tail once everything is dropped.
+ */
+const chunkRetentionFloor = async (
+  chunks: readonly ChunkIndexEntry[],
+  tailOffset: Offset,
+  retention: RetentionPolicy,
+  load: ChunkLoader,
+  now: number
+): Promise<Offset | undefined> => {
+  const first = chunks.find((chunk) => chunk.messages > 0);
+  if (first === undefined) {
+    return;
+  }
+
+  const matches = retentionMatches(
+    retention,
+    chunks.reduce((total, chunk) => total + chunk.messages, 0),
+    offsetToBytePos(tailOffset),
+    now
+  );
+  const floor = furthestOffset(
+    await Promise.all(
+      matches.map(
+        async (match) =>
+          (await findChunkBoundary(chunks, match, load))?.offset ?? tailOffset
+      )
+    )
+  );
+  return floor === first.startOffset ? undefined : floor;
+};
+
+/**
+ * the earliest offset a retention policy keeps in a chunk index right now, or `undefined` when nothing falls outside it.
+ * NOTE: leaves the index as it is, so a read can skip appends that aged out since the last append trimmed it.
+ */
+export const currentRetentionFloor = async (
+  chunks: readonly ChunkIndexEntry[],
+  tailOffset: Offset,
+  retention: RetentionPolicy | undefined,
+  load: ChunkLoader,
+  now = Date.now()
+): Promise<Offset | undefined> =>
+  hasRetentionLimits(retention)
+    ? await chunkRetentionFloor(
+        chunks,
+        tailOffset,
+        retention,
+        memoizeLoader(load),
+        now
+      )
+    : undefined;
+
+const cutChunk = (chunk: UnpackedChunk, floorPos: number): PackedChunk => {
+  const boundaries = chunk.boundaries.filter(
+    (boundary) => offsetToBytePos(boundary.offset) >= floorPos
+  );
+  const first = boundaries[0] as MessageBoundary;
+  return {
+    startPos: floorPos,
+    data: chunk.data.slice(floorPos - chunk.entry.startPos),
+    startOffset: first.offset,
+    endOffset: chunk.entry.endOffset,
+    timestamp: first.timestamp,
+    boundaries,
+  };
+};
+
+/**
+ * a chunk index after new chunks and retention: the entries to store and the chunks to write for them.
+ * NOTE: `writes` holds the new chunks retention kept plus, when the floor falls inside a chunk, that chunk cut down to the floor under a new key.
+ */
+export type ChunkIndexUpdate = {
+  readonly chunks: readonly ChunkIndexEntry[];
+  readonly writes: readonly PackedChunk[];
+  readonly trimmedOffset?: Offset;
+};
+
+/**
+ * adds packed chunks to a chunk index and drops the appends that fall outside its retention policy.
+ * NOTE: chunks are loaded through `load` only when the floor falls inside one, and each at most once.
+ */
+export const updateChunkIndex = async (
+  chunks: readonly ChunkIndexEntry[],
+  packed: readonly PackedChunk[],
+  tailOffset: Offset,
+  retention: RetentionPolicy | undefined,
+  load: ChunkLoader,
+  now = Date.now()
+): Promise<ChunkIndexUpdate> => {
+  const loadOnce = memoizeLoader(load);
+  const replacedPos = packed[0]?.startPos ?? Number.POSITIVE_INFINITY;
+  const updated = [
+    ...chunks.filter((chunk) => chunk.startPos < replacedPos),
+    ...packed.map((chunk) => chunkIndexEntry(chunk)),
+  ];
+  const floor = hasRetentionLimits(retention)
+    ? await chunkRetentionFloor(updated, tailOffset, retention, loadOnce, now)
+    : undefined;
+  if (floor === undefined) {
+    return { chunks: updated, writes: packed };
+  }
+
+  const floorPos = offsetToBytePos(floor);
+  const kept = updated.filter((chunk) => chunk.startPos >= floorPos);
+  const straddling = updated.find(
+    (chunk) => chunk.startPos < floorPos && floorPos < chunk.endPos
+  );
+  const cut = straddling && cutChunk(await loadOnce(straddling), floorPos);
+  return {
+    chunks: cut ? [chunkIndexEntry(cut), ...kept] : kept,
+    writes: [
+      ...(cut ? [cut] : []),
+      ...packed.filter((chunk) => chunk.startPos >= floorPos),
+    ],
+    trimmedOffset: floor,
+  };
+};
+
+/**
+ * the entries a chunk index update is stored under once its writes are encoded.
+ * NOTE: `stored` is in `writes` order; each written entry takes the compression and encryption its chunk was stored with.
+ */
+export const storedChunkIndex = (
+  update: ChunkIndexUpdate,
+  stored: readonly StoredChunk[]
+): ChunkIndexEntry[] => {
+  const written = new Map(
+    update.writes.map((chunk, index) => [
+      chunk.startPos,
+      chunkIndexEntry(chunk, stored[index]),
+    ])
+  );
+  return update.chunks.map((chunk) => written.get(chunk.startPos) ?? chunk);
+};
+
+/**
+ * the chunks of a previous index that a new index no longer refers to.
+ */
+export const droppedChunks = (
+  previous: readonly ChunkIndexEntry[],
+  next: readonly ChunkIndexEntry[]
+): ChunkIndexEntry[] => {
+  const kept = new Set(next.map((chunk) => chunk.startPos));
+  return previous.filter((chunk) => !kept.has(chunk.startPos));
+};
+
+/**
+ * runs `map` over `items` in sequential batches of `batchSize`, so a call never has more than one batch of subrequests in flight.
+ */
+export const mapInBatches = async <T, R>(
+  items: readonly T[],
+  batchSize: number,
+  map: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = [];
+  for (let start = 0; start < items.length; start += batchSize) {
+    results.push(
+      ...(await Promise.all(items.slice(start, start + batchSize).map(map)))
+    );
+  }
+  return results;
+};
@@ -0,0 +1,83 @@
+import { Schema } from "effect";
+import {
+  type StorageCompression,
+  StorageCompressionSchema,
+} from "../schema.js";
+import type { ChunkRow, PendingChunk } from "./utils.js";
+
+/**
+ * a chunk as a store writes it: `stored` holds the bytes kept by the backend, compressed with `compression` and then encrypted when those are set.
+ * NOTE: `startPos`, the offsets and `data` stay uncompressed, so positions and reads never depend on the stored encoding.
+ */
+export type StoredChunk = PendingChunk & {
+  readonly stored: Uint8Array;
+  readonly compression?: StorageCompression;
+  readonly encrypted?: boolean;
+};
+
+const isStorageCompression = Schema.is(StorageCompressionSchema);
+
+export const resolveStorageCompression = (
+  value: StorageCompression | undefined
+): StorageCompression | undefined => {
+  if (value !== undefined && !isStorageCompression(value)) {
+    throw new RangeError('compression must be "gzip" or "deflate"');
+  }
+
+  return value;
+};
+
+const transformBytes = async (
+  data: BufferSource,
+  transform: CompressionStream | DecompressionStream
+): Promise<ArrayBuffer> =>
+  await new Response(
+    new Blob([data]).stream().pipeThrough(transform)
+  ).arrayBuffer();
+
+/**
+ * compresses one chunk for storage.
+ * NOTE: a chunk that does not get smaller is stored raw, so stored bytes never exceed the uncompressed chunk and size limits set for raw chunks still hold.
+ */
+export const compressChunk = async (
+  chunk: PendingChunk,
+  compression: StorageCompression | undefined
+): Promise<StoredChunk> => {
+  if (compression === undefined || chunk.data.length === 0) {
+    return { ...chunk, stored: chunk.data };
+  }
+
+  const stored = new Uint8Array(
+    await transformBytes(chunk.data, new CompressionStream(compression))
+  );
+  return stored.length < chunk.data.length
+    ? { ...chunk, stored, compression }
+    : { ...chunk, stored: chunk.data };
+};
+
+export const compressChunks = (
+  chunks: readonly PendingChunk[],
+  compression: StorageCompression | undefined
+): Promise<StoredChunk[]> =>
+  Promise.all(chunks.map((chunk) => compressChunk(chunk, compression)));
+
+/**
+ * restores the uncompressed bytes of chunk rows read back from a backend.
+ * NOTE: the encoding is recorded per chunk, so rows written before compression was enabled (or after it was turned off) read back unchanged.
+ */
+export const decompressChunkRows = (
+  rows: readonly ChunkRow[]
+): Promise<ChunkRow[]> =>
+  Promise.all(
+    rows.map(async (row) =>
+      row.compression
+        ? {
+            ...row,
+            data: await transformBytes(
+              row.data,
+              new DecompressionStream(row.compression)
+            ),
+          }
+        : row
+    )
+  );
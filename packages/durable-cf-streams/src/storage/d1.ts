@@ -5,48 +5,109 @@ import {
   StreamConflictError,
   StreamNotFoundError,
 } from "../errors.js";
-import { formatOffset, initialOffset, offsetToBytePos } from "../offsets.js";
+import {
+  formatOffset,
+  initialOffset,
+  offsetToBytePos,
+  parseOffset,
+} from "../offsets.js";
 import {
   evaluateProducerAppend,
   type ProducerAppendDecision,
 } from "../producer.js";
+import { generateETag, isExpired } from "../protocol.js";
 import {
-  formatJsonResponse,
-  generateETag,
-  isExpired,
-  isJsonContentType,
-  processJsonAppend,
-} from "../protocol.js";
+  decodeJsonSchemaJson,
+  decodeWrappedDataKeyJson,
+  type JsonSchema,
+  type MessageBoundary,
+  type RetentionPolicy,
+  type StorageCompression,
+  type StreamFraming,
+  type WrappedDataKey,
+} from "../schema.js";
 import type {
+  AppendBatchResult,
   AppendOptions,
   AppendResult,
+  FormatOptions,
   GetOptions,
   GetResult,
   HeadResult,
+  ListOptions,
+  ListResult,
   Offset,
   ProducerState,
   PutOptions,
   PutResult,
   StreamMessage,
+  StreamMetadata,
+  TransactionAppend,
   WaitResult,
 } from "../types.js";
+import { resolveStorageCompression, type StoredChunk } from "./compression.js";
+import {
+  type ChunkCodec,
+  createChunkCipher,
+  decodeChunkRows,
+  encodeChunks,
+  plaintextChunkBytes,
+  rotatedDataKey,
+  type StreamKeyProvider,
+  writeDataKey,
+} from "./encryption.js";
 import type { StreamStore } from "./interface.js";
+import type { StreamNotifier } from "./notifier.js";
 import {
   CLOUDFLARE_SQL_MAX_VALUE_BYTES,
   rethrowSqlPayloadTooLargeError,
 } from "./platform-errors.js";
+import {
+  assertStreamBytesQuota,
+  assertStreamCountQuota,
+  createProducerRateLimiter,
+  type ProducerRateLimiter,
+  resolveStreamQuotas,
+  type StreamQuotas,
+} from "./quotas.js";
 import {
   appendResult,
+  assertDistinctTransactionPaths,
+  assertOffsetRetained,
   assertStreamLive,
+  batchResult,
+  type ChunkMessages,
+  type ChunkRow,
+  chunkLog,
+  chunkReadBounds,
   closedAppendResult,
+  collectMessages,
+  formatMessages,
+  furthestOffset,
   inheritedExpiration,
+  type MessageLog,
+  messagesFromChunks,
+  missingChunkRange,
   normalizeForkSubOffset,
+  paginateMessages,
+  prepareAppendBatch,
   prepareForkData,
   prepareInitialData,
+  recordsByteLength,
   resolveCreateContentType,
+  resolveForkFraming,
+  resolveForkJsonSchema,
+  resolveListLimit,
+  retainCreatedLog,
+  retainedReadOffset,
+  retentionColumnValues,
+  retentionFromColumns,
+  type StreamFormat,
   validateAppendContentType,
   validateAppendSeq,
+  validateGetOptions,
   validateIdempotentCreate,
+  validateRetentionPolicy,
 } from "./utils.js";
 import { notifyDeletedWaiters, type Waiter, waitForChange } from "./waiters.js";
 
@@ -66,14 +127,13 @@ type StreamRow = {
   fork_sub_offset: number | null;
   child_count: number;
   deleted: number;
-};
-
-type ChunkRow = {
-  start_pos: number;
-  end_pos: number;
-  start_offset: Offset;
-  end_offset: Offset;
-  data: ArrayBuffer;
+  retention_max_bytes: number | null;
+  retention_max_messages: number | null;
+  retention_max_age_seconds: number | null;
+  trimmed_offset: Offset | null;
+  framing: StreamFraming | null;
+  json_schema: string | null;
+  data_key: string | null;
 };
 
 type ProducerRow = {
@@ -86,23 +146,55 @@ type PreparedCreate = {
   readonly ttlSeconds?: number;
   readonly expiresAt?: string;
   readonly data: Uint8Array;
+  readonly boundaries: readonly MessageBoundary[];
+  readonly startPos?: number;
   readonly appendCount: number;
   readonly nextOffset: Offset;
   readonly closed: boolean;
   readonly forkedFrom?: string;
   readonly forkOffset?: Offset;
   readonly forkSubOffset?: number;
+  readonly retention?: RetentionPolicy;
+  readonly trimmedOffset?: Offset;
+  readonly framing?: StreamFraming;
+  readonly jsonSchema?: JsonSchema;
+  readonly dataKey?: WrappedDataKey;
 };
 
-type PreparedAppendChunk = {
-  readonly data: Uint8Array;
+type PreparedAppendChunks = {
+  readonly chunks: readonly StoredChunk[];
+  readonly offsets: readonly Offset[];
   readonly appendCount: number;
   readonly nextOffset: Offset;
   readonly appended: boolean;
+  readonly dataKey?: WrappedDataKey;
+};
+
+type PlannedAppend = {
+  readonly path: string;
+  readonly stream: StreamRow;
+  readonly result: AppendBatchResult;
+  readonly write?: {
+    readonly append: PreparedAppendChunks;
+    readonly producerDecision: ProducerAppendDecision;
+    readonly lastSeq: string | null;
+    readonly closed: boolean;
+    readonly byteLength: number;
+    readonly refundProducerAppend: () => void;
+  };
+};
+
+/**
+ * gives back the producer appends counted for plans that were never committed.
+ */
+const refundProducerAppends = (plans: readonly PlannedAppend[]): void => {
+  for (const plan of plans) {
+    plan.write?.refundProducerAppend();
+  }
 };
 
 const D1_STREAMS_SCHEMA =
-  "CREATE TABLE IF NOT EXISTS streams (path TEXT PRIMARY KEY, content_type TEXT NOT NULL, ttl_seconds INTEGER, expires_at TEXT, created_at INTEGER NOT NULL, last_accessed_at INTEGER, next_offset TEXT NOT NULL, last_seq TEXT, append_count INTEGER NOT NULL DEFAULT 0, closed INTEGER NOT NULL DEFAULT 0, forked_from TEXT, fork_offset TEXT, fork_sub_offset INTEGER, child_count INTEGER NOT NULL DEFAULT 0, deleted INTEGER NOT NULL DEFAULT 0);";
+  "CREATE TABLE IF NOT EXISTS streams (path TEXT PRIMARY KEY, content_type TEXT NOT NULL, ttl_seconds INTEGER, expires_at TEXT, created_at INTEGER NOT NULL, last_accessed_at INTEGER, next_offset TEXT NOT NULL, last_seq TEXT, append_count INTEGER NOT NULL DEFAULT 0, closed INTEGER NOT NULL DEFAULT 0, forked_from TEXT, fork_offset TEXT, fork_sub_offset INTEGER, child_count INTEGER NOT NULL DEFAULT 0, deleted INTEGER NOT NULL DEFAULT 0, retention_max_bytes INTEGER, retention_max_messages INTEGER, retention_max_age_seconds INTEGER, trimmed_offset TEXT, framing TEXT, json_schema TEXT, data_key TEXT);";
 
 /**
  * initializes the stream metadata table used by `D1Store`.
@@ -149,6 +241,28 @@ const initializeD1StreamsSchema = async (db: D1Database): Promise<void> => {
     "deleted",
     "ALTER TABLE streams ADD COLUMN deleted INTEGER NOT NULL DEFAULT 0"
   );
+  await addColumn(
+    "retention_max_bytes",
+    "ALTER TABLE streams ADD COLUMN retention_max_bytes INTEGER"
+  );
+  await addColumn(
+    "retention_max_messages",
+    "ALTER TABLE streams ADD COLUMN retention_max_messages INTEGER"
+  );
+  await addColumn(
+    "retention_max_age_seconds",
+    "ALTER TABLE streams ADD COLUMN retention_max_age_seconds INTEGER"
+  );
+  await addColumn(
+    "trimmed_offset",
+    "ALTER TABLE streams ADD COLUMN trimmed_offset TEXT"
+  );
+  await addColumn("framing", "ALTER TABLE streams ADD COLUMN framing TEXT");
+  await addColumn(
+    "json_schema",
+    "ALTER TABLE streams ADD COLUMN json_schema TEXT"
+  );
+  await addColumn("data_key", "ALTER TABLE streams ADD COLUMN data_key TEXT");
 
   if (hasColumn("data")) {
     const rows = await db
@@ -164,12 +278,53 @@ const initializeD1StreamsSchema = async (db: D1Database): Promise<void> => {
   }
 };
 
+/**
+ * adds `stream_chunks` columns introduced after the table was first created.
+ * NOTE: rows written before `created_at` existed keep NULL and read back with their stream's creation time; rows written before `compression` or `encrypted` existed read back raw.
+ */
+const initializeD1ChunksSchema = async (db: D1Database): Promise<void> => {
+  const columns = await db.prepare("PRAGMA table_info(stream_chunks)").all<{
+    name: string;
+  }>();
+  if (!columns.results.some((column) => column.name === "created_at")) {
+    await db.exec("ALTER TABLE stream_chunks ADD COLUMN created_at INTEGER");
+  }
+  if (!columns.results.some((column) => column.name === "compression")) {
+    await db.exec("ALTER TABLE stream_chunks ADD COLUMN compression TEXT");
+  }
+  if (!columns.results.some((column) => column.name === "encrypted")) {
+    await db.exec(
+      "ALTER TABLE stream_chunks ADD COLUMN encrypted INTEGER NOT NULL DEFAULT 0"
+    );
+  }
+};
+
 export type D1StoreOptions = {
   /**
    * max bytes for one stored stream chunk.
    * NOTE: one append writes one chunk row, so keep this below Cloudflare's SQL row and BLOB ceiling.
    */
   readonly maxChunkBytes?: number;
+  /**
+   * compresses chunk rows before they are written.
+   * NOTE: `maxChunkBytes` then bounds the compressed row, so an append that compresses below it is stored as one row however large it is uncompressed.
+   */
+  readonly compression?: StorageCompression;
+  /**
+   * encrypts chunk rows with a per-stream AES-GCM data key wrapped by this provider.
+   * NOTE: the wrapped data key lives in the stream's row; streams created without a provider get one on their next append.
+   */
+  readonly keyProvider?: StreamKeyProvider;
+  /**
+   * size, stream count and producer rate limits, refused with `QuotaExceededError`.
+   * NOTE: isolates check the stream count without a lock, so creates racing from several isolates can overshoot it by the number of racers.
+   */
+  readonly quotas?: StreamQuotas;
+  /**
+   * wakes live reads when another isolate appends to or deletes a stream.
+   * NOTE: without one, waits only end early for writes made through this store instance.
+   */
+  readonly notifier?: StreamNotifier;
 };
 
 export const DEFAULT_D1_MAX_CHUNK_BYTES = 1_000_000;
@@ -187,6 +342,68 @@ const isRowExpired = (row: {
     lastAccessedAt: row.last_accessed_at ?? undefined,
   });
 
+const rowJsonSchema = (row: StreamRow): JsonSchema | undefined =>
+  row.json_schema === null ? undefined : decodeJsonSchemaJson(row.json_schema);
+
+const rowDataKey = (row: StreamRow): WrappedDataKey | undefined =>
+  row.data_key === null ? undefined : decodeWrappedDataKeyJson(row.data_key);
+
+const rowStreamMetadata = (row: StreamRow): StreamMetadata => ({
+  path: row.path,
+  contentType: row.content_type,
+  ttlSeconds: row.ttl_seconds ?? undefined,
+  expiresAt: row.expires_at ?? undefined,
+  createdAt: row.created_at,
+  lastAccessedAt: row.last_accessed_at ?? undefined,
+  closed: row.closed === 1,
+  forkedFrom: row.forked_from ?? undefined,
+  forkOffset: row.fork_offset ?? undefined,
+  forkSubOffset: row.fork_sub_offset ?? undefined,
+  childCount: row.child_count,
+  deleted: row.deleted === 1,
+  retention: retentionFromColumns(row),
+  trimmedOffset: row.trimmed_offset ?? undefined,
+  framing: row.framing ?? undefined,
+  jsonSchema: rowJsonSchema(row),
+});
+
+const rowStreamFormat = (row: StreamRow): StreamFormat => ({
+  contentType: row.content_type,
+  framing: row.framing ?? undefined,
+  jsonSchema: rowJsonSchema(row),
+});
+
+const INSERT_STREAM_SQL = `INSERT INTO streams (path, content_type, ttl_seconds, expires_at, created_at, last_accessed_at, next_offset, append_count, closed, forked_from, fork_offset, fork_sub_offset, child_count, deleted, retention_max_bytes, retention_max_messages, retention_max_age_seconds, trimmed_offset, framing, json_schema, data_key)
+ VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+
+const insertStreamValues = (
+  path: string,
+  prepared: PreparedCreate,
+  now: number
+): (string | number | null)[] => [
+  path,
+  prepared.contentType,
+  prepared.ttlSeconds ?? null,
+  prepared.expiresAt ?? null,
+  now,
+  now,
+  prepared.nextOffset,
+  prepared.appendCount,
+  prepared.closed ? 1 : 0,
+  prepared.forkedFrom ?? null,
+  prepared.forkOffset ?? null,
+  prepared.forkSubOffset ?? null,
+  0,
+  0,
+  ...retentionColumnValues(prepared.retention),
+  prepared.trimmedOffset ?? null,
+  prepared.framing ?? null,
+  prepared.jsonSchema === undefined
+    ? null
+    : JSON.stringify(prepared.jsonSchema),
+  prepared.dataKey === undefined ? null : JSON.stringify(prepared.dataKey),
+];
+
 const resolveMaxChunkBytes = (value: number | undefined): number => {
   const maxChunkBytes = value ?? DEFAULT_D1_MAX_CHUNK_BYTES;
   if (
@@ -210,11 +427,16 @@ const resolveMaxChunkBytes = (value: number | undefined): number => {
 export class D1Store implements StreamStore {
   private readonly db: D1Database;
   private readonly maxChunkBytes: number;
+  private readonly maxChunkDataBytes: number;
+  private readonly codec: ChunkCodec;
+  private readonly quotas: StreamQuotas;
+  private readonly limitProducerAppend: ProducerRateLimiter;
+  private readonly notifier: StreamNotifier | undefined;
   private readonly waiters = new Map<string, Waiter[]>();
-  private readonly streamCache = new Map<string, { contentType: string }>();
+  private readonly streamCache = new Map<string, StreamFormat>();
 
   private static chunkSchema =
-    "CREATE TABLE IF NOT EXISTS stream_chunks (path TEXT NOT NULL, start_pos INTEGER NOT NULL, end_pos INTEGER NOT NULL, start_offset TEXT NOT NULL, end_offset TEXT NOT NULL, data BLOB NOT NULL, PRIMARY KEY (path, start_pos));";
+    "CREATE TABLE IF NOT EXISTS stream_chunks (path TEXT NOT NULL, start_pos INTEGER NOT NULL, end_pos INTEGER NOT NULL, start_offset TEXT NOT NULL, end_offset TEXT NOT NULL, data BLOB NOT NULL, created_at INTEGER, compression TEXT, encrypted INTEGER NOT NULL DEFAULT 0, PRIMARY KEY (path, start_pos));";
 
   private static chunksByEndIndex =
     "CREATE INDEX IF NOT EXISTS stream_chunks_by_end ON stream_chunks(path, end_pos);";
@@ -222,20 +444,40 @@ export class D1Store implements StreamStore {
   private static producerSchema =
     "CREATE TABLE IF NOT EXISTS stream_producers (path TEXT NOT NULL, producer_id TEXT NOT NULL, epoch INTEGER NOT NULL, seq INTEGER NOT NULL, PRIMARY KEY (path, producer_id));";
 
+  private static chunksByCreatedAtIndex =
+    "CREATE INDEX IF NOT EXISTS stream_chunks_by_created_at ON stream_chunks(path, created_at);";
+
   static schema = `${D1_STREAMS_SCHEMA}
 ${D1Store.chunkSchema}
 ${D1Store.chunksByEndIndex}
+${D1Store.chunksByCreatedAtIndex}
 ${D1Store.producerSchema}`;
 
   constructor(db: D1Database, options?: D1StoreOptions) {
     this.db = db;
     this.maxChunkBytes = resolveMaxChunkBytes(options?.maxChunkBytes);
+    this.codec = {
+      compression: resolveStorageCompression(options?.compression),
+      cipher:
+        options?.keyProvider === undefined
+          ? undefined
+          : createChunkCipher(options.keyProvider),
+    };
+    this.maxChunkDataBytes = plaintextChunkBytes(
+      this.maxChunkBytes,
+      this.codec
+    );
+    this.quotas = resolveStreamQuotas(options?.quotas);
+    this.limitProducerAppend = createProducerRateLimiter(this.quotas);
+    this.notifier = options?.notifier;
   }
 
   async initialize(): Promise<void> {
     await initializeD1StreamsSchema(this.db);
     await this.db.exec(D1Store.chunkSchema);
+    await initializeD1ChunksSchema(this.db);
     await this.db.exec(D1Store.chunksByEndIndex);
+    await this.db.exec(D1Store.chunksByCreatedAtIndex);
     await this.db.exec(D1Store.producerSchema);
   }
 
@@ -318,23 +560,34 @@ ${D1Store.producerSchema}`;
       return await this.expireStream(path, row);
     }
 
-    this.streamCache.set(path, { contentType: row.content_type });
+    this.streamCache.set(path, {
+      contentType: row.content_type,
+      framing: row.framing ?? undefined,
+    });
     return row;
   }
 
   private async prepareCreate(options: PutOptions): Promise<PreparedCreate> {
-    if (options.forkedFrom === undefined) {
-      const prepared = prepareInitialData(options);
-      return {
-        ...prepared,
-        contentType: resolveCreateContentType(options),
-        ttlSeconds: options.ttlSeconds,
-        expiresAt: options.expiresAt,
-        closed: options.closed === true,
-      };
-    }
+    validateRetentionPolicy(options.retention);
+    const prepared: PreparedCreate =
+      options.forkedFrom === undefined
+        ? {
+            ...prepareInitialData(options),
+            contentType: resolveCreateContentType(options),
+            ttlSeconds: options.ttlSeconds,
+            expiresAt: options.expiresAt,
+            closed: options.closed === true,
+            retention: options.retention,
+            framing: options.framing,
+            jsonSchema: options.jsonSchema,
+          }
+        : await this.prepareForkCreate(options, options.forkedFrom);
 
-    return await this.prepareForkCreate(options, options.forkedFrom);
+    return retainCreatedLog(
+      prepared,
+      prepared.retention,
+      prepared.trimmedOffset
+    );
   }
 
   /**
@@ -354,13 +607,17 @@ ${D1Store.producerSchema}`;
     }
     validateAppendContentType(source.content_type, options.contentType);
 
-    const sourceData = await this.readBytes(sourcePath);
+    const sourceLog = await this.readLog(sourcePath, source);
     const forkOffset = options.forkOffset ?? source.next_offset;
     const forkSubOffset = normalizeForkSubOffset(options.forkSubOffset);
+    const trimmedOffset = source.trimmed_offset ?? undefined;
+    assertOffsetRetained(sourcePath, forkOffset, trimmedOffset);
+    const framing = resolveForkFraming(source.framing ?? undefined, options);
+    const jsonSchema = resolveForkJsonSchema(rowJsonSchema(source), options);
     const prepared = prepareForkData(
-      sourceData,
+      sourceLog,
       forkOffset,
-      source.content_type,
+      { contentType: source.content_type, framing, jsonSchema },
       forkSubOffset,
       options.data
     );
@@ -381,6 +638,10 @@ ${D1Store.producerSchema}`;
       forkedFrom: sourcePath,
       forkOffset,
       forkSubOffset,
+      retention: options.retention ?? retentionFromColumns(source),
+      trimmedOffset,
+      framing,
+      jsonSchema,
     };
   }
 
@@ -401,6 +662,9 @@ ${D1Store.producerSchema}`;
         forkedFrom: existing.forked_from ?? undefined,
         forkOffset: existing.fork_offset ?? undefined,
         forkSubOffset: existing.fork_sub_offset ?? undefined,
+        retention: retentionFromColumns(existing),
+        framing: existing.framing ?? undefined,
+        jsonSchema: rowJsonSchema(existing),
       },
       options
     );
@@ -420,7 +684,23 @@ ${D1Store.producerSchema}`;
       return this.idempotentCreateResult(existing, options);
     }
 
-    const prepared = await this.prepareCreate(options);
+    await assertStreamCountQuota(path, this.quotas, (list) => this.list(list));
+    const prepared = {
+      ...(await this.prepareCreate(options)),
+      dataKey: await writeDataKey(this.codec, undefined),
+    };
+    assertStreamBytesQuota(
+      path,
+      this.quotas,
+      prepared.nextOffset,
+      prepared.trimmedOffset
+    );
+    const chunks = await encodeChunks(
+      this.codec,
+      path,
+      prepared.dataKey,
+      chunkLog(prepared, prepared.nextOffset, this.maxChunkDataBytes)
+    );
     const now = Date.now();
     const statements: D1PreparedStatement[] = [];
 
@@ -436,27 +716,9 @@ ${D1Store.producerSchema}`;
 
     statements.push(
       this.db
-        .prepare(
-          `INSERT INTO streams (path, content_type, ttl_seconds, expires_at, created_at, last_accessed_at, next_offset, append_count, closed, forked_from, fork_offset, fork_sub_offset, child_count, deleted)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-        )
-        .bind(
-          path,
-          prepared.contentType,
-          prepared.ttlSeconds ?? null,
-          prepared.expiresAt ?? null,
-          now,
-          now,
-          prepared.nextOffset,
-          prepared.appendCount,
-          prepared.closed ? 1 : 0,
-          prepared.forkedFrom ?? null,
-          prepared.forkOffset ?? null,
-          prepared.forkSubOffset ?? null,
-          0,
-          0
-        ),
-      ...this.initialChunkStatements(path, prepared.data, prepared.nextOffset)
+        .prepare(INSERT_STREAM_SQL)
+        .bind(...insertStreamValues(path, prepared, now)),
+      ...chunks.map((chunk) => this.chunkInsertStatement(path, chunk))
     );
 
     try {
@@ -468,7 +730,10 @@ ${D1Store.producerSchema}`;
       );
     }
 
-    this.streamCache.set(path, { contentType: prepared.contentType });
+    this.streamCache.set(path, {
+      contentType: prepared.contentType,
+      framing: prepared.framing,
+    });
     return {
       created: true,
       nextOffset: prepared.nextOffset,
@@ -477,92 +742,48 @@ ${D1Store.producerSchema}`;
     };
   }
 
-  async append(
+  append(
     path: string,
     data: Uint8Array,
     options?: AppendOptions
   ): Promise<AppendResult> {
-    const stream = await this.getStreamRow(path);
-    if (!stream) {
-      throw new StreamNotFoundError(path);
-    }
-    assertStreamLive(path, { deleted: stream.deleted === 1 });
-
-    const producerDecision = await this.evaluateProducerDecision(
-      path,
-      options?.producer
-    );
-    const closedResult = closedAppendResult(
-      path,
-      stream.next_offset,
-      stream.closed === 1,
-      data,
-      options,
-      producerDecision
-    );
-    if (closedResult) {
-      await this.touchStream(path, stream);
-      return closedResult;
-    }
-
-    if (data.length > 0) {
-      validateAppendContentType(stream.content_type, options?.contentType);
-    }
-
-    if (producerDecision._tag === "Duplicate") {
-      await this.touchStream(path, stream);
-      return {
-        nextOffset: stream.next_offset,
-        producer: producerDecision.result,
-        closed: stream.closed === 1,
-        appended: false,
-      };
-    }
-    validateAppendSeq(stream.last_seq ?? undefined, options?.seq);
+    return this.appendBatch(path, [data], options);
+  }
 
-    const append = this.prepareAppendChunk(
-      data,
-      stream.content_type,
-      stream.append_count,
-      stream.next_offset
-    );
-    const touched = await this.touchStream(path, stream);
-    const statements = this.appendStatements(
-      path,
-      stream,
-      append,
-      producerDecision,
-      options?.seq ?? stream.last_seq,
-      options?.close === true,
-      touched.last_accessed_at
-    );
+  async appendBatch(
+    path: string,
+    records: readonly Uint8Array[],
+    options?: AppendOptions
+  ): Promise<AppendBatchResult> {
+    const plan = await this.planAppend(path, records, options);
+    await this.commitAppends([plan]);
+    await this.notifyAppend(plan);
+    return plan.result;
+  }
 
+  /**
+   * appends to several streams atomically.
+   * NOTE: every append is validated before any is written, and all are committed in one `db.batch` or none are; waiters on each stream are notified after the commit.
+   * NOTE: each path may appear once; use `appendBatch` for several records on one stream.
+   */
+  async transaction(
+    appends: readonly TransactionAppend[]
+  ): Promise<AppendBatchResult[]> {
+    assertDistinctTransactionPaths(appends);
+    const plans: PlannedAppend[] = [];
     try {
-      await this.db.batch(statements);
+      for (const { path, data, options } of appends) {
+        plans.push(await this.planAppend(path, [data], options));
+      }
     } catch (error) {
-      rethrowSqlPayloadTooLargeError(error, append.data.length);
+      refundProducerAppends(plans);
+      throw error;
     }
-
-    this.notifyWaiters(
-      path,
-      append.appended
-        ? [
-            {
-              offset: stream.next_offset,
-              timestamp: Date.now(),
-              data: append.data,
-            },
-          ]
-        : [],
-      options?.close === true
-    );
-
-    return appendResult(
-      append.nextOffset,
-      options?.close === true,
-      append.appended,
-      producerDecision
-    );
+    await this.commitAppends(plans);
+    for (const plan of plans) {
+      await this.notifyAppend(plan);
+    }
+    return plans.map((plan) => plan.result);
   }
 
   async get(path: string, options?: GetOptions): Promise<GetResult> {
@@ -571,19 +792,35 @@ ${D1Store.producerSchema}`;
       throw new StreamNotFoundError(path);
     }
     assertStreamLive(path, { deleted: stream.deleted === 1 });
-    const touched = await this.touchStream(path, stream);
+    const touched = await this.enforceAgeRetention(
+      path,
+      await this.touchStream(path, stream)
+    );
 
-    const startOffset = options?.offset ?? initialOffset();
-    const messages = await this.readMessages(path, startOffset);
+    validateGetOptions(options);
+    const startOffset = retainedReadOffset(
+      path,
+      await this.readStartOffset(path, touched, options),
+      touched.trimmed_offset ?? undefined
+    );
+    const read = await this.readMessages(path, touched, startOffset, options);
+    const page = paginateMessages(
+      read.messages,
+      touched.next_offset,
+      rowStreamFormat(touched),
+      options,
+      read.endOffset
+    );
 
     return {
-      messages,
-      nextOffset: touched.next_offset,
-      upToDate: true,
+      messages: page.messages,
+      nextOffset: page.nextOffset,
+      upToDate: page.upToDate,
       cursor: calculateCursor(),
-      etag: generateETag(path, startOffset, touched.next_offset),
+      etag: generateETag(path, startOffset, page.nextOffset, options?.filter),
       contentType: touched.content_type,
       closed: touched.closed === 1,
+      framing: touched.framing ?? undefined,
     };
   }
 
@@ -602,9 +839,31 @@ ${D1Store.producerSchema}`;
       closed: stream.closed === 1,
       ttlSeconds: stream.ttl_seconds ?? undefined,
       expiresAt: stream.expires_at ?? undefined,
+      framing: stream.framing ?? undefined,
+      jsonSchema: rowJsonSchema(stream),
     };
   }
 
+  /**
+   * rewraps a stream's data key with the key provider's current key.
+   * NOTE: chunk rows are not re-encrypted, so rotation is one row update however long the stream is.
+   */
+  async rotateDataKey(path: string): Promise<void> {
+    const stream = await this.getStreamRow(path);
+    if (!stream) {
+      throw new StreamNotFoundError(path);
+    }
+
+    const current = rowDataKey(stream);
+    const dataKey = await rotatedDataKey(this.codec, current);
+    if (dataKey !== current) {
+      await this.db
+        .prepare("UPDATE streams SET data_key = ? WHERE path = ?")
+        .bind(JSON.stringify(dataKey), path)
+        .run();
+    }
+  }
+
   async delete(path: string): Promise<void> {
     const stream = await this.getStreamRow(path);
     if (!stream) {
@@ -619,29 +878,64 @@ ${D1Store.producerSchema}`;
         .bind(path)
         .run();
       this.notifyDeleted(path);
-      return;
+    } else {
+      await this.hardDelete(path, stream);
     }
-
-    await this.hardDelete(path, stream);
+    await this.notifier?.publish(path);
   }
 
   has(path: string): boolean {
     return this.streamCache.has(path);
   }
 
-  async waitForData(
+  /**
+   * lists streams in path order.
+   * NOTE: the cursor is the last path of the page; expired rows are skipped here and reclaimed on their next access.
+   */
+  async list(options?: ListOptions): Promise<ListResult> {
+    const limit = resolveListLimit(options);
+    const prefix = options?.prefix ?? "";
+    const { results: rows } = await this.db
+      .prepare(
+        `SELECT * FROM streams
+         WHERE substr(path, 1, length(?)) = ? AND path > ? AND deleted = 0
+         ORDER BY path
+         LIMIT ?`
+      )
+      .bind(prefix, prefix, options?.cursor ?? "", limit + 1)
+      .all<StreamRow>();
+    const page = rows.slice(0, limit);
+
+    return {
+      streams: page
+        .filter((row) => !isRowExpired(row))
+        .map((row) => rowStreamMetadata(row)),
+      cursor: rows.length > limit ? page.at(-1)?.path : undefined,
+    };
+  }
+
+  /**
+   * reads what a waiter at `offset` can return right now, or `undefined` when it has to keep waiting.
+   */
+  private async readWaitResult(
     path: string,
-    offset: Offset,
-    timeoutMs: number
-  ): Promise<WaitResult> {
+    offset: Offset
+  ): Promise<WaitResult | undefined> {
     const stream = await this.getStreamRow(path);
     if (!stream) {
       throw new StreamNotFoundError(path);
     }
     assertStreamLive(path, { deleted: stream.deleted === 1 });
-    const touched = await this.touchStream(path, stream);
+    const touched = await this.enforceAgeRetention(
+      path,
+      await this.touchStream(path, stream)
+    );
 
-    const messages = await this.readMessages(path, offset);
+    const { messages } = await this.readMessages(
+      path,
+      touched,
+      retainedReadOffset(path, offset, touched.trimmed_offset ?? undefined)
+    );
     if (messages.length > 0) {
       return {
         messages,
@@ -657,7 +951,19 @@ ${D1Store.producerSchema}`;
         closed: true,
       };
     }
+  }
+
+  async waitForData(
+    path: string,
+    offset: Offset,
+    timeoutMs: number
+  ): Promise<WaitResult> {
+    const ready = await this.readWaitResult(path, offset);
+    if (ready) {
+      return ready;
+    }
 
+    const notifier = this.notifier;
     return waitForChange(
       {
         add: (waiter) => {
@@ -675,55 +981,229 @@ ${D1Store.producerSchema}`;
         },
       },
       offset,
-      timeoutMs
+      timeoutMs,
+      notifier && {
+        subscribe: (onChange) => notifier.subscribe(path, onChange),
+        read: () => this.readWaitResult(path, offset),
+      }
     );
   }
 
-  formatResponse(path: string, messages: StreamMessage[]): Uint8Array {
+  formatResponse(
+    path: string,
+    messages: StreamMessage[],
+    options?: FormatOptions
+  ): Uint8Array {
     const cached = this.streamCache.get(path);
     if (!cached) {
       return new Uint8Array(0);
     }
 
-    if (messages.length === 0) {
-      const isJson = isJsonContentType(cached.contentType);
-      return isJson ? new TextEncoder().encode("[]") : new Uint8Array(0);
+    return formatMessages(messages, cached, options);
+  }
+
+  /**
+   * validates an append and prepares its statements' inputs without writing anything.
+   * NOTE: `stream` already carries the access time the commit will record.
+   */
+  private async planAppend(
+    path: string,
+    records: readonly Uint8Array[],
+    options: AppendOptions | undefined
+  ): Promise<PlannedAppend> {
+    const row = await this.getStreamRow(path);
+    if (!row) {
+      throw new StreamNotFoundError(path);
     }
+    assertStreamLive(path, { deleted: row.deleted === 1 });
+    const stream =
+      row.ttl_seconds === null ? row : { ...row, last_accessed_at: Date.now() };
 
-    const combined = new Uint8Array(
-      messages.reduce((acc, m) => acc + m.data.length, 0)
+    const producerDecision = await this.evaluateProducerDecision(
+      path,
+      options?.producer
     );
-    let offset = 0;
-    for (const message of messages) {
-      combined.set(message.data, offset);
-      offset += message.data.length;
+    const byteLength = recordsByteLength(records);
+    const closedResult = closedAppendResult(
+      path,
+      stream.next_offset,
+      stream.closed === 1,
+      byteLength,
+      options,
+      producerDecision
+    );
+    if (closedResult) {
+      return { path, stream, result: batchResult(closedResult) };
+    }
+
+    if (byteLength > 0) {
+      validateAppendContentType(stream.content_type, options?.contentType);
     }
 
-    const isJson = isJsonContentType(cached.contentType);
-    return isJson ? formatJsonResponse(combined) : combined;
+    if (producerDecision._tag === "Duplicate") {
+      return {
+        path,
+        stream,
+        result: batchResult({
+          nextOffset: stream.next_offset,
+          producer: producerDecision.result,
+          closed: stream.closed === 1,
+          appended: false,
+        }),
+      };
+    }
+    validateAppendSeq(stream.last_seq ?? undefined, options?.seq);
+
+    const dataKey = await writeDataKey(this.codec, rowDataKey(stream));
+    const append = await this.prepareAppendChunks(
+      path,
+      dataKey,
+      records,
+      rowStreamFormat(stream),
+      stream.append_count,
+      stream.next_offset
+    );
+    assertStreamBytesQuota(
+      path,
+      this.quotas,
+      append.nextOffset,
+      stream.trimmed_offset ?? undefined
+    );
+    const refundProducerAppend = this.limitProducerAppend(
+      path,
+      producerDecision
+    );
+    const closed = options?.close === true;
+    return {
+      path,
+      stream,
+      result: batchResult(
+        appendResult(
+          append.nextOffset,
+          closed,
+          append.appended,
+          producerDecision
+        ),
+        append.offsets
+      ),
+      write: {
+        append,
+        producerDecision,
+        lastSeq: options?.seq ?? stream.last_seq,
+        closed,
+        byteLength,
+        refundProducerAppend,
+      },
+    };
   }
 
-  private prepareAppendChunk(
-    data: Uint8Array,
-    contentType: string,
+  private async commitAppends(plans: readonly PlannedAppend[]): Promise<void> {
+    const statements = plans.flatMap((plan) => this.planStatements(plan));
+    if (statements.length === 0) {
+      return;
+    }
+
+    try {
+      await this.db.batch(statements);
+    } catch (error) {
+      refundProducerAppends(plans);
+      rethrowSqlPayloadTooLargeError(
+        error,
+        plans.reduce((total, plan) => total + (plan.write?.byteLength ?? 0), 0)
+      );
+    }
+
+    for (const { path, stream, write } of plans) {
+      if (write) {
+        await this.enforceRetention(path, {
+          ...stream,
+          next_offset: write.append.nextOffset,
+          append_count: write.append.appendCount,
+        });
+      }
+    }
+  }
+
+  private planStatements(plan: PlannedAppend): D1PreparedStatement[] {
+    const { path, stream, write } = plan;
+    if (write) {
+      return this.appendStatements(
+        path,
+        write.append,
+        write.producerDecision,
+        write.lastSeq,
+        write.closed,
+        stream.last_accessed_at
+      );
+    }
+    if (stream.ttl_seconds === null) {
+      return [];
+    }
+
+    return [
+      this.db
+        .prepare("UPDATE streams SET last_accessed_at = ? WHERE path = ?")
+        .bind(stream.last_accessed_at, path),
+    ];
+  }
+
+  private async notifyAppend(plan: PlannedAppend): Promise<void> {
+    if (!plan.write) {
+      return;
+    }
+
+    this.notifyWaiters(
+      plan.path,
+      plan.write.append.chunks.map((chunk) => ({
+        offset: chunk.startOffset,
+        timestamp: chunk.timestamp,
+        data: chunk.data,
+      })),
+      plan.write.closed
+    );
+    await this.notifier?.publish(plan.path);
+  }
+
+  /**
+   * one chunk row per non-empty record.
+   * NOTE: a record whose stored bytes exceed `maxChunkBytes` is rejected rather than split, so each row is a whole message.
+   */
+  private async prepareAppendChunks(
+    path: string,
+    dataKey: WrappedDataKey | undefined,
+    records: readonly Uint8Array[],
+    format: StreamFormat,
     appendCount: number,
     nextOffset: Offset
-  ): PreparedAppendChunk {
-    if (data.length === 0) {
-      return { data, appendCount, nextOffset, appended: false };
+  ): Promise<PreparedAppendChunks> {
+    const batch = prepareAppendBatch(
+      {
+        data: new Uint8Array(0),
+        boundaries: [],
+        startPos: offsetToBytePos(nextOffset),
+      },
+      records,
+      format,
+      appendCount,
+      nextOffset
+    );
+    const chunks = await encodeChunks(
+      this.codec,
+      path,
+      dataKey,
+      chunkLog(batch, batch.nextOffset, Number.POSITIVE_INFINITY)
+    );
+    for (const chunk of chunks) {
+      this.assertChunkSize(chunk.stored.length);
     }
 
-    const chunkData = isJsonContentType(contentType)
-      ? processJsonAppend(new Uint8Array(0), data)
-      : data;
-    this.assertChunkSize(chunkData.length);
-
-    const nextPos = offsetToBytePos(nextOffset) + chunkData.length;
     return {
-      data: chunkData,
-      appendCount: appendCount + 1,
-      nextOffset: formatOffset(appendCount + 1, nextPos),
-      appended: true,
+      chunks,
+      offsets: batch.offsets,
+      appendCount: batch.appendCount,
+      nextOffset: batch.nextOffset,
+      appended: batch.appended,
+      dataKey,
     };
   }
 
@@ -756,8 +1236,7 @@ ${D1Store.producerSchema}`;
 
   private appendStatements(
     path: string,
-    stream: StreamRow,
-    append: PreparedAppendChunk,
+    append: PreparedAppendChunks,
     producerDecision: ProducerAppendDecision,
     lastSeq: string | null,
     closed: boolean,
@@ -765,17 +1244,8 @@ ${D1Store.producerSchema}`;
   ): D1PreparedStatement[] {
     const statements: D1PreparedStatement[] = [];
 
-    if (append.appended) {
-      const startPos = offsetToBytePos(stream.next_offset);
-      statements.push(
-        this.chunkInsertStatement(
-          path,
-          startPos,
-          append.data,
-          stream.next_offset,
-          append.nextOffset
-        )
-      );
+    for (const chunk of append.chunks) {
+      statements.push(this.chunkInsertStatement(path, chunk));
     }
     const producerStatement = this.producerStateStatement(
       path,
@@ -788,7 +1258,7 @@ ${D1Store.producerSchema}`;
     statements.push(
       this.db
         .prepare(
-          "UPDATE streams SET next_offset = ?, append_count = ?, last_seq = ?, closed = ?, last_accessed_at = ? WHERE path = ?"
+          "UPDATE streams SET next_offset = ?, append_count = ?, last_seq = ?, closed = ?, last_accessed_at = ?, data_key = ? WHERE path = ?"
         )
         .bind(
           append.nextOffset,
@@ -796,6 +1266,7 @@ ${D1Store.producerSchema}`;
           lastSeq,
           closed ? 1 : 0,
           lastAccessedAt,
+          append.dataKey === undefined ? null : JSON.stringify(append.dataKey),
           path
         )
     );
@@ -839,119 +1310,258 @@ ${D1Store.producerSchema}`;
       );
   }
 
-  private initialChunkStatements(
+  private chunkInsertStatement(
     path: string,
-    data: Uint8Array,
-    finalOffset: Offset
-  ): D1PreparedStatement[] {
-    if (data.length === 0) {
-      return [];
+    chunk: StoredChunk
+  ): D1PreparedStatement {
+    this.assertChunkSize(chunk.stored.length);
+    return this.db
+      .prepare(
+        `INSERT INTO stream_chunks (path, start_pos, end_pos, start_offset, end_offset, data, created_at, compression, encrypted)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        path,
+        chunk.startPos,
+        chunk.startPos + chunk.data.length,
+        chunk.startOffset,
+        chunk.endOffset,
+        chunk.stored,
+        chunk.timestamp,
+        chunk.compression ?? null,
+        chunk.encrypted === true ? 1 : 0
+      );
+  }
+
+  /**
+   * drops the leading chunk rows that fall outside the stream's retention policy.
+   * NOTE: every limit maps to an ordered lookup on `stream_chunks`, and trimmed rows are gone afterwards, so each check only scans rows it is about to delete.
+   */
+  private async enforceRetention(
+    path: string,
+    stream: StreamRow
+  ): Promise<StreamRow> {
+    const retention = retentionFromColumns(stream);
+    if (!retention) {
+      return stream;
     }
 
-    const statements: D1PreparedStatement[] = [];
-    let startPos = 0;
-    while (startPos < data.length) {
-      const endPos = Math.min(startPos + this.maxChunkBytes, data.length);
-      const chunk = data.slice(startPos, endPos);
-      const endOffset =
-        endPos === data.length ? finalOffset : formatOffset(0, endPos);
-      statements.push(
-        this.chunkInsertStatement(
-          path,
-          startPos,
-          chunk,
-          formatOffset(0, startPos),
-          endOffset
-        )
-      );
-      startPos = endPos;
+    const floor = furthestOffset([
+      await this.messageCountFloor(path, stream, retention.maxMessages),
+      await this.byteCountFloor(path, stream, retention.maxBytes),
+      retention.maxAgeSeconds === undefined
+        ? undefined
+        : await this.firstOffsetSince(
+            path,
+            stream,
+            Date.now() - retention.maxAgeSeconds * 1000
+          ),
+    ]);
+    const floorPos = floor === undefined ? 0 : offsetToBytePos(floor);
+    const trimmedPos =
+      stream.trimmed_offset === null
+        ? 0
+        : offsetToBytePos(stream.trimmed_offset);
+    if (floor === undefined || floorPos <= trimmedPos) {
+      return stream;
     }
 
-    return statements;
+    await this.db.batch([
+      this.db
+        .prepare("DELETE FROM stream_chunks WHERE path = ? AND start_pos < ?")
+        .bind(path, floorPos),
+      this.db
+        .prepare("UPDATE streams SET trimmed_offset = ? WHERE path = ?")
+        .bind(floor, path),
+    ]);
+    return { ...stream, trimmed_offset: floor };
   }
 
-  private chunkInsertStatement(
+  private async enforceAgeRetention(
     path: string,
-    startPos: number,
-    data: Uint8Array,
-    startOffset: Offset,
-    endOffset: Offset
-  ): D1PreparedStatement {
-    this.assertChunkSize(data.length);
-    return this.db
+    stream: StreamRow
+  ): Promise<StreamRow> {
+    if (stream.retention_max_age_seconds === null) {
+      return stream;
+    }
+    return await this.enforceRetention(path, stream);
+  }
+
+  /**
+   * finds the first append among the newest `maxMessages`.
+   * NOTE: every append advances the offset sequence by at least one, so appends with a sequence within `maxMessages` of the tail are never more than `maxMessages`.
+   */
+  private async messageCountFloor(
+    path: string,
+    stream: StreamRow,
+    maxMessages: number | undefined
+  ): Promise<Offset | undefined> {
+    const minSeq =
+      (parseOffset(stream.next_offset)?.seq ?? 0) - (maxMessages ?? 0);
+    if (maxMessages === undefined || minSeq <= 0) {
+      return;
+    }
+
+    const row = await this.db
       .prepare(
-        `INSERT INTO stream_chunks (path, start_pos, end_pos, start_offset, end_offset, data)
-         VALUES (?, ?, ?, ?, ?, ?)`
+        `SELECT start_offset FROM stream_chunks
+         WHERE path = ? AND start_offset >= ?
+         ORDER BY start_pos
+         LIMIT 1`
       )
-      .bind(
-        path,
-        startPos,
-        startPos + data.length,
-        startOffset,
-        endOffset,
-        data
-      );
+      .bind(path, formatOffset(minSeq, 0))
+      .first<{ start_offset: Offset }>();
+    return row?.start_offset ?? stream.next_offset;
   }
 
-  private async readBytes(path: string): Promise<Uint8Array> {
-    const messages = await this.readMessages(path, initialOffset());
-    const total = messages.reduce(
-      (acc, message) => acc + message.data.length,
-      0
+  private async byteCountFloor(
+    path: string,
+    stream: StreamRow,
+    maxBytes: number | undefined
+  ): Promise<Offset | undefined> {
+    const minPos = offsetToBytePos(stream.next_offset) - (maxBytes ?? 0);
+    if (maxBytes === undefined || minPos <= 0) {
+      return;
+    }
+
+    const first = await this.firstChunkFrom(path, minPos);
+    if (!first) {
+      return stream.next_offset;
+    }
+    if (offsetToBytePos(first.start_offset) === first.start_pos) {
+      return first.start_offset;
+    }
+
+    const next = await this.firstChunkFrom(
+      path,
+      offsetToBytePos(first.end_offset)
     );
-    const result = new Uint8Array(total);
-    let offset = 0;
-    for (const message of messages) {
-      result.set(message.data, offset);
-      offset += message.data.length;
+    return next?.start_offset ?? stream.next_offset;
+  }
+
+  private async firstChunkFrom(
+    path: string,
+    fromPos: number
+  ): Promise<
+    Pick<ChunkRow, "start_pos" | "start_offset" | "end_offset"> | undefined
+  > {
+    const row = await this.db
+      .prepare(
+        `SELECT start_pos, start_offset, end_offset FROM stream_chunks
+         WHERE path = ? AND start_pos >= ?
+         ORDER BY start_pos
+         LIMIT 1`
+      )
+      .bind(path, fromPos)
+      .first<Pick<ChunkRow, "start_pos" | "start_offset" | "end_offset">>();
+    return row ?? undefined;
+  }
+
+  /**
+   * resolves where a read starts, seeking by append time when asked.
+   */
+  private async readStartOffset(
+    path: string,
+    stream: StreamRow,
+    options?: GetOptions
+  ): Promise<Offset> {
+    const fromTimestamp = options?.fromTimestamp;
+    if (fromTimestamp === undefined) {
+      return options?.offset ?? initialOffset();
     }
-    return result;
+
+    return await this.firstOffsetSince(path, stream, fromTimestamp);
   }
 
-  private async readMessages(
+  /**
+   * finds the first append written at or after `timestamp`, or the tail.
+   * NOTE: rows written before `created_at` existed count as written when their stream was created.
+   */
+  private async firstOffsetSince(
     path: string,
-    startOffset: Offset
-  ): Promise<StreamMessage[]> {
-    const startPos = offsetToBytePos(startOffset);
-    const messages: StreamMessage[] = [];
-
-    for (const chunk of await this.readChunkRows(path, startPos)) {
-      const chunkData = new Uint8Array(chunk.data);
-      const messageStart = Math.max(startPos, chunk.start_pos);
-      if (messageStart >= chunk.end_pos) {
-        continue;
-      }
+    stream: StreamRow,
+    timestamp: number
+  ): Promise<Offset> {
+    const row = await this.db
+      .prepare(
+        `SELECT start_offset FROM stream_chunks
+         WHERE path = ? AND (created_at >= ? OR (created_at IS NULL AND ?))
+         ORDER BY start_pos
+         LIMIT 1`
+      )
+      .bind(path, timestamp, stream.created_at >= timestamp ? 1 : 0)
+      .first<{ start_offset: Offset }>();
+    return row?.start_offset ?? stream.next_offset;
+  }
 
-      let messageOffset = startOffset;
-      if (messageStart !== startPos) {
-        messageOffset =
-          messageStart === chunk.start_pos
-            ? chunk.start_offset
-            : formatOffset(0, messageStart);
-      }
+  private async readLog(path: string, stream: StreamRow): Promise<MessageLog> {
+    const read = await this.readMessages(path, stream, initialOffset());
+    return {
+      ...collectMessages(read.messages),
+      startPos:
+        stream.trimmed_offset === null
+          ? undefined
+          : offsetToBytePos(stream.trimmed_offset),
+    };
+  }
 
-      messages.push({
-        offset: messageOffset,
-        timestamp: Date.now(),
-        data: chunkData.slice(messageStart - chunk.start_pos),
-      });
+  /**
+   * reads one message per append from the chunk rows.
+   * NOTE: a bounded read can stop inside an append stored as continuation rows, so the rest of that append is read before the rows are folded.
+   */
+  private async readMessages(
+    path: string,
+    stream: StreamRow,
+    startOffset: Offset,
+    options?: GetOptions
+  ): Promise<ChunkMessages> {
+    const rows = await this.readChunkRows(
+      path,
+      offsetToBytePos(startOffset),
+      options
+    );
+    const missing = missingChunkRange(rows);
+    if (missing) {
+      const rest = await this.db
+        .prepare(
+          `SELECT start_pos, end_pos, start_offset, end_offset, created_at, data, compression, encrypted
+           FROM stream_chunks
+           WHERE path = ? AND start_pos >= ? AND start_pos < ?
+           ORDER BY start_pos`
+        )
+        .bind(path, missing.fromPos, missing.toPos)
+        .all<ChunkRow>();
+      rows.push(...rest.results);
     }
 
-    return messages;
+    return messagesFromChunks(
+      await decodeChunkRows(this.codec, path, rowDataKey(stream), rows),
+      startOffset,
+      stream.created_at
+    );
   }
 
+  /**
+   * reads the chunk rows a bounded page can touch.
+   * NOTE: chunks are contiguous, so bounding `start_pos` by `startPos + maxBytes` (or the first row's end, when that row alone is larger) still returns the row after a cut and the next page starts at that row's exact offset.
+   */
   private async readChunkRows(
     path: string,
-    startPos: number
+    startPos: number,
+    options?: GetOptions
   ): Promise<ChunkRow[]> {
+    const bounds = chunkReadBounds(startPos, options);
     const result = await this.db
       .prepare(
-        `SELECT start_pos, end_pos, start_offset, end_offset, data
+        `SELECT start_pos, end_pos, start_offset, end_offset, created_at, data, compression, encrypted
          FROM stream_chunks
-         WHERE path = ? AND end_pos > ?
-         ORDER BY start_pos`
+         WHERE path = ? AND end_pos > ? AND start_pos <= MAX(?, (
+           SELECT MIN(end_pos) FROM stream_chunks WHERE path = ? AND end_pos > ?
+         ))
+         ORDER BY start_pos
+         LIMIT ?`
       )
-      .bind(path, startPos)
+      .bind(path, startPos, bounds.maxStartPos, path, startPos, bounds.limit)
       .all<ChunkRow>();
 
     return result.results;
@@ -1003,7 +1613,7 @@ ${D1Store.producerSchema}`;
       const sliceStart = Math.max(0, byteOffset - startPos);
       available.push({
         offset: byteOffset > startPos ? waiter.offset : message.offset,
-        timestamp: Date.now(),
+        timestamp: message.timestamp,
         data: message.data.slice(sliceStart),
       });
     }
@@ -0,0 +1,319 @@
+import { decodeBase64Data, encodeBase64Data } from "../protocol.js";
+import type { StorageCompression, WrappedDataKey } from "../schema.js";
+import {
+  compressChunks,
+  decompressChunkRows,
+  type StoredChunk,
+} from "./compression.js";
+import type { ChunkRow, PendingChunk } from "./utils.js";
+
+/**
+ * wraps and unwraps per-stream data keys, e.g. with a KMS or with key-encryption keys held in worker secrets.
+ * NOTE: every key id that still wraps a stored data key must stay unwrappable; `currentKeyId` only picks the key new and rotated data keys are wrapped with.
+ */
+export type StreamKeyProvider = {
+  readonly currentKeyId: () => string | Promise<string>;
+  readonly wrapKey: (keyId: string, dataKey: Uint8Array) => Promise<Uint8Array>;
+  readonly unwrapKey: (
+    keyId: string,
+    wrappedKey: Uint8Array
+  ) => Promise<Uint8Array>;
+};
+
+/**
+ * encrypts chunk bytes with each stream's AES-GCM data key.
+ */
+export type ChunkCipher = {
+  readonly createDataKey: () => Promise<WrappedDataKey>;
+  /**
+   * wraps a data key with the provider's current key.
+   * NOTE: the data key itself is unchanged, so chunks written under it stay readable without being re-encrypted.
+   */
+  readonly rewrapDataKey: (dataKey: WrappedDataKey) => Promise<WrappedDataKey>;
+  readonly encryptChunks: (
+    path: string,
+    dataKey: WrappedDataKey,
+    chunks: readonly StoredChunk[]
+  ) => Promise<StoredChunk[]>;
+  readonly decryptChunkRows: (
+    path: string,
+    dataKey: WrappedDataKey,
+    rows: readonly ChunkRow[]
+  ) => Promise<ChunkRow[]>;
+};
+
+/**
+ * how a store turns chunks into stored bytes and back.
+ */
+export type ChunkCodec = {
+  readonly compression?: StorageCompression;
+  readonly cipher?: ChunkCipher;
+};
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const DATA_KEY_BYTES = 32;
+const MAX_CACHED_DATA_KEYS = 1000;
+
+/**
+ * bytes an encrypted chunk adds to its stored size: a 12-byte IV and a 16-byte GCM tag.
+ */
+export const ENCRYPTED_CHUNK_OVERHEAD_BYTES = IV_BYTES + TAG_BYTES;
+
+/**
+ * binds a chunk's ciphertext to its stream and position, so stored chunks cannot be swapped or replayed elsewhere.
+ */
+const chunkAdditionalData = (path: string, startPos: number): Uint8Array =>
+  new TextEncoder().encode(`${path}\u0000${startPos}`);
+
+const importDataKey = (dataKey: Uint8Array): Promise<CryptoKey> =>
+  crypto.subtle.importKey("raw", dataKey, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+
+const encryptChunk = async (
+  key: CryptoKey,
+  path: string,
+  chunk: StoredChunk
+): Promise<StoredChunk> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv,
+      additionalData: chunkAdditionalData(path, chunk.startPos),
+    },
+    key,
+    chunk.stored
+  );
+  const stored = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+  stored.set(iv);
+  stored.set(new Uint8Array(ciphertext), IV_BYTES);
+  return { ...chunk, stored, encrypted: true };
+};
+
+const decryptChunkRow = async (
+  key: CryptoKey,
+  path: string,
+  row: ChunkRow
+): Promise<ChunkRow> => {
+  const stored = new Uint8Array(row.data);
+  return {
+    ...row,
+    data: await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: stored.subarray(0, IV_BYTES),
+        additionalData: chunkAdditionalData(path, row.start_pos),
+      },
+      key,
+      stored.subarray(IV_BYTES)
+    ),
+    encrypted: false,
+  };
+};
+
+/**
+ * builds the cipher a store encrypts chunks with.
+ * NOTE: unwrapped data keys are cached per wrapped key, so a provider backed by a remote KMS is called once per stream rather than once per read.
+ */
+export const createChunkCipher = (provider: StreamKeyProvider): ChunkCipher => {
+  const keys = new Map<string, Promise<CryptoKey>>();
+
+  const cacheKey = (cacheId: string, key: Promise<CryptoKey>) => {
+    if (keys.size >= MAX_CACHED_DATA_KEYS) {
+      const oldest = keys.keys().next().value;
+      if (oldest !== undefined) {
+        keys.delete(oldest);
+      }
+    }
+    keys.set(cacheId, key);
+    key.catch(() => keys.delete(cacheId));
+    return key;
+  };
+
+  const dataKeyFor = (dataKey: WrappedDataKey): Promise<CryptoKey> => {
+    const cacheId = `${dataKey.keyId}:${dataKey.wrappedKey}`;
+    return (
+      keys.get(cacheId) ??
+      cacheKey(
+        cacheId,
+        provider
+          .unwrapKey(dataKey.keyId, decodeBase64Data(dataKey.wrappedKey))
+          .then(importDataKey)
+      )
+    );
+  };
+
+  const wrapDataKey = async (raw: Uint8Array): Promise<WrappedDataKey> => {
+    const keyId = await provider.currentKeyId();
+    const wrappedKey = encodeBase64Data(await provider.wrapKey(keyId, raw));
+    return { keyId, wrappedKey };
+  };
+
+  return {
+    createDataKey: async () => {
+      const raw = crypto.getRandomValues(new Uint8Array(DATA_KEY_BYTES));
+      const dataKey = await wrapDataKey(raw);
+      cacheKey(`${dataKey.keyId}:${dataKey.wrappedKey}`, importDataKey(raw));
+      return dataKey;
+    },
+    rewrapDataKey: async (dataKey) => {
+      if (dataKey.keyId === (await provider.currentKeyId())) {
+        return dataKey;
+      }
+      return await wrapDataKey(
+        await provider.unwrapKey(
+          dataKey.keyId,
+          decodeBase64Data(dataKey.wrappedKey)
+        )
+      );
+    },
+    encryptChunks: async (path, dataKey, chunks) => {
+      const key = await dataKeyFor(dataKey);
+      return await Promise.all(
+        chunks.map((chunk) => encryptChunk(key, path, chunk))
+      );
+    },
+    decryptChunkRows: async (path, dataKey, rows) => {
+      const key = await dataKeyFor(dataKey);
+      return await Promise.all(
+        rows.map((row) =>
+          row.encrypted ? decryptChunkRow(key, path, row) : row
+        )
+      );
+    },
+  };
+};
+
+/**
+ * a key provider that wraps data keys with AES-KW key-encryption keys.
+ * NOTE: `keys` maps key ids to 16-, 24- or 32-byte keys; keep retired keys in it until `rotateDataKey` has rewrapped every stream they wrap.
+ */
+export const createAesKwKeyProvider = (
+  keys: Readonly<Record<string, Uint8Array>>,
+  currentKeyId: string
+): StreamKeyProvider => {
+  if (!Object.hasOwn(keys, currentKeyId)) {
+    throw new RangeError(`currentKeyId ${currentKeyId} is not a provider key`);
+  }
+
+  const importWrappingKey = async (keyId: string): Promise<CryptoKey> => {
+    const key = Object.hasOwn(keys, keyId) ? keys[keyId] : undefined;
+    if (key === undefined) {
+      throw new Error(`Unknown stream key id ${keyId}`);
+    }
+    return await crypto.subtle.importKey("raw", key, "AES-KW", false, [
+      "wrapKey",
+      "unwrapKey",
+    ]);
+  };
+
+  return {
+    currentKeyId: () => currentKeyId,
+    wrapKey: async (keyId, dataKey) => {
+      const [wrappingKey, key] = await Promise.all([
+        importWrappingKey(keyId),
+        crypto.subtle.importKey("raw", dataKey, "AES-GCM", true, ["encrypt"]),
+      ]);
+      return new Uint8Array(
+        await crypto.subtle.wrapKey("raw", key, wrappingKey, "AES-KW")
+      );
+    },
+    unwrapKey: async (keyId, wrappedKey) => {
+      const key = await crypto.subtle.unwrapKey(
+        "raw",
+        wrappedKey,
+        await importWrappingKey(keyId),
+        "AES-KW",
+        "AES-GCM",
+        true,
+        ["encrypt"]
+      );
+      return new Uint8Array(
+        (await crypto.subtle.exportKey("raw", key)) as ArrayBuffer
+      );
+    },
+  };
+};
+
+/**
+ * the largest plaintext chunk whose stored form still fits in `maxChunkBytes`.
+ */
+export const plaintextChunkBytes = (
+  maxChunkBytes: number,
+  codec: ChunkCodec
+): number => {
+  if (codec.cipher === undefined) {
+    return maxChunkBytes;
+  }
+  if (maxChunkBytes <= ENCRYPTED_CHUNK_OVERHEAD_BYTES) {
+    throw new RangeError(
+      `chunk limit must be above ${ENCRYPTED_CHUNK_OVERHEAD_BYTES} bytes when encrypting`
+    );
+  }
+  return maxChunkBytes - ENCRYPTED_CHUNK_OVERHEAD_BYTES;
+};
+
+/**
+ * compresses and then encrypts chunks for storage.
+ * NOTE: chunks are only encrypted when the store has a cipher and the stream a data key; offsets and positions stay defined over the plaintext.
+ */
+export const encodeChunks = async (
+  codec: ChunkCodec,
+  path: string,
+  dataKey: WrappedDataKey | undefined,
+  chunks: readonly PendingChunk[]
+): Promise<StoredChunk[]> => {
+  const compressed = await compressChunks(chunks, codec.compression);
+  return codec.cipher === undefined || dataKey === undefined
+    ? compressed
+    : await codec.cipher.encryptChunks(path, dataKey, compressed);
+};
+
+/**
+ * decrypts and then decompresses chunk rows read back from a backend.
+ */
+export const decodeChunkRows = async (
+  codec: ChunkCodec,
+  path: string,
+  dataKey: WrappedDataKey | undefined,
+  rows: readonly ChunkRow[]
+): Promise<ChunkRow[]> => {
+  if (!rows.some((row) => row.encrypted)) {
+    return await decompressChunkRows(rows);
+  }
+  if (codec.cipher === undefined || dataKey === undefined) {
+    throw new Error(
+      `Stream ${path} has encrypted chunks; configure the store's keyProvider to read them`
+    );
+  }
+  return await decompressChunkRows(
+    await codec.cipher.decryptChunkRows(path, dataKey, rows)
+  );
+};
+
+/**
+ * the data key a write to a stream encrypts with: the stream's own, or a new one when it has none yet.
+ */
+export const writeDataKey = async (
+  codec: ChunkCodec,
+  dataKey: WrappedDataKey | undefined
+): Promise<WrappedDataKey | undefined> => {
+  if (codec.cipher === undefined || dataKey !== undefined) {
+    return dataKey;
+  }
+  return await codec.cipher.createDataKey();
+};
+
+/**
+ * a stream's data key wrapped with the provider's current key, or the same key when there is nothing to rewrap.
+ */
+export const rotatedDataKey = async (
+  codec: ChunkCodec,
+  dataKey: WrappedDataKey | undefined
+): Promise<WrappedDataKey | undefined> =>
+  codec.cipher === undefined || dataKey === undefined
+    ? dataKey
+    : await codec.cipher.rewrapDataKey(dataKey);
@@ -4,12 +4,37 @@ export {
   type D1StoreOptions,
   DEFAULT_D1_MAX_CHUNK_BYTES,
 } from "./d1.js";
+export {
+  createAesKwKeyProvider,
+  ENCRYPTED_CHUNK_OVERHEAD_BYTES,
+  type StreamKeyProvider,
+} from "./encryption.js";
 export type { StreamStore } from "./interface.js";
-export { KVStore } from "./kv.js";
-export { MemoryStore } from "./memory.js";
-export { R2Store } from "./r2.js";
+export {
+  DEFAULT_KV_MAX_CHUNK_BYTES,
+  KVStore,
+  type KVStoreOptions,
+} from "./kv.js";
+export { MemoryStore, type MemoryStoreOptions } from "./memory.js";
+export {
+  createDurableObjectNotifier,
+  createPollingNotifier,
+  DEFAULT_POLLING_INITIAL_INTERVAL_MS,
+  DEFAULT_POLLING_MAX_INTERVAL_MS,
+  NOTIFIER_WAIT_TIMEOUT_MS,
+  type PollingNotifierOptions,
+  type StreamNotifier,
+  StreamNotifierObject,
+} from "./notifier.js";
+export { parentStreamPrefix, type StreamQuotas } from "./quotas.js";
+export {
+  DEFAULT_R2_MAX_SEGMENT_BYTES,
+  R2Store,
+  type R2StoreOptions,
+} from "./r2.js";
 export {
   DEFAULT_SQLITE_MAX_CHUNK_BYTES,
   SqliteStore,
   type SqliteStoreOptions,
 } from "./sqlite.js";
+export { DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT } from "./utils.js";
@@ -1,9 +1,13 @@
 import type {
+  AppendBatchResult,
   AppendOptions,
   AppendResult,
+  FormatOptions,
   GetOptions,
   GetResult,
   HeadResult,
+  ListOptions,
+  ListResult,
   Offset,
   PutOptions,
   PutResult,
@@ -20,6 +24,16 @@ export type StreamStore = {
     options?: AppendOptions
   ): Promise<AppendResult>;
 
+  /**
+   * appends every record atomically, each as its own message.
+   * NOTE: producer, `seq` and `close` options apply once to the whole batch.
+   */
+  appendBatch(
+    path: string,
+    records: readonly Uint8Array[],
+    options?: AppendOptions
+  ): Promise<AppendBatchResult>;
+
   get(path: string, options?: GetOptions): Promise<GetResult>;
 
   head(path: string): Promise<HeadResult | null>;
@@ -28,11 +42,17 @@ export type StreamStore = {
 
   has(path: string): boolean;
 
+  list(options?: ListOptions): Promise<ListResult>;
+
   waitForData(
     path: string,
     offset: Offset,
     timeoutMs: number
   ): Promise<WaitResult>;
 
-  formatResponse(path: string, messages: StreamMessage[]): Uint8Array;
+  formatResponse(
+    path: string,
+    messages: StreamMessage[],
+    options?: FormatOptions
+  ): Uint8Array;
 };
@@ -1,43 +1,111 @@
 import { calculateCursor } from "../cursor.js";
 import { StreamConflictError, StreamNotFoundError } from "../errors.js";
 import { initialOffset, offsetToBytePos } from "../offsets.js";
-import { commitProducerAppend, evaluateProducerAppend } from "../producer.js";
 import {
-  formatJsonResponse,
-  generateETag,
-  isExpired,
-  isJsonContentType,
-} from "../protocol.js";
+  commitProducerAppend,
+  evaluateProducerAppend,
+  type ProducerAppendDecision,
+} from "../producer.js";
+import { generateETag, isExpired } from "../protocol.js";
 import {
+  type ChunkIndexEntry,
   decodePersistedStreamMetadata,
   type PersistedStreamMetadata,
+  type StorageCompression,
 } from "../schema.js";
 import type {
+  AppendBatchResult,
   AppendOptions,
   AppendResult,
+  FormatOptions,
   GetOptions,
   GetResult,
   HeadResult,
+  ListOptions,
+  ListResult,
   Offset,
   PutOptions,
   PutResult,
   StreamMessage,
+  StreamMetadata,
   WaitResult,
 } from "../types.js";
+import {
+  type ChunkIndexUpdate,
+  type ChunkLoader,
+  chunkIndexEntry,
+  chunkPayload,
+  chunkReadOffset,
+  currentRetentionFloor,
+  droppedChunks,
+  mapInBatches,
+  type PackedChunk,
+  packableTail,
+  packChunks,
+  packLegacyData,
+  pendingChunk,
+  selectIndexedChunks,
+  storedChunkIndex,
+  type UnpackedChunk,
+  unpackChunk,
+  unpackedChunkRows,
+  updateChunkIndex,
+} from "./chunk-index.js";
+import { resolveStorageCompression, type StoredChunk } from "./compression.js";
+import {
+  type ChunkCodec,
+  createChunkCipher,
+  decodeChunkRows,
+  encodeChunks,
+  plaintextChunkBytes,
+  rotatedDataKey,
+  type StreamKeyProvider,
+  writeDataKey,
+} from "./encryption.js";
 import type { StreamStore } from "./interface.js";
+import type { StreamNotifier } from "./notifier.js";
+import {
+  assertStreamBytesQuota,
+  assertStreamCountQuota,
+  createProducerRateLimiter,
+  type ProducerRateLimiter,
+  refundingOnFailure,
+  resolveStreamQuotas,
+  type StreamQuotas,
+} from "./quotas.js";
 import {
   appendResult,
+  assertOffsetRetained,
   assertStreamLive,
+  batchResult,
+  type ChunkMessages,
+  type ChunkRow,
   closedAppendResult,
+  collectMessages,
+  formatMessages,
   inheritedExpiration,
+  type MessageLog,
+  messagesFromChunks,
   normalizeForkSubOffset,
-  prepareAppendData,
+  type PreparedAppendBatch,
+  paginateMessages,
+  persistedStreamMetadata,
+  prepareAppendBatch,
   prepareForkData,
   prepareInitialData,
+  recordsByteLength,
   resolveCreateContentType,
+  resolveForkFraming,
+  resolveForkJsonSchema,
+  resolveListLimit,
+  retainCreatedLog,
+  retainedReadOffset,
+  type StreamFormat,
   validateAppendContentType,
   validateAppendSeq,
+  validateGetOptions,
   validateIdempotentCreate,
+  validateRetentionPolicy,
 } from "./utils.js";
 import {
   notifyDataWaiters,
@@ -46,37 +114,344 @@ import {
   waitForChange,
 } from "./waiters.js";
 
-type StreamRecord = PersistedStreamMetadata;
+type StreamRecord = PersistedStreamMetadata & {
+  readonly chunks: readonly ChunkIndexEntry[];
+};
+
+export type KVStoreOptions = {
+  /**
+   * max bytes for one stored stream chunk.
+   * NOTE: appends are packed into the last chunk until it is full, and appends larger than this are split into continuation chunks, so it only has to stay below KV's per-value ceiling.
+   */
+  readonly maxChunkBytes?: number;
+  /**
+   * max chunk values one read fetches.
+   * NOTE: a read that reaches the limit returns what it fetched as a partial page, so a read never needs more KV subrequests than this plus the continuation chunks of its last append.
+   */
+  readonly maxReadChunks?: number;
+  /**
+   * compresses chunk values before they are written.
+   * NOTE: chunks are packed on uncompressed bytes and a chunk is kept raw when compression would not shrink it, so stored values never exceed `maxChunkBytes`.
+   */
+  readonly compression?: StorageCompression;
+  /**
+   * encrypts chunk values with a per-stream AES-GCM data key wrapped by this provider.
+   * NOTE: chunks are packed so the encrypted value still fits in `maxChunkBytes`; streams created without a provider get a data key on their next append.
+   */
+  readonly keyProvider?: StreamKeyProvider;
+  /**
+   * size, stream count and producer rate limits, refused with `QuotaExceededError`.
+   * NOTE: KV has no transactions, so creates racing from several isolates can overshoot the stream count by the number of racers.
+   */
+  readonly quotas?: StreamQuotas;
+  /**
+   * wakes live reads when another isolate appends to or deletes a stream.
+   * NOTE: without one, waits only end early for writes made through this store instance.
+   */
+  readonly notifier?: StreamNotifier;
+};
+
+export const DEFAULT_KV_MAX_CHUNK_BYTES = 1_000_000;
+export const DEFAULT_KV_MAX_READ_CHUNKS = 10;
+const CLOUDFLARE_KV_MAX_VALUE_BYTES = 25 * 1024 * 1024;
+const KV_WRITE_BATCH_KEYS = 50;
+
+const resolveMaxChunkBytes = (value: number | undefined): number => {
+  const maxChunkBytes = value ?? DEFAULT_KV_MAX_CHUNK_BYTES;
+  if (
+    !Number.isSafeInteger(maxChunkBytes) ||
+    maxChunkBytes <= 0 ||
+    maxChunkBytes > CLOUDFLARE_KV_MAX_VALUE_BYTES
+  ) {
+    throw new RangeError(
+      `maxChunkBytes must be an integer between 1 and ${CLOUDFLARE_KV_MAX_VALUE_BYTES}`
+    );
+  }
+
+  return maxChunkBytes;
+};
 
+const resolveMaxReadChunks = (value: number | undefined): number => {
+  const maxReadChunks = value ?? DEFAULT_KV_MAX_READ_CHUNKS;
+  if (!Number.isSafeInteger(maxReadChunks) || maxReadChunks <= 0) {
+    throw new RangeError("maxReadChunks must be a positive integer");
+  }
+
+  return maxReadChunks;
+};
+
+type StoredChunkIndex = Pick<ChunkIndexUpdate, "chunks" | "trimmedOffset">;
+
+/**
+ * kv store backed by one metadata record per stream and chunk keys packed with whole appends.
+ * NOTE: the metadata record indexes every chunk, so an append rewrites at most the last chunk it fills, writes any new chunks plus the record, and never touches earlier chunks.
+ * NOTE: an index entry bounds the bytes and appends it covers, so a reader whose record predates a tail rewrite still reads the chunk as indexed; KV propagates writes eventually, and a reader that sees the new record before the rewritten chunk fails rather than returning a short read.
+ * NOTE: chunk keys live under `chunk:` rather than `stream:` so listing streams never pages through stream data.
+ */
 export class KVStore implements StreamStore {
   private readonly kv: KVNamespace;
+  private readonly codec: ChunkCodec;
+  private readonly maxChunkDataBytes: number;
+  private readonly maxReadChunks: number;
+  private readonly quotas: StreamQuotas;
+  private readonly limitProducerAppend: ProducerRateLimiter;
+  private readonly notifier: StreamNotifier | undefined;
   private readonly waiters = new Map<string, Waiter[]>();
-  private readonly streamCache = new Map<string, { contentType: string }>();
+  private readonly streamCache = new Map<string, StreamFormat>();
 
-  constructor(kv: KVNamespace) {
+  constructor(kv: KVNamespace, options?: KVStoreOptions) {
     this.kv = kv;
+    this.codec = {
+      compression: resolveStorageCompression(options?.compression),
+      cipher:
+        options?.keyProvider === undefined
+          ? undefined
+          : createChunkCipher(options.keyProvider),
+    };
+    this.maxChunkDataBytes = plaintextChunkBytes(
+      resolveMaxChunkBytes(options?.maxChunkBytes),
+      this.codec
+    );
+    this.maxReadChunks = resolveMaxReadChunks(options?.maxReadChunks);
+    this.quotas = resolveStreamQuotas(options?.quotas);
+    this.limitProducerAppend = createProducerRateLimiter(this.quotas);
+    this.notifier = options?.notifier;
   }
 
   private metaKey(path: string): string {
     return `stream:${path}:meta`;
   }
 
-  private dataKey(path: string): string {
+  private metaKeyPrefix(pathPrefix: string): string {
+    return `stream:${pathPrefix}`;
+  }
+
+  private metaKeyPath(key: string): string | undefined {
+    return key.endsWith(":meta")
+      ? key.slice("stream:".length, -":meta".length)
+      : undefined;
+  }
+
+  private chunkKey(path: string, startPos: number): string {
+    return `chunk:${path}:${startPos}`;
+  }
+
+  private legacyDataKey(path: string): string {
     return `stream:${path}:data`;
   }
 
   private async getMetadata(path: string): Promise<StreamRecord | null> {
     const metadata = await this.kv.get(this.metaKey(path), "json");
-    return metadata === null ? null : decodePersistedStreamMetadata(metadata);
+    if (metadata === null) {
+      return null;
+    }
+
+    const meta = decodePersistedStreamMetadata(metadata);
+    return meta.chunks === undefined
+      ? await this.upgradeLegacyRecord(path, meta)
+      : { ...meta, chunks: meta.chunks };
+  }
+
+  /**
+   * moves the single data value a stream was stored as before chunk keys existed into chunks indexed by its metadata record.
+   * NOTE: the chunks are written unencrypted, so isolates upgrading the same stream at once write identical values; the stream gets a data key on its next append.
+   * NOTE: a record that reports bytes whose data value is gone was upgraded by another isolate and read before its write propagated, so the read fails rather than indexing an empty stream.
+   */
+  private async upgradeLegacyRecord(
+    path: string,
+    meta: PersistedStreamMetadata
+  ): Promise<StreamRecord> {
+    const key = this.legacyDataKey(path);
+    const data = await this.kv.get(key, "arrayBuffer");
+    if (data === null && offsetToBytePos(meta.nextOffset) > 0) {
+      throw new Error(`Stream data ${key} is missing`);
+    }
+
+    const packed = packLegacyData(
+      data === null ? new Uint8Array(0) : new Uint8Array(data),
+      meta.nextOffset,
+      meta.createdAt,
+      this.maxChunkDataBytes
+    );
+    const stored = await encodeChunks(
+      this.codec,
+      path,
+      undefined,
+      packed.map(chunkPayload)
+    );
+    const upgraded: StreamRecord = {
+      ...meta,
+      chunks: packed.map((chunk, index) =>
+        chunkIndexEntry(chunk, stored[index])
+      ),
+    };
+    await this.putChunks(path, stored);
+    await this.putMetadata(path, upgraded);
+    await this.kv.delete(key);
+    return upgraded;
   }
 
   private async putMetadata(path: string, meta: StreamRecord): Promise<void> {
     await this.kv.put(this.metaKey(path), JSON.stringify(meta));
   }
 
-  private async getData(path: string): Promise<Uint8Array> {
-    const raw = await this.kv.get(this.dataKey(path), "arrayBuffer");
-    return raw ? new Uint8Array(raw) : new Uint8Array(0);
+  private async putChunks(
+    path: string,
+    chunks: readonly StoredChunk[]
+  ): Promise<void> {
+    await mapInBatches(chunks, KV_WRITE_BATCH_KEYS, (chunk) =>
+      this.kv.put(this.chunkKey(path, chunk.startPos), chunk.stored)
+    );
+  }
+
+  private async deleteChunks(
+    path: string,
+    chunks: readonly ChunkIndexEntry[]
+  ): Promise<void> {
+    await mapInBatches(chunks, KV_WRITE_BATCH_KEYS, (chunk) =>
+      this.kv.delete(this.chunkKey(path, chunk.startPos))
+    );
+  }
+
+  private async readChunks(
+    path: string,
+    meta: StreamRecord,
+    chunks: readonly ChunkIndexEntry[]
+  ): Promise<UnpackedChunk[]> {
+    const rows = await mapInBatches(
+      chunks,
+      this.maxReadChunks,
+      async (chunk): Promise<ChunkRow> => {
+        const key = this.chunkKey(path, chunk.startPos);
+        const data = await this.kv.get(key, "arrayBuffer");
+        if (data === null) {
+          throw new Error(`Stream chunk ${key} is missing`);
+        }
+        return {
+          start_pos: chunk.startPos,
+          end_pos: chunk.endPos,
+          start_offset: chunk.startOffset,
+          end_offset: chunk.endOffset,
+          created_at: chunk.timestamp,
+          data,
+          compression: chunk.compression,
+          encrypted: chunk.encrypted,
+        };
+      }
+    );
+    const decoded = await decodeChunkRows(this.codec, path, meta.dataKey, rows);
+    return decoded.map((row, index) =>
+      unpackChunk(chunks[index] as ChunkIndexEntry, row.data)
+    );
+  }
+
+  /**
+   * loads single chunks for index lookups, taking chunks that are about to be written from `pending`.
+   */
+  private chunkLoader(
+    path: string,
+    meta: StreamRecord,
+    pending: readonly PackedChunk[] = []
+  ): ChunkLoader {
+    return async (entry) =>
+      pendingChunk(entry, pending) ??
+      ((await this.readChunks(path, meta, [entry]))[0] as UnpackedChunk);
+  }
+
+  /**
+   * reads one message per append from `startOffset`, fetching at most `maxReadChunks` chunks the read can touch.
+   */
+  private async readMessages(
+    path: string,
+    meta: StreamRecord,
+    startOffset: Offset,
+    options?: GetOptions
+  ): Promise<ChunkMessages> {
+    const startPos = offsetToBytePos(startOffset);
+    const chunks = await this.readChunks(
+      path,
+      meta,
+      selectIndexedChunks(meta.chunks, startPos, options, this.maxReadChunks)
+    );
+    return messagesFromChunks(
+      unpackedChunkRows(chunks, startPos),
+      startOffset,
+      meta.createdAt
+    );
+  }
+
+  private async readLog(path: string, meta: StreamRecord): Promise<MessageLog> {
+    const chunks = await this.readChunks(path, meta, meta.chunks);
+    return {
+      ...collectMessages(
+        messagesFromChunks(
+          unpackedChunkRows(chunks, 0),
+          initialOffset(),
+          meta.createdAt
+        ).messages
+      ),
+      startPos:
+        meta.trimmedOffset === undefined
+          ? undefined
+          : offsetToBytePos(meta.trimmedOffset),
+    };
+  }
+
+  /**
+   * writes packed chunks and applies the stream's retention policy to its chunk index.
+   * NOTE: the caller stores the returned index in the metadata record, then deletes the chunks the previous index had and it dropped.
+   */
+  private async storeChunks(
+    path: string,
+    meta: StreamRecord,
+    packed: readonly PackedChunk[],
+    tailOffset: Offset,
+    dataKey: StreamRecord["dataKey"]
+  ): Promise<StoredChunkIndex> {
+    const update = await updateChunkIndex(
+      meta.chunks,
+      packed,
+      tailOffset,
+      meta.retention,
+      this.chunkLoader(path, meta, packed)
+    );
+    const stored = await encodeChunks(
+      this.codec,
+      path,
+      dataKey,
+      update.writes.map(chunkPayload)
+    );
+    await this.putChunks(path, stored);
+    return {
+      chunks: storedChunkIndex(update, stored),
+      trimmedOffset: update.trimmedOffset,
+    };
+  }
+
+  /**
+   * the stream as a read sees it, without the appends that aged out of its retention policy since its last append.
+   * NOTE: only appends trim and delete chunks; KV has no compare-and-swap, so a read writing a trim back could drop the index entry of an append landing in another isolate.
+   */
+  private async retainedView(
+    path: string,
+    meta: StreamRecord
+  ): Promise<StreamRecord> {
+    const floor = await currentRetentionFloor(
+      meta.chunks,
+      meta.nextOffset,
+      meta.retention,
+      this.chunkLoader(path, meta)
+    );
+    if (floor === undefined) {
+      return meta;
+    }
+
+    const floorPos = offsetToBytePos(floor);
+    return {
+      ...meta,
+      chunks: meta.chunks.filter((chunk) => chunk.endPos > floorPos),
+      trimmedOffset: floor,
+    };
   }
 
   private async getStreamMetadata(path: string): Promise<StreamRecord | null> {
@@ -121,10 +496,8 @@ export class KVStore implements StreamStore {
 
   private async hardDelete(path: string, meta: StreamRecord): Promise<void> {
     this.notifyDeleted(path);
-    await Promise.all([
-      this.kv.delete(this.metaKey(path)),
-      this.kv.delete(this.dataKey(path)),
-    ]);
+    await this.kv.delete(this.metaKey(path));
+    await this.deleteChunks(path, meta.chunks);
     await this.releaseParent(meta.forkedFrom);
   }
 
@@ -149,29 +522,43 @@ export class KVStore implements StreamStore {
     await this.putMetadata(parentPath, updated);
   }
 
+  private idempotentCreateResult(
+    existing: StreamRecord,
+    options: PutOptions
+  ): PutResult {
+    if (existing.deleted === true) {
+      throw new StreamConflictError("stream is gone");
+    }
+    validateIdempotentCreate(existing, options);
+    return {
+      created: false,
+      nextOffset: existing.nextOffset,
+      contentType: existing.contentType,
+      closed: existing.closed,
+    };
+  }
+
   async put(path: string, options: PutOptions): Promise<PutResult> {
     const existingMeta = await this.getStreamMetadata(path);
 
     if (existingMeta) {
-      if (existingMeta.deleted === true) {
-        throw new StreamConflictError("stream is gone");
-      }
-      validateIdempotentCreate(existingMeta, options);
-      return {
-        created: false,
-        nextOffset: existingMeta.nextOffset,
-        contentType: existingMeta.contentType,
-        closed: existingMeta.closed,
-      };
+      return this.idempotentCreateResult(existingMeta, options);
     }
 
+    await assertStreamCountQuota(path, this.quotas, (list) => this.list(list));
+    validateRetentionPolicy(options.retention);
     let contentType = resolveCreateContentType(options);
+    let retention = options.retention;
+    let trimmedOffset: Offset | undefined;
     let ttlSeconds = options.ttlSeconds;
     let expiresAt = options.expiresAt;
     let closed = options.closed === true;
     let forkedFrom: string | undefined;
     let forkOffset: Offset | undefined;
     let forkSubOffset: number | undefined;
+    let forkSource: StreamRecord | undefined;
+    let framing = options.framing;
+    let jsonSchema = options.jsonSchema;
     let prepared = prepareInitialData(options);
 
     if (options.forkedFrom !== undefined) {
@@ -184,24 +571,52 @@ export class KVStore implements StreamStore {
       }
       validateAppendContentType(source.contentType, options.contentType);
 
-      const sourceData = await this.getData(options.forkedFrom);
+      const sourceLog = await this.readLog(options.forkedFrom, source);
       forkedFrom = options.forkedFrom;
       forkOffset = options.forkOffset ?? source.nextOffset;
       forkSubOffset = normalizeForkSubOffset(options.forkSubOffset);
+      trimmedOffset = source.trimmedOffset;
+      assertOffsetRetained(options.forkedFrom, forkOffset, trimmedOffset);
+      framing = resolveForkFraming(source.framing, options);
+      jsonSchema = resolveForkJsonSchema(source.jsonSchema, options);
       prepared = prepareForkData(
-        sourceData,
+        sourceLog,
         forkOffset,
-        source.contentType,
+        { contentType: source.contentType, framing, jsonSchema },
         forkSubOffset,
         options.data
       );
       ({ ttlSeconds, expiresAt } = inheritedExpiration(source, options));
       contentType = source.contentType;
+      retention ??= source.retention;
       closed = false;
+      forkSource = source;
+    }
 
-      await this.putMetadata(options.forkedFrom, {
-        ...source,
-        childCount: (source.childCount ?? 0) + 1,
+    const retained = retainCreatedLog(prepared, retention, trimmedOffset);
+    assertStreamBytesQuota(
+      path,
+      this.quotas,
+      retained.nextOffset,
+      retained.trimmedOffset
+    );
+    const packed = packChunks(
+      undefined,
+      retained,
+      retained.nextOffset,
+      this.maxChunkDataBytes
+    );
+    const dataKey = await writeDataKey(this.codec, undefined);
+    const stored = await encodeChunks(
+      this.codec,
+      path,
+      dataKey,
+      packed.map(chunkPayload)
+    );
+    if (forkedFrom !== undefined && forkSource !== undefined) {
+      await this.putMetadata(forkedFrom, {
+        ...forkSource,
+        childCount: (forkSource.childCount ?? 0) + 1,
       });
     }
 
@@ -212,8 +627,8 @@ export class KVStore implements StreamStore {
       expiresAt,
       createdAt: now,
       lastAccessedAt: now,
-      nextOffset: prepared.nextOffset,
-      appendCount: prepared.appendCount,
+      nextOffset: retained.nextOffset,
+      appendCount: retained.appendCount,
       producers: {},
       closed,
       forkedFrom,
@@ -221,14 +636,20 @@ export class KVStore implements StreamStore {
       forkSubOffset,
       childCount: 0,
       deleted: false,
+      retention,
+      trimmedOffset: retained.trimmedOffset,
+      framing,
+      jsonSchema,
+      dataKey,
+      chunks: packed.map((chunk, index) =>
+        chunkIndexEntry(chunk, stored[index])
+      ),
     };
 
-    await Promise.all([
-      this.putMetadata(path, meta),
-      this.kv.put(this.dataKey(path), prepared.data),
-    ]);
+    await this.putChunks(path, stored);
+    await this.putMetadata(path, meta);
 
-    this.streamCache.set(path, { contentType });
+    this.streamCache.set(path, { contentType, framing });
 
     return {
       created: true,
@@ -238,12 +659,20 @@ export class KVStore implements StreamStore {
     };
   }
 
-  async append(
+  append(
     path: string,
     data: Uint8Array,
     options?: AppendOptions
   ): Promise<AppendResult> {
-    let meta = await this.getStreamMetadata(path);
+    return this.appendBatch(path, [data], options);
+  }
+
+  async appendBatch(
+    path: string,
+    records: readonly Uint8Array[],
+    options?: AppendOptions
+  ): Promise<AppendBatchResult> {
+    const meta = await this.getStreamMetadata(path);
 
     if (!meta) {
       throw new StreamNotFoundError(path);
@@ -255,67 +684,116 @@ export class KVStore implements StreamStore {
       producers,
       options?.producer
     );
+    const byteLength = recordsByteLength(records);
     const closedResult = closedAppendResult(
       path,
       meta.nextOffset,
       meta.closed === true,
-      data,
+      byteLength,
       options,
       producerDecision
     );
     if (closedResult) {
       await this.touchMetadata(path, meta);
-      return closedResult;
+      return batchResult(closedResult);
     }
 
-    if (data.length > 0) {
+    if (byteLength > 0) {
       validateAppendContentType(meta.contentType, options?.contentType);
     }
 
     if (producerDecision._tag === "Duplicate") {
       await this.touchMetadata(path, meta);
-      return {
+      return batchResult({
         nextOffset: meta.nextOffset,
         producer: producerDecision.result,
         closed: meta.closed,
         appended: false,
-      };
+      });
     }
     validateAppendSeq(meta.lastSeq, options?.seq);
 
-    const existingData = await this.getData(path);
-
-    const append = prepareAppendData(
-      existingData,
-      data,
-      meta.contentType,
+    const append = prepareAppendBatch(
+      {
+        data: new Uint8Array(0),
+        boundaries: [],
+        startPos: offsetToBytePos(meta.nextOffset),
+      },
+      records,
+      meta,
       meta.appendCount,
       meta.nextOffset
     );
+    assertStreamBytesQuota(
+      path,
+      this.quotas,
+      append.nextOffset,
+      meta.trimmedOffset
+    );
+    const updatedMeta = await refundingOnFailure(
+      this.limitProducerAppend(path, producerDecision),
+      () => this.writeAppend(path, meta, append, producerDecision, options)
+    );
+    await this.deleteChunks(
+      path,
+      droppedChunks(meta.chunks, updatedMeta.chunks)
+    );
 
-    meta = await this.touchMetadata(path, meta);
+    this.notifyWaiters(path, append, updatedMeta.closed === true);
+    await this.notifier?.publish(path);
+
+    return batchResult(
+      appendResult(
+        updatedMeta.nextOffset,
+        updatedMeta.closed === true,
+        append.appended,
+        producerDecision
+      ),
+      append.offsets
+    );
+  }
+
+  /**
+   * packs an append into chunks and stores the metadata record that indexes them.
+   */
+  private async writeAppend(
+    path: string,
+    meta: StreamRecord,
+    append: PreparedAppendBatch,
+    producerDecision: ProducerAppendDecision,
+    options: AppendOptions | undefined
+  ): Promise<StreamRecord> {
+    const tail = packableTail(meta.chunks, this.maxChunkDataBytes);
+    const packed = packChunks(
+      tail && (await this.readChunks(path, meta, [tail]))[0],
+      append,
+      append.nextOffset,
+      this.maxChunkDataBytes
+    );
+    const dataKey = await writeDataKey(this.codec, meta.dataKey);
+    const stored = await this.storeChunks(
+      path,
+      meta,
+      packed,
+      append.nextOffset,
+      dataKey
+    );
+
+    const touched = await this.touchMetadata(path, meta);
     const updatedMeta: StreamRecord = {
-      ...meta,
+      ...touched,
       nextOffset: append.nextOffset,
-      lastSeq: options?.seq ?? meta.lastSeq,
+      lastSeq: options?.seq ?? touched.lastSeq,
       appendCount: append.appendCount,
-      producers: commitProducerAppend(producers, producerDecision),
+      producers: commitProducerAppend(touched.producers, producerDecision),
       closed: options?.close === true,
+      trimmedOffset: stored.trimmedOffset ?? touched.trimmedOffset,
+      dataKey,
+      chunks: stored.chunks,
     };
 
-    await Promise.all([
-      this.kv.put(this.metaKey(path), JSON.stringify(updatedMeta)),
-      this.kv.put(this.dataKey(path), append.data),
-    ]);
-
-    this.notifyWaiters(path, append.data, updatedMeta.closed === true);
-
-    return appendResult(
-      updatedMeta.nextOffset,
-      updatedMeta.closed === true,
-      append.appended,
-      producerDecision
-    );
+    await this.putMetadata(path, updatedMeta);
+    return updatedMeta;
   }
 
   async get(path: string, options?: GetOptions): Promise<GetResult> {
@@ -328,31 +806,42 @@ export class KVStore implements StreamStore {
     assertStreamLive(path, meta);
     meta = await this.touchMetadata(path, meta);
 
-    this.streamCache.set(path, { contentType: meta.contentType });
-
-    const data = await this.getData(path);
-
-    const startOffset = options?.offset ?? initialOffset();
-    const byteOffset = offsetToBytePos(startOffset);
+    this.streamCache.set(path, {
+      contentType: meta.contentType,
+      framing: meta.framing,
+    });
 
-    const messages: StreamMessage[] = [];
+    meta = await this.retainedView(path, meta);
 
-    if (byteOffset < data.length) {
-      messages.push({
-        offset: startOffset,
-        timestamp: Date.now(),
-        data: data.slice(byteOffset),
-      });
-    }
+    validateGetOptions(options);
+    const startOffset = retainedReadOffset(
+      path,
+      await chunkReadOffset(
+        meta.chunks,
+        meta.nextOffset,
+        options,
+        this.chunkLoader(path, meta)
+      ),
+      meta.trimmedOffset
+    );
+    const read = await this.readMessages(path, meta, startOffset, options);
+    const page = paginateMessages(
+      read.messages,
+      meta.nextOffset,
+      meta,
+      options,
+      read.endOffset
+    );
 
     return {
-      messages,
-      nextOffset: meta.nextOffset,
-      upToDate: true,
+      messages: page.messages,
+      nextOffset: page.nextOffset,
+      upToDate: page.upToDate,
       cursor: calculateCursor(),
-      etag: generateETag(path, startOffset, meta.nextOffset),
+      etag: generateETag(path, startOffset, page.nextOffset, options?.filter),
       contentType: meta.contentType,
       closed: meta.closed === true,
+      framing: meta.framing,
     };
   }
 
@@ -365,7 +854,10 @@ export class KVStore implements StreamStore {
     }
     assertStreamLive(path, meta);
 
-    this.streamCache.set(path, { contentType: meta.contentType });
+    this.streamCache.set(path, {
+      contentType: meta.contentType,
+      framing: meta.framing,
+    });
 
     return {
       contentType: meta.contentType,
@@ -374,9 +866,27 @@ export class KVStore implements StreamStore {
       closed: meta.closed === true,
       ttlSeconds: meta.ttlSeconds,
       expiresAt: meta.expiresAt,
+      framing: meta.framing,
+      jsonSchema: meta.jsonSchema,
     };
   }
 
+  /**
+   * rewraps a stream's data key with the key provider's current key.
+   * NOTE: chunks are not re-encrypted, so rotation is one metadata write however long the stream is.
+   */
+  async rotateDataKey(path: string): Promise<void> {
+    const meta = await this.getStreamMetadata(path);
+    if (!meta) {
+      throw new StreamNotFoundError(path);
+    }
+
+    const dataKey = await rotatedDataKey(this.codec, meta.dataKey);
+    if (dataKey !== meta.dataKey) {
+      await this.putMetadata(path, { ...meta, dataKey });
+    }
+  }
+
   async delete(path: string): Promise<void> {
     const meta = await this.getStreamMetadata(path);
     if (!meta) {
@@ -388,21 +898,61 @@ export class KVStore implements StreamStore {
     if ((meta.childCount ?? 0) > 0) {
       await this.putMetadata(path, { ...meta, deleted: true });
       this.notifyDeleted(path);
-      return;
+    } else {
+      await this.hardDelete(path, meta);
     }
-
-    await this.hardDelete(path, meta);
+    await this.notifier?.publish(path);
   }
 
   has(path: string): boolean {
     return this.streamCache.has(path);
   }
 
-  async waitForData(
+  private async listedStream(key: string): Promise<StreamMetadata | null> {
+    const path = this.metaKeyPath(key);
+    if (path === undefined) {
+      return null;
+    }
+    const meta = await this.getStreamMetadata(path);
+    return meta && meta.deleted !== true
+      ? persistedStreamMetadata(path, meta)
+      : null;
+  }
+
+  /**
+   * lists streams through their metadata keys.
+   * NOTE: each stream owns several keys, so pages are requested a key at a time up to the remaining limit and never return more than `limit` streams.
+   */
+  async list(options?: ListOptions): Promise<ListResult> {
+    const limit = resolveListLimit(options);
+    const streams: StreamMetadata[] = [];
+    let cursor = options?.cursor;
+
+    do {
+      const page = await this.kv.list({
+        prefix: this.metaKeyPrefix(options?.prefix ?? ""),
+        cursor,
+        limit: limit - streams.length,
+      });
+      for (const key of page.keys) {
+        const stream = await this.listedStream(key.name);
+        if (stream) {
+          streams.push(stream);
+        }
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor !== undefined && streams.length < limit);
+
+    return { streams, cursor };
+  }
+
+  /**
+   * reads what a waiter at `offset` can return right now, or `undefined` when it has to keep waiting.
+   */
+  private async readWaitResult(
     path: string,
-    offset: Offset,
-    timeoutMs: number
-  ): Promise<WaitResult> {
+    offset: Offset
+  ): Promise<WaitResult | undefined> {
     let meta = await this.getStreamMetadata(path);
 
     if (!meta) {
@@ -411,24 +961,33 @@ export class KVStore implements StreamStore {
     assertStreamLive(path, meta);
     meta = await this.touchMetadata(path, meta);
 
-    const data = await this.getData(path);
-
-    const byteOffset = offsetToBytePos(offset);
+    meta = await this.retainedView(path, meta);
+    const { messages } = await this.readMessages(
+      path,
+      meta,
+      retainedReadOffset(path, offset, meta.trimmedOffset)
+    );
 
-    if (byteOffset < data.length) {
-      return {
-        messages: [
-          { offset, timestamp: Date.now(), data: data.slice(byteOffset) },
-        ],
-        timedOut: false,
-        closed: meta.closed,
-      };
+    if (messages.length > 0) {
+      return { messages, timedOut: false, closed: meta.closed };
     }
 
     if (meta.closed === true) {
       return { messages: [], timedOut: false, closed: true };
     }
+  }
+
+  async waitForData(
+    path: string,
+    offset: Offset,
+    timeoutMs: number
+  ): Promise<WaitResult> {
+    const ready = await this.readWaitResult(path, offset);
+    if (ready) {
+      return ready;
+    }
 
+    const notifier = this.notifier;
     return waitForChange(
       {
         add: (waiter) => {
@@ -445,38 +1004,31 @@ export class KVStore implements StreamStore {
         },
       },
       offset,
-      timeoutMs
+      timeoutMs,
+      notifier && {
+        subscribe: (onChange) => notifier.subscribe(path, onChange),
+        read: () => this.readWaitResult(path, offset),
+      }
     );
   }
 
-  formatResponse(path: string, messages: StreamMessage[]): Uint8Array {
+  formatResponse(
+    path: string,
+    messages: StreamMessage[],
+    options?: FormatOptions
+  ): Uint8Array {
     const cached = this.streamCache.get(path);
     if (!cached) {
       return new Uint8Array(0);
     }
 
-    if (messages.length === 0) {
-      const isJson = isJsonContentType(cached.contentType);
-      return isJson ? new TextEncoder().encode("[]") : new Uint8Array(0);
-    }
-
-    const combined = new Uint8Array(
-      messages.reduce((acc, m) => acc + m.data.length, 0)
-    );
-    let pos = 0;
-    for (const message of messages) {
-      combined.set(message.data, pos);
-      pos += message.data.length;
-    }
-
-    const isJson = isJsonContentType(cached.contentType);
-    return isJson ? formatJsonResponse(combined) : combined;
+    return formatMessages(messages, cached, options);
   }
 
-  private notifyWaiters(path: string, data: Uint8Array, closed = false): void {
+  private notifyWaiters(path: string, log: MessageLog, closed = false): void {
     const waiters = this.waiters.get(path) ?? [];
     this.waiters.set(path, []);
-    notifyDataWaiters(waiters, data, closed, (waiter) => {
+    notifyDataWaiters(waiters, log, closed, (waiter) => {
       const remaining = this.waiters.get(path) ?? [];
       remaining.push(waiter);
       this.waiters.set(path, remaining);
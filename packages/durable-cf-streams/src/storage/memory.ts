@@ -1,19 +1,19 @@
 import { calculateCursor } from "../cursor.js";
 import { StreamConflictError, StreamNotFoundError } from "../errors.js";
-import { initialOffset, offsetToBytePos } from "../offsets.js";
+import { initialOffset } from "../offsets.js";
 import { commitProducerAppend, evaluateProducerAppend } from "../producer.js";
-import {
-  formatJsonResponse,
-  generateETag,
-  isJsonContentType,
-  isMetadataExpired,
-} from "../protocol.js";
+import { generateETag, isMetadataExpired } from "../protocol.js";
+import type { MessageBoundary } from "../schema.js";
 import type {
+  AppendBatchResult,
   AppendOptions,
   AppendResult,
+  FormatOptions,
   GetOptions,
   GetResult,
   HeadResult,
+  ListOptions,
+  ListResult,
   Offset,
   ProducerStateMap,
   PutOptions,
@@ -23,19 +23,41 @@ import type {
   WaitResult,
 } from "../types.js";
 import type { StreamStore } from "./interface.js";
+import {
+  assertStreamBytesQuota,
+  assertStreamCountQuota,
+  createProducerRateLimiter,
+  type ProducerRateLimiter,
+  resolveStreamQuotas,
+  type StreamQuotas,
+} from "./quotas.js";
 import {
   appendResult,
+  applyRetention,
+  assertOffsetRetained,
   assertStreamLive,
+  batchResult,
   closedAppendResult,
+  formatMessages,
   inheritedExpiration,
+  logReadOffset,
   normalizeForkSubOffset,
-  prepareAppendData,
+  paginateMessages,
+  prepareAppendBatch,
   prepareForkData,
   prepareInitialData,
+  recordsByteLength,
   resolveCreateContentType,
+  resolveForkFraming,
+  resolveForkJsonSchema,
+  resolveListLimit,
+  retainCreatedLog,
+  retainedReadOffset,
+  sliceMessages,
   validateAppendContentType,
   validateAppendSeq,
   validateIdempotentCreate,
+  validateRetentionPolicy,
 } from "./utils.js";
 import {
   notifyDataWaiters,
@@ -47,6 +69,8 @@ import {
 type StoredStream = {
   metadata: StreamMetadata;
   data: Uint8Array;
+  boundaries: readonly MessageBoundary[];
+  startPos?: number;
   nextOffset: Offset;
   lastSeq: string | undefined;
   producers: ProducerStateMap;
@@ -55,8 +79,30 @@ type StoredStream = {
   waiters: Waiter[];
 };
 
+export type MemoryStoreOptions = {
+  /**
+   * size, stream count and producer rate limits, refused with `QuotaExceededError`.
+   * NOTE: creates run one at a time, so the stream count is exact for the streams in this store.
+   */
+  readonly quotas?: StreamQuotas;
+};
+
 export class MemoryStore implements StreamStore {
   private readonly streams = new Map<string, StoredStream>();
+  private readonly quotas: StreamQuotas;
+  private readonly limitProducerAppend: ProducerRateLimiter;
+  private createTail: Promise<unknown> = Promise.resolve();
+
+  constructor(options?: MemoryStoreOptions) {
+    this.quotas = resolveStreamQuotas(options?.quotas);
+    this.limitProducerAppend = createProducerRateLimiter(this.quotas);
+  }
+
+  private serializeCreate<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.createTail.then(operation);
+    this.createTail = result.catch(() => undefined);
+    return result;
+  }
 
   private getStream(path: string): StoredStream | undefined {
     const stream = this.streams.get(path);
@@ -88,6 +134,25 @@ export class MemoryStore implements StreamStore {
     this.streams.set(path, stream);
   }
 
+  private enforceRetention(stream: StoredStream): void {
+    const trimmed = applyRetention(
+      stream,
+      stream.nextOffset,
+      stream.metadata.retention
+    );
+    if (!trimmed) {
+      return;
+    }
+
+    stream.data = trimmed.log.data;
+    stream.boundaries = trimmed.log.boundaries;
+    stream.startPos = trimmed.log.startPos;
+    stream.metadata = {
+      ...stream.metadata,
+      trimmedOffset: trimmed.trimmedOffset,
+    };
+  }
+
   private expireStream(
     path: string,
     stream: StoredStream
@@ -127,28 +192,46 @@ export class MemoryStore implements StreamStore {
   }
 
   put(path: string, options: PutOptions): Promise<PutResult> {
+    return this.serializeCreate(() => this.create(path, options));
+  }
+
+  private idempotentCreateResult(
+    existing: StoredStream,
+    options: PutOptions
+  ): PutResult {
+    if (existing.metadata.deleted === true) {
+      throw new StreamConflictError("stream is gone");
+    }
+    validateIdempotentCreate(existing.metadata, options);
+    return {
+      created: false,
+      nextOffset: existing.nextOffset,
+      contentType: existing.metadata.contentType,
+      closed: existing.closed,
+    };
+  }
+
+  private async create(path: string, options: PutOptions): Promise<PutResult> {
     const existing = this.getStream(path);
 
     if (existing) {
-      if (existing.metadata.deleted === true) {
-        throw new StreamConflictError("stream is gone");
-      }
-      validateIdempotentCreate(existing.metadata, options);
-      return Promise.resolve({
-        created: false,
-        nextOffset: existing.nextOffset,
-        contentType: existing.metadata.contentType,
-        closed: existing.closed,
-      });
+      return this.idempotentCreateResult(existing, options);
     }
 
+    await assertStreamCountQuota(path, this.quotas, (list) => this.list(list));
+    validateRetentionPolicy(options.retention);
     let contentType = resolveCreateContentType(options);
+    let retention = options.retention;
+    let trimmedOffset: Offset | undefined;
     let ttlSeconds = options.ttlSeconds;
     let expiresAt = options.expiresAt;
     let closed = options.closed === true;
     let forkedFrom: string | undefined;
     let forkOffset: Offset | undefined;
     let forkSubOffset: number | undefined;
+    let forkSource: StoredStream | undefined;
+    let framing = options.framing;
+    let jsonSchema = options.jsonSchema;
     let prepared = prepareInitialData(options);
 
     if (options.forkedFrom !== undefined) {
@@ -167,10 +250,14 @@ export class MemoryStore implements StreamStore {
       forkedFrom = options.forkedFrom;
       forkOffset = options.forkOffset ?? source.nextOffset;
       forkSubOffset = normalizeForkSubOffset(options.forkSubOffset);
+      trimmedOffset = source.metadata.trimmedOffset;
+      assertOffsetRetained(options.forkedFrom, forkOffset, trimmedOffset);
+      framing = resolveForkFraming(source.metadata.framing, options);
+      jsonSchema = resolveForkJsonSchema(source.metadata.jsonSchema, options);
       prepared = prepareForkData(
-        source.data,
+        source,
         forkOffset,
-        source.metadata.contentType,
+        { contentType: source.metadata.contentType, framing, jsonSchema },
         forkSubOffset,
         options.data
       );
@@ -179,10 +266,22 @@ export class MemoryStore implements StreamStore {
         options
       ));
       contentType = source.metadata.contentType;
+      retention ??= source.metadata.retention;
       closed = false;
-      source.metadata = {
-        ...source.metadata,
-        childCount: (source.metadata.childCount ?? 0) + 1,
+      forkSource = source;
+    }
+
+    const retained = retainCreatedLog(prepared, retention, trimmedOffset);
+    assertStreamBytesQuota(
+      path,
+      this.quotas,
+      retained.nextOffset,
+      retained.trimmedOffset
+    );
+    if (forkSource) {
+      forkSource.metadata = {
+        ...forkSource.metadata,
+        childCount: (forkSource.metadata.childCount ?? 0) + 1,
       };
     }
 
@@ -200,24 +299,30 @@ export class MemoryStore implements StreamStore {
         forkSubOffset,
         childCount: 0,
         deleted: false,
+        retention,
+        trimmedOffset: retained.trimmedOffset,
+        framing,
+        jsonSchema,
       },
-      data: prepared.data,
-      nextOffset: prepared.nextOffset,
+      data: retained.data,
+      boundaries: retained.boundaries,
+      startPos: retained.startPos,
+      nextOffset: retained.nextOffset,
       lastSeq: undefined,
       producers: {},
-      appendCount: prepared.appendCount,
+      appendCount: retained.appendCount,
       closed,
       waiters: [],
     };
 
     this.streams.set(path, stream);
 
-    return Promise.resolve({
+    return {
       created: true,
       nextOffset: stream.nextOffset,
       contentType: stream.metadata.contentType,
       closed: stream.closed,
-    });
+    };
   }
 
   append(
@@ -225,6 +330,14 @@ export class MemoryStore implements StreamStore {
     data: Uint8Array,
     options?: AppendOptions
   ): Promise<AppendResult> {
+    return this.appendBatch(path, [data], options);
+  }
+
+  appendBatch(
+    path: string,
+    records: readonly Uint8Array[],
+    options?: AppendOptions
+  ): Promise<AppendBatchResult> {
     const stream = this.getLiveStream(path);
     if (!stream) {
       throw new StreamNotFoundError(path);
@@ -234,20 +347,21 @@ export class MemoryStore implements StreamStore {
       stream.producers,
       options?.producer
     );
+    const byteLength = recordsByteLength(records);
     const closedResult = closedAppendResult(
       path,
       stream.nextOffset,
       stream.closed,
-      data,
+      byteLength,
       options,
       producerDecision
     );
     if (closedResult) {
       this.touchStream(path, stream);
-      return Promise.resolve(closedResult);
+      return Promise.resolve(batchResult(closedResult));
     }
 
-    if (data.length > 0) {
+    if (byteLength > 0) {
       validateAppendContentType(
         stream.metadata.contentType,
         options?.contentType
@@ -256,41 +370,55 @@ export class MemoryStore implements StreamStore {
 
     if (producerDecision._tag === "Duplicate") {
       this.touchStream(path, stream);
-      return Promise.resolve({
-        nextOffset: stream.nextOffset,
-        producer: producerDecision.result,
-        closed: stream.closed,
-        appended: false,
-      });
+      return Promise.resolve(
+        batchResult({
+          nextOffset: stream.nextOffset,
+          producer: producerDecision.result,
+          closed: stream.closed,
+          appended: false,
+        })
+      );
     }
     validateAppendSeq(stream.lastSeq, options?.seq);
 
-    const append = prepareAppendData(
-      stream.data,
-      data,
-      stream.metadata.contentType,
+    const append = prepareAppendBatch(
+      stream,
+      records,
+      stream.metadata,
       stream.appendCount,
       stream.nextOffset
     );
+    assertStreamBytesQuota(
+      path,
+      this.quotas,
+      append.nextOffset,
+      stream.metadata.trimmedOffset
+    );
+    this.limitProducerAppend(path, producerDecision);
     if (options?.seq !== undefined) {
       stream.lastSeq = options.seq;
     }
     stream.producers = commitProducerAppend(stream.producers, producerDecision);
 
     stream.data = append.data;
+    stream.boundaries = append.boundaries;
     stream.appendCount = append.appendCount;
     stream.nextOffset = append.nextOffset;
     stream.closed = options?.close === true;
+    this.enforceRetention(stream);
     this.touchStream(path, stream);
 
     this.notifyWaiters(stream);
 
     return Promise.resolve(
-      appendResult(
-        stream.nextOffset,
-        stream.closed,
-        append.appended,
-        producerDecision
+      batchResult(
+        appendResult(
+          stream.nextOffset,
+          stream.closed,
+          append.appended,
+          producerDecision
+        ),
+        append.offsets
       )
     );
   }
@@ -301,31 +429,31 @@ export class MemoryStore implements StreamStore {
       return Promise.reject(new StreamNotFoundError(path));
     }
     this.touchStream(path, stream);
+    this.enforceRetention(stream);
 
-    const startOffset = options?.offset ?? initialOffset();
-    const byteOffset = offsetToBytePos(startOffset);
-
-    const messages: StreamMessage[] = [];
-
-    if (byteOffset < stream.data.length) {
-      const data = stream.data.slice(byteOffset);
-      messages.push({
-        offset: startOffset,
-        timestamp: Date.now(),
-        data,
-      });
-    }
+    const startOffset = retainedReadOffset(
+      path,
+      logReadOffset(stream, stream.nextOffset, options),
+      stream.metadata.trimmedOffset
+    );
+    const page = paginateMessages(
+      sliceMessages(stream, startOffset),
+      stream.nextOffset,
+      stream.metadata,
+      options
+    );
 
     return Promise.resolve({
-      messages,
-      nextOffset: stream.nextOffset,
-      upToDate: true,
+      messages: page.messages,
+      nextOffset: page.nextOffset,
+      upToDate: page.upToDate,
       cursor: calculateCursor(),
-      etag: generateETag(path, startOffset, stream.nextOffset),
+      etag: generateETag(path, startOffset, page.nextOffset, options?.filter),
       contentType: stream.metadata.contentType,
       closed: stream.closed,
       ttlSeconds: stream.metadata.ttlSeconds,
       expiresAt: stream.metadata.expiresAt,
+      framing: stream.metadata.framing,
     });
   }
 
@@ -343,6 +471,8 @@ export class MemoryStore implements StreamStore {
       closed: stream.closed,
       ttlSeconds: stream.metadata.ttlSeconds,
       expiresAt: stream.metadata.expiresAt,
+      framing: stream.metadata.framing,
+      jsonSchema: stream.metadata.jsonSchema,
     });
   }
 
@@ -369,6 +499,32 @@ export class MemoryStore implements StreamStore {
     return stream !== undefined && stream.metadata.deleted !== true;
   }
 
+  list(options?: ListOptions): Promise<ListResult> {
+    const limit = resolveListLimit(options);
+    const prefix = options?.prefix ?? "";
+    const cursor = options?.cursor;
+    const paths = [...this.streams.keys()]
+      .filter(
+        (path) =>
+          path.startsWith(prefix) && (cursor === undefined || path > cursor)
+      )
+      .sort();
+    const page = paths.slice(0, limit);
+
+    const streams: StreamMetadata[] = [];
+    for (const path of page) {
+      const stream = this.getStream(path);
+      if (stream && stream.metadata.deleted !== true) {
+        streams.push(stream.metadata);
+      }
+    }
+
+    return Promise.resolve({
+      streams,
+      cursor: paths.length > limit ? page.at(-1) : undefined,
+    });
+  }
+
   waitForData(
     path: string,
     offset: Offset,
@@ -379,13 +535,15 @@ export class MemoryStore implements StreamStore {
       return Promise.reject(new StreamNotFoundError(path));
     }
     this.touchStream(path, stream);
+    this.enforceRetention(stream);
 
-    const byteOffset = offsetToBytePos(offset);
-
-    if (byteOffset < stream.data.length) {
-      const data = stream.data.slice(byteOffset);
+    const messages = sliceMessages(
+      stream,
+      retainedReadOffset(path, offset, stream.metadata.trimmedOffset)
+    );
+    if (messages.length > 0) {
       return Promise.resolve({
-        messages: [{ offset, timestamp: Date.now(), data }],
+        messages,
         timedOut: false,
         closed: stream.closed,
       });
@@ -410,34 +568,23 @@ export class MemoryStore implements StreamStore {
     );
   }
 
-  formatResponse(path: string, messages: StreamMessage[]): Uint8Array {
+  formatResponse(
+    path: string,
+    messages: StreamMessage[],
+    options?: FormatOptions
+  ): Uint8Array {
     const stream = this.getStream(path);
     if (!stream) {
       return new Uint8Array(0);
     }
 
-    if (messages.length === 0) {
-      const isJson = isJsonContentType(stream.metadata.contentType);
-      return isJson ? new TextEncoder().encode("[]") : new Uint8Array(0);
-    }
-
-    const combined = new Uint8Array(
-      messages.reduce((acc, m) => acc + m.data.length, 0)
-    );
-    let offset = 0;
-    for (const message of messages) {
-      combined.set(message.data, offset);
-      offset += message.data.length;
-    }
-
-    const isJson = isJsonContentType(stream.metadata.contentType);
-    return isJson ? formatJsonResponse(combined) : combined;
+    return formatMessages(messages, stream.metadata, options);
   }
 
   private notifyWaiters(stream: StoredStream): void {
     const waiters = [...stream.waiters];
     stream.waiters = [];
-    notifyDataWaiters(waiters, stream.data, stream.closed, (waiter) =>
+    notifyDataWaiters(waiters, stream, stream.closed, (waiter) =>
       stream.waiters.push(waiter)
     );
   }
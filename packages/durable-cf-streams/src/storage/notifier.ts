@@ -0,0 +1,168 @@
+/**
+ * cross-isolate change feed for stores whose writers can run in another isolate or Worker.
+ * NOTE: a change is only a hint; subscribers re-read the stream, so a duplicate or spurious change costs one read and a lost one only delays a reader until its wait times out.
+ */
+export type StreamNotifier = {
+  readonly publish: (path: string) => Promise<void>;
+  readonly subscribe: (path: string, onChange: () => void) => () => void;
+};
+
+export type PollingNotifierOptions = {
+  readonly initialIntervalMs?: number;
+  readonly maxIntervalMs?: number;
+};
+
+export const DEFAULT_POLLING_INITIAL_INTERVAL_MS = 100;
+export const DEFAULT_POLLING_MAX_INTERVAL_MS = 2000;
+
+const assertInterval = (name: string, value: number): void => {
+  if (!(Number.isSafeInteger(value) && value > 0)) {
+    throw new RangeError(`${name} must be a positive integer`);
+  }
+};
+
+/**
+ * reports a possible change on a doubling interval, for deployments without a coordinator.
+ * NOTE: `publish` is a no-op, since every subscriber re-reads on its own schedule.
+ */
+export const createPollingNotifier = (
+  options?: PollingNotifierOptions
+): StreamNotifier => {
+  const initialIntervalMs =
+    options?.initialIntervalMs ?? DEFAULT_POLLING_INITIAL_INTERVAL_MS;
+  const maxIntervalMs =
+    options?.maxIntervalMs ?? DEFAULT_POLLING_MAX_INTERVAL_MS;
+  assertInterval("initialIntervalMs", initialIntervalMs);
+  assertInterval("maxIntervalMs", maxIntervalMs);
+
+  return {
+    publish: () => Promise.resolve(),
+    subscribe: (_path, onChange) => {
+      let intervalMs = initialIntervalMs;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const schedule = () => {
+        timer = setTimeout(() => {
+          intervalMs = Math.min(intervalMs * 2, maxIntervalMs);
+          schedule();
+          onChange();
+        }, intervalMs);
+      };
+      schedule();
+
+      return () => clearTimeout(timer);
+    },
+  };
+};
+
+const NOTIFIER_ORIGIN = "https://stream-notifier";
+const NOTIFIER_VERSION_PARAM = "since";
+export const NOTIFIER_WAIT_TIMEOUT_MS = 25_000;
+
+/**
+ * per-stream coordinator to bind as a durable object class for `createDurableObjectNotifier`.
+ * NOTE: `POST` bumps the stream's version; `GET ?since=<version>` answers at once when the version moved and otherwise holds until it does or `NOTIFIER_WAIT_TIMEOUT_MS` passes.
+ * NOTE: the version lives in memory, so an evicted coordinator restarts at 0 and its subscribers see one spurious change.
+ */
+export class StreamNotifierObject {
+  private version = 0;
+  private readonly listeners = new Set<(version: number) => void>();
+
+  fetch(request: Request): Promise<Response> | Response {
+    if (request.method === "POST") {
+      this.version++;
+      for (const listener of this.listeners) {
+        listener(this.version);
+      }
+      this.listeners.clear();
+      return new Response(null, { status: 204 });
+    }
+
+    const since = new URL(request.url).searchParams.get(NOTIFIER_VERSION_PARAM);
+    if (since === null || Number(since) !== this.version) {
+      return new Response(String(this.version));
+    }
+
+    return new Promise((resolve) => {
+      const listener = (version: number) => {
+        clearTimeout(timer);
+        resolve(new Response(String(version)));
+      };
+      const timer = setTimeout(() => {
+        this.listeners.delete(listener);
+        resolve(new Response(String(this.version)));
+      }, NOTIFIER_WAIT_TIMEOUT_MS);
+      this.listeners.add(listener);
+    });
+  }
+}
+
+const notifierStub = (
+  namespace: DurableObjectNamespace,
+  path: string
+): DurableObjectStub => namespace.get(namespace.idFromName(path));
+
+/**
+ * asks the coordinator for the stream's version once it moves past `since`.
+ * NOTE: an error response or a body that is not a version throws, so a failing coordinator ends the subscription instead of answering every poll at once.
+ */
+const waitForVersion = async (
+  stub: DurableObjectStub,
+  since: number | undefined,
+  signal: AbortSignal
+): Promise<number> => {
+  const url = new URL(NOTIFIER_ORIGIN);
+  if (since !== undefined) {
+    url.searchParams.set(NOTIFIER_VERSION_PARAM, String(since));
+  }
+  const response = await stub.fetch(url.toString(), { signal });
+  const body = await response.text();
+  const version = Number(body);
+  if (!(response.ok && body !== "" && Number.isSafeInteger(version))) {
+    throw new Error(
+      `Stream notifier answered ${response.status} with version "${body}"`
+    );
+  }
+  return version;
+};
+
+/**
+ * routes changes through one `StreamNotifierObject` per stream path.
+ * NOTE: every subscription re-reads once its first version arrives, so an append that lands between a reader's last read and its subscription is never missed.
+ * NOTE: a failed publish is logged rather than thrown, since the append it announces has already been stored; a subscription that loses its coordinator stops and the reader falls back to its wait timeout.
+ */
+export const createDurableObjectNotifier = (
+  namespace: DurableObjectNamespace
+): StreamNotifier => ({
+  publish: async (path) => {
+    try {
+      const response = await notifierStub(namespace, path).fetch(
+        NOTIFIER_ORIGIN,
+        { method: "POST" }
+      );
+      if (!response.ok) {
+        throw new Error(`Stream notifier answered ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Stream notifier publish failed:", error);
+    }
+  },
+  subscribe: (path, onChange) => {
+    const stub = notifierStub(namespace, path);
+    const controller = new AbortController();
+
+    const listen = async () => {
+      let since: number | undefined;
+      while (!controller.signal.aborted) {
+        const version = await waitForVersion(stub, since, controller.signal);
+        if (version !== since && !controller.signal.aborted) {
+          onChange();
+        }
+        since = version;
+      }
+    };
+    listen().catch(() => undefined);
+
+    return () => controller.abort();
+  },
+});
@@ -0,0 +1,189 @@
+import { QuotaExceededError } from "../errors.js";
+import { offsetToBytePos } from "../offsets.js";
+import type { ProducerAppendDecision } from "../producer.js";
+import type { ListOptions, ListResult, Offset } from "../types.js";
+import { MAX_LIST_LIMIT } from "./utils.js";
+
+/**
+ * limits a store enforces on every write.
+ */
+export type StreamQuotas = {
+  /**
+   * max readable bytes one stream may hold, counted like offsets (uncompressed, unencrypted) from its earliest retained offset.
+   * NOTE: checked before the append's own retention trim, so a stream meant to roll over should keep `Stream-Retention-Max-Bytes` below it.
+   */
+  readonly maxStreamBytes?: number;
+  /**
+   * max live streams under one prefix, as returned by `quotaPrefix`.
+   */
+  readonly maxStreamsPerPrefix?: number;
+  /**
+   * the prefix whose stream count a path counts against, e.g. the tenant's directory.
+   * NOTE: defaults to the path's parent directory, so `/v1/stream/tenant-a/orders` counts against `/v1/stream/tenant-a/`.
+   */
+  readonly quotaPrefix?: (path: string) => string;
+  /**
+   * max appends per second one producer (`Producer-Id`) may make to one stream.
+   * NOTE: counted by this store instance, so it is exact in a durable object and per isolate for a store shared through KV, R2 or D1. retries the store answers as duplicates are not counted, and appends the store fails to write, including every append of a failed transaction, are given back.
+   */
+  readonly maxProducerAppendsPerSecond?: number;
+};
+
+/**
+ * counts an accepted producer append against the rate quota, throwing `QuotaExceededError` when the producer is over it.
+ * NOTE: returns a refund that gives the append back, for a store whose write fails after the append was counted.
+ */
+export type ProducerRateLimiter = (
+  path: string,
+  decision: ProducerAppendDecision
+) => () => void;
+
+const noRefund = (): void => undefined;
+
+const RATE_WINDOW_MS = 1000;
+
+type RateWindow = {
+  readonly startedAt: number;
+  count: number;
+};
+
+const assertPositiveInteger = (name: string, value: number | undefined) => {
+  if (value !== undefined && !(Number.isSafeInteger(value) && value > 0)) {
+    throw new RangeError(`${name} must be a positive integer`);
+  }
+};
+
+export const resolveStreamQuotas = (
+  quotas: StreamQuotas | undefined
+): StreamQuotas => {
+  assertPositiveInteger("maxStreamBytes", quotas?.maxStreamBytes);
+  assertPositiveInteger("maxStreamsPerPrefix", quotas?.maxStreamsPerPrefix);
+  assertPositiveInteger(
+    "maxProducerAppendsPerSecond",
+    quotas?.maxProducerAppendsPerSecond
+  );
+  return quotas ?? {};
+};
+
+export const parentStreamPrefix = (path: string): string =>
+  path.slice(0, path.lastIndexOf("/") + 1);
+
+/**
+ * throws when a write would leave a stream holding more than `maxStreamBytes`.
+ */
+export const assertStreamBytesQuota = (
+  path: string,
+  quotas: StreamQuotas,
+  nextOffset: Offset,
+  trimmedOffset: Offset | undefined
+): void => {
+  if (quotas.maxStreamBytes === undefined) {
+    return;
+  }
+
+  const bytes =
+    offsetToBytePos(nextOffset) -
+    (trimmedOffset === undefined ? 0 : offsetToBytePos(trimmedOffset));
+  if (bytes > quotas.maxStreamBytes) {
+    throw new QuotaExceededError(
+      `Stream ${path} would hold ${bytes} bytes, over its quota of ${quotas.maxStreamBytes}`
+    );
+  }
+};
+
+/**
+ * throws when creating `path` would put more than `maxStreamsPerPrefix` live streams under its prefix.
+ * NOTE: streams are counted with the store's own `list`, stopping at the limit, so a check costs at most `maxStreamsPerPrefix / 1000 + 1` pages.
+ */
+export const assertStreamCountQuota = async (
+  path: string,
+  quotas: StreamQuotas,
+  list: (options: ListOptions) => Promise<ListResult>
+): Promise<void> => {
+  const max = quotas.maxStreamsPerPrefix;
+  if (max === undefined) {
+    return;
+  }
+
+  const prefix = (quotas.quotaPrefix ?? parentStreamPrefix)(path);
+  let count = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await list({ prefix, cursor, limit: MAX_LIST_LIMIT });
+    count += page.streams.length;
+    cursor = page.cursor;
+  } while (cursor !== undefined && count < max);
+
+  if (count >= max) {
+    throw new QuotaExceededError(
+      `Prefix ${prefix} already holds its quota of ${max} streams`
+    );
+  }
+};
+
+/**
+ * runs the write of an append counted by a `ProducerRateLimiter`, giving the append back when the write fails.
+ */
+export const refundingOnFailure = async <T>(
+  refund: () => void,
+  write: () => Promise<T>
+): Promise<T> => {
+  try {
+    return await write();
+  } catch (error) {
+    refund();
+    throw error;
+  }
+};
+
+/**
+ * builds the per-producer append rate check, counting appends in one-second windows.
+ */
+export const createProducerRateLimiter = (
+  quotas: StreamQuotas
+): ProducerRateLimiter => {
+  const max = quotas.maxProducerAppendsPerSecond;
+  const windows = new Map<string, RateWindow>();
+  let sweptAt = 0;
+
+  const sweep = (now: number) => {
+    if (now - sweptAt < RATE_WINDOW_MS) {
+      return;
+    }
+    sweptAt = now;
+    for (const [key, window] of windows) {
+      if (now - window.startedAt >= RATE_WINDOW_MS) {
+        windows.delete(key);
+      }
+    }
+  };
+
+  const counted = (window: RateWindow) => () => {
+    window.count = Math.max(0, window.count - 1);
+  };
+
+  return (path, decision) => {
+    if (max === undefined || decision._tag !== "Accepted") {
+      return noRefund;
+    }
+
+    const producerId = decision.result.id;
+    const now = Date.now();
+    sweep(now);
+    const key = `${path}\u0000${producerId}`;
+    const window = windows.get(key);
+    if (window === undefined || now - window.startedAt >= RATE_WINDOW_MS) {
+      const started = { startedAt: now, count: 1 };
+      windows.set(key, started);
+      return counted(started);
+    }
+    if (window.count >= max) {
+      throw new QuotaExceededError(
+        `Producer ${producerId} is over its quota of ${max} appends per second to ${path}`,
+        Math.ceil((window.startedAt + RATE_WINDOW_MS - now) / 1000)
+      );
+    }
+    window.count += 1;
+    return counted(window);
+  };
+};
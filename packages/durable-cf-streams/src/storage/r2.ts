@@ -1,43 +1,110 @@
 import { calculateCursor } from "../cursor.js";
 import { StreamConflictError, StreamNotFoundError } from "../errors.js";
 import { initialOffset, offsetToBytePos } from "../offsets.js";
-import { commitProducerAppend, evaluateProducerAppend } from "../producer.js";
 import {
-  formatJsonResponse,
-  generateETag,
-  isExpired,
-  isJsonContentType,
-} from "../protocol.js";
+  commitProducerAppend,
+  evaluateProducerAppend,
+  type ProducerAppendDecision,
+} from "../producer.js";
+import { generateETag, isExpired } from "../protocol.js";
 import {
+  type ChunkIndexEntry,
   decodePersistedStreamMetadataJson,
   type PersistedStreamMetadata,
+  type StorageCompression,
 } from "../schema.js";
 import type {
+  AppendBatchResult,
   AppendOptions,
   AppendResult,
+  FormatOptions,
   GetOptions,
   GetResult,
   HeadResult,
+  ListOptions,
+  ListResult,
   Offset,
   PutOptions,
   PutResult,
   StreamMessage,
+  StreamMetadata,
   WaitResult,
 } from "../types.js";
+import {
+  type ChunkIndexUpdate,
+  type ChunkLoader,
+  chunkIndexEntry,
+  chunkPayload,
+  chunkReadOffset,
+  droppedChunks,
+  mapInBatches,
+  type PackedChunk,
+  packableTail,
+  packChunks,
+  packLegacyData,
+  pendingChunk,
+  selectIndexedChunks,
+  storedChunkIndex,
+  type UnpackedChunk,
+  unpackChunk,
+  unpackedChunkRows,
+  updateChunkIndex,
+} from "./chunk-index.js";
+import { resolveStorageCompression, type StoredChunk } from "./compression.js";
+import {
+  type ChunkCodec,
+  createChunkCipher,
+  decodeChunkRows,
+  encodeChunks,
+  plaintextChunkBytes,
+  rotatedDataKey,
+  type StreamKeyProvider,
+  writeDataKey,
+} from "./encryption.js";
 import type { StreamStore } from "./interface.js";
+import type { StreamNotifier } from "./notifier.js";
+import {
+  assertStreamBytesQuota,
+  assertStreamCountQuota,
+  createProducerRateLimiter,
+  type ProducerRateLimiter,
+  refundingOnFailure,
+  resolveStreamQuotas,
+  type StreamQuotas,
+} from "./quotas.js";
 import {
   appendResult,
+  assertOffsetRetained,
   assertStreamLive,
+  batchResult,
+  type ChunkMessages,
+  type ChunkRow,
   closedAppendResult,
+  collectMessages,
+  formatMessages,
   inheritedExpiration,
+  type MessageLog,
+  messagesFromChunks,
   normalizeForkSubOffset,
-  prepareAppendData,
+  type PreparedAppendBatch,
+  paginateMessages,
+  persistedStreamMetadata,
+  prepareAppendBatch,
   prepareForkData,
   prepareInitialData,
+  recordsByteLength,
   resolveCreateContentType,
+  resolveForkFraming,
+  resolveForkJsonSchema,
+  resolveListLimit,
+  retainCreatedLog,
+  retainedReadOffset,
+  type StreamFormat,
   validateAppendContentType,
   validateAppendSeq,
+  validateGetOptions,
   validateIdempotentCreate,
+  validateRetentionPolicy,
 } from "./utils.js";
 import {
   notifyDataWaiters,
@@ -46,22 +113,130 @@ import {
   waitForChange,
 } from "./waiters.js";
 
-type R2StreamMetadata = PersistedStreamMetadata;
+type R2StreamMetadata = PersistedStreamMetadata & {
+  readonly chunks: readonly ChunkIndexEntry[];
+};
+
+export type R2StoreOptions = {
+  /**
+   * max bytes for one stored segment object.
+   * NOTE: appends are packed into the last segment until it is full, and appends larger than this are split into continuation segments, so it only bounds how much one segment read fetches.
+   */
+  readonly maxSegmentBytes?: number;
+  /**
+   * max segment objects one read fetches.
+   * NOTE: a read that reaches the limit returns what it fetched as a partial page, so a read never needs more R2 subrequests than this plus the continuation segments of its last append.
+   */
+  readonly maxReadSegments?: number;
+  /**
+   * compresses segment objects before they are written.
+   * NOTE: segments are packed on uncompressed bytes and a segment is kept raw when compression would not shrink it, so stored objects never exceed `maxSegmentBytes`.
+   */
+  readonly compression?: StorageCompression;
+  /**
+   * encrypts segment objects with a per-stream AES-GCM data key wrapped by this provider.
+   * NOTE: the data key is stored wrapped in the stream's manifest; streams created without a provider get one on their next append.
+   */
+  readonly keyProvider?: StreamKeyProvider;
+  /**
+   * size, stream count and producer rate limits, refused with `QuotaExceededError`.
+   * NOTE: R2 has no transactions, so creates racing from several isolates can overshoot the stream count by the number of racers.
+   */
+  readonly quotas?: StreamQuotas;
+  /**
+   * wakes live reads when another isolate appends to or deletes a stream.
+   * NOTE: without one, waits only end early for writes made through this store instance.
+   */
+  readonly notifier?: StreamNotifier;
+};
+
+export const DEFAULT_R2_MAX_SEGMENT_BYTES = 8_000_000;
+export const DEFAULT_R2_MAX_READ_SEGMENTS = 4;
+const CLOUDFLARE_R2_MAX_PUT_BYTES = 5 * 1024 * 1024 * 1024 - 5 * 1024 * 1024;
+const R2_WRITE_BATCH_OBJECTS = 50;
+const R2_DELETE_BATCH_KEYS = 1000;
+
+const resolveMaxSegmentBytes = (value: number | undefined): number => {
+  const maxSegmentBytes = value ?? DEFAULT_R2_MAX_SEGMENT_BYTES;
+  if (
+    !Number.isSafeInteger(maxSegmentBytes) ||
+    maxSegmentBytes <= 0 ||
+    maxSegmentBytes > CLOUDFLARE_R2_MAX_PUT_BYTES
+  ) {
+    throw new RangeError(
+      `maxSegmentBytes must be an integer between 1 and ${CLOUDFLARE_R2_MAX_PUT_BYTES}`
+    );
+  }
+
+  return maxSegmentBytes;
+};
 
+const resolveMaxReadSegments = (value: number | undefined): number => {
+  const maxReadSegments = value ?? DEFAULT_R2_MAX_READ_SEGMENTS;
+  if (!Number.isSafeInteger(maxReadSegments) || maxReadSegments <= 0) {
+    throw new RangeError("maxReadSegments must be a positive integer");
+  }
+
+  return maxReadSegments;
+};
+
+type StoredSegmentIndex = Pick<ChunkIndexUpdate, "chunks" | "trimmedOffset">;
+
+/**
+ * r2 store backed by a `meta.json` manifest per stream and segment objects packed with whole appends.
+ * NOTE: the manifest lists every segment, so an append rewrites at most the last segment it fills, writes any new segments plus the manifest, and never touches earlier segments.
+ * NOTE: a manifest entry bounds the bytes and appends it covers, so a reader holding a manifest from before a tail rewrite still reads the segment as listed.
+ * NOTE: segments live under `segment/` rather than `stream/` so listing streams never pages through stream data.
+ */
 export class R2Store implements StreamStore {
   private readonly bucket: R2Bucket;
+  private readonly codec: ChunkCodec;
+  private readonly maxSegmentDataBytes: number;
+  private readonly maxReadSegments: number;
+  private readonly quotas: StreamQuotas;
+  private readonly limitProducerAppend: ProducerRateLimiter;
+  private readonly notifier: StreamNotifier | undefined;
   private readonly waiters = new Map<string, Waiter[]>();
-  private readonly streamCache = new Map<string, { contentType: string }>();
+  private readonly streamCache = new Map<string, StreamFormat>();
 
-  constructor(bucket: R2Bucket) {
+  constructor(bucket: R2Bucket, options?: R2StoreOptions) {
     this.bucket = bucket;
+    this.codec = {
+      compression: resolveStorageCompression(options?.compression),
+      cipher:
+        options?.keyProvider === undefined
+          ? undefined
+          : createChunkCipher(options.keyProvider),
+    };
+    this.maxSegmentDataBytes = plaintextChunkBytes(
+      resolveMaxSegmentBytes(options?.maxSegmentBytes),
+      this.codec
+    );
+    this.maxReadSegments = resolveMaxReadSegments(options?.maxReadSegments);
+    this.quotas = resolveStreamQuotas(options?.quotas);
+    this.limitProducerAppend = createProducerRateLimiter(this.quotas);
+    this.notifier = options?.notifier;
   }
 
   private metaKey(path: string): string {
     return `stream/${path}/meta.json`;
   }
 
-  private dataKey(path: string): string {
+  private metaKeyPrefix(pathPrefix: string): string {
+    return `stream/${pathPrefix}`;
+  }
+
+  private metaKeyPath(key: string): string | undefined {
+    return key.endsWith("/meta.json")
+      ? key.slice("stream/".length, -"/meta.json".length)
+      : undefined;
+  }
+
+  private segmentKey(path: string, startPos: number): string {
+    return `segment/${path}/${startPos}`;
+  }
+
+  private legacyDataKey(path: string): string {
     return `stream/${path}/data`;
   }
 
@@ -71,17 +246,49 @@ export class R2Store implements StreamStore {
       return null;
     }
 
-    return decodePersistedStreamMetadataJson(await obj.text());
+    const meta = decodePersistedStreamMetadataJson(await obj.text());
+    return meta.chunks === undefined
+      ? await this.upgradeLegacyManifest(path, meta)
+      : { ...meta, chunks: meta.chunks };
   }
 
-  private async getData(path: string): Promise<Uint8Array> {
-    const obj = await this.bucket.get(this.dataKey(path));
-    if (!obj) {
-      return new Uint8Array(0);
+  /**
+   * moves the single data object a stream was stored as before segments existed into segments listed in its manifest.
+   * NOTE: the segments are written unencrypted, so isolates upgrading the same stream at once write identical objects; the stream gets a data key on its next append.
+   * NOTE: a manifest that reports bytes whose data object is gone was upgraded by another isolate after this one read it, so the read fails rather than listing an empty stream.
+   */
+  private async upgradeLegacyManifest(
+    path: string,
+    meta: PersistedStreamMetadata
+  ): Promise<R2StreamMetadata> {
+    const key = this.legacyDataKey(path);
+    const obj = await this.bucket.get(key);
+    if (!obj && offsetToBytePos(meta.nextOffset) > 0) {
+      throw new Error(`Stream data ${key} is missing`);
     }
 
-    const buffer = await obj.arrayBuffer();
-    return new Uint8Array(buffer);
+    const packed = packLegacyData(
+      obj ? new Uint8Array(await obj.arrayBuffer()) : new Uint8Array(0),
+      meta.nextOffset,
+      meta.createdAt,
+      this.maxSegmentDataBytes
+    );
+    const stored = await encodeChunks(
+      this.codec,
+      path,
+      undefined,
+      packed.map(chunkPayload)
+    );
+    const upgraded: R2StreamMetadata = {
+      ...meta,
+      chunks: packed.map((segment, index) =>
+        chunkIndexEntry(segment, stored[index])
+      ),
+    };
+    await this.putSegments(path, stored);
+    await this.putMetadata(path, upgraded);
+    await this.bucket.delete(key);
+    return upgraded;
   }
 
   private async putMetadata(
@@ -93,6 +300,176 @@ export class R2Store implements StreamStore {
     });
   }
 
+  private async putSegments(
+    path: string,
+    segments: readonly StoredChunk[]
+  ): Promise<void> {
+    await mapInBatches(segments, R2_WRITE_BATCH_OBJECTS, (segment) =>
+      this.bucket.put(this.segmentKey(path, segment.startPos), segment.stored)
+    );
+  }
+
+  /**
+   * deletes segments in batches of R2's 1000-key delete limit.
+   */
+  private async deleteSegments(
+    path: string,
+    segments: readonly ChunkIndexEntry[]
+  ): Promise<void> {
+    const keys = segments.map((segment) =>
+      this.segmentKey(path, segment.startPos)
+    );
+    for (let index = 0; index < keys.length; index += R2_DELETE_BATCH_KEYS) {
+      await this.bucket.delete(keys.slice(index, index + R2_DELETE_BATCH_KEYS));
+    }
+  }
+
+  private async readSegments(
+    path: string,
+    meta: R2StreamMetadata,
+    segments: readonly ChunkIndexEntry[]
+  ): Promise<UnpackedChunk[]> {
+    const rows = await mapInBatches(
+      segments,
+      this.maxReadSegments,
+      async (segment): Promise<ChunkRow> => {
+        const key = this.segmentKey(path, segment.startPos);
+        const obj = await this.bucket.get(key);
+        if (!obj) {
+          throw new Error(`Stream segment ${key} is missing`);
+        }
+        return {
+          start_pos: segment.startPos,
+          end_pos: segment.endPos,
+          start_offset: segment.startOffset,
+          end_offset: segment.endOffset,
+          created_at: segment.timestamp,
+          data: await obj.arrayBuffer(),
+          compression: segment.compression,
+          encrypted: segment.encrypted,
+        };
+      }
+    );
+    const decoded = await decodeChunkRows(this.codec, path, meta.dataKey, rows);
+    return decoded.map((row, index) =>
+      unpackChunk(segments[index] as ChunkIndexEntry, row.data)
+    );
+  }
+
+  /**
+   * loads single segments for manifest lookups, taking segments that are about to be written from `pending`.
+   */
+  private segmentLoader(
+    path: string,
+    meta: R2StreamMetadata,
+    pending: readonly PackedChunk[] = []
+  ): ChunkLoader {
+    return async (entry) =>
+      pendingChunk(entry, pending) ??
+      ((await this.readSegments(path, meta, [entry]))[0] as UnpackedChunk);
+  }
+
+  /**
+   * reads one message per append from `startOffset`, fetching at most `maxReadSegments` segments at or after it that the read can touch.
+   */
+  private async readMessages(
+    path: string,
+    meta: R2StreamMetadata,
+    startOffset: Offset,
+    options?: GetOptions
+  ): Promise<ChunkMessages> {
+    const startPos = offsetToBytePos(startOffset);
+    const segments = await this.readSegments(
+      path,
+      meta,
+      selectIndexedChunks(meta.chunks, startPos, options, this.maxReadSegments)
+    );
+    return messagesFromChunks(
+      unpackedChunkRows(segments, startPos),
+      startOffset,
+      meta.createdAt
+    );
+  }
+
+  private async readLog(
+    path: string,
+    meta: R2StreamMetadata
+  ): Promise<MessageLog> {
+    const segments = await this.readSegments(path, meta, meta.chunks);
+    return {
+      ...collectMessages(
+        messagesFromChunks(
+          unpackedChunkRows(segments, 0),
+          initialOffset(),
+          meta.createdAt
+        ).messages
+      ),
+      startPos:
+        meta.trimmedOffset === undefined
+          ? undefined
+          : offsetToBytePos(meta.trimmedOffset),
+    };
+  }
+
+  /**
+   * writes packed segments and applies the stream's retention policy to its manifest.
+   * NOTE: the caller stores the returned manifest, then deletes the segments the previous manifest had and it dropped.
+   */
+  private async storeSegments(
+    path: string,
+    meta: R2StreamMetadata,
+    packed: readonly PackedChunk[],
+    tailOffset: Offset,
+    dataKey: R2StreamMetadata["dataKey"]
+  ): Promise<StoredSegmentIndex> {
+    const update = await updateChunkIndex(
+      meta.chunks,
+      packed,
+      tailOffset,
+      meta.retention,
+      this.segmentLoader(path, meta, packed)
+    );
+    const stored = await encodeChunks(
+      this.codec,
+      path,
+      dataKey,
+      update.writes.map(chunkPayload)
+    );
+    await this.putSegments(path, stored);
+    return {
+      chunks: storedChunkIndex(update, stored),
+      trimmedOffset: update.trimmedOffset,
+    };
+  }
+
+  /**
+   * trims a stream whose oldest appends have aged out since its last append.
+   */
+  private async enforceRetention(
+    path: string,
+    meta: R2StreamMetadata
+  ): Promise<R2StreamMetadata> {
+    const trimmed = await this.storeSegments(
+      path,
+      meta,
+      [],
+      meta.nextOffset,
+      meta.dataKey
+    );
+    if (trimmed.trimmedOffset === undefined) {
+      return meta;
+    }
+
+    const updated = {
+      ...meta,
+      chunks: trimmed.chunks,
+      trimmedOffset: trimmed.trimmedOffset,
+    };
+    await this.putMetadata(path, updated);
+    await this.deleteSegments(path, droppedChunks(meta.chunks, updated.chunks));
+    return updated;
+  }
+
   private async getStreamMetadata(
     path: string
   ): Promise<R2StreamMetadata | null> {
@@ -140,10 +517,8 @@ export class R2Store implements StreamStore {
     meta: R2StreamMetadata
   ): Promise<void> {
     this.notifyDeleted(path);
-    await Promise.all([
-      this.bucket.delete(this.metaKey(path)),
-      this.bucket.delete(this.dataKey(path)),
-    ]);
+    await this.bucket.delete(this.metaKey(path));
+    await this.deleteSegments(path, meta.chunks);
     await this.releaseParent(meta.forkedFrom);
   }
 
@@ -168,29 +543,43 @@ export class R2Store implements StreamStore {
     await this.putMetadata(parentPath, updated);
   }
 
+  private idempotentCreateResult(
+    existing: R2StreamMetadata,
+    options: PutOptions
+  ): PutResult {
+    if (existing.deleted === true) {
+      throw new StreamConflictError("stream is gone");
+    }
+    validateIdempotentCreate(existing, options);
+    return {
+      created: false,
+      nextOffset: existing.nextOffset,
+      contentType: existing.contentType,
+      closed: existing.closed,
+    };
+  }
+
   async put(path: string, options: PutOptions): Promise<PutResult> {
     const existingMeta = await this.getStreamMetadata(path);
 
     if (existingMeta) {
-      if (existingMeta.deleted === true) {
-        throw new StreamConflictError("stream is gone");
-      }
-      validateIdempotentCreate(existingMeta, options);
-      return {
-        created: false,
-        nextOffset: existingMeta.nextOffset,
-        contentType: existingMeta.contentType,
-        closed: existingMeta.closed,
-      };
+      return this.idempotentCreateResult(existingMeta, options);
     }
 
+    await assertStreamCountQuota(path, this.quotas, (list) => this.list(list));
+    validateRetentionPolicy(options.retention);
     let contentType = resolveCreateContentType(options);
+    let retention = options.retention;
+    let trimmedOffset: Offset | undefined;
     let ttlSeconds = options.ttlSeconds;
     let expiresAt = options.expiresAt;
     let closed = options.closed === true;
     let forkedFrom: string | undefined;
     let forkOffset: Offset | undefined;
     let forkSubOffset: number | undefined;
+    let forkSource: R2StreamMetadata | undefined;
+    let framing = options.framing;
+    let jsonSchema = options.jsonSchema;
     let prepared = prepareInitialData(options);
 
     if (options.forkedFrom !== undefined) {
@@ -203,24 +592,52 @@ export class R2Store implements StreamStore {
       }
       validateAppendContentType(source.contentType, options.contentType);
 
-      const sourceData = await this.getData(options.forkedFrom);
+      const sourceLog = await this.readLog(options.forkedFrom, source);
       forkedFrom = options.forkedFrom;
       forkOffset = options.forkOffset ?? source.nextOffset;
       forkSubOffset = normalizeForkSubOffset(options.forkSubOffset);
+      trimmedOffset = source.trimmedOffset;
+      assertOffsetRetained(options.forkedFrom, forkOffset, trimmedOffset);
+      framing = resolveForkFraming(source.framing, options);
+      jsonSchema = resolveForkJsonSchema(source.jsonSchema, options);
       prepared = prepareForkData(
-        sourceData,
+        sourceLog,
         forkOffset,
-        source.contentType,
+        { contentType: source.contentType, framing, jsonSchema },
         forkSubOffset,
         options.data
       );
       ({ ttlSeconds, expiresAt } = inheritedExpiration(source, options));
       contentType = source.contentType;
+      retention ??= source.retention;
       closed = false;
+      forkSource = source;
+    }
 
-      await this.putMetadata(options.forkedFrom, {
-        ...source,
-        childCount: (source.childCount ?? 0) + 1,
+    const retained = retainCreatedLog(prepared, retention, trimmedOffset);
+    assertStreamBytesQuota(
+      path,
+      this.quotas,
+      retained.nextOffset,
+      retained.trimmedOffset
+    );
+    const packed = packChunks(
+      undefined,
+      retained,
+      retained.nextOffset,
+      this.maxSegmentDataBytes
+    );
+    const dataKey = await writeDataKey(this.codec, undefined);
+    const stored = await encodeChunks(
+      this.codec,
+      path,
+      dataKey,
+      packed.map(chunkPayload)
+    );
+    if (forkedFrom !== undefined && forkSource !== undefined) {
+      await this.putMetadata(forkedFrom, {
+        ...forkSource,
+        childCount: (forkSource.childCount ?? 0) + 1,
       });
     }
 
@@ -231,8 +648,8 @@ export class R2Store implements StreamStore {
       expiresAt,
       createdAt: now,
       lastAccessedAt: now,
-      nextOffset: prepared.nextOffset,
-      appendCount: prepared.appendCount,
+      nextOffset: retained.nextOffset,
+      appendCount: retained.appendCount,
       producers: {},
       closed,
       forkedFrom,
@@ -240,14 +657,20 @@ export class R2Store implements StreamStore {
       forkSubOffset,
       childCount: 0,
       deleted: false,
+      retention,
+      trimmedOffset: retained.trimmedOffset,
+      framing,
+      jsonSchema,
+      dataKey,
+      chunks: packed.map((segment, index) =>
+        chunkIndexEntry(segment, stored[index])
+      ),
     };
 
-    await Promise.all([
-      this.putMetadata(path, meta),
-      this.bucket.put(this.dataKey(path), prepared.data),
-    ]);
+    await this.putSegments(path, stored);
+    await this.putMetadata(path, meta);
 
-    this.streamCache.set(path, { contentType });
+    this.streamCache.set(path, { contentType, framing });
 
     return {
       created: true,
@@ -257,12 +680,20 @@ export class R2Store implements StreamStore {
     };
   }
 
-  async append(
+  append(
     path: string,
     data: Uint8Array,
     options?: AppendOptions
   ): Promise<AppendResult> {
-    let meta = await this.getStreamMetadata(path);
+    return this.appendBatch(path, [data], options);
+  }
+
+  async appendBatch(
+    path: string,
+    records: readonly Uint8Array[],
+    options?: AppendOptions
+  ): Promise<AppendBatchResult> {
+    const meta = await this.getStreamMetadata(path);
 
     if (!meta) {
       throw new StreamNotFoundError(path);
@@ -274,67 +705,116 @@ export class R2Store implements StreamStore {
       producers,
       options?.producer
     );
+    const byteLength = recordsByteLength(records);
     const closedResult = closedAppendResult(
       path,
       meta.nextOffset,
       meta.closed === true,
-      data,
+      byteLength,
       options,
       producerDecision
     );
     if (closedResult) {
       await this.touchMetadata(path, meta);
-      return closedResult;
+      return batchResult(closedResult);
     }
 
-    if (data.length > 0) {
+    if (byteLength > 0) {
       validateAppendContentType(meta.contentType, options?.contentType);
     }
 
     if (producerDecision._tag === "Duplicate") {
       await this.touchMetadata(path, meta);
-      return {
+      return batchResult({
         nextOffset: meta.nextOffset,
         producer: producerDecision.result,
         closed: meta.closed,
         appended: false,
-      };
+      });
     }
     validateAppendSeq(meta.lastSeq, options?.seq);
 
-    const existingData = await this.getData(path);
-
-    const append = prepareAppendData(
-      existingData,
-      data,
-      meta.contentType,
+    const append = prepareAppendBatch(
+      {
+        data: new Uint8Array(0),
+        boundaries: [],
+        startPos: offsetToBytePos(meta.nextOffset),
+      },
+      records,
+      meta,
       meta.appendCount,
       meta.nextOffset
     );
+    assertStreamBytesQuota(
+      path,
+      this.quotas,
+      append.nextOffset,
+      meta.trimmedOffset
+    );
+    const updatedMeta = await refundingOnFailure(
+      this.limitProducerAppend(path, producerDecision),
+      () => this.writeAppend(path, meta, append, producerDecision, options)
+    );
+    await this.deleteSegments(
+      path,
+      droppedChunks(meta.chunks, updatedMeta.chunks)
+    );
 
-    meta = await this.touchMetadata(path, meta);
+    this.notifyWaiters(path, append, updatedMeta.closed === true);
+    await this.notifier?.publish(path);
+
+    return batchResult(
+      appendResult(
+        updatedMeta.nextOffset,
+        updatedMeta.closed === true,
+        append.appended,
+        producerDecision
+      ),
+      append.offsets
+    );
+  }
+
+  /**
+   * packs an append into segments and stores the manifest that lists them.
+   */
+  private async writeAppend(
+    path: string,
+    meta: R2StreamMetadata,
+    append: PreparedAppendBatch,
+    producerDecision: ProducerAppendDecision,
+    options: AppendOptions | undefined
+  ): Promise<R2StreamMetadata> {
+    const tail = packableTail(meta.chunks, this.maxSegmentDataBytes);
+    const packed = packChunks(
+      tail && (await this.readSegments(path, meta, [tail]))[0],
+      append,
+      append.nextOffset,
+      this.maxSegmentDataBytes
+    );
+    const dataKey = await writeDataKey(this.codec, meta.dataKey);
+    const stored = await this.storeSegments(
+      path,
+      meta,
+      packed,
+      append.nextOffset,
+      dataKey
+    );
+
+    const touched = await this.touchMetadata(path, meta);
     const updatedMeta: R2StreamMetadata = {
-      ...meta,
+      ...touched,
       nextOffset: append.nextOffset,
-      lastSeq: options?.seq ?? meta.lastSeq,
+      lastSeq: options?.seq ?? touched.lastSeq,
       appendCount: append.appendCount,
-      producers: commitProducerAppend(producers, producerDecision),
+      producers: commitProducerAppend(touched.producers, producerDecision),
       closed: options?.close === true,
+      trimmedOffset: stored.trimmedOffset ?? touched.trimmedOffset,
+      dataKey,
+      chunks: stored.chunks,
     };
 
-    await Promise.all([
-      this.putMetadata(path, updatedMeta),
-      this.bucket.put(this.dataKey(path), append.data),
-    ]);
-
-    this.notifyWaiters(path, append.data, updatedMeta.closed === true);
-
-    return appendResult(
-      updatedMeta.nextOffset,
-      updatedMeta.closed === true,
-      append.appended,
-      producerDecision
-    );
+    await this.putMetadata(path, updatedMeta);
+    return updatedMeta;
   }
 
   async get(path: string, options?: GetOptions): Promise<GetResult> {
@@ -347,31 +827,42 @@ export class R2Store implements StreamStore {
     assertStreamLive(path, meta);
     meta = await this.touchMetadata(path, meta);
 
-    this.streamCache.set(path, { contentType: meta.contentType });
-
-    const data = await this.getData(path);
-
-    const startOffset = options?.offset ?? initialOffset();
-    const byteOffset = offsetToBytePos(startOffset);
+    this.streamCache.set(path, {
+      contentType: meta.contentType,
+      framing: meta.framing,
+    });
 
-    const messages: StreamMessage[] = [];
+    meta = await this.enforceRetention(path, meta);
 
-    if (byteOffset < data.length) {
-      messages.push({
-        offset: startOffset,
-        timestamp: Date.now(),
-        data: data.slice(byteOffset),
-      });
-    }
+    validateGetOptions(options);
+    const startOffset = retainedReadOffset(
+      path,
+      await chunkReadOffset(
+        meta.chunks,
+        meta.nextOffset,
+        options,
+        this.segmentLoader(path, meta)
+      ),
+      meta.trimmedOffset
+    );
+    const read = await this.readMessages(path, meta, startOffset, options);
+    const page = paginateMessages(
+      read.messages,
+      meta.nextOffset,
+      meta,
+      options,
+      read.endOffset
+    );
 
     return {
-      messages,
-      nextOffset: meta.nextOffset,
-      upToDate: true,
+      messages: page.messages,
+      nextOffset: page.nextOffset,
+      upToDate: page.upToDate,
       cursor: calculateCursor(),
-      etag: generateETag(path, startOffset, meta.nextOffset),
+      etag: generateETag(path, startOffset, page.nextOffset, options?.filter),
       contentType: meta.contentType,
       closed: meta.closed === true,
+      framing: meta.framing,
     };
   }
 
@@ -384,7 +875,10 @@ export class R2Store implements StreamStore {
     }
     assertStreamLive(path, meta);
 
-    this.streamCache.set(path, { contentType: meta.contentType });
+    this.streamCache.set(path, {
+      contentType: meta.contentType,
+      framing: meta.framing,
+    });
 
     return {
       contentType: meta.contentType,
@@ -393,9 +887,27 @@ export class R2Store implements StreamStore {
       closed: meta.closed === true,
       ttlSeconds: meta.ttlSeconds,
       expiresAt: meta.expiresAt,
+      framing: meta.framing,
+      jsonSchema: meta.jsonSchema,
     };
   }
 
+  /**
+   * rewraps a stream's data key with the key provider's current key.
+   * NOTE: segments are not re-encrypted, so rotation is one manifest write however long the stream is.
+   */
+  async rotateDataKey(path: string): Promise<void> {
+    const meta = await this.getStreamMetadata(path);
+    if (!meta) {
+      throw new StreamNotFoundError(path);
+    }
+
+    const dataKey = await rotatedDataKey(this.codec, meta.dataKey);
+    if (dataKey !== meta.dataKey) {
+      await this.putMetadata(path, { ...meta, dataKey });
+    }
+  }
+
   async delete(path: string): Promise<void> {
     const meta = await this.getStreamMetadata(path);
     if (!meta) {
@@ -407,21 +919,61 @@ export class R2Store implements StreamStore {
     if ((meta.childCount ?? 0) > 0) {
       await this.putMetadata(path, { ...meta, deleted: true });
       this.notifyDeleted(path);
-      return;
+    } else {
+      await this.hardDelete(path, meta);
     }
-
-    await this.hardDelete(path, meta);
+    await this.notifier?.publish(path);
   }
 
   has(path: string): boolean {
     return this.streamCache.has(path);
   }
 
-  async waitForData(
+  private async listedStream(key: string): Promise<StreamMetadata | null> {
+    const path = this.metaKeyPath(key);
+    if (path === undefined) {
+      return null;
+    }
+    const meta = await this.getStreamMetadata(path);
+    return meta && meta.deleted !== true
+      ? persistedStreamMetadata(path, meta)
+      : null;
+  }
+
+  /**
+   * lists streams through their metadata objects.
+   * NOTE: deleted and expired streams are skipped, so pages are requested up to the remaining limit and never return more than `limit` streams.
+   */
+  async list(options?: ListOptions): Promise<ListResult> {
+    const limit = resolveListLimit(options);
+    const streams: StreamMetadata[] = [];
+    let cursor = options?.cursor;
+
+    do {
+      const page = await this.bucket.list({
+        prefix: this.metaKeyPrefix(options?.prefix ?? ""),
+        cursor,
+        limit: limit - streams.length,
+      });
+      for (const object of page.objects) {
+        const stream = await this.listedStream(object.key);
+        if (stream) {
+          streams.push(stream);
+        }
+      }
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor !== undefined && streams.length < limit);
+
+    return { streams, cursor };
+  }
+
+  /**
+   * reads what a waiter at `offset` can return right now, or `undefined` when it has to keep waiting.
+   */
+  private async readWaitResult(
     path: string,
-    offset: Offset,
-    timeoutMs: number
-  ): Promise<WaitResult> {
+    offset: Offset
+  ): Promise<WaitResult | undefined> {
     let meta = await this.getStreamMetadata(path);
 
     if (!meta) {
@@ -430,24 +982,33 @@ export class R2Store implements StreamStore {
     assertStreamLive(path, meta);
     meta = await this.touchMetadata(path, meta);
 
-    const data = await this.getData(path);
-
-    const byteOffset = offsetToBytePos(offset);
+    meta = await this.enforceRetention(path, meta);
+    const { messages } = await this.readMessages(
+      path,
+      meta,
+      retainedReadOffset(path, offset, meta.trimmedOffset)
+    );
 
-    if (byteOffset < data.length) {
-      return {
-        messages: [
-          { offset, timestamp: Date.now(), data: data.slice(byteOffset) },
-        ],
-        timedOut: false,
-        closed: meta.closed,
-      };
+    if (messages.length > 0) {
+      return { messages, timedOut: false, closed: meta.closed };
     }
 
     if (meta.closed === true) {
       return { messages: [], timedOut: false, closed: true };
     }
+  }
+
+  async waitForData(
+    path: string,
+    offset: Offset,
+    timeoutMs: number
+  ): Promise<WaitResult> {
+    const ready = await this.readWaitResult(path, offset);
+    if (ready) {
+      return ready;
+    }
 
+    const notifier = this.notifier;
     return waitForChange(
       {
         add: (waiter) => {
@@ -464,38 +1025,31 @@ export class R2Store implements StreamStore {
         },
       },
       offset,
-      timeoutMs
+      timeoutMs,
+      notifier && {
+        subscribe: (onChange) => notifier.subscribe(path, onChange),
+        read: () => this.readWaitResult(path, offset),
+      }
     );
   }
 
-  formatResponse(path: string, messages: StreamMessage[]): Uint8Array {
+  formatResponse(
+    path: string,
+    messages: StreamMessage[],
+    options?: FormatOptions
+  ): Uint8Array {
     const cached = this.streamCache.get(path);
     if (!cached) {
       return new Uint8Array(0);
     }
 
-    if (messages.length === 0) {
-      const isJson = isJsonContentType(cached.contentType);
-      return isJson ? new TextEncoder().encode("[]") : new Uint8Array(0);
-    }
-
-    const combined = new Uint8Array(
-      messages.reduce((acc, m) => acc + m.data.length, 0)
-    );
-    let offset = 0;
-    for (const message of messages) {
-      combined.set(message.data, offset);
-      offset += message.data.length;
-    }
-
-    const isJson = isJsonContentType(cached.contentType);
-    return isJson ? formatJsonResponse(combined) : combined;
+    return formatMessages(messages, cached, options);
   }
 
-  private notifyWaiters(path: string, data: Uint8Array, closed = false): void {
+  private notifyWaiters(path: string, log: MessageLog, closed = false): void {
     const waiters = this.waiters.get(path) ?? [];
     this.waiters.set(path, []);
-    notifyDataWaiters(waiters, data, closed, (waiter) => {
+    notifyDataWaiters(waiters, log, closed, (waiter) => {
       const remaining = this.waiters.get(path) ?? [];
       remaining.push(waiter);
       this.waiters.set(path, remaining);
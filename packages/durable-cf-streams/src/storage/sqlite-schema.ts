@@ -14,7 +14,14 @@ export const SQLITE_STREAMS_SCHEMA = `
     fork_offset TEXT,
     fork_sub_offset INTEGER,
     child_count INTEGER NOT NULL DEFAULT 0,
-    deleted INTEGER NOT NULL DEFAULT 0
+    deleted INTEGER NOT NULL DEFAULT 0,
+    retention_max_bytes INTEGER,
+    retention_max_messages INTEGER,
+    retention_max_age_seconds INTEGER,
+    trimmed_offset TEXT,
+    framing TEXT,
+    json_schema TEXT,
+    data_key TEXT
   )
 `;
 
@@ -57,6 +64,25 @@ export const initializeSqliteStreamsSchema = (sql: SqlStorage): void => {
     "deleted",
     "ALTER TABLE streams ADD COLUMN deleted INTEGER NOT NULL DEFAULT 0"
   );
+  addColumn(
+    "retention_max_bytes",
+    "ALTER TABLE streams ADD COLUMN retention_max_bytes INTEGER"
+  );
+  addColumn(
+    "retention_max_messages",
+    "ALTER TABLE streams ADD COLUMN retention_max_messages INTEGER"
+  );
+  addColumn(
+    "retention_max_age_seconds",
+    "ALTER TABLE streams ADD COLUMN retention_max_age_seconds INTEGER"
+  );
+  addColumn(
+    "trimmed_offset",
+    "ALTER TABLE streams ADD COLUMN trimmed_offset TEXT"
+  );
+  addColumn("framing", "ALTER TABLE streams ADD COLUMN framing TEXT");
+  addColumn("json_schema", "ALTER TABLE streams ADD COLUMN json_schema TEXT");
+  addColumn("data_key", "ALTER TABLE streams ADD COLUMN data_key TEXT");
 
   if (hasColumn("data")) {
     const rows = sql
@@ -71,3 +97,24 @@ export const initializeSqliteStreamsSchema = (sql: SqlStorage): void => {
     }
   }
 };
+
+/**
+ * adds `stream_chunks` columns introduced after the table was first created.
+ * NOTE: rows written before `created_at` existed keep NULL and read back with their stream's creation time; rows written before `compression` or `encrypted` existed read back raw.
+ */
+export const initializeSqliteChunksSchema = (sql: SqlStorage): void => {
+  const columns = sql.exec("PRAGMA table_info(stream_chunks)").toArray() as {
+    name: string;
+  }[];
+  if (!columns.some((column) => column.name === "created_at")) {
+    sql.exec("ALTER TABLE stream_chunks ADD COLUMN created_at INTEGER");
+  }
+  if (!columns.some((column) => column.name === "compression")) {
+    sql.exec("ALTER TABLE stream_chunks ADD COLUMN compression TEXT");
+  }
+  if (!columns.some((column) => column.name === "encrypted")) {
+    sql.exec(
+      "ALTER TABLE stream_chunks ADD COLUMN encrypted INTEGER NOT NULL DEFAULT 0"
+    );
+  }
+};
@@ -5,52 +5,113 @@ import {
   StreamConflictError,
   StreamNotFoundError,
 } from "../errors.js";
-import { formatOffset, initialOffset, offsetToBytePos } from "../offsets.js";
+import {
+  formatOffset,
+  initialOffset,
+  offsetToBytePos,
+  parseOffset,
+} from "../offsets.js";
 import {
   evaluateProducerAppend,
   type ProducerAppendDecision,
 } from "../producer.js";
+import { generateETag, isExpired } from "../protocol.js";
 import {
-  formatJsonResponse,
-  generateETag,
-  isExpired,
-  isJsonContentType,
-  processJsonAppend,
-} from "../protocol.js";
+  decodeJsonSchemaJson,
+  decodeWrappedDataKeyJson,
+  type JsonSchema,
+  type MessageBoundary,
+  type RetentionPolicy,
+  type StorageCompression,
+  type StreamFraming,
+  type WrappedDataKey,
+} from "../schema.js";
 import type {
+  AppendBatchResult,
   AppendOptions,
   AppendResult,
+  FormatOptions,
   GetOptions,
   GetResult,
   HeadResult,
+  ListOptions,
+  ListResult,
   Offset,
   ProducerState,
   PutOptions,
   PutResult,
   StreamMessage,
+  StreamMetadata,
+  TransactionAppend,
   WaitResult,
 } from "../types.js";
+import { resolveStorageCompression, type StoredChunk } from "./compression.js";
+import {
+  type ChunkCodec,
+  createChunkCipher,
+  decodeChunkRows,
+  encodeChunks,
+  plaintextChunkBytes,
+  rotatedDataKey,
+  type StreamKeyProvider,
+  writeDataKey,
+} from "./encryption.js";
 import type { StreamStore } from "./interface.js";
 import {
   CLOUDFLARE_SQL_MAX_VALUE_BYTES,
   rethrowSqlPayloadTooLargeError,
 } from "./platform-errors.js";
 import {
+  assertStreamBytesQuota,
+  assertStreamCountQuota,
+  createProducerRateLimiter,
+  type ProducerRateLimiter,
+  resolveStreamQuotas,
+  type StreamQuotas,
+} from "./quotas.js";
+import {
+  initializeSqliteChunksSchema,
   initializeSqliteStreamsSchema,
   SQLITE_STREAMS_SCHEMA,
 } from "./sqlite-schema.js";
 import {
   appendResult,
+  assertDistinctTransactionPaths,
+  assertOffsetRetained,
   assertStreamLive,
+  batchResult,
+  type ChunkMessages,
+  type ChunkRow,
+  chunkLog,
+  chunkReadBounds,
   closedAppendResult,
+  collectMessages,
+  formatMessages,
+  furthestOffset,
   inheritedExpiration,
+  type MessageLog,
+  messagesFromChunks,
+  missingChunkRange,
   normalizeForkSubOffset,
+  paginateMessages,
+  prepareAppendBatch,
   prepareForkData,
   prepareInitialData,
+  recordsByteLength,
   resolveCreateContentType,
+  resolveForkFraming,
+  resolveForkJsonSchema,
+  resolveListLimit,
+  retainCreatedLog,
+  retainedReadOffset,
+  retentionColumnValues,
+  retentionFromColumns,
+  type StreamFormat,
   validateAppendContentType,
   validateAppendSeq,
+  validateGetOptions,
   validateIdempotentCreate,
+  validateRetentionPolicy,
 } from "./utils.js";
 import { notifyDeletedWaiters, type Waiter, waitForChange } from "./waiters.js";
 
@@ -70,14 +131,13 @@ type StreamRow = {
   fork_sub_offset: number | null;
   child_count: number;
   deleted: number;
-};
-
-type ChunkRow = {
-  start_pos: number;
-  end_pos: number;
-  start_offset: Offset;
-  end_offset: Offset;
-  data: ArrayBuffer;
+  retention_max_bytes: number | null;
+  retention_max_messages: number | null;
+  retention_max_age_seconds: number | null;
+  trimmed_offset: Offset | null;
+  framing: StreamFraming | null;
+  json_schema: string | null;
+  data_key: string | null;
 };
 
 type ProducerRow = {
@@ -90,19 +150,51 @@ type PreparedCreate = {
   readonly ttlSeconds?: number;
   readonly expiresAt?: string;
   readonly data: Uint8Array;
+  readonly boundaries: readonly MessageBoundary[];
+  readonly startPos?: number;
   readonly appendCount: number;
   readonly nextOffset: Offset;
   readonly closed: boolean;
   readonly forkedFrom?: string;
   readonly forkOffset?: Offset;
   readonly forkSubOffset?: number;
+  readonly retention?: RetentionPolicy;
+  readonly trimmedOffset?: Offset;
+  readonly framing?: StreamFraming;
+  readonly jsonSchema?: JsonSchema;
+  readonly dataKey?: WrappedDataKey;
 };
 
-type PreparedAppendChunk = {
-  readonly data: Uint8Array;
+type PreparedAppendChunks = {
+  readonly chunks: readonly StoredChunk[];
+  readonly offsets: readonly Offset[];
   readonly appendCount: number;
   readonly nextOffset: Offset;
   readonly appended: boolean;
+  readonly dataKey?: WrappedDataKey;
+};
+
+type PlannedAppend = {
+  readonly path: string;
+  readonly stream: StreamRow;
+  readonly result: AppendBatchResult;
+  readonly write?: {
+    readonly append: PreparedAppendChunks;
+    readonly producerDecision: ProducerAppendDecision;
+    readonly lastSeq: string | null;
+    readonly closed: boolean;
+    readonly byteLength: number;
+    readonly refundProducerAppend: () => void;
+  };
+};
+
+/**
+ * gives back the producer appends counted for plans that were never committed.
+ */
+const refundProducerAppends = (plans: readonly PlannedAppend[]): void => {
+  for (const plan of plans) {
+    plan.write?.refundProducerAppend();
+  }
 };
 
 export type SqliteStoreOptions = {
@@ -111,6 +203,21 @@ export type SqliteStoreOptions = {
    * NOTE: one append writes one chunk row, so keep this below Cloudflare's SQL row and BLOB ceiling.
    */
   readonly maxChunkBytes?: number;
+  /**
+   * compresses chunk rows before they are written.
+   * NOTE: `maxChunkBytes` then bounds the compressed row, so an append that compresses below it is stored as one row however large it is uncompressed.
+   */
+  readonly compression?: StorageCompression;
+  /**
+   * encrypts chunk rows with a per-stream AES-GCM data key wrapped by this provider.
+   * NOTE: the wrapped data key lives in the stream's row; streams created without a provider get one on their next append.
+   */
+  readonly keyProvider?: StreamKeyProvider;
+  /**
+   * size, stream count and producer rate limits, refused with `QuotaExceededError`.
+   * NOTE: writes run one at a time, so the stream count is exact for the streams in this durable object.
+   */
+  readonly quotas?: StreamQuotas;
 };
 
 export const DEFAULT_SQLITE_MAX_CHUNK_BYTES = 1_000_000;
@@ -128,6 +235,68 @@ const isRowExpired = (row: {
     lastAccessedAt: row.last_accessed_at ?? undefined,
   });
 
+const rowJsonSchema = (row: StreamRow): JsonSchema | undefined =>
+  row.json_schema === null ? undefined : decodeJsonSchemaJson(row.json_schema);
+
+const rowDataKey = (row: StreamRow): WrappedDataKey | undefined =>
+  row.data_key === null ? undefined : decodeWrappedDataKeyJson(row.data_key);
+
+const rowStreamMetadata = (row: StreamRow): StreamMetadata => ({
+  path: row.path,
+  contentType: row.content_type,
+  ttlSeconds: row.ttl_seconds ?? undefined,
+  expiresAt: row.expires_at ?? undefined,
+  createdAt: row.created_at,
+  lastAccessedAt: row.last_accessed_at ?? undefined,
+  closed: row.closed === 1,
+  forkedFrom: row.forked_from ?? undefined,
+  forkOffset: row.fork_offset ?? undefined,
+  forkSubOffset: row.fork_sub_offset ?? undefined,
+  childCount: row.child_count,
+  deleted: row.deleted === 1,
+  retention: retentionFromColumns(row),
+  trimmedOffset: row.trimmed_offset ?? undefined,
+  framing: row.framing ?? undefined,
+  jsonSchema: rowJsonSchema(row),
+});
+
+const rowStreamFormat = (row: StreamRow): StreamFormat => ({
+  contentType: row.content_type,
+  framing: row.framing ?? undefined,
+  jsonSchema: rowJsonSchema(row),
+});
+
+const INSERT_STREAM_SQL = `INSERT INTO streams (path, content_type, ttl_seconds, expires_at, created_at, last_accessed_at, next_offset, append_count, closed, forked_from, fork_offset, fork_sub_offset, child_count, deleted, retention_max_bytes, retention_max_messages, retention_max_age_seconds, trimmed_offset, framing, json_schema, data_key)
+ VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+
+const insertStreamValues = (
+  path: string,
+  prepared: PreparedCreate,
+  now: number
+): (string | number | null)[] => [
+  path,
+  prepared.contentType,
+  prepared.ttlSeconds ?? null,
+  prepared.expiresAt ?? null,
+  now,
+  now,
+  prepared.nextOffset,
+  prepared.appendCount,
+  prepared.closed ? 1 : 0,
+  prepared.forkedFrom ?? null,
+  prepared.forkOffset ?? null,
+  prepared.forkSubOffset ?? null,
+  0,
+  0,
+  ...retentionColumnValues(prepared.retention),
+  prepared.trimmedOffset ?? null,
+  prepared.framing ?? null,
+  prepared.jsonSchema === undefined
+    ? null
+    : JSON.stringify(prepared.jsonSchema),
+  prepared.dataKey === undefined ? null : JSON.stringify(prepared.dataKey),
+];
+
 const resolveMaxChunkBytes = (value: number | undefined): number => {
   const maxChunkBytes = value ?? DEFAULT_SQLITE_MAX_CHUNK_BYTES;
   if (
@@ -147,13 +316,19 @@ const resolveMaxChunkBytes = (value: number | undefined): number => {
  * sqlite store backed by stream metadata rows, keyed producer state rows, and bounded append chunks.
  * NOTE: producer idempotency state lives in `stream_producers`, keeping the stream metadata row bounded.
  * NOTE: one append writes one bounded chunk row; callers that need larger single events should split them before append.
+ * NOTE: writes run one at a time, because compressing or encrypting chunks and reading encoded fork sources await between reading a stream row and writing it.
  */
 export class SqliteStore implements StreamStore {
   private readonly storage: DurableObjectStorage;
   private readonly sql: SqlStorage;
   private readonly maxChunkBytes: number;
+  private readonly maxChunkDataBytes: number;
+  private readonly codec: ChunkCodec;
+  private readonly quotas: StreamQuotas;
+  private readonly limitProducerAppend: ProducerRateLimiter;
   private readonly waiters = new Map<string, Waiter[]>();
-  private readonly streamCache = new Map<string, { contentType: string }>();
+  private readonly streamCache = new Map<string, StreamFormat>();
+  private writeTail: Promise<unknown> = Promise.resolve();
 
   private static chunkSchema = `
     CREATE TABLE IF NOT EXISTS stream_chunks (
@@ -163,6 +338,9 @@ export class SqliteStore implements StreamStore {
       start_offset TEXT NOT NULL,
       end_offset TEXT NOT NULL,
       data BLOB NOT NULL,
+      created_at INTEGER,
+      compression TEXT,
+      encrypted INTEGER NOT NULL DEFAULT 0,
       PRIMARY KEY (path, start_pos)
     );
     CREATE INDEX IF NOT EXISTS stream_chunks_by_end
@@ -179,19 +357,38 @@ export class SqliteStore implements StreamStore {
     );
   `;
 
+  private static chunksByCreatedAtIndex =
+    "CREATE INDEX IF NOT EXISTS stream_chunks_by_created_at ON stream_chunks(path, created_at);";
+
   static schema = `${SQLITE_STREAMS_SCHEMA};
 ${SqliteStore.chunkSchema}
+${SqliteStore.chunksByCreatedAtIndex}
 ${SqliteStore.producerSchema}`;
 
   constructor(storage: DurableObjectStorage, options?: SqliteStoreOptions) {
     this.storage = storage;
     this.sql = storage.sql;
     this.maxChunkBytes = resolveMaxChunkBytes(options?.maxChunkBytes);
+    this.codec = {
+      compression: resolveStorageCompression(options?.compression),
+      cipher:
+        options?.keyProvider === undefined
+          ? undefined
+          : createChunkCipher(options.keyProvider),
+    };
+    this.maxChunkDataBytes = plaintextChunkBytes(
+      this.maxChunkBytes,
+      this.codec
+    );
+    this.quotas = resolveStreamQuotas(options?.quotas);
+    this.limitProducerAppend = createProducerRateLimiter(this.quotas);
   }
 
   initialize(): void {
     initializeSqliteStreamsSchema(this.sql);
     this.sql.exec(SqliteStore.chunkSchema);
+    initializeSqliteChunksSchema(this.sql);
+    this.sql.exec(SqliteStore.chunksByCreatedAtIndex);
     this.sql.exec(SqliteStore.producerSchema);
   }
 
@@ -203,6 +400,15 @@ ${SqliteStore.producerSchema}`;
     return this.storage.transactionSync(operation);
   }
 
+  /**
+   * runs `operation` after every earlier write has settled.
+   */
+  private serializeWrite<T>(operation: () => T | Promise<T>): Promise<T> {
+    const result = this.writeTail.then(operation);
+    this.writeTail = result.catch(() => undefined);
+    return result;
+  }
+
   private touchStream(path: string, row: StreamRow): StreamRow {
     if (row.ttl_seconds === null) {
       return row;
@@ -276,33 +482,44 @@ ${SqliteStore.producerSchema}`;
       return this.expireStream(path, row);
     }
 
-    this.streamCache.set(path, { contentType: row.content_type });
+    this.streamCache.set(path, {
+      contentType: row.content_type,
+      framing: row.framing ?? undefined,
+    });
     return row;
   }
 
-  private prepareCreate(options: PutOptions): PreparedCreate {
-    if (options.forkedFrom === undefined) {
-      const prepared = prepareInitialData(options);
-      return {
-        ...prepared,
-        contentType: resolveCreateContentType(options),
-        ttlSeconds: options.ttlSeconds,
-        expiresAt: options.expiresAt,
-        closed: options.closed === true,
-      };
-    }
+  private async prepareCreate(options: PutOptions): Promise<PreparedCreate> {
+    validateRetentionPolicy(options.retention);
+    const prepared: PreparedCreate =
+      options.forkedFrom === undefined
+        ? {
+            ...prepareInitialData(options),
+            contentType: resolveCreateContentType(options),
+            ttlSeconds: options.ttlSeconds,
+            expiresAt: options.expiresAt,
+            closed: options.closed === true,
+            retention: options.retention,
+            framing: options.framing,
+            jsonSchema: options.jsonSchema,
+          }
+        : await this.prepareForkCreate(options, options.forkedFrom);
 
-    return this.prepareForkCreate(options, options.forkedFrom);
+    return retainCreatedLog(
+      prepared,
+      prepared.retention,
+      prepared.trimmedOffset
+    );
   }
 
   /**
    * copy a fork prefix into the child stream.
    * NOTE: linked parent chunks would save space, but v1 keeps delete and fork lifetime local by giving the child its own bytes.
    */
-  private prepareForkCreate(
+  private async prepareForkCreate(
     options: PutOptions,
     sourcePath: string
-  ): PreparedCreate {
+  ): Promise<PreparedCreate> {
     const source = this.getStreamRow(sourcePath);
     if (!source) {
       throw new StreamNotFoundError(sourcePath);
@@ -312,13 +529,17 @@ ${SqliteStore.producerSchema}`;
     }
     validateAppendContentType(source.content_type, options.contentType);
 
-    const sourceData = this.readBytes(sourcePath);
+    const sourceLog = await this.readLog(sourcePath, source);
     const forkOffset = options.forkOffset ?? source.next_offset;
     const forkSubOffset = normalizeForkSubOffset(options.forkSubOffset);
+    const trimmedOffset = source.trimmed_offset ?? undefined;
+    assertOffsetRetained(sourcePath, forkOffset, trimmedOffset);
+    const framing = resolveForkFraming(source.framing ?? undefined, options);
+    const jsonSchema = resolveForkJsonSchema(rowJsonSchema(source), options);
     const prepared = prepareForkData(
-      sourceData,
+      sourceLog,
       forkOffset,
-      source.content_type,
+      { contentType: source.content_type, framing, jsonSchema },
       forkSubOffset,
       options.data
     );
@@ -339,6 +560,10 @@ ${SqliteStore.producerSchema}`;
       forkedFrom: sourcePath,
       forkOffset,
       forkSubOffset,
+      retention: options.retention ?? retentionFromColumns(source),
+      trimmedOffset,
+      framing,
+      jsonSchema,
     };
   }
 
@@ -359,6 +584,9 @@ ${SqliteStore.producerSchema}`;
         forkedFrom: existing.forked_from ?? undefined,
         forkOffset: existing.fork_offset ?? undefined,
         forkSubOffset: existing.fork_sub_offset ?? undefined,
+        retention: retentionFromColumns(existing),
+        framing: existing.framing ?? undefined,
+        jsonSchema: rowJsonSchema(existing),
       },
       options
     );
@@ -372,13 +600,33 @@ ${SqliteStore.producerSchema}`;
   }
 
   put(path: string, options: PutOptions): Promise<PutResult> {
+    return this.serializeWrite(() => this.create(path, options));
+  }
+
+  private async create(path: string, options: PutOptions): Promise<PutResult> {
     const existing = this.getStreamRow(path);
 
     if (existing) {
-      return Promise.resolve(this.idempotentCreateResult(existing, options));
+      return this.idempotentCreateResult(existing, options);
     }
 
-    const prepared = this.prepareCreate(options);
+    await assertStreamCountQuota(path, this.quotas, (list) => this.list(list));
+    const prepared = {
+      ...(await this.prepareCreate(options)),
+      dataKey: await writeDataKey(this.codec, undefined),
+    };
+    assertStreamBytesQuota(
+      path,
+      this.quotas,
+      prepared.nextOffset,
+      prepared.trimmedOffset
+    );
+    const chunks = await encodeChunks(
+      this.codec,
+      path,
+      prepared.dataKey,
+      chunkLog(prepared, prepared.nextOffset, this.maxChunkDataBytes)
+    );
     const now = Date.now();
     try {
       this.writeTransaction(() => {
@@ -390,24 +638,12 @@ ${SqliteStore.producerSchema}`;
         }
 
         this.sql.exec(
-          `INSERT INTO streams (path, content_type, ttl_seconds, expires_at, created_at, last_accessed_at, next_offset, append_count, closed, forked_from, fork_offset, fork_sub_offset, child_count, deleted)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          path,
-          prepared.contentType,
-          prepared.ttlSeconds ?? null,
-          prepared.expiresAt ?? null,
-          now,
-          now,
-          prepared.nextOffset,
-          prepared.appendCount,
-          prepared.closed ? 1 : 0,
-          prepared.forkedFrom ?? null,
-          prepared.forkOffset ?? null,
-          prepared.forkSubOffset ?? null,
-          0,
-          0
+          INSERT_STREAM_SQL,
+          ...insertStreamValues(path, prepared, now)
         );
-        this.insertInitialChunks(path, prepared.data, prepared.nextOffset);
+        for (const chunk of chunks) {
+          this.insertChunk(path, chunk);
+        }
       });
     } catch (error) {
       rethrowSqlPayloadTooLargeError(
@@ -416,13 +652,16 @@ ${SqliteStore.producerSchema}`;
       );
     }
 
-    this.streamCache.set(path, { contentType: prepared.contentType });
-    return Promise.resolve({
+    this.streamCache.set(path, {
+      contentType: prepared.contentType,
+      framing: prepared.framing,
+    });
+    return {
       created: true,
       nextOffset: prepared.nextOffset,
       contentType: prepared.contentType,
       closed: prepared.closed,
-    });
+    };
   }
 
   append(
@@ -430,124 +669,85 @@ ${SqliteStore.producerSchema}`;
     data: Uint8Array,
     options?: AppendOptions
   ): Promise<AppendResult> {
-    const stream = this.getStreamRow(path);
-    if (!stream) {
-      throw new StreamNotFoundError(path);
-    }
-    assertStreamLive(path, { deleted: stream.deleted === 1 });
-
-    const producerDecision = this.evaluateProducerDecision(
-      path,
-      options?.producer
-    );
-    const closedResult = closedAppendResult(
-      path,
-      stream.next_offset,
-      stream.closed === 1,
-      data,
-      options,
-      producerDecision
-    );
-    if (closedResult) {
-      this.touchStream(path, stream);
-      return Promise.resolve(closedResult);
-    }
-
-    if (data.length > 0) {
-      validateAppendContentType(stream.content_type, options?.contentType);
-    }
-
-    if (producerDecision._tag === "Duplicate") {
-      this.touchStream(path, stream);
-      return Promise.resolve({
-        nextOffset: stream.next_offset,
-        producer: producerDecision.result,
-        closed: stream.closed === 1,
-        appended: false,
-      });
-    }
-    validateAppendSeq(stream.last_seq ?? undefined, options?.seq);
+    return this.appendBatch(path, [data], options);
+  }
 
-    const append = this.prepareAppendChunk(
-      data,
-      stream.content_type,
-      stream.append_count,
-      stream.next_offset
-    );
-    try {
-      this.writeTransaction(() => {
-        const touched = this.touchStream(path, stream);
+  appendBatch(
+    path: string,
+    records: readonly Uint8Array[],
+    options?: AppendOptions
+  ): Promise<AppendBatchResult> {
+    return this.serializeWrite(async () => {
+      const plan = await this.planAppend(path, records, options);
+      this.commitAppends([plan]);
+      this.notifyAppend(plan);
+      return plan.result;
+    });
+  }
 
-        if (append.appended) {
-          const startPos = offsetToBytePos(stream.next_offset);
-          this.insertChunk(
-            path,
-            startPos,
-            append.data,
-            stream.next_offset,
-            append.nextOffset
-          );
+  /**
+   * appends to several streams atomically.
+   * NOTE: every append is validated before any is written, and all are committed in one transaction or none are; waiters on each stream are notified after the commit.
+   * NOTE: each path may appear once; use `appendBatch` for several records on one stream.
+   */
+  transaction(
+    appends: readonly TransactionAppend[]
+  ): Promise<AppendBatchResult[]> {
+    assertDistinctTransactionPaths(appends);
+    return this.serializeWrite(async () => {
+      const plans: PlannedAppend[] = [];
+      try {
+        for (const { path, data, options } of appends) {
+          plans.push(await this.planAppend(path, [data], options));
         }
-        this.writeProducerState(path, producerDecision);
-
-        this.sql.exec(
-          "UPDATE streams SET next_offset = ?, append_count = ?, last_seq = ?, closed = ?, last_accessed_at = ? WHERE path = ?",
-          append.nextOffset,
-          append.appendCount,
-          options?.seq ?? stream.last_seq,
-          options?.close === true ? 1 : 0,
-          touched.last_accessed_at,
-          path
-        );
-      });
-    } catch (error) {
-      rethrowSqlPayloadTooLargeError(error, append.data.length);
-    }
-
-    this.notifyWaiters(
-      path,
-      append.appended
-        ? [
-            {
-              offset: stream.next_offset,
-              timestamp: Date.now(),
-              data: append.data,
-            },
-          ]
-        : [],
-      options?.close === true
-    );
-
-    return Promise.resolve(
-      appendResult(
-        append.nextOffset,
-        options?.close === true,
-        append.appended,
-        producerDecision
-      )
-    );
+      } catch (error) {
+        refundProducerAppends(plans);
+        throw error;
+      }
+      this.commitAppends(plans);
+      for (const plan of plans) {
+        this.notifyAppend(plan);
+      }
+      return plans.map((plan) => plan.result);
+    });
   }
 
-  get(path: string, options?: GetOptions): Promise<GetResult> {
+  async get(path: string, options?: GetOptions): Promise<GetResult> {
     const stream = this.getStreamRow(path);
     if (!stream) {
       throw new StreamNotFoundError(path);
     }
     assertStreamLive(path, { deleted: stream.deleted === 1 });
-    const touched = this.touchStream(path, stream);
+    const touched = this.enforceAgeRetention(
+      path,
+      this.touchStream(path, stream)
+    );
 
-    const startOffset = options?.offset ?? initialOffset();
-    const messages = this.readMessages(path, startOffset);
+    validateGetOptions(options);
+    const startOffset = retainedReadOffset(
+      path,
+      this.readStartOffset(path, touched, options),
+      touched.trimmed_offset ?? undefined
+    );
+    const read = await this.readMessages(path, touched, startOffset, options);
+    const page = paginateMessages(
+      read.messages,
+      touched.next_offset,
+      rowStreamFormat(touched),
+      options,
+      read.endOffset
+    );
 
-    return Promise.resolve({
-      messages,
-      nextOffset: touched.next_offset,
-      upToDate: true,
+    return {
+      messages: page.messages,
+      nextOffset: page.nextOffset,
+      upToDate: page.upToDate,
       cursor: calculateCursor(),
-      etag: generateETag(path, startOffset, touched.next_offset),
+      etag: generateETag(path, startOffset, page.nextOffset, options?.filter),
       contentType: touched.content_type,
       closed: touched.closed === 1,
-    });
+      framing: touched.framing ?? undefined,
+    };
   }
 
   head(path: string): Promise<HeadResult | null> {
@@ -564,25 +764,51 @@ ${SqliteStore.producerSchema}`;
       closed: stream.closed === 1,
       ttlSeconds: stream.ttl_seconds ?? undefined,
       expiresAt: stream.expires_at ?? undefined,
+      framing: stream.framing ?? undefined,
+      jsonSchema: rowJsonSchema(stream),
+    });
+  }
+
+  /**
+   * rewraps a stream's data key with the key provider's current key.
+   * NOTE: chunk rows are not re-encrypted, so rotation is one row update however long the stream is.
+   */
+  rotateDataKey(path: string): Promise<void> {
+    return this.serializeWrite(async () => {
+      const stream = this.getStreamRow(path);
+      if (!stream) {
+        throw new StreamNotFoundError(path);
+      }
+
+      const current = rowDataKey(stream);
+      const dataKey = await rotatedDataKey(this.codec, current);
+      if (dataKey !== current) {
+        this.sql.exec(
+          "UPDATE streams SET data_key = ? WHERE path = ?",
+          JSON.stringify(dataKey),
+          path
+        );
+      }
     });
   }
 
   delete(path: string): Promise<void> {
-    const stream = this.getStreamRow(path);
-    if (!stream) {
-      return Promise.resolve();
-    }
+    return this.serializeWrite(() => {
+      const stream = this.getStreamRow(path);
+      if (!stream) {
+        return;
+      }
 
-    assertStreamLive(path, { deleted: stream.deleted === 1 });
+      assertStreamLive(path, { deleted: stream.deleted === 1 });
 
-    if (stream.child_count > 0) {
-      this.sql.exec("UPDATE streams SET deleted = 1 WHERE path = ?", path);
-      this.notifyDeleted(path);
-      return Promise.resolve();
-    }
+      if (stream.child_count > 0) {
+        this.sql.exec("UPDATE streams SET deleted = 1 WHERE path = ?", path);
+        this.notifyDeleted(path);
+        return;
+      }
 
-    this.hardDelete(path, stream);
-    return Promise.resolve();
+      this.hardDelete(path, stream);
+    });
   }
 
   has(path: string): boolean {
@@ -590,7 +816,36 @@ ${SqliteStore.producerSchema}`;
     return stream !== null && stream.deleted !== 1;
   }
 
-  waitForData(
+  /**
+   * lists streams in path order.
+   * NOTE: the cursor is the last path of the page; expired rows are skipped here and reclaimed on their next access.
+   */
+  list(options?: ListOptions): Promise<ListResult> {
+    const limit = resolveListLimit(options);
+    const prefix = options?.prefix ?? "";
+    const rows = this.sql
+      .exec(
+        `SELECT * FROM streams
+         WHERE substr(path, 1, length(?)) = ? AND path > ? AND deleted = 0
+         ORDER BY path
+         LIMIT ?`,
+        prefix,
+        prefix,
+        options?.cursor ?? "",
+        limit + 1
+      )
+      .toArray() as StreamRow[];
+    const page = rows.slice(0, limit);
+
+    return Promise.resolve({
+      streams: page
+        .filter((row) => !isRowExpired(row))
+        .map((row) => rowStreamMetadata(row)),
+      cursor: rows.length > limit ? page.at(-1)?.path : undefined,
+    });
+  }
+
+  async waitForData(
     path: string,
     offset: Offset,
     timeoutMs: number
@@ -600,26 +855,33 @@ ${SqliteStore.producerSchema}`;
       throw new StreamNotFoundError(path);
     }
     assertStreamLive(path, { deleted: stream.deleted === 1 });
-    const touched = this.touchStream(path, stream);
+    const touched = this.enforceAgeRetention(
+      path,
+      this.touchStream(path, stream)
+    );
 
-    const messages = this.readMessages(path, offset);
+    const { messages } = await this.readMessages(
+      path,
+      touched,
+      retainedReadOffset(path, offset, touched.trimmed_offset ?? undefined)
+    );
     if (messages.length > 0) {
-      return Promise.resolve({
+      return {
         messages,
         timedOut: false,
         closed: touched.closed === 1,
-      });
+      };
     }
 
     if (touched.closed === 1) {
-      return Promise.resolve({
+      return {
         messages: [],
         timedOut: false,
         closed: true,
-      });
+      };
     }
 
-    return waitForChange(
+    return await waitForChange(
       {
         add: (waiter) => {
           const pathWaiters = this.waiters.get(path) ?? [];
@@ -640,51 +902,214 @@ ${SqliteStore.producerSchema}`;
     );
   }
 
-  formatResponse(path: string, messages: StreamMessage[]): Uint8Array {
+  formatResponse(
+    path: string,
+    messages: StreamMessage[],
+    options?: FormatOptions
+  ): Uint8Array {
     const cached = this.streamCache.get(path);
     if (!cached) {
       return new Uint8Array(0);
     }
 
-    if (messages.length === 0) {
-      const isJson = isJsonContentType(cached.contentType);
-      return isJson ? new TextEncoder().encode("[]") : new Uint8Array(0);
+    return formatMessages(messages, cached, options);
+  }
+
+  /**
+   * validates an append and prepares its chunk rows without writing anything.
+   */
+  private async planAppend(
+    path: string,
+    records: readonly Uint8Array[],
+    options: AppendOptions | undefined
+  ): Promise<PlannedAppend> {
+    const stream = this.getStreamRow(path);
+    if (!stream) {
+      throw new StreamNotFoundError(path);
+    }
+    assertStreamLive(path, { deleted: stream.deleted === 1 });
+
+    const producerDecision = this.evaluateProducerDecision(
+      path,
+      options?.producer
+    );
+    const byteLength = recordsByteLength(records);
+    const closedResult = closedAppendResult(
+      path,
+      stream.next_offset,
+      stream.closed === 1,
+      byteLength,
+      options,
+      producerDecision
+    );
+    if (closedResult) {
+      return { path, stream, result: batchResult(closedResult) };
+    }
+
+    if (byteLength > 0) {
+      validateAppendContentType(stream.content_type, options?.contentType);
     }
 
-    const combined = new Uint8Array(
-      messages.reduce((acc, m) => acc + m.data.length, 0)
+    if (producerDecision._tag === "Duplicate") {
+      return {
+        path,
+        stream,
+        result: batchResult({
+          nextOffset: stream.next_offset,
+          producer: producerDecision.result,
+          closed: stream.closed === 1,
+          appended: false,
+        }),
+      };
+    }
+    validateAppendSeq(stream.last_seq ?? undefined, options?.seq);
+
+    const dataKey = await writeDataKey(this.codec, rowDataKey(stream));
+    const append = await this.prepareAppendChunks(
+      path,
+      dataKey,
+      records,
+      rowStreamFormat(stream),
+      stream.append_count,
+      stream.next_offset
     );
-    let offset = 0;
-    for (const message of messages) {
-      combined.set(message.data, offset);
-      offset += message.data.length;
+    assertStreamBytesQuota(
+      path,
+      this.quotas,
+      append.nextOffset,
+      stream.trimmed_offset ?? undefined
+    );
+    const refundProducerAppend = this.limitProducerAppend(
+      path,
+      producerDecision
+    );
+    const closed = options?.close === true;
+    return {
+      path,
+      stream,
+      result: batchResult(
+        appendResult(
+          append.nextOffset,
+          closed,
+          append.appended,
+          producerDecision
+        ),
+        append.offsets
+      ),
+      write: {
+        append,
+        producerDecision,
+        lastSeq: options?.seq ?? stream.last_seq,
+        closed,
+        byteLength,
+        refundProducerAppend,
+      },
+    };
+  }
+
+  private commitAppends(plans: readonly PlannedAppend[]): void {
+    try {
+      this.writeTransaction(() => {
+        for (const plan of plans) {
+          this.writeAppend(plan);
+        }
+      });
+    } catch (error) {
+      refundProducerAppends(plans);
+      rethrowSqlPayloadTooLargeError(
+        error,
+        plans.reduce((total, plan) => total + (plan.write?.byteLength ?? 0), 0)
+      );
     }
+  }
 
-    const isJson = isJsonContentType(cached.contentType);
-    return isJson ? formatJsonResponse(combined) : combined;
+  private writeAppend(plan: PlannedAppend): void {
+    const { path, write } = plan;
+    const touched = this.touchStream(path, plan.stream);
+    if (!write) {
+      return;
+    }
+
+    for (const chunk of write.append.chunks) {
+      this.insertChunk(path, chunk);
+    }
+    this.writeProducerState(path, write.producerDecision);
+
+    this.sql.exec(
+      "UPDATE streams SET next_offset = ?, append_count = ?, last_seq = ?, closed = ?, last_accessed_at = ?, data_key = ? WHERE path = ?",
+      write.append.nextOffset,
+      write.append.appendCount,
+      write.lastSeq,
+      write.closed ? 1 : 0,
+      touched.last_accessed_at,
+      write.append.dataKey === undefined
+        ? null
+        : JSON.stringify(write.append.dataKey),
+      path
+    );
+    this.enforceRetention(path, {
+      ...touched,
+      next_offset: write.append.nextOffset,
+      append_count: write.append.appendCount,
+    });
   }
 
-  private prepareAppendChunk(
-    data: Uint8Array,
-    contentType: string,
+  private notifyAppend(plan: PlannedAppend): void {
+    if (!plan.write) {
+      return;
+    }
+
+    this.notifyWaiters(
+      plan.path,
+      plan.write.append.chunks.map((chunk) => ({
+        offset: chunk.startOffset,
+        timestamp: chunk.timestamp,
+        data: chunk.data,
+      })),
+      plan.write.closed
+    );
+  }
+
+  /**
+   * one chunk row per non-empty record.
+   * NOTE: a record whose stored bytes exceed `maxChunkBytes` is rejected rather than split, so each row is a whole message.
+   */
+  private async prepareAppendChunks(
+    path: string,
+    dataKey: WrappedDataKey | undefined,
+    records: readonly Uint8Array[],
+    format: StreamFormat,
     appendCount: number,
     nextOffset: Offset
-  ): PreparedAppendChunk {
-    if (data.length === 0) {
-      return { data, appendCount, nextOffset, appended: false };
+  ): Promise<PreparedAppendChunks> {
+    const batch = prepareAppendBatch(
+      {
+        data: new Uint8Array(0),
+        boundaries: [],
+        startPos: offsetToBytePos(nextOffset),
+      },
+      records,
+      format,
+      appendCount,
+      nextOffset
+    );
+    const chunks = await encodeChunks(
+      this.codec,
+      path,
+      dataKey,
+      chunkLog(batch, batch.nextOffset, Number.POSITIVE_INFINITY)
+    );
+    for (const chunk of chunks) {
+      this.assertChunkSize(chunk.stored.length);
     }
 
-    const chunkData = isJsonContentType(contentType)
-      ? processJsonAppend(new Uint8Array(0), data)
-      : data;
-    this.assertChunkSize(chunkData.length);
-
-    const nextPos = offsetToBytePos(nextOffset) + chunkData.length;
     return {
-      data: chunkData,
-      appendCount: appendCount + 1,
-      nextOffset: formatOffset(appendCount + 1, nextPos),
-      appended: true,
+      chunks,
+      offsets: batch.offsets,
+      appendCount: batch.appendCount,
+      nextOffset: batch.nextOffset,
+      appended: batch.appended,
+      dataKey,
     };
   }
 
@@ -750,109 +1175,263 @@ ${SqliteStore.producerSchema}`;
     );
   }
 
-  private insertInitialChunks(
+  private insertChunk(path: string, chunk: StoredChunk): void {
+    this.assertChunkSize(chunk.stored.length);
+    try {
+      this.sql.exec(
+        `INSERT INTO stream_chunks (path, start_pos, end_pos, start_offset, end_offset, data, created_at, compression, encrypted)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        path,
+        chunk.startPos,
+        chunk.startPos + chunk.data.length,
+        chunk.startOffset,
+        chunk.endOffset,
+        chunk.stored,
+        chunk.timestamp,
+        chunk.compression ?? null,
+        chunk.encrypted === true ? 1 : 0
+      );
+    } catch (error) {
+      rethrowSqlPayloadTooLargeError(error, chunk.stored.length);
+    }
+  }
+
+  /**
+   * drops the leading chunk rows that fall outside the stream's retention policy.
+   * NOTE: every limit maps to an ordered lookup on `stream_chunks`, and trimmed rows are gone afterwards, so each check only scans rows it is about to delete.
+   */
+  private enforceRetention(path: string, stream: StreamRow): StreamRow {
+    const retention = retentionFromColumns(stream);
+    if (!retention) {
+      return stream;
+    }
+
+    const floor = furthestOffset([
+      this.messageCountFloor(path, stream, retention.maxMessages),
+      this.byteCountFloor(path, stream, retention.maxBytes),
+      retention.maxAgeSeconds === undefined
+        ? undefined
+        : this.firstOffsetSince(
+            path,
+            stream,
+            Date.now() - retention.maxAgeSeconds * 1000
+          ),
+    ]);
+    const floorPos = floor === undefined ? 0 : offsetToBytePos(floor);
+    const trimmedPos =
+      stream.trimmed_offset === null
+        ? 0
+        : offsetToBytePos(stream.trimmed_offset);
+    if (floor === undefined || floorPos <= trimmedPos) {
+      return stream;
+    }
+
+    this.sql.exec(
+      "DELETE FROM stream_chunks WHERE path = ? AND start_pos < ?",
+      path,
+      floorPos
+    );
+    this.sql.exec(
+      "UPDATE streams SET trimmed_offset = ? WHERE path = ?",
+      floor,
+      path
+    );
+    return { ...stream, trimmed_offset: floor };
+  }
+
+  private enforceAgeRetention(path: string, stream: StreamRow): StreamRow {
+    if (stream.retention_max_age_seconds === null) {
+      return stream;
+    }
+    return this.writeTransaction(() => this.enforceRetention(path, stream));
+  }
+
+  /**
+   * finds the first append among the newest `maxMessages`.
+   * NOTE: every append advances the offset sequence by at least one, so appends with a sequence within `maxMessages` of the tail are never more than `maxMessages`.
+   */
+  private messageCountFloor(
     path: string,
-    data: Uint8Array,
-    finalOffset: Offset
-  ): void {
-    if (data.length === 0) {
+    stream: StreamRow,
+    maxMessages: number | undefined
+  ): Offset | undefined {
+    const minSeq =
+      (parseOffset(stream.next_offset)?.seq ?? 0) - (maxMessages ?? 0);
+    if (maxMessages === undefined || minSeq <= 0) {
       return;
     }
 
-    let startPos = 0;
-    while (startPos < data.length) {
-      const endPos = Math.min(startPos + this.maxChunkBytes, data.length);
-      const chunk = data.slice(startPos, endPos);
-      const endOffset =
-        endPos === data.length ? finalOffset : formatOffset(0, endPos);
-      this.insertChunk(
+    const rows = this.sql
+      .exec(
+        `SELECT start_offset FROM stream_chunks
+         WHERE path = ? AND start_offset >= ?
+         ORDER BY start_pos
+         LIMIT 1`,
         path,
-        startPos,
-        chunk,
-        formatOffset(0, startPos),
-        endOffset
-      );
-      startPos = endPos;
+        formatOffset(minSeq, 0)
+      )
+      .toArray() as { start_offset: Offset }[];
+    return rows[0]?.start_offset ?? stream.next_offset;
+  }
+
+  private byteCountFloor(
+    path: string,
+    stream: StreamRow,
+    maxBytes: number | undefined
+  ): Offset | undefined {
+    const minPos = offsetToBytePos(stream.next_offset) - (maxBytes ?? 0);
+    if (maxBytes === undefined || minPos <= 0) {
+      return;
     }
+
+    const first = this.firstChunkFrom(path, minPos);
+    if (!first) {
+      return stream.next_offset;
+    }
+    if (offsetToBytePos(first.start_offset) === first.start_pos) {
+      return first.start_offset;
+    }
+
+    return (
+      this.firstChunkFrom(path, offsetToBytePos(first.end_offset))
+        ?.start_offset ?? stream.next_offset
+    );
   }
 
-  private insertChunk(
+  private firstChunkFrom(
     path: string,
-    startPos: number,
-    data: Uint8Array,
-    startOffset: Offset,
-    endOffset: Offset
-  ): void {
-    this.assertChunkSize(data.length);
-    try {
-      this.sql.exec(
-        `INSERT INTO stream_chunks (path, start_pos, end_pos, start_offset, end_offset, data)
-         VALUES (?, ?, ?, ?, ?, ?)`,
+    fromPos: number
+  ): Pick<ChunkRow, "start_pos" | "start_offset" | "end_offset"> | undefined {
+    const rows = this.sql
+      .exec(
+        `SELECT start_pos, start_offset, end_offset FROM stream_chunks
+         WHERE path = ? AND start_pos >= ?
+         ORDER BY start_pos
+         LIMIT 1`,
         path,
-        startPos,
-        startPos + data.length,
-        startOffset,
-        endOffset,
-        data
-      );
-    } catch (error) {
-      rethrowSqlPayloadTooLargeError(error, data.length);
-    }
+        fromPos
+      )
+      .toArray() as Pick<
+      ChunkRow,
+      "start_pos" | "start_offset" | "end_offset"
+    >[];
+    return rows[0];
   }
 
-  private readBytes(path: string): Uint8Array {
-    const messages = this.readMessages(path, initialOffset());
-    const total = messages.reduce(
-      (acc, message) => acc + message.data.length,
-      0
-    );
-    const result = new Uint8Array(total);
-    let offset = 0;
-    for (const message of messages) {
-      result.set(message.data, offset);
-      offset += message.data.length;
+  /**
+   * resolves where a read starts, seeking by append time when asked.
+   */
+  private readStartOffset(
+    path: string,
+    stream: StreamRow,
+    options?: GetOptions
+  ): Offset {
+    const fromTimestamp = options?.fromTimestamp;
+    if (fromTimestamp === undefined) {
+      return options?.offset ?? initialOffset();
     }
-    return result;
-  }
 
-  private readMessages(path: string, startOffset: Offset): StreamMessage[] {
-    const startPos = offsetToBytePos(startOffset);
-    const messages: StreamMessage[] = [];
+    return this.firstOffsetSince(path, stream, fromTimestamp);
+  }
 
-    for (const chunk of this.readChunkRows(path, startPos)) {
-      const chunkData = new Uint8Array(chunk.data);
-      const messageStart = Math.max(startPos, chunk.start_pos);
-      if (messageStart >= chunk.end_pos) {
-        continue;
-      }
+  /**
+   * finds the first append written at or after `timestamp`, or the tail.
+   * NOTE: rows written before `created_at` existed count as written when their stream was created.
+   */
+  private firstOffsetSince(
+    path: string,
+    stream: StreamRow,
+    timestamp: number
+  ): Offset {
+    const rows = this.sql
+      .exec(
+        `SELECT start_offset FROM stream_chunks
+         WHERE path = ? AND (created_at >= ? OR (created_at IS NULL AND ?))
+         ORDER BY start_pos
+         LIMIT 1`,
+        path,
+        timestamp,
+        stream.created_at >= timestamp ? 1 : 0
+      )
+      .toArray() as { start_offset: Offset }[];
+    return rows[0]?.start_offset ?? stream.next_offset;
+  }
 
-      let messageOffset = startOffset;
-      if (messageStart !== startPos) {
-        messageOffset =
-          messageStart === chunk.start_pos
-            ? chunk.start_offset
-            : formatOffset(0, messageStart);
-      }
+  private async readLog(path: string, stream: StreamRow): Promise<MessageLog> {
+    const { messages } = await this.readMessages(path, stream, initialOffset());
+    return {
+      ...collectMessages(messages),
+      startPos:
+        stream.trimmed_offset === null
+          ? undefined
+          : offsetToBytePos(stream.trimmed_offset),
+    };
+  }
 
-      messages.push({
-        offset: messageOffset,
-        timestamp: Date.now(),
-        data: chunkData.slice(messageStart - chunk.start_pos),
-      });
+  /**
+   * reads one message per append from the chunk rows.
+   * NOTE: a bounded read can stop inside an append stored as continuation rows, so the rest of that append is read before the rows are folded.
+   */
+  private async readMessages(
+    path: string,
+    stream: StreamRow,
+    startOffset: Offset,
+    options?: GetOptions
+  ): Promise<ChunkMessages> {
+    const rows = this.readChunkRows(
+      path,
+      offsetToBytePos(startOffset),
+      options
+    );
+    const missing = missingChunkRange(rows);
+    if (missing) {
+      rows.push(
+        ...(this.sql
+          .exec(
+            `SELECT start_pos, end_pos, start_offset, end_offset, created_at, data, compression, encrypted
+             FROM stream_chunks
+             WHERE path = ? AND start_pos >= ? AND start_pos < ?
+             ORDER BY start_pos`,
+            path,
+            missing.fromPos,
+            missing.toPos
+          )
+          .toArray() as ChunkRow[])
+      );
     }
 
-    return messages;
+    return messagesFromChunks(
+      await decodeChunkRows(this.codec, path, rowDataKey(stream), rows),
+      startOffset,
+      stream.created_at
+    );
   }
 
-  private readChunkRows(path: string, startPos: number): ChunkRow[] {
+  /**
+   * reads the chunk rows a bounded page can touch.
+   * NOTE: chunks are contiguous, so bounding `start_pos` by `startPos + maxBytes` (or the first row's end, when that row alone is larger) still returns the row after a cut and the next page starts at that row's exact offset.
+   */
+  private readChunkRows(
+    path: string,
+    startPos: number,
+    options?: GetOptions
+  ): ChunkRow[] {
+    const bounds = chunkReadBounds(startPos, options);
     return this.sql
       .exec(
-        `SELECT start_pos, end_pos, start_offset, end_offset, data
+        `SELECT start_pos, end_pos, start_offset, end_offset, created_at, data, compression, encrypted
          FROM stream_chunks
-         WHERE path = ? AND end_pos > ?
-         ORDER BY start_pos`,
+         WHERE path = ? AND end_pos > ? AND start_pos <= MAX(?, (
+           SELECT MIN(end_pos) FROM stream_chunks WHERE path = ? AND end_pos > ?
+         ))
+         ORDER BY start_pos
+         LIMIT ?`,
         path,
-        startPos
+        startPos,
+        bounds.maxStartPos,
+        path,
+        startPos,
+        bounds.limit
       )
       .toArray() as ChunkRow[];
   }
@@ -903,7 +1482,7 @@ ${SqliteStore.producerSchema}`;
       const sliceStart = Math.max(0, byteOffset - startPos);
       available.push({
         offset: byteOffset > startPos ? waiter.offset : message.offset,
-        timestamp: Date.now(),
+        timestamp: message.timestamp,
         data: message.data.slice(sliceStart),
       });
     }
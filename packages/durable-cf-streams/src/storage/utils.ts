@@ -1,25 +1,64 @@
 import { DEFAULT_CONTENT_TYPE } from "../const.js";
 import {
   ContentTypeMismatchError,
+  InvalidFilterError,
   InvalidOffsetError,
+  OffsetTrimmedError,
+  SchemaViolationError,
   SequenceConflictError,
   StreamClosedError,
   StreamConflictError,
   StreamGoneError,
 } from "../errors.js";
-import { formatOffset, offsetToBytePos, parseOffset } from "../offsets.js";
+import { parseStreamFilter, type StreamFilter } from "../filter.js";
+import {
+  assertJsonSchemaDefinition,
+  findJsonSchemaViolation,
+  sameJsonValue,
+} from "../json-schema.js";
+import {
+  advanceOffset,
+  formatOffset,
+  initialOffset,
+  offsetToBytePos,
+  parseOffset,
+} from "../offsets.js";
 import type { ProducerAppendDecision } from "../producer.js";
 import {
+  formatJsonResponse,
+  formatMultipartResponse,
+  framedByteLength,
+  frameRecord,
   isJsonContentType,
+  isJsonRecordContentType,
+  isNdjsonContentType,
+  ndjsonByteLength,
   normalizeContentType,
   processJsonAppend,
+  processNdjsonData,
+  splitFrames,
   validateJsonCreate,
 } from "../protocol.js";
 import type {
+  JsonSchema,
+  MessageBoundary,
+  PersistedStreamMetadata,
+  RetentionPolicy,
+  StorageCompression,
+  StreamFraming,
+} from "../schema.js";
+import type {
+  AppendBatchResult,
   AppendOptions,
   AppendResult,
+  FormatOptions,
+  GetOptions,
+  ListOptions,
   Offset,
   PutOptions,
+  StreamMessage,
+  StreamMetadata,
+  TransactionAppend,
 } from "../types.js";
 
 export type IdempotentCreateInfo = {
@@ -31,6 +70,9 @@ export type IdempotentCreateInfo = {
   readonly forkOffset?: Offset;
   readonly forkSubOffset?: number;
   readonly deleted?: boolean;
+  readonly retention?: RetentionPolicy;
+  readonly framing?: StreamFraming;
+  readonly jsonSchema?: JsonSchema;
 };
 
 export type ExpirationMetadata = {
@@ -105,6 +147,18 @@ const validateIdempotentRegularCreate = (
   if (options.expiresAt !== existing.expiresAt) {
     throw new StreamConflictError("Expires-At mismatch on idempotent create");
   }
+
+  if (!sameRetention(options.retention, existing.retention)) {
+    throw new StreamConflictError("retention mismatch on idempotent create");
+  }
+
+  if (options.framing !== existing.framing) {
+    throw new StreamConflictError("framing mismatch on idempotent create");
+  }
+
+  if (!sameJsonValue(options.jsonSchema, existing.jsonSchema)) {
+    throw new StreamConflictError("JSON Schema mismatch on idempotent create");
+  }
 };
 
 const validateIdempotentForkCreate = (
@@ -131,6 +185,16 @@ const validateIdempotentForkCreate = (
     );
   }
 
+  validateIdempotentForkOverrides(existing, options);
+};
+
+/**
+ * checks the settings a fork inherits when unset, but which must match when given.
+ */
+const validateIdempotentForkOverrides = (
+  existing: IdempotentCreateInfo,
+  options: PutOptions
+): void => {
   if (
     options.ttlSeconds !== undefined &&
     options.ttlSeconds !== existing.ttlSeconds
@@ -144,14 +208,84 @@ const validateIdempotentForkCreate = (
   ) {
     throw new StreamConflictError("Expires-At mismatch on idempotent create");
   }
+
+  if (
+    options.retention !== undefined &&
+    !sameRetention(options.retention, existing.retention)
+  ) {
+    throw new StreamConflictError("retention mismatch on idempotent create");
+  }
+  if (options.framing !== undefined && options.framing !== existing.framing) {
+    throw new StreamConflictError("framing mismatch on idempotent create");
+  }
+
+  if (
+    options.jsonSchema !== undefined &&
+    !sameJsonValue(options.jsonSchema, existing.jsonSchema)
+  ) {
+    throw new StreamConflictError("JSON Schema mismatch on idempotent create");
+  }
+};
+
+const sameRetention = (
+  left: RetentionPolicy | undefined,
+  right: RetentionPolicy | undefined
+): boolean =>
+  left?.maxBytes === right?.maxBytes &&
+  left?.maxMessages === right?.maxMessages &&
+  left?.maxAgeSeconds === right?.maxAgeSeconds;
+
+const assertRetentionLimit = (
+  name: string,
+  value: number | undefined
+): void => {
+  if (value !== undefined && !(Number.isSafeInteger(value) && value > 0)) {
+    throw new RangeError(`retention ${name} must be a positive integer`);
+  }
+};
+
+export const validateRetentionPolicy = (
+  retention: RetentionPolicy | undefined
+): void => {
+  assertRetentionLimit("maxBytes", retention?.maxBytes);
+  assertRetentionLimit("maxMessages", retention?.maxMessages);
+  assertRetentionLimit("maxAgeSeconds", retention?.maxAgeSeconds);
+};
+
+export const hasRetentionLimits = (
+  retention: RetentionPolicy | undefined
+): retention is RetentionPolicy =>
+  retention?.maxBytes !== undefined ||
+  retention?.maxMessages !== undefined ||
+  retention?.maxAgeSeconds !== undefined;
+
+/**
+ * stream bytes plus where each append starts.
+ * NOTE: a boundary's message runs until the next boundary, or to the end of `data` for the last one.
+ * NOTE: `startPos` is the stream position of `data[0]`, which moves past zero once retention trims the log.
+ */
+export type MessageLog = {
+  readonly data: Uint8Array;
+  readonly boundaries: readonly MessageBoundary[];
+  readonly startPos?: number;
 };
 
 export type PreparedData = {
   readonly data: Uint8Array;
+  readonly boundaries: readonly MessageBoundary[];
+  readonly startPos?: number;
   readonly appendCount: number;
   readonly nextOffset: Offset;
 };
 
+export const logStartPos = (log: MessageLog): number => {
+  if (log.startPos !== undefined) {
+    return log.startPos;
+  }
+  const first = log.boundaries[0];
+  return first ? offsetToBytePos(first.offset) : 0;
+};
+
 export const normalizeForkSubOffset = (
   forkSubOffset: number | undefined
 ): number | undefined =>
@@ -166,21 +300,160 @@ const concatenateData = (left: Uint8Array, right: Uint8Array): Uint8Array => {
   return result;
 };
 
+/**
+ * rejects framing on JSON streams, whose appends are already split into items.
+ */
+export const assertFramingContentType = (
+  contentType: string,
+  framing: StreamFraming | undefined
+): void => {
+  if (framing !== undefined && isJsonRecordContentType(contentType)) {
+    throw new RangeError(`${framing} framing requires a non-JSON content type`);
+  }
+};
+
+/**
+ * forks keep their source's framing, since they share its stored bytes.
+ */
+export const resolveForkFraming = (
+  source: StreamFraming | undefined,
+  options: PutOptions
+): StreamFraming | undefined => {
+  if (options.framing !== undefined && options.framing !== source) {
+    throw new StreamConflictError("fork framing must match its source");
+  }
+  return source;
+};
+
+/**
+ * rejects schemas on streams without JSON items, and schemas using keywords the validator does not implement.
+ */
+export const assertStreamJsonSchema = (
+  contentType: string,
+  jsonSchema: JsonSchema | undefined
+): void => {
+  if (jsonSchema === undefined) {
+    return;
+  }
+  if (!isJsonRecordContentType(contentType)) {
+    throw new RangeError("JSON Schema requires a JSON or NDJSON content type");
+  }
+  assertJsonSchemaDefinition(jsonSchema);
+};
+
+/**
+ * forks keep their source's schema, since their copied items were checked against it.
+ */
+export const resolveForkJsonSchema = (
+  source: JsonSchema | undefined,
+  options: PutOptions
+): JsonSchema | undefined => {
+  if (
+    options.jsonSchema !== undefined &&
+    !sameJsonValue(options.jsonSchema, source)
+  ) {
+    throw new StreamConflictError("fork JSON Schema must match its source");
+  }
+  return source;
+};
+
+/**
+ * the items of a JSON body, or of normalized NDJSON lines, each with the JSON pointer it starts at.
+ */
+const jsonBodyItems = (
+  data: Uint8Array,
+  contentType: string
+): (readonly [string, unknown])[] => {
+  const text = new TextDecoder().decode(data);
+  if (isNdjsonContentType(contentType)) {
+    return text
+      .split("\n")
+      .filter((line) => line !== "")
+      .map((line, index) => [`/${index}`, JSON.parse(line)] as const);
+  }
+
+  const parsed: unknown = JSON.parse(text);
+  return Array.isArray(parsed)
+    ? parsed.map((item, index) => [`/${index}`, item] as const)
+    : [["", parsed] as const];
+};
+
+/**
+ * rejects the first item of a body that does not match the stream's JSON Schema.
+ * NOTE: runs after the body is known to parse, so only schema violations are raised here.
+ */
+const assertJsonSchemaConforms = (
+  data: Uint8Array,
+  format: StreamFormat
+): void => {
+  if (format.jsonSchema === undefined || data.length === 0) {
+    return;
+  }
+
+  for (const [pointer, item] of jsonBodyItems(data, format.contentType)) {
+    const found = findJsonSchemaViolation(item, format.jsonSchema, pointer);
+    if (found) {
+      throw new SchemaViolationError(
+        found.pointer,
+        `JSON Schema violation at "${found.pointer}": ${found.message}`
+      );
+    }
+  }
+};
+
 export const resolveCreateContentType = (options: PutOptions): string =>
   options.contentType ?? DEFAULT_CONTENT_TYPE;
 
-export const prepareInitialData = (options: PutOptions): PreparedData => {
-  let data = options.data ?? new Uint8Array(0);
-  const isJson = isJsonContentType(resolveCreateContentType(options));
+/**
+ * validates and encodes the body of a create the way the stream stores appends.
+ */
+const prepareCreateData = (
+  data: Uint8Array,
+  format: StreamFormat
+): Uint8Array => {
+  if (data.length === 0) {
+    return data;
+  }
+  if (format.framing !== undefined) {
+    return frameRecord(data);
+  }
+  if (isNdjsonContentType(format.contentType)) {
+    const lines = processNdjsonData(data, true);
+    assertJsonSchemaConforms(lines, format);
+    return lines;
+  }
+  if (!isJsonContentType(format.contentType)) {
+    return data;
+  }
 
-  if (isJson && data.length > 0) {
-    data = validateJsonCreate(data, true);
+  const items = validateJsonCreate(data, true);
+  assertJsonSchemaConforms(data, format);
+  return items;
+};
+
+/**
+ * validates and stores the body of a new stream.
+ * NOTE: a fork's JSON Schema is checked against its source's instead, since its content type is only known once the source is read.
+ */
+export const prepareInitialData = (options: PutOptions): PreparedData => {
+  const contentType = resolveCreateContentType(options);
+  assertFramingContentType(contentType, options.framing);
+  if (options.forkedFrom === undefined) {
+    assertStreamJsonSchema(contentType, options.jsonSchema);
   }
 
+  const data = prepareCreateData(options.data ?? new Uint8Array(0), {
+    contentType,
+    framing: options.framing,
+    jsonSchema: options.jsonSchema,
+  });
+
   const appendCount = data.length > 0 ? 1 : 0;
   const nextOffset = formatOffset(appendCount, data.length);
+  const boundaries =
+    data.length > 0 ? [{ offset: initialOffset(), timestamp: Date.now() }] : [];
 
-  return { data, appendCount, nextOffset };
+  return { data, boundaries, appendCount, nextOffset };
 };
 
 const jsonSubOffsetByteLength = (
@@ -209,14 +482,44 @@ const jsonSubOffsetByteLength = (
   }
 };
 
+/**
+ * bytes covered by the first `subOffset` records after a fork offset.
+ * NOTE: JSON sub-offsets count items, NDJSON sub-offsets count lines and framed sub-offsets count records; other streams count bytes.
+ */
+const subOffsetByteLength = (
+  data: Uint8Array,
+  subOffset: number,
+  format: StreamFormat
+): number | null => {
+  if (isJsonContentType(format.contentType)) {
+    return jsonSubOffsetByteLength(data, subOffset);
+  }
+  if (isNdjsonContentType(format.contentType)) {
+    return ndjsonByteLength(data, subOffset);
+  }
+  if (format.framing !== undefined) {
+    return framedByteLength(data, subOffset);
+  }
+  return subOffset;
+};
+
+const boundariesBefore = (
+  boundaries: readonly MessageBoundary[],
+  endPos: number
+): MessageBoundary[] =>
+  boundaries.filter((boundary) => offsetToBytePos(boundary.offset) < endPos);
+
 const prepareForkPrefix = (
-  sourceData: Uint8Array,
+  source: MessageLog,
   forkOffset: Offset,
-  contentType: string,
+  format: StreamFormat,
   forkSubOffset: number | undefined
 ): PreparedData => {
+  const sourceData = source.data;
+  const startPos = logStartPos(source);
   const byteOffset = offsetToBytePos(forkOffset);
-  if (byteOffset > sourceData.length) {
+  const cutIndex = byteOffset - startPos;
+  if (cutIndex < 0 || cutIndex > sourceData.length) {
     throw new InvalidOffsetError(forkOffset);
   }
 
@@ -224,63 +527,76 @@ const prepareForkPrefix = (
   const subOffset = normalizeForkSubOffset(forkSubOffset);
   if (subOffset === undefined) {
     return {
-      data: sourceData.slice(0, byteOffset),
+      data: sourceData.slice(0, cutIndex),
+      boundaries: boundariesBefore(source.boundaries, byteOffset),
+      startPos,
       appendCount: parsedOffset?.seq ?? 0,
       nextOffset: forkOffset,
     };
   }
 
-  const isJson = isJsonContentType(contentType);
-  const subOffsetBytes = isJson
-    ? jsonSubOffsetByteLength(sourceData.slice(byteOffset), subOffset)
-    : subOffset;
+  const subOffsetBytes = subOffsetByteLength(
+    sourceData.slice(cutIndex),
+    subOffset,
+    format
+  );
   if (
     subOffsetBytes === null ||
-    byteOffset + subOffsetBytes > sourceData.length
+    cutIndex + subOffsetBytes > sourceData.length
   ) {
     throw new InvalidOffsetError(forkOffset);
   }
 
-  const data = sourceData.slice(0, byteOffset + subOffsetBytes);
-  const appendCount = (parsedOffset?.seq ?? 0) + (isJson ? subOffset : 1);
+  const endPos = byteOffset + subOffsetBytes;
+  const countsRecords =
+    isJsonRecordContentType(format.contentType) || format.framing !== undefined;
+  const appendCount =
+    (parsedOffset?.seq ?? 0) + (countsRecords ? subOffset : 1);
   return {
-    data,
+    data: sourceData.slice(0, cutIndex + subOffsetBytes),
+    boundaries: boundariesBefore(source.boundaries, endPos),
+    startPos,
     appendCount,
-    nextOffset: formatOffset(appendCount, data.length),
+    nextOffset: formatOffset(appendCount, endPos),
   };
 };
 
+/**
+ * copies the fork prefix of a source log, keeping the source's message boundaries.
+ * NOTE: a sub-offset cut shortens the message it lands in; that message keeps its original offset and timestamp.
+ */
 export const prepareForkData = (
-  sourceData: Uint8Array,
+  source: MessageLog,
   forkOffset: Offset,
-  contentType: string,
+  format: StreamFormat,
   forkSubOffset?: number,
   createData?: Uint8Array
 ): PreparedData => {
-  const prepared = prepareForkPrefix(
-    sourceData,
-    forkOffset,
-    contentType,
-    forkSubOffset
-  );
+  const prepared = prepareForkPrefix(source, forkOffset, format, forkSubOffset);
 
   if (createData === undefined || createData.length === 0) {
     return prepared;
   }
 
-  const data = isJsonContentType(contentType)
-    ? validateJsonCreate(createData, true)
-    : createData;
-  if (data.length === 0) {
+  const stored = prepareCreateData(createData, format);
+  if (stored.length === 0) {
     return prepared;
   }
 
-  const merged = concatenateData(prepared.data, data);
+  const merged = concatenateData(prepared.data, stored);
   const appendCount = prepared.appendCount + 1;
   return {
     data: merged,
+    boundaries: [
+      ...prepared.boundaries,
+      { offset: prepared.nextOffset, timestamp: Date.now() },
+    ],
+    startPos: prepared.startPos,
     appendCount,
-    nextOffset: formatOffset(appendCount, merged.length),
+    nextOffset: formatOffset(
+      appendCount,
+      offsetToBytePos(prepared.nextOffset) + stored.length
+    ),
   };
 };
 
@@ -332,7 +648,7 @@ export const closedAppendResult = (
   path: string,
   nextOffset: Offset,
   closed: boolean,
-  data: Uint8Array,
+  byteLength: number,
   options: AppendOptions | undefined,
   decision: ProducerAppendDecision
 ): AppendResult | undefined => {
@@ -349,40 +665,175 @@ export const closedAppendResult = (
     };
   }
 
-  if (options?.close === true && data.length === 0 && !options.producer) {
+  if (options?.close === true && byteLength === 0 && !options.producer) {
     return { nextOffset, closed: true, appended: false };
   }
 
   throw new StreamClosedError(path, nextOffset);
 };
 
+const mergeAppendData = (
+  existingData: Uint8Array,
+  data: Uint8Array,
+  format: StreamFormat
+): Uint8Array => {
+  if (format.framing !== undefined) {
+    return mergeData(existingData, frameRecord(data), false);
+  }
+  if (isNdjsonContentType(format.contentType)) {
+    const lines = processNdjsonData(data, false);
+    assertJsonSchemaConforms(lines, format);
+    return mergeData(existingData, lines, false);
+  }
+
+  const isJson = isJsonContentType(format.contentType);
+  const merged = mergeData(existingData, data, isJson);
+  if (isJson) {
+    assertJsonSchemaConforms(data, format);
+  }
+  return merged;
+};
+
 export type PreparedAppend = {
   readonly data: Uint8Array;
+  readonly boundaries: readonly MessageBoundary[];
+  readonly startPos?: number;
   readonly appendCount: number;
   readonly nextOffset: Offset;
   readonly appended: boolean;
 };
 
 export const prepareAppendData = (
-  existingData: Uint8Array,
+  existing: MessageLog,
   data: Uint8Array,
-  contentType: string,
+  format: StreamFormat,
   appendCount: number,
   nextOffset: Offset
 ): PreparedAppend => {
   if (data.length === 0) {
-    return { data: existingData, appendCount, nextOffset, appended: false };
+    return { ...existing, appendCount, nextOffset, appended: false };
   }
 
-  const merged = mergeData(existingData, data, isJsonContentType(contentType));
+  const merged = mergeAppendData(existing.data, data, format);
   return {
     data: merged,
+    boundaries: [
+      ...existing.boundaries,
+      { offset: nextOffset, timestamp: Date.now() },
+    ],
+    startPos: existing.startPos,
     appendCount: appendCount + 1,
-    nextOffset: formatOffset(appendCount + 1, merged.length),
+    nextOffset: formatOffset(
+      appendCount + 1,
+      offsetToBytePos(nextOffset) + merged.length - existing.data.length
+    ),
     appended: true,
   };
 };
 
+export type PreparedAppendBatch = PreparedAppend & {
+  readonly offsets: readonly Offset[];
+};
+
+/**
+ * appends each record as its own message, as if each had been a separate `append`.
+ * NOTE: `offsets[i]` is where record `i` starts; an empty record writes nothing and shares the next record's offset.
+ */
+export const prepareAppendBatch = (
+  existing: MessageLog,
+  records: readonly Uint8Array[],
+  format: StreamFormat,
+  appendCount: number,
+  nextOffset: Offset
+): PreparedAppendBatch => {
+  const offsets: Offset[] = [];
+  let batch: PreparedAppend = {
+    data: new Uint8Array(0),
+    boundaries: [],
+    startPos: offsetToBytePos(nextOffset),
+    appendCount,
+    nextOffset,
+    appended: false,
+  };
+  for (const record of records) {
+    offsets.push(batch.nextOffset);
+    const next = prepareAppendData(
+      batch,
+      record,
+      format,
+      batch.appendCount,
+      batch.nextOffset
+    );
+    batch = { ...next, appended: batch.appended || next.appended };
+  }
+
+  return {
+    data: mergeData(existing.data, batch.data, false),
+    boundaries: [...existing.boundaries, ...batch.boundaries],
+    startPos: existing.startPos,
+    appendCount: batch.appendCount,
+    nextOffset: batch.nextOffset,
+    appended: batch.appended,
+    offsets,
+  };
+};
+
+export const assertDistinctTransactionPaths = (
+  appends: readonly TransactionAppend[]
+): void => {
+  const paths = new Set<string>();
+  for (const { path } of appends) {
+    if (paths.has(path)) {
+      throw new StreamConflictError(
+        `Stream ${path} is appended to more than once in one transaction`
+      );
+    }
+    paths.add(path);
+  }
+};
+
+export const recordsByteLength = (records: readonly Uint8Array[]): number =>
+  records.reduce((total, record) => total + record.length, 0);
+
+export const batchResult = (
+  result: AppendResult,
+  offsets: readonly Offset[] = []
+): AppendBatchResult => ({ ...result, offsets });
+
+/**
+ * what `formatResponse` needs to know about a stream.
+ */
+export type StreamFormat = {
+  readonly contentType: string;
+  readonly framing?: StreamFraming;
+  readonly jsonSchema?: JsonSchema;
+};
+
+/**
+ * joins read messages into a response body.
+ */
+export const formatMessages = (
+  messages: readonly StreamMessage[],
+  format: StreamFormat,
+  options?: FormatOptions
+): Uint8Array => {
+  const combined = concatenateParts(messages.map((message) => message.data));
+  if (isJsonContentType(format.contentType)) {
+    return formatJsonResponse(combined);
+  }
+  if (
+    format.framing !== undefined &&
+    options?.multipartBoundary !== undefined
+  ) {
+    return formatMultipartResponse(
+      splitFrames(combined),
+      format.contentType,
+      options.multipartBoundary
+    );
+  }
+  return combined;
+};
+
 export const appendResult = (
   nextOffset: Offset,
   closed: boolean,
@@ -394,3 +845,698 @@ export const appendResult = (
   appended,
   ...(decision._tag === "Accepted" ? { producer: decision.result } : {}),
 });
+
+const boundaryIndexAt = (
+  boundaries: readonly MessageBoundary[],
+  pos: number
+): number => {
+  let low = 0;
+  let high = boundaries.length - 1;
+  let found = 0;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const boundary = boundaries[mid] as MessageBoundary;
+    if (offsetToBytePos(boundary.offset) <= pos) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+};
+
+/**
+ * reads one message per append from `startOffset` to the end of the log.
+ * NOTE: a read that starts inside an append returns the rest of it under the requested offset.
+ */
+export const sliceMessages = (
+  log: MessageLog,
+  startOffset: Offset
+): StreamMessage[] => {
+  const startPos = offsetToBytePos(startOffset);
+  const dataPos = logStartPos(log);
+  const messages: StreamMessage[] = [];
+
+  for (
+    let index = boundaryIndexAt(log.boundaries, startPos);
+    index < log.boundaries.length;
+    index++
+  ) {
+    const boundary = log.boundaries[index] as MessageBoundary;
+    const next = log.boundaries[index + 1];
+    const messagePos = offsetToBytePos(boundary.offset);
+    const endPos = next
+      ? offsetToBytePos(next.offset)
+      : dataPos + log.data.length;
+    if (endPos <= startPos) {
+      continue;
+    }
+
+    messages.push({
+      offset: startPos > messagePos ? startOffset : boundary.offset,
+      timestamp: boundary.timestamp,
+      data: log.data.slice(
+        Math.max(startPos, messagePos) - dataPos,
+        endPos - dataPos
+      ),
+    });
+  }
+
+  return messages;
+};
+
+export const concatenateParts = (parts: readonly Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(
+    parts.reduce((acc, part) => acc + part.length, 0)
+  );
+  let pos = 0;
+  for (const part of parts) {
+    result.set(part, pos);
+    pos += part.length;
+  }
+  return result;
+};
+
+export const collectMessages = (
+  messages: readonly StreamMessage[]
+): MessageLog => ({
+  data: concatenateParts(messages.map((message) => message.data)),
+  boundaries: messages.map((message) => ({
+    offset: message.offset,
+    timestamp: message.timestamp,
+  })),
+});
+
+const retainedByCount = (
+  boundaries: readonly MessageBoundary[],
+  maxMessages: number | undefined
+): number =>
+  maxMessages === undefined ? 0 : Math.max(0, boundaries.length - maxMessages);
+
+const retainedByBytes = (
+  boundaries: readonly MessageBoundary[],
+  endPos: number,
+  maxBytes: number | undefined
+): number => {
+  if (maxBytes === undefined) {
+    return 0;
+  }
+
+  let index = boundaries.length;
+  while (
+    index > 0 &&
+    endPos -
+      offsetToBytePos((boundaries[index - 1] as MessageBoundary).offset) <=
+      maxBytes
+  ) {
+    index--;
+  }
+  return index;
+};
+
+const retainedByAge = (
+  boundaries: readonly MessageBoundary[],
+  maxAgeSeconds: number | undefined,
+  now: number
+): number => {
+  if (maxAgeSeconds === undefined) {
+    return 0;
+  }
+
+  const cutoff = now - maxAgeSeconds * 1000;
+  const index = boundaries.findIndex(
+    (boundary) => boundary.timestamp >= cutoff
+  );
+  return index === -1 ? boundaries.length : index;
+};
+
+export type TrimmedLog = {
+  readonly log: MessageLog;
+  readonly trimmedOffset: Offset;
+};
+
+/**
+ * finds the earliest offset a retention policy keeps, or `undefined` when nothing falls outside it.
+ * NOTE: trimming only ever removes whole appends, so the earliest kept offset is always a real message offset, or the tail once everything is dropped.
+ */
+const retentionFloor = (
+  boundaries: readonly MessageBoundary[],
+  tailOffset: Offset,
+  retention: RetentionPolicy | undefined,
+  now: number
+): Offset | undefined => {
+  if (!hasRetentionLimits(retention)) {
+    return;
+  }
+
+  const dropCount = Math.max(
+    retainedByCount(boundaries, retention.maxMessages),
+    retainedByBytes(
+      boundaries,
+      offsetToBytePos(tailOffset),
+      retention.maxBytes
+    ),
+    retainedByAge(boundaries, retention.maxAgeSeconds, now)
+  );
+  return dropCount === 0
+    ? undefined
+    : (boundaries[dropCount]?.offset ?? tailOffset);
+};
+
+/**
+ * drops the leading appends of a log that fall outside its retention policy.
+ */
+export const applyRetention = (
+  log: MessageLog,
+  tailOffset: Offset,
+  retention: RetentionPolicy | undefined,
+  now = Date.now()
+): TrimmedLog | undefined => {
+  const trimmedOffset = retentionFloor(
+    log.boundaries,
+    tailOffset,
+    retention,
+    now
+  );
+  if (trimmedOffset === undefined) {
+    return;
+  }
+
+  const startPos = logStartPos(log);
+  const trimmedPos = offsetToBytePos(trimmedOffset);
+  return {
+    log: {
+      data: log.data.slice(trimmedPos - startPos),
+      boundaries: log.boundaries.filter(
+        (boundary) => offsetToBytePos(boundary.offset) >= trimmedPos
+      ),
+      startPos: trimmedPos,
+    },
+    trimmedOffset,
+  };
+};
+
+/**
+ * applies a new stream's retention policy before its first write.
+ * NOTE: `trimmedOffset` carries a fork source's floor when nothing more is trimmed.
+ */
+export const retainCreatedLog = <T extends PreparedData>(
+  prepared: T,
+  retention: RetentionPolicy | undefined,
+  trimmedOffset: Offset | undefined
+): T & { readonly trimmedOffset?: Offset } => {
+  const trimmed = applyRetention(prepared, prepared.nextOffset, retention);
+  return trimmed
+    ? { ...prepared, ...trimmed.log, trimmedOffset: trimmed.trimmedOffset }
+    : { ...prepared, trimmedOffset };
+};
+
+export const retentionColumnValues = (
+  retention: RetentionPolicy | undefined
+): [number | null, number | null, number | null] => [
+  retention?.maxBytes ?? null,
+  retention?.maxMessages ?? null,
+  retention?.maxAgeSeconds ?? null,
+];
+
+export type RetentionColumns = {
+  readonly retention_max_bytes: number | null;
+  readonly retention_max_messages: number | null;
+  readonly retention_max_age_seconds: number | null;
+};
+
+export const retentionFromColumns = (
+  row: RetentionColumns
+): RetentionPolicy | undefined => {
+  const retention = {
+    maxBytes: row.retention_max_bytes ?? undefined,
+    maxMessages: row.retention_max_messages ?? undefined,
+    maxAgeSeconds: row.retention_max_age_seconds ?? undefined,
+  };
+  return hasRetentionLimits(retention) ? retention : undefined;
+};
+
+/**
+ * picks the furthest of several candidate trim points.
+ */
+export const furthestOffset = (
+  offsets: readonly (Offset | undefined)[]
+): Offset | undefined => {
+  let furthest: Offset | undefined;
+  for (const offset of offsets) {
+    if (
+      offset !== undefined &&
+      (furthest === undefined ||
+        offsetToBytePos(offset) > offsetToBytePos(furthest))
+    ) {
+      furthest = offset;
+    }
+  }
+  return furthest;
+};
+
+/**
+ * rejects offsets that retention has already dropped.
+ */
+export const assertOffsetRetained = (
+  path: string,
+  offset: Offset,
+  trimmedOffset: Offset | undefined
+): void => {
+  if (
+    trimmedOffset !== undefined &&
+    offsetToBytePos(offset) < offsetToBytePos(trimmedOffset)
+  ) {
+    throw new OffsetTrimmedError(path, trimmedOffset);
+  }
+};
+
+/**
+ * moves a read's start onto the retained part of a stream.
+ * NOTE: the initial offset means "from the beginning", so it reads from the earliest retained offset instead of failing.
+ */
+export const retainedReadOffset = (
+  path: string,
+  offset: Offset,
+  trimmedOffset: Offset | undefined
+): Offset => {
+  if (trimmedOffset !== undefined && offset === initialOffset()) {
+    return trimmedOffset;
+  }
+  assertOffsetRetained(path, offset, trimmedOffset);
+  return offset;
+};
+
+export const DEFAULT_LIST_LIMIT = 100;
+export const MAX_LIST_LIMIT = 1000;
+
+/**
+ * resolves the page size of a `list` call.
+ * NOTE: the cap matches the largest page KV and R2 return from one list call.
+ */
+export const resolveListLimit = (options: ListOptions | undefined): number => {
+  const limit = options?.limit ?? DEFAULT_LIST_LIMIT;
+  if (!Number.isSafeInteger(limit) || limit <= 0 || limit > MAX_LIST_LIMIT) {
+    throw new RangeError(
+      `limit must be an integer between 1 and ${MAX_LIST_LIMIT}`
+    );
+  }
+  return limit;
+};
+
+export const persistedStreamMetadata = (
+  path: string,
+  meta: PersistedStreamMetadata
+): StreamMetadata => ({
+  path,
+  contentType: meta.contentType,
+  ttlSeconds: meta.ttlSeconds,
+  expiresAt: meta.expiresAt,
+  createdAt: meta.createdAt,
+  lastAccessedAt: meta.lastAccessedAt,
+  closed: meta.closed,
+  forkedFrom: meta.forkedFrom,
+  forkOffset: meta.forkOffset,
+  forkSubOffset: meta.forkSubOffset,
+  childCount: meta.childCount,
+  deleted: meta.deleted,
+  retention: meta.retention,
+  trimmedOffset: meta.trimmedOffset,
+  framing: meta.framing,
+  jsonSchema: meta.jsonSchema,
+});
+
+export type ChunkRow = {
+  start_pos: number;
+  end_pos: number;
+  start_offset: Offset;
+  end_offset: Offset;
+  created_at: number | null;
+  data: ArrayBuffer;
+  compression?: StorageCompression | null;
+  encrypted?: boolean | number | null;
+};
+
+export type ChunkRange = {
+  readonly fromPos: number;
+  readonly toPos: number;
+};
+
+/**
+ * finds the unread rows of the last message in a chunk read.
+ * NOTE: every row of a message carries the message's `start_offset` and `end_offset`, so a row ending before `end_offset` means the message continues.
+ */
+export const missingChunkRange = (
+  rows: readonly ChunkRow[]
+): ChunkRange | undefined => {
+  const last = rows.at(-1);
+  if (!last) {
+    return;
+  }
+
+  const toPos = offsetToBytePos(last.end_offset);
+  return last.end_pos < toPos ? { fromPos: last.end_pos, toPos } : undefined;
+};
+
+const chunkGroupMessage = (
+  group: readonly ChunkRow[],
+  startOffset: Offset,
+  fallbackTimestamp: number
+): StreamMessage => {
+  const first = group[0] as ChunkRow;
+  const startPos = offsetToBytePos(startOffset);
+  const messagePos = offsetToBytePos(first.start_offset);
+  const bytes = concatenateParts(group.map((row) => new Uint8Array(row.data)));
+
+  return {
+    offset: startPos > messagePos ? startOffset : first.start_offset,
+    timestamp: first.created_at ?? fallbackTimestamp,
+    data: bytes.slice(Math.max(0, startPos - first.start_pos)),
+  };
+};
+
+export type ChunkMessages = {
+  readonly messages: StreamMessage[];
+  readonly endOffset: Offset | undefined;
+};
+
+/**
+ * folds ordered chunk rows into one message per append.
+ * NOTE: rows written before `created_at` existed read back with `fallbackTimestamp`.
+ */
+export const messagesFromChunks = (
+  rows: readonly ChunkRow[],
+  startOffset: Offset,
+  fallbackTimestamp: number
+): ChunkMessages => {
+  const messages: StreamMessage[] = [];
+  let group: ChunkRow[] = [];
+
+  for (const row of rows) {
+    if (group.length > 0 && group[0]?.start_offset !== row.start_offset) {
+      messages.push(chunkGroupMessage(group, startOffset, fallbackTimestamp));
+      group = [];
+    }
+    group.push(row);
+  }
+
+  if (group.length > 0) {
+    messages.push(chunkGroupMessage(group, startOffset, fallbackTimestamp));
+  }
+
+  return { messages, endOffset: rows.at(-1)?.end_offset };
+};
+
+export type PendingChunk = {
+  readonly startPos: number;
+  readonly data: Uint8Array;
+  readonly startOffset: Offset;
+  readonly endOffset: Offset;
+  readonly timestamp: number;
+};
+
+/**
+ * splits a log into chunk rows of at most `maxChunkBytes`.
+ * NOTE: an append larger than one row is stored as continuation rows sharing its offsets and timestamp.
+ */
+export const chunkLog = (
+  log: MessageLog,
+  finalOffset: Offset,
+  maxChunkBytes: number
+): PendingChunk[] => {
+  const chunks: PendingChunk[] = [];
+  const dataPos = logStartPos(log);
+
+  log.boundaries.forEach((boundary, index) => {
+    const next = log.boundaries[index + 1];
+    const endOffset = next ? next.offset : finalOffset;
+    const endPos = next
+      ? offsetToBytePos(next.offset)
+      : dataPos + log.data.length;
+
+    for (
+      let startPos = offsetToBytePos(boundary.offset);
+      startPos < endPos;
+      startPos += maxChunkBytes
+    ) {
+      chunks.push({
+        startPos,
+        data: log.data.slice(
+          startPos - dataPos,
+          Math.min(startPos + maxChunkBytes, endPos) - dataPos
+        ),
+        startOffset: boundary.offset,
+        endOffset,
+        timestamp: boundary.timestamp,
+      });
+    }
+  });
+
+  return chunks;
+};
+
+export type ReadPage = {
+  readonly messages: StreamMessage[];
+  readonly nextOffset: Offset;
+  readonly upToDate: boolean;
+};
+
+const assertReadLimit = (name: string, value: number | undefined): void => {
+  if (value !== undefined && !(Number.isSafeInteger(value) && value > 0)) {
+    throw new RangeError(`${name} must be a positive integer`);
+  }
+};
+
+export const validateGetOptions = (options: GetOptions | undefined): void => {
+  assertReadLimit("maxBytes", options?.maxBytes);
+  assertReadLimit("maxMessages", options?.maxMessages);
+
+  if (options?.fromTimestamp === undefined) {
+    return;
+  }
+  if (options.offset !== undefined) {
+    throw new RangeError("offset and fromTimestamp cannot both be set");
+  }
+  if (!(Number.isFinite(options.fromTimestamp) && options.fromTimestamp >= 0)) {
+    throw new RangeError("fromTimestamp must be a non-negative number");
+  }
+};
+
+/**
+ * resolves where a read over an in-memory log starts.
+ * NOTE: `fromTimestamp` maps to the first boundary stamped at or after it, keeping the same offset a reader would have checkpointed.
+ */
+export const logReadOffset = (
+  log: { readonly boundaries: readonly MessageBoundary[] },
+  tailOffset: Offset,
+  options: GetOptions | undefined
+): Offset => {
+  const fromTimestamp = options?.fromTimestamp;
+  if (fromTimestamp === undefined) {
+    return options?.offset ?? initialOffset();
+  }
+
+  return (
+    log.boundaries.find((boundary) => boundary.timestamp >= fromTimestamp)
+      ?.offset ?? tailOffset
+  );
+};
+
+export type ChunkReadBounds = {
+  readonly maxStartPos: number;
+  readonly limit: number;
+};
+
+/**
+ * translates read limits into chunk row bounds.
+ * NOTE: one extra row past `maxMessages` tells the page where the next one starts; `-1` is SQLite's "no limit".
+ */
+export const chunkReadBounds = (
+  startPos: number,
+  options: GetOptions | undefined
+): ChunkReadBounds => ({
+  maxStartPos:
+    options?.maxBytes === undefined
+      ? Number.MAX_SAFE_INTEGER
+      : startPos + options.maxBytes,
+  limit: options?.maxMessages === undefined ? -1 : options.maxMessages + 1,
+});
+
+const messageEndPos = (message: StreamMessage): number =>
+  offsetToBytePos(message.offset) + message.data.length;
+
+const partialPage = (
+  messages: StreamMessage[],
+  nextOffset: Offset
+): ReadPage => ({ messages, nextOffset, upToDate: false });
+
+const splitFirstMessage = (
+  message: StreamMessage,
+  maxBytes: number
+): ReadPage =>
+  partialPage(
+    [{ ...message, data: message.data.slice(0, maxBytes) }],
+    advanceOffset(message.offset, maxBytes)
+  );
+
+const completedPage = (
+  messages: StreamMessage[],
+  tailOffset: Offset,
+  readEndOffset: Offset | undefined
+): ReadPage => {
+  const last = messages.at(-1);
+  if (
+    last === undefined ||
+    messageEndPos(last) >= offsetToBytePos(tailOffset)
+  ) {
+    return { messages, nextOffset: tailOffset, upToDate: true };
+  }
+
+  return partialPage(
+    messages,
+    readEndOffset ?? advanceOffset(last.offset, last.data.length)
+  );
+};
+
+type PageLimits = {
+  readonly maxBytes: number;
+  readonly maxMessages: number;
+  readonly splittable: boolean;
+};
+
+const pageCut = (
+  page: StreamMessage[],
+  bytes: number,
+  message: StreamMessage,
+  limits: PageLimits
+): ReadPage | undefined => {
+  if (page.length >= limits.maxMessages) {
+    return partialPage(page, message.offset);
+  }
+
+  if (bytes + message.data.length <= limits.maxBytes) {
+    return;
+  }
+
+  if (page.length > 0) {
+    return partialPage(page, message.offset);
+  }
+
+  return limits.splittable
+    ? splitFirstMessage(message, limits.maxBytes)
+    : undefined;
+};
+
+const filterMessageData = (
+  data: Uint8Array,
+  contentType: string,
+  filter: StreamFilter
+): Uint8Array => {
+  const text = new TextDecoder().decode(data);
+  if (isNdjsonContentType(contentType)) {
+    const lines = text
+      .split("\n")
+      .filter((line) => line !== "" && filter(JSON.parse(line)));
+    return new TextEncoder().encode(lines.map((line) => `${line}\n`).join(""));
+  }
+
+  const items = JSON.parse(
+    `[${text.endsWith(",") ? text.slice(0, -1) : text}]`
+  ) as unknown[];
+  return new TextEncoder().encode(
+    items
+      .filter((item) => filter(item))
+      .map((item) => `${JSON.stringify(item)},`)
+      .join("")
+  );
+};
+
+/**
+ * keeps the items of JSON and NDJSON messages that match `filter`, dropping messages left empty.
+ * NOTE: kept messages keep their offsets, so a read's `nextOffset` still moves past the dropped items.
+ */
+export const filterMessages = (
+  messages: readonly StreamMessage[],
+  contentType: string,
+  filter: StreamFilter
+): StreamMessage[] =>
+  messages.flatMap((message) => {
+    const data = filterMessageData(message.data, contentType, filter);
+    return data.length > 0 ? [{ ...message, data }] : [];
+  });
+
+const readFilter = (
+  format: StreamFormat,
+  options: GetOptions | undefined
+): StreamFilter | undefined => {
+  if (options?.filter === undefined) {
+    return;
+  }
+  if (!isJsonRecordContentType(format.contentType)) {
+    throw new InvalidFilterError("filter requires a JSON or NDJSON stream");
+  }
+  return parseStreamFilter(options.filter);
+};
+
+const pageMessages = (
+  messages: readonly StreamMessage[],
+  tailOffset: Offset,
+  format: StreamFormat,
+  options: GetOptions | undefined,
+  readEndOffset: Offset | undefined
+): ReadPage => {
+  const limits: PageLimits = {
+    maxBytes: options?.maxBytes ?? Number.POSITIVE_INFINITY,
+    maxMessages: options?.maxMessages ?? Number.POSITIVE_INFINITY,
+    splittable:
+      !isJsonRecordContentType(format.contentType) &&
+      format.framing === undefined,
+  };
+  const page: StreamMessage[] = [];
+  let bytes = 0;
+
+  for (const message of messages) {
+    const cut = pageCut(page, bytes, message, limits);
+    if (cut) {
+      return cut;
+    }
+
+    page.push(message);
+    bytes += message.data.length;
+  }
+
+  return completedPage(page, tailOffset, readEndOffset);
+};
+
+/**
+ * bounds ordered read messages by `maxMessages` and `maxBytes`.
+ * NOTE: pages end on message boundaries so the next page starts at a real message offset; only a raw byte message larger than `maxBytes` is cut mid-message, keeping byte streams strictly bounded. JSON, NDJSON and framed messages are returned whole.
+ * NOTE: `readEndOffset` is where the read messages stop when that is short of the tail, for stores that read fewer messages than the page could hold.
+ * NOTE: a `filter` is applied to the bounded page, so the page's `nextOffset` is the same as without it.
+ */
+export const paginateMessages = (
+  messages: readonly StreamMessage[],
+  tailOffset: Offset,
+  format: StreamFormat,
+  options: GetOptions | undefined,
+  readEndOffset?: Offset
+): ReadPage => {
+  validateGetOptions(options);
+  const filter = readFilter(format, options);
+  const page = pageMessages(
+    messages,
+    tailOffset,
+    format,
+    options,
+    readEndOffset
+  );
+  return filter === undefined
+    ? page
+    : {
+        ...page,
+        messages: filterMessages(page.messages, format.contentType, filter),
+      };
+};
@@ -1,6 +1,6 @@
 import { Deferred, Effect } from "effect";
-import { offsetToBytePos } from "../offsets.js";
 import type { Offset, WaitResult } from "../types.js";
+import { type MessageLog, sliceMessages } from "./utils.js";
 
 export type Waiter = {
   readonly deferred: Deferred.Deferred<WaitResult>;
@@ -12,23 +12,48 @@ type WaiterList = {
   readonly remove: (waiter: Waiter) => void;
 };
 
+/**
+ * re-reads a stream when a notifier reports a change from another isolate.
+ * NOTE: `read` returns `undefined` while there is still nothing past the waiter's offset, so the waiter keeps waiting.
+ */
+export type WaiterRecheck = {
+  readonly subscribe: (onChange: () => void) => () => void;
+  readonly read: () => Promise<WaitResult | undefined>;
+};
+
 const timeoutResult: WaitResult = { messages: [], timedOut: true };
+const changedResult: WaitResult = { messages: [], timedOut: false };
+
+/**
+ * resolves a waiter from a notifier-triggered re-read.
+ * NOTE: a failed re-read (e.g. the stream was deleted elsewhere) wakes the waiter empty-handed, like a local delete, so the caller's own read reports the error.
+ */
+const subscribeRecheck = (
+  deferred: Deferred.Deferred<WaitResult>,
+  recheck: WaiterRecheck
+): (() => void) =>
+  recheck.subscribe(() => {
+    recheck.read().then(
+      (result) => {
+        if (result) {
+          Effect.runSync(Deferred.succeed(deferred, result));
+        }
+      },
+      () => {
+        Effect.runSync(Deferred.succeed(deferred, changedResult));
+      }
+    );
+  });
 
-const waitResultFromData = (
+const waitResultFromLog = (
   offset: Offset,
-  data: Uint8Array,
+  log: MessageLog,
   closed: boolean | undefined
 ): WaitResult | undefined => {
-  const byteOffset = offsetToBytePos(offset);
-
-  if (byteOffset < data.length) {
-    return {
-      messages: [
-        { offset, timestamp: Date.now(), data: data.slice(byteOffset) },
-      ],
-      timedOut: false,
-      closed,
-    };
+  const messages = sliceMessages(log, offset);
+
+  if (messages.length > 0) {
+    return { messages, timedOut: false, closed };
   }
 
   if (closed === true) {
@@ -39,12 +64,14 @@ const waitResultFromData = (
 export const waitForChange = (
   waiters: WaiterList,
   offset: Offset,
-  timeoutMs: number
+  timeoutMs: number,
+  recheck?: WaiterRecheck
 ): Promise<WaitResult> => {
   const effect = Effect.gen(function* () {
     const deferred = yield* Deferred.make<WaitResult>();
     const waiter: Waiter = { deferred, offset };
     waiters.add(waiter);
+    const unsubscribe = recheck ? subscribeRecheck(deferred, recheck) : null;
 
     const timeout = Effect.as(
       Effect.delay(Effect.void, timeoutMs),
@@ -53,6 +80,7 @@ export const waitForChange = (
 
     const result = yield* Effect.race(Deferred.await(deferred), timeout);
     waiters.remove(waiter);
+    unsubscribe?.();
 
     return result;
   });
@@ -62,12 +90,12 @@ export const waitForChange = (
 
 export const notifyDataWaiters = (
   waiters: readonly Waiter[],
-  data: Uint8Array,
+  log: MessageLog,
   closed: boolean | undefined,
   requeue: (waiter: Waiter) => void
 ): void => {
   const effect = Effect.forEach(waiters, (waiter) => {
-    const result = waitResultFromData(waiter.offset, data, closed);
+    const result = waitResultFromLog(waiter.offset, log, closed);
     return result
       ? Deferred.succeed(waiter.deferred, result)
       : Effect.sync(() => requeue(waiter));
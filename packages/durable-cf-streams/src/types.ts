@@ -1,12 +1,24 @@
 export type {
   Cursor,
   ETag,
+  JsonSchema,
   Offset,
   ProducerState,
   ProducerStateMap,
+  RetentionPolicy,
+  StorageCompression,
+  StreamFraming,
+  WrappedDataKey,
 } from "./schema.js";
 
-import type { Cursor, ETag, Offset } from "./schema.js";
+import type {
+  Cursor,
+  ETag,
+  JsonSchema,
+  Offset,
+  RetentionPolicy,
+  StreamFraming,
+} from "./schema.js";
 
 export type StreamMessage = {
   readonly offset: Offset;
@@ -27,6 +39,13 @@ export type StreamMetadata = {
   readonly forkSubOffset?: number;
   readonly childCount?: number;
   readonly deleted?: boolean;
+  readonly retention?: RetentionPolicy;
+  /**
+   * earliest offset still stored once retention has trimmed the stream.
+   */
+  readonly trimmedOffset?: Offset;
+  readonly framing?: StreamFraming;
+  readonly jsonSchema?: JsonSchema;
 };
 
 export type PutOptions = {
@@ -38,6 +57,21 @@ export type PutOptions = {
   readonly forkedFrom?: string;
   readonly forkOffset?: Offset;
   readonly forkSubOffset?: number;
+  /**
+   * limits that trim the oldest appends instead of expiring the whole stream.
+   * NOTE: forks inherit the source policy unless one is given here.
+   */
+  readonly retention?: RetentionPolicy;
+  /**
+   * stores each append with a length prefix so binary readers can split records.
+   * NOTE: only for non-JSON content types; forks inherit the source's framing.
+   */
+  readonly framing?: StreamFraming;
+  /**
+   * rejects appended items that do not match this JSON Schema with `SchemaViolationError`.
+   * NOTE: only for JSON and NDJSON streams; forks inherit the source's schema.
+   */
+  readonly jsonSchema?: JsonSchema;
 };
 
 export type PutResult = {
@@ -61,6 +95,23 @@ export type AppendResult = {
   readonly appended?: boolean;
 };
 
+/**
+ * result of `appendBatch`, with where each record starts.
+ * NOTE: `offsets` is empty when nothing was written, e.g. for a duplicate producer batch.
+ */
+export type AppendBatchResult = AppendResult & {
+  readonly offsets: readonly Offset[];
+};
+
+/**
+ * one append of a multi-stream `transaction`.
+ */
+export type TransactionAppend = {
+  readonly path: string;
+  readonly data: Uint8Array;
+  readonly options?: AppendOptions;
+};
+
 export type ProducerAppendOptions = {
   readonly id: string;
   readonly epoch: number;
@@ -76,6 +127,49 @@ export type ProducerAppendResult = {
 
 export type GetOptions = {
   readonly offset?: Offset;
+  /**
+   * epoch milliseconds to start reading from instead of `offset`.
+   * NOTE: the read starts at the first append written at or after this time, or at the tail when nothing is that recent.
+   */
+  readonly fromTimestamp?: number;
+  /**
+   * max data bytes in one read.
+   * NOTE: JSON messages are never split, so the first message of a page is returned whole even when it is larger than this.
+   */
+  readonly maxBytes?: number;
+  /**
+   * max messages in one read.
+   */
+  readonly maxMessages?: number;
+  /**
+   * a filter expression, e.g. `$.type == "click" && $.value > 10`, that JSON and NDJSON reads return only the matching items of.
+   * NOTE: `nextOffset` still moves past the items it drops, and `maxBytes` and `maxMessages` count messages before filtering, so a page can come back empty without being at the tail.
+   */
+  readonly filter?: string;
+};
+
+export type ListOptions = {
+  /**
+   * only list streams whose path starts with this.
+   */
+  readonly prefix?: string;
+  /**
+   * `cursor` from the previous page.
+   */
+  readonly cursor?: string;
+  /**
+   * max streams in one page.
+   */
+  readonly limit?: number;
+};
+
+export type ListResult = {
+  readonly streams: StreamMetadata[];
+  /**
+   * set when more streams may follow; pass it back to read the next page.
+   * NOTE: expired and deleted streams are skipped, so a page can hold fewer than `limit` streams and still have a cursor.
+   */
+  readonly cursor?: string;
 };
 
 export type GetResult = {
@@ -86,6 +180,7 @@ export type GetResult = {
   readonly etag: ETag;
   readonly contentType: string;
   readonly closed: boolean;
+  readonly framing?: StreamFraming;
 };
 
 export type HeadResult = {
@@ -95,6 +190,15 @@ export type HeadResult = {
   readonly closed: boolean;
   readonly ttlSeconds?: number;
   readonly expiresAt?: string;
+  readonly framing?: StreamFraming;
+  readonly jsonSchema?: JsonSchema;
+};
+
+export type FormatOptions = {
+  /**
+   * returns a framed stream as a `multipart/mixed` body with this boundary, one part per record.
+   */
+  readonly multipartBoundary?: string;
 };
 
 export type WaitResult = {